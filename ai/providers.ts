@@ -1,6 +1,6 @@
 import { wrapLanguageModel, customProvider, extractReasoningMiddleware, gateway } from 'ai';
 
-import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { createOpenAICompatible, type OpenAICompatibleProvider } from '@ai-sdk/openai-compatible';
 import { openai } from '@ai-sdk/openai';
 import { createXai } from '@ai-sdk/xai';
 import { groq } from '@ai-sdk/groq';
@@ -8,6 +8,14 @@ import { mistral } from '@ai-sdk/mistral';
 import { google } from '@ai-sdk/google';
 import { anthropic } from '@ai-sdk/anthropic';
 import { cohere } from '@ai-sdk/cohere';
+import {
+  getRegistryEntry,
+  modelRegistry,
+  type ModelParameters,
+  type ModelProviderOptions,
+  type ModelRegistryEntry,
+  type ProviderConfig,
+} from './registry';
 
 const middleware = extractReasoningMiddleware({
   tagName: 'think',
@@ -18,46 +26,6 @@ const middlewareWithStartWithReasoning = extractReasoningMiddleware({
   startWithReasoning: true,
 });
 
-const huggingface = createOpenAICompatible({
-  name: 'huggingface',
-  baseURL: 'https://router.huggingface.co/v1',
-  apiKey: process.env.HF_TOKEN,
-});
-
-const novita = createOpenAICompatible({
-  name: 'novita',
-  baseURL: 'https://api.novita.ai/openai',
-  apiKey: process.env.NOVITA_API_KEY,
-});
-
-const anannas = createOpenAICompatible({
-  name: 'anannas',
-  baseURL: 'https://api.anannas.ai/v1',
-  apiKey: process.env.ANANNAS_API_KEY,
-  headers: {
-    'HTTP-Referer': 'https://scira.ai',
-    'X-Title': 'Scira AI',
-    'Content-Type': 'application/json',
-  },
-});
-
-const openrouter = createOpenAICompatible({
-  name: 'openrouter',
-  baseURL: 'https://openrouter.ai/api/v1',
-  apiKey: process.env.OPENROUTER_API_KEY,
-  headers: {
-    'HTTP-Referer': 'https://scira.ai',
-    'X-Title': 'Scira AI',
-    'Content-Type': 'application/json',
-  },
-});
-
-const ollama = createOpenAICompatible({
-  name: 'ollama',
-  baseURL: process.env.OLLAMA_BASE_URL || 'http://127.0.0.1:11434/v1',
-  apiKey: process.env.OLLAMA_API_KEY || 'ollama',
-});
-
 const xai = createXai({
   apiKey: process.env.XAI_API_KEY,
   baseURL: 'https://us-east-1.api.x.ai/v1',
@@ -68,197 +36,61 @@ const xaiEU = createXai({
   baseURL: 'https://eu-west-1.api.x.ai/v1',
 });
 
+type RegistryLanguageModel = ReturnType<typeof wrapLanguageModel>;
+
+const builtInProviders: Record<string, (modelId: string) => RegistryLanguageModel> = {
+  xai: (modelId) => xai(modelId),
+  'xai-eu': (modelId) => xaiEU(modelId),
+  openai: (modelId) => openai(modelId),
+  groq: (modelId) => groq(modelId),
+  mistral: (modelId) => mistral(modelId),
+  google: (modelId) => google(modelId),
+  anthropic: (modelId) => anthropic(modelId),
+  cohere: (modelId) => cohere(modelId),
+  gateway: (modelId) => gateway(modelId),
+};
+
+function createCompatibleProvider(name: string, config: ProviderConfig): OpenAICompatibleProvider {
+  return createOpenAICompatible({
+    name,
+    baseURL: (config.baseURLEnv && process.env[config.baseURLEnv]) || config.baseURL,
+    apiKey: (config.apiKeyEnv && process.env[config.apiKeyEnv]) || config.apiKey,
+    headers: config.headers,
+  });
+}
+
+const compatibleProviders = Object.fromEntries(
+  Object.entries(modelRegistry.providers).map(([name, config]) => [name, createCompatibleProvider(name, config)]),
+);
 
-const baseten = createOpenAICompatible({
-  name: 'baseten',
-  baseURL: 'https://inference.baseten.co/v1',
-  apiKey: process.env.BASETEN_API_KEY,
-});
+function createRegistryModel(entry: ModelRegistryEntry): RegistryLanguageModel {
+  const modelId = (entry.upstreamModelEnv && process.env[entry.upstreamModelEnv]) || entry.upstreamModel;
+  const compatible = compatibleProviders[entry.provider];
+  const createModel = compatible ? (id: string) => compatible.chatModel(id) : builtInProviders[entry.provider];
+  if (!createModel) {
+    throw new Error(`Unknown provider "${entry.provider}" for model "${entry.id}" in ai/models.json`);
+  }
 
+  const model = createModel(modelId);
+  if (!entry.middleware) return model;
+  return wrapLanguageModel({
+    model,
+    middleware: entry.middleware === 'think-start' ? [middlewareWithStartWithReasoning] : middleware,
+  });
+}
+
+const openrouter =
+  compatibleProviders.openrouter ??
+  createCompatibleProvider('openrouter', {
+    type: 'openai-compatible',
+    baseURL: 'https://openrouter.ai/api/v1',
+    apiKeyEnv: 'OPENROUTER_API_KEY',
+  });
 
 export const scira = customProvider({
-  languageModels: {
-    'scira-default': xai('grok-4-1-fast-non-reasoning'),
-    'scira-grok4.1-fast-thinking': xai('grok-4-1-fast'),
-    'scira-nano': groq('llama-3.3-70b-versatile'),
-    'scira-name': gateway('google/gemini-2.5-flash-lite-preview-09-2025'),
-    'scira-grok-3-mini': xai('grok-3-mini'),
-    'scira-grok-3': xai('grok-3'),
-    'scira-grok-4': xai('grok-4'),
-    'scira-grok-4-fast': xai('grok-4-fast-non-reasoning'),
-    'scira-grok-4-fast-think': xai('grok-4-fast'),
-    'scira-code': xai('grok-code-fast-1'),
-    'scira-enhance': groq('moonshotai/kimi-k2-instruct-0905'),
-    'scira-follow-up': xaiEU('grok-4-1-fast-non-reasoning'),
-    'scira-qwen-4b': huggingface.chatModel('Qwen/Qwen3-4B-Instruct-2507:nscale'),
-    'scira-qwen-4b-thinking': wrapLanguageModel({
-      model: huggingface.chatModel('Qwen/Qwen3-4B-Thinking-2507:nscale'),
-      middleware: [middlewareWithStartWithReasoning],
-    }),
-    'scira-gpt-4.1-nano': openai('gpt-4.1-nano'),
-    'scira-gpt-4.1-mini': openai('gpt-4.1-mini'),
-    'scira-gpt-4.1': openai('gpt-4.1'),
-    'scira-gpt-5.1': openai('gpt-5.1'),
-    'scira-gpt-5.1-thinking': openai('gpt-5.1'),
-    'scira-gpt-5.2': openai('gpt-5.2'),
-    'scira-gpt-5.2-thinking': openai('gpt-5.2'),
-    'scira-gpt-5.1-codex': openai('gpt-5.1-codex'),
-    'scira-gpt-5.1-codex-mini': openai('gpt-5.1-codex-mini'),
-    'scira-gpt-5.1-codex-max': openai('gpt-5.1-codex-max'),
-    'scira-gpt5': openai('gpt-5'),
-    'scira-gpt5-medium': openai('gpt-5'),
-    'scira-gpt5-mini': openai('gpt-5-mini'),
-    'scira-gpt5-nano': openai('gpt-5-nano'),
-    'scira-o3': openai('o3'),
-    'scira-o4-mini': openai('o4-mini'),
-    'scira-gpt5-codex': openai('gpt-5-codex'),
-    'scira-qwen-32b': wrapLanguageModel({
-      model: groq('qwen/qwen3-32b'),
-      middleware,
-    }),
-    'scira-qwen-32b-thinking': wrapLanguageModel({
-      model: groq('qwen/qwen3-32b'),
-      middleware,
-    }),
-    'scira-gpt-oss-20': wrapLanguageModel({
-      model: groq('openai/gpt-oss-20b'),
-      middleware,
-    }),
-    'scira-gpt-oss-120': wrapLanguageModel({
-      model: baseten('openai/gpt-oss-120b'),
-      middleware,
-    }),
-    'scira-trinity-mini': wrapLanguageModel({
-      model: gateway('arcee-ai/trinity-mini'),
-      middleware,
-    }),
-    'scira-kat-coder': novita.chatModel('kat-coder'),
-    'scira-openrouter': openrouter.chatModel(process.env.OPENROUTER_MODEL || 'qwen/qwen3-32b'),
-    'scira-ollama': ollama.chatModel(process.env.OLLAMA_MODEL || 'qwen3:8b'),
-    'scira-deepseek-v3': baseten('deepseek-ai/DeepSeek-V3-0324'),
-    'scira-deepseek-v3.1-terminus': novita.chatModel('deepseek/deepseek-v3.1-terminus'),
-    'scira-deepseek-chat': gateway('deepseek/deepseek-v3.2'),
-    'scira-deepseek-chat-think': gateway('deepseek/deepseek-v3.2-thinking'),
-    'scira-deepseek-chat-exp': novita.chatModel('deepseek/deepseek-v3.2-exp'),
-    'scira-deepseek-chat-think-exp': wrapLanguageModel({
-      model: gateway('deepseek/deepseek-v3.2-exp-thinking'),
-      middleware,
-    }),
-    'scira-v0-10': gateway('vercel/v0-1.0-md'),
-    'scira-v0-15': gateway('vercel/v0-1.5-md'),
-    'scira-deepseek-r1': wrapLanguageModel({
-      model: novita.chatModel('deepseek/deepseek-r1-turbo'),
-      middleware,
-    }),
-    'scira-deepseek-r1-0528': wrapLanguageModel({
-      model: novita.chatModel('deepseek/deepseek-r1-0528'),
-      middleware,
-    }),
-    'scira-qwen-coder-small': novita.chatModel('qwen/qwen3-coder-30b-a3b-instruct'),
-    'scira-qwen-coder': baseten('Qwen/Qwen3-Coder-480B-A35B-Instruct'),
-    'scira-qwen-coder-plus': gateway('alibaba/qwen3-coder-plus'),
-    'scira-qwen-30': huggingface.chatModel('Qwen/Qwen3-30B-A3B-Instruct-2507:nebius'),
-    'scira-qwen-30-think': wrapLanguageModel({
-      model: huggingface.chatModel('Qwen/Qwen3-30B-A3B-Thinking-2507:nebius'),
-      middleware,
-    }),
-    'scira-qwen-3-vl-30b': novita.chatModel('qwen/qwen3-vl-30b-a3b-instruct'),
-    'scira-qwen-3-vl-30b-thinking': wrapLanguageModel({
-      model: novita.chatModel('qwen/qwen3-vl-30b-a3b-thinking'),
-      middleware,
-    }),
-    'scira-qwen-3-next': huggingface.chatModel('Qwen/Qwen3-Next-80B-A3B-Instruct:hyperbolic'),
-    'scira-qwen-3-next-think': wrapLanguageModel({
-      model: huggingface.chatModel('Qwen/Qwen3-Next-80B-A3B-Thinking:hyperbolic'),
-      middleware: [middlewareWithStartWithReasoning],
-    }),
-    'scira-qwen-3-max': novita.chatModel('qwen/qwen3-max'),
-    'scira-qwen-3-max-preview': gateway('alibaba/qwen3-max-preview'),
-    'scira-qwen-235': gateway('alibaba/qwen-3-235b'),
-    'scira-qwen-235-think': wrapLanguageModel({
-      model: huggingface.chatModel('Qwen/Qwen3-235B-A22B-Thinking-2507:fireworks-ai'),
-      middleware: [middlewareWithStartWithReasoning],
-    }),
-    'scira-qwen-3-vl': novita.chatModel('qwen/qwen3-vl-235b-a22b-instruct'),
-    'scira-qwen-3-vl-thinking': wrapLanguageModel({
-      model: novita.chatModel('qwen/qwen3-vl-235b-a22b-thinking'),
-      middleware,
-    }),
-    'scira-glm-air': novita.chatModel('zai-org/glm-4.5-air'),
-    'scira-glm': wrapLanguageModel({
-      model: novita.chatModel('zai-org/glm-4.5'),
-      middleware,
-    }),
-    'scira-glm-4.6': wrapLanguageModel({
-      model: huggingface.chatModel('zai-org/GLM-4.6:cerebras'),
-      middleware,
-    }),
-    'scira-glm-4.6v-flash': wrapLanguageModel({
-      model: huggingface.chatModel('zai-org/GLM-4.6V-Flash:zai-org'),
-      middleware,
-    }),
-    'scira-glm-4.6v': wrapLanguageModel({
-      model: huggingface.chatModel('zai-org/GLM-4.6V:zai-org'),
-      middleware,
-    }),
-    'scira-glm-4.7': wrapLanguageModel({
-      model: baseten('zai-org/GLM-4.7'),
-      middleware,
-    }),
-    'scira-minimax': wrapLanguageModel({
-      model: novita.chatModel('minimaxai/minimax-m1-80k'),
-      middleware,
-    }),
-    'scira-minimax-m2': wrapLanguageModel({
-      model: gateway('minimax/minimax-m2'),
-      middleware,
-    }),
-    'scira-minimax-m2.1': wrapLanguageModel({
-      model: gateway('minimax/minimax-m2.1'),
-      middleware,
-    }),
-    'scira-minimax-m2.1-lightning': wrapLanguageModel({
-      model: gateway('minimax/minimax-m2.1-lightning'),
-      middleware,
-    }),
-    'scira-cmd-a': cohere('command-a-03-2025'),
-    'scira-cmd-a-think': cohere('command-a-reasoning-08-2025'),
-    'scira-kimi-k2-v2': baseten('moonshotai/Kimi-K2-Instruct-0905'),
-    'scira-kimi-k2-v2-thinking': wrapLanguageModel({
-      model: baseten('moonshotai/Kimi-K2-Thinking'),
-      middleware,
-    }),
-    'scira-haiku': anannas.chatModel('anthropic/claude-3-5-haiku-20241022'),
-    'scira-ministral-3b': mistral('ministral-3b-2512'),
-    'scira-ministral-8b': mistral('ministral-8b-2512'),
-    'scira-ministral-14b': mistral('ministral-14b-2512'),
-    'scira-mistral-large': mistral('mistral-large-2512'),
-    'scira-mistral-medium': mistral('mistral-medium-2508'),
-    'scira-magistral-small': mistral('magistral-small-2509'),
-    'scira-magistral-medium': mistral('magistral-medium-2509'),
-    'scira-devstral': mistral('devstral-2512'),
-    'scira-devstral-small': mistral('labs-devstral-small-2512'),
-    'scira-google-lite': google('gemini-flash-lite-latest'),
-    'scira-google': google('gemini-flash-latest'),
-    'scira-google-think': google('gemini-flash-latest'),
-    'scira-google-pro': google('gemini-2.5-pro'),
-    'scira-google-pro-think': google('gemini-2.5-pro'),
-    'scira-gemini-3-flash': google('gemini-3-flash-preview'),
-    'scira-gemini-3-flash-think': google('gemini-3-flash-preview'),
-    'scira-gemini-3-pro': google('gemini-3-pro-preview'),
-    'scira-anthropic-small': anthropic('claude-haiku-4-5'),
-    'scira-anthropic': anthropic('claude-sonnet-4-5'),
-    'scira-anthropic-think': anthropic('claude-sonnet-4-5'),
-    'scira-mimo-v2-flash': wrapLanguageModel({
-      model: novita.chatModel('xiaomimimo/mimo-v2-flash'),
-      middleware,
-    }),
-    'scira-anthropic-opus': anthropic('claude-opus-4-5'),
-    'scira-anthropic-opus-think': anthropic('claude-opus-4-5'),
-    'scira-nova-2-lite': gateway('amazon/nova-2-lite'),
-  },
-  textEmbeddingModels: {
-    'scira-default-embedding': openrouter.textEmbeddingModel(
+  languageModels: Object.fromEntries(modelRegistry.models.map((entry) => [entry.id, createRegistryModel(entry)])),
+  embeddingModels: {
+    'scira-default-embedding': openrouter.embeddingModel(
       process.env.OPENROUTER_EMBEDDING_MODEL || 'qwen/qwen3-embedding-8b',
     ),
   },
@@ -266,16 +98,6 @@ export const scira = customProvider({
 
 export const DEFAULT_EMBEDDING_MODEL = process.env.OPENROUTER_EMBEDDING_MODEL || 'qwen/qwen3-embedding-8b';
 
-interface ModelParameters {
-  temperature?: number;
-  topP?: number;
-  topK?: number;
-  minP?: number;
-  frequencyPenalty?: number;
-  presencePenalty?: number;
-  maxOutputTokens?: number;
-}
-
 interface Model {
   value: string;
   label: string;
@@ -295,1644 +117,27 @@ interface Model {
   parameters?: ModelParameters;
 }
 
-export const models: Model[] = [
-  // Models (xAI)
-  {
-    value: 'scira-grok-3-mini',
-    label: 'Grok 3 Mini',
-    description: "xAI's recent smallest LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: false,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-  },
-  {
-    value: 'scira-grok-3',
-    label: 'Grok 3',
-    description: "xAI's recent smartest LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-  },
-  {
-    value: 'scira-grok-4',
-    label: 'Grok 4',
-    description: "xAI's most intelligent LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-  },
-  {
-    value: 'scira-default',
-    label: 'Grok 4.1 Fast',
-    description: "xAI's greatest and fastest multimodel LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: false,
-    freeUnlimited: false,
-    maxOutputTokens: 30000,
-    extreme: true,
-    fast: true,
-    isNew: true,
-  },
-  {
-    value: 'scira-grok4.1-fast-thinking',
-    label: 'Grok 4.1 Fast Thinking',
-    description: "xAI's greatest and fastest multimodel reasoning LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 30000,
-    extreme: true,
-    fast: true,
-    isNew: true,
-  },
-  {
-    value: 'scira-grok-4-fast',
-    label: 'Grok 4 Fast',
-    description: "xAI's previous fastest multimodel LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 30000,
-    extreme: true,
-    fast: true,
-    isNew: true,
-  },
-  {
-    value: 'scira-grok-4-fast-think',
-    label: 'Grok 4 Fast Thinking',
-    description: "xAI's previous fastest multimodel reasoning LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 30000,
-    extreme: true,
-    fast: true,
-    isNew: true,
-    parameters: {
-      maxOutputTokens: 30000,
-    },
-  },
-  {
-    value: 'scira-code',
-    label: 'Grok Code',
-    description: "xAI's advanced coding LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    fast: true,
-  },
-  {
-    value: 'scira-qwen-32b',
-    label: 'Qwen 3 32B',
-    description: "Alibaba's base LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: false,
-    freeUnlimited: false,
-    maxOutputTokens: 40960,
-    fast: true,
-    parameters: {
-      temperature: 0.7,
-      topP: 0.8,
-      topK: 20,
-      minP: 0,
-    },
-  },
-  {
-    value: 'scira-qwen-32b-thinking',
-    label: 'Qwen 3 32B Thinking',
-    description: "Alibaba's base reasoning LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: false,
-    freeUnlimited: false,
-    maxOutputTokens: 40960,
-    fast: true,
-    parameters: {
-      temperature: 0.6,
-      topP: 0.95,
-      topK: 20,
-      minP: 0,
-    },
-  },
-  {
-    value: 'scira-qwen-4b',
-    label: 'Qwen 3 4B',
-    description: "Alibaba's small base LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: false,
-    maxOutputTokens: 16000,
-    freeUnlimited: false,
-    parameters: {
-      temperature: 0.7,
-      topP: 0.8,
-      topK: 20,
-      minP: 0,
-    },
-  },
-  {
-    value: 'scira-qwen-4b-thinking',
-    label: 'Qwen 3 4B Thinking',
-    description: "Alibaba's small base LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: true,
-    maxOutputTokens: 16000,
-    freeUnlimited: false,
-    parameters: {
-      temperature: 0.6,
-      topP: 0.95,
-      topK: 20,
-      minP: 0,
-    },
-  },
-  {
-    value: 'scira-gpt-oss-20',
-    label: 'GPT OSS 20B',
-    description: "OpenAI's small OSS LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    fast: true,
-  },
-  {
-    value: 'scira-gpt5-nano',
-    label: 'GPT 5 Nano',
-    description: "OpenAI's smallest flagship LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: true,
-  },
-  {
-    value: 'scira-google-lite',
-    label: 'Gemini 2.5 Flash Lite',
-    description: "Google's advanced small LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: true,
-    pro: false,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 10000,
-    extreme: true,
-    isNew: true,
-  },
-  {
-    value: 'scira-ministral-3b',
-    label: 'Ministral 3 3B',
-    description: "Mistral's mini-model 3B multi-modal LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: true,
-    pro: false,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-ministral-8b',
-    label: 'Ministral 3 8B',
-    description: "Mistral's mini-model 8B multi-modal LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: true,
-    pro: false,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-devstral',
-    label: 'Devstral 2',
-    description: "Mistral's coding-focused LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: true,
-    pro: false,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-devstral-small',
-    label: 'Devstral Small 2',
-    description: "Mistral's small coding-focused LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: true,
-    pro: false,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-ministral-14b',
-    label: 'Ministral 3 14B',
-    description: "Mistral's mini-model 14B multi-modal LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-mistral-large',
-    label: 'Mistral Large 3',
-    description: "Mistral's latest and greatest large multi-modal LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-mistral-medium',
-    label: 'Mistral Medium',
-    description: "Mistral's medium multi-modal LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-magistral-small',
-    label: 'Magistral Small',
-    description: "Mistral's small reasoning LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-magistral-medium',
-    label: 'Magistral Medium',
-    description: "Mistral's medium reasoning LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-trinity-mini',
-    label: 'Trinity Mini',
-    description: "Arcee's small reasoning LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-    parameters: {
-      temperature: 0.15,
-      topK: 50,
-      topP: 0.75,
-      minP: 0.06,
-    },
-  },
-  {
-    value: 'scira-gpt-oss-120',
-    label: 'GPT OSS 120B',
-    description: "OpenAI's advanced OSS LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    fast: true,
-  },
-  {
-    value: 'scira-gpt-4.1-nano',
-    label: 'GPT 4.1 Nano',
-    description: "OpenAI's smallest LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: true,
-    pro: false,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: true,
-  },
-  {
-    value: 'scira-gpt-4.1-mini',
-    label: 'GPT 4.1 Mini',
-    description: "OpenAI's small LLM",
-    vision: true,
-    reasoning: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    fast: true,
-    extreme: true,
-    experimental: false,
-  },
-  {
-    value: 'scira-gpt-4.1',
-    label: 'GPT 4.1',
-    description: "OpenAI's LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-gpt-5.1',
-    label: 'GPT 5.1 Instant',
-    description: "OpenAI's fast and smart LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-gpt-5.1-thinking',
-    label: 'GPT 5.1 Thinking',
-    description: "OpenAI's recent and smart reasoning LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-gpt-5.2',
-    label: 'GPT 5.2 Instant',
-    description: "OpenAI's latest and greatest LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-gpt-5.2-thinking',
-    label: 'GPT 5.2 Thinking',
-    description: "OpenAI's latest and greatest reasoning LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-gpt5-mini',
-    label: 'GPT 5 Mini',
-    description: "OpenAI's small flagship LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-gpt5',
-    label: 'GPT 5',
-    description: "OpenAI's flagship LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-o4-mini',
-    label: 'o4 mini',
-    description: "OpenAI's recent mini reasoning LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-o3',
-    label: 'o3',
-    description: "OpenAI's advanced LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-gpt5-medium',
-    label: 'GPT 5 Medium',
-    description: "OpenAI's latest flagship reasoning LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-gpt-5.1-codex',
-    label: 'GPT 5.1 Codex',
-    description: "OpenAI's advanced coding LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-gpt-5.1-codex-mini',
-    label: 'GPT 5.1 Codex Mini',
-    description: "OpenAI's advanced coding LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-gpt-5.1-codex-max',
-    label: 'GPT 5.1 Codex Max',
-    description: "OpenAI's advanced coding LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-gpt5-codex',
-    label: 'GPT 5 Codex',
-    description: "OpenAI's advanced coding LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    extreme: true,
-    fast: false,
-    isNew: true,
-  },
-  {
-    value: 'scira-cmd-a',
-    label: 'Command A',
-    description: "Cohere's advanced command LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-cmd-a-think',
-    label: 'Command A Thinking',
-    description: "Cohere's advanced command LLM with thinking",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-kat-coder',
-    label: 'KAT-Coder-Pro V1',
-    description: "Kwaipilot's advanced coding LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-deepseek-v3',
-    label: 'DeepSeek v3',
-    description: "DeepSeek's previous advanced chat LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-    parameters: {
-      temperature: 0.7,
-      topP: 0.8,
-      topK: 20,
-      minP: 0,
-    },
-  },
-  {
-    value: 'scira-deepseek-v3.1-terminus',
-    label: 'DeepSeek v3.1 Terminus',
-    description: "DeepSeek's advanced chat LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-    parameters: {
-      temperature: 0.7,
-      topP: 0.8,
-      topK: 20,
-      minP: 0,
-    },
-  },
-  {
-    value: 'scira-deepseek-chat',
-    label: 'DeepSeek v3.2',
-    description: "DeepSeek's advanced chat LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-    parameters: {
-      temperature: 1.0,
-      topP: 0.95,
-    },
-  },
-  {
-    value: 'scira-deepseek-chat-think',
-    label: 'DeepSeek v3.2 Thinking',
-    description: "DeepSeek's advanced chat LLM with thinking",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-deepseek-chat-exp',
-    label: 'DeepSeek v3.2 Exp',
-    description: "DeepSeek's advanced chat LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-deepseek-chat-think-exp',
-    label: 'DeepSeek v3.2 Exp Thinking',
-    description: "DeepSeek's advanced chat LLM with thinking",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-deepseek-r1',
-    label: 'DeepSeek R1',
-    description: "DeepSeek's advanced reasoning LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-deepseek-r1-0528',
-    label: 'DeepSeek R1 0528',
-    description: "DeepSeek's advanced reasoning LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-qwen-coder-small',
-    label: 'Qwen 3 Coder 30B A3B Instruct',
-    description: "Alibaba's advanced coding LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 10000,
-    fast: false,
-    parameters: {
-      temperature: 0.7,
-      topP: 0.8,
-      topK: 20,
-      minP: 0,
-    },
-    isNew: true,
-  },
-  {
-    value: 'scira-qwen-coder',
-    label: 'Qwen 3 Coder',
-    description: "Alibaba's advanced coding LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 130000,
-    fast: true,
-  },
-  {
-    value: 'scira-qwen-coder-plus',
-    label: 'Qwen 3 Coder Plus',
-    description: "Alibaba's extremely advanced coding LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 130000,
-    fast: false,
-  },
-  {
-    value: 'scira-qwen-3-vl-30b',
-    label: 'Qwen 3 VL 30B',
-    description: "Alibaba's advanced vision LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 130000,
-    fast: true,
-    parameters: {
-      temperature: 0.7,
-      topP: 0.8,
-      topK: 20,
-      minP: 0,
-    },
-  },
-  {
-    value: 'scira-qwen-3-vl-30b-thinking',
-    label: 'Qwen 3 VL 30B Thinking',
-    description: "Alibaba's advanced vision LLM with thinking",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 130000,
-    fast: true,
-    parameters: {
-      temperature: 0.7,
-      topP: 0.8,
-      topK: 20,
-      minP: 0,
-    },
-    isNew: true,
-  },
-  {
-    value: 'scira-qwen-3-next',
-    label: 'Qwen 3 Next 80B A3B Instruct',
-    description: "Qwen's advanced instruct LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 100000,
-    fast: true,
-    isNew: true,
-    parameters: {
-      temperature: 0.7,
-      topP: 0.8,
-      minP: 0,
-    },
-  },
-  {
-    value: 'scira-qwen-3-next-think',
-    label: 'Qwen 3 Next 80B A3B Thinking',
-    description: "Qwen's advanced thinking LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 100000,
-    isNew: true,
-    parameters: {
-      temperature: 0.6,
-      topP: 0.95,
-      minP: 0,
-    },
-  },
-  {
-    value: 'scira-qwen-3-max',
-    label: 'Qwen 3 Max',
-    description: "Qwen's advanced instruct LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 10000,
-    isNew: true,
-  },
-  {
-    value: 'scira-qwen-3-max-preview',
-    label: 'Qwen 3 Max Preview',
-    description: "Qwen's advanced instruct LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 10000,
-    isNew: true,
-  },
-  {
-    value: 'scira-qwen-235',
-    label: 'Qwen 3 235B A22B',
-    description: "Qwen's advanced instruct LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 100000,
-    parameters: {
-      temperature: 0.7,
-      topP: 0.8,
-      minP: 0,
-    },
-  },
-  {
-    value: 'scira-qwen-235-think',
-    label: 'Qwen 3 235B A22B Thinking',
-    description: "Qwen's advanced thinking LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 100000,
-    parameters: {
-      temperature: 0.6,
-      topP: 0.95,
-      minP: 0,
-    },
-  },
-  {
-    value: 'scira-qwen-3-vl',
-    label: 'Qwen 3 VL 235B A22B Instruct',
-    description: "Qwen's advanced vision LLM with thinking",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 10000,
-    parameters: {
-      temperature: 0.6,
-      topP: 0.95,
-      minP: 0,
-    },
-    isNew: true,
-  },
-  {
-    value: 'scira-qwen-3-vl-thinking',
-    label: 'Qwen 3 VL 235B A22B Thinking',
-    description: "Qwen's advanced vision LLM with thinking",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 10000,
-    parameters: {
-      temperature: 0.6,
-      topP: 0.95,
-      minP: 0,
-    },
-    isNew: true,
-  },
-  {
-    value: 'scira-kimi-k2-v2',
-    label: 'Kimi K2 Latest',
-    description: "MoonShot AI's advanced base LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 10000,
-    fast: true,
-    parameters: {
-      temperature: 0.6,
-    },
-  },
-  {
-    value: 'scira-kimi-k2-v2-thinking',
-    label: 'Kimi K2 Thinking',
-    description: "MoonShot AI's advanced base LLM with thinking",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 10000,
-    fast: true,
-    parameters: {
-      temperature: 1,
-    },
-    isNew: true,
-  },
-  // sherlock experimental models
-
-  {
-    value: 'scira-minimax',
-    label: 'Minimax M1 80K',
-    description: "Minimax's advanced reasoning LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 10000,
-    isNew: true,
-    parameters: {
-      temperature: 0.6,
-    },
-  },
-  {
-    value: 'scira-minimax-m2',
-    label: 'Minimax M2',
-    description: "Minimax's advanced reasoning LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 10000,
-    isNew: true,
-    parameters: {
-      temperature: 1.0,
-      topP: 0.95,
-      topK: 40,
-    },
-  },
-  {
-    value: 'scira-minimax-m2.1',
-    label: 'Minimax M2.1',
-    description: "Minimax's latest advanced reasoning LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 10000,
-    isNew: true,
-    parameters: {
-      temperature: 1.0,
-      topP: 0.95,
-      topK: 40,
-    },
-  },
-  {
-    value: 'scira-minimax-m2.1-lightning',
-    label: 'Minimax M2.1 Lightning',
-    description: "Minimax's fast advanced reasoning LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 10000,
-    isNew: true,
-    fast: true,
-    parameters: {
-      temperature: 1.0,
-      topP: 0.95,
-      topK: 40,
-    },
-  },
-  {
-    value: 'scira-glm-4.6',
-    label: 'GLM 4.6',
-    description: "Zhipu AI's advanced reasoning LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 20000,
-    isNew: true,
-    fast: true,
-    parameters: {
-      temperature: 0.6,
-      topP: 0.95,
-    },
-  },
-  {
-    value: 'scira-glm-4.6v-flash',
-    label: 'GLM 4.6V Flash',
-    description: "Zhipu AI's fast vision reasoning LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 20000,
-    isNew: true,
-    fast: true,
-    parameters: {
-      temperature: 0.8,
-      topP: 0.6,
-      topK: 2,
-      frequencyPenalty: 1.1,
-    },
-  },
-  {
-    value: 'scira-glm-4.6v',
-    label: 'GLM 4.6V',
-    description: "Zhipu AI's advanced vision reasoning LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 20000,
-    isNew: true,
-    parameters: {
-      temperature: 0.8,
-      topP: 0.6,
-      topK: 2,
-      frequencyPenalty: 1.1,
-    },
-  },
-  {
-    value: 'scira-glm-4.7',
-    label: 'GLM 4.7',
-    description: "Zhipu AI's latest advanced reasoning LLM",
-    vision: false,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 20000,
-    isNew: true,
-    fast: true,
-    parameters: {
-      temperature: 1,
-      topP: 0.95,
-    },
-  },
-  {
-    value: 'scira-glm-air',
-    label: 'GLM 4.5 Air',
-    description: "Zhipu AI's efficient base LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 130000,
-    parameters: {
-      temperature: 0.6,
-      topP: 0.95,
-    },
-  },
-  {
-    value: 'scira-glm',
-    label: 'GLM 4.5',
-    description: "Zhipu AI's previous advanced LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 13000,
-    parameters: {
-      temperature: 0.6,
-      topP: 0.95,
-    },
-  },
-  {
-    value: 'scira-google',
-    label: 'Gemini 2.5 Flash',
-    description: "Google's advanced small LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    extreme: true,
-    maxOutputTokens: 10000,
-    isNew: true,
-  },
-  {
-    value: 'scira-google-think',
-    label: 'Gemini 2.5 Flash Thinking',
-    description: "Google's advanced small LLM with thinking",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    extreme: true,
-    maxOutputTokens: 10000,
-    isNew: true,
-  },
-  {
-    value: 'scira-google-pro',
-    label: 'Gemini 2.5 Pro',
-    description: "Google's advanced LLM",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    extreme: true,
-    maxOutputTokens: 10000,
-    isNew: true,
-  },
-  {
-    value: 'scira-google-pro-think',
-    label: 'Gemini 2.5 Pro Thinking',
-    description: "Google's advanced LLM with thinking",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    extreme: true,
-    maxOutputTokens: 10000,
-    isNew: true,
-  },
-  {
-    value: 'scira-gemini-3-flash',
-    label: 'Gemini 3 Flash',
-    description: "Google's latest small SOTA LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    extreme: true,
-    maxOutputTokens: 10000,
-    isNew: true,
-  },
-  {
-    value: 'scira-gemini-3-flash-think',
-    label: 'Gemini 3 Flash Thinking',
-    description: "Google's latest small SOTA LLM with thinking",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    extreme: true,
-    maxOutputTokens: 10000,
-    isNew: true,
-  },
-  {
-    value: 'scira-gemini-3-pro',
-    label: 'Gemini 3 Pro',
-    description: "Google's latest SOTA LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    extreme: true,
-    maxOutputTokens: 10000,
-    isNew: true,
-  },
-  {
-    value: 'scira-anthropic-small',
-    label: 'Claude Haiku 4.5',
-    description: "Anthropic's fast and efficient LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 8000,
-    isNew: true,
-  },
-  {
-    value: 'scira-anthropic',
-    label: 'Claude Sonnet 4.5',
-    description: "Anthropic's latest and greatest LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 8000,
-    isNew: false,
-  },
-  {
-    value: 'scira-anthropic-think',
-    label: 'Claude Sonnet 4.5 Thinking',
-    description: "Anthropic's latest and greatest LLM with thinking",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 8000,
-    isNew: false,
-  },
-  {
-    value: 'scira-anthropic-opus',
-    label: 'Claude 4.5 Opus',
-    description: "Anthropic's latest and greatest LLM",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 8000,
-    isNew: true,
-  },
-  {
-    value: 'scira-anthropic-opus-think',
-    label: 'Claude 4.5 Opus Thinking',
-    description: "Anthropic's latest and greatest LLM with thinking",
-    vision: true,
-    reasoning: true,
-    experimental: false,
-    category: 'Pro',
-    pdf: true,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 8000,
-    isNew: true,
-  },
-  {
-    value: 'scira-mimo-v2-flash',
-    label: 'Mimo V2 Flash',
-    description: "Xiaomi's fast Mimo V2 Flash model via OpenRouter (thinking disabled)",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-nova-2-lite',
-    label: 'Nova 2 Lite',
-    description: "Amazon's latest and smallest LLM",
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-v0-10',
-    label: 'Vercel v0 1.0',
-    description: "Vercel's v0 1.0 model",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-v0-15',
-    label: 'Vercel v0 1.5',
-    description: "Vercel's v0 1.5 model",
-    vision: true,
-    reasoning: false,
-    experimental: false,
-    category: 'Pro',
-    pdf: false,
-    pro: true,
-    requiresAuth: true,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-openrouter',
-    label: 'OpenRouter Qwen',
-    description: 'OpenRouter chat model (configurable via OPENROUTER_MODEL)',
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: false,
-    freeUnlimited: false,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-  {
-    value: 'scira-ollama',
-    label: 'Ollama Local',
-    description: 'Local Ollama model (configurable via OLLAMA_MODEL)',
-    vision: false,
-    reasoning: false,
-    experimental: false,
-    category: 'Free',
-    pdf: false,
-    pro: false,
-    requiresAuth: false,
-    freeUnlimited: true,
-    maxOutputTokens: 16000,
-    isNew: true,
-  },
-];
+// Models offered in the model picker, in registry order
+export const models: Model[] = modelRegistry.models
+  .filter((entry) => entry.listed)
+  .map((entry) => ({
+    value: entry.id,
+    label: entry.label ?? entry.id,
+    description: entry.description,
+    vision: entry.vision,
+    reasoning: entry.reasoning,
+    experimental: entry.experimental,
+    category: entry.category,
+    pdf: entry.pdf,
+    pro: entry.pro,
+    requiresAuth: entry.requiresAuth,
+    freeUnlimited: entry.freeUnlimited,
+    maxOutputTokens: entry.maxOutputTokens,
+    extreme: entry.extreme,
+    fast: entry.fast,
+    isNew: entry.isNew,
+    parameters: entry.parameters,
+  }));
 
 // Helper functions for model access checks
 export function getModelConfig(modelValue: string) {
@@ -1979,9 +184,38 @@ export function getMaxOutputTokens(modelValue: string): number {
   return model?.maxOutputTokens || 8000;
 }
 
+export function getContextWindow(modelValue: string): number {
+  return getRegistryEntry(modelValue)?.contextWindow || 128000;
+}
+
 export function getModelParameters(modelValue: string): ModelParameters {
-  const model = getModelConfig(modelValue);
-  return model?.parameters || {};
+  return getRegistryEntry(modelValue)?.parameters || {};
+}
+
+// Registry defaults merged with the model's own options, per provider. A null in the
+// model's options removes that default instead of sending it.
+export function getProviderOptions(modelValue: string): ModelProviderOptions {
+  const modelOptions = getRegistryEntry(modelValue)?.providerOptions ?? {};
+  const providers = new Set([...Object.keys(modelRegistry.defaultProviderOptions), ...Object.keys(modelOptions)]);
+
+  return Object.fromEntries(
+    [...providers].map((provider) => [
+      provider,
+      Object.fromEntries(
+        Object.entries({ ...modelRegistry.defaultProviderOptions[provider], ...modelOptions[provider] }).filter(
+          ([, value]) => value !== null,
+        ),
+      ),
+    ]),
+  );
+}
+
+export function getModelHeaders(modelValue: string): Record<string, string> | undefined {
+  return getRegistryEntry(modelValue)?.headers;
+}
+
+export function getExcludedTools(modelValue: string): string[] {
+  return getRegistryEntry(modelValue)?.excludedTools ?? [];
 }
 
 // Access control helper
@@ -2015,9 +249,9 @@ export function shouldBypassRateLimits(modelValue: string, user: any): boolean {
 export function getAcceptedFileTypes(modelValue: string, isProUser: boolean): string {
   const model = getModelConfig(modelValue);
   if (model?.pdf && isProUser) {
-    return 'image/*,.pdf';
+    return 'image/*,.pdf,.csv';
   }
-  return 'image/*';
+  return 'image/*,.csv';
 }
 
 // Check if a model supports extreme mode
@@ -2032,39 +266,9 @@ export function getExtremeModels(): Model[] {
   return models;
 }
 
-// Restricted regions for OpenAI and Anthropic models
+// Regions where models marked regionRestricted (OpenAI and Anthropic) are hidden
 const RESTRICTED_REGIONS = ['CN', 'KP', 'RU']; // China, North Korea, Russia
 
-// Models that should be filtered in restricted regions
-const OPENAI_MODELS = [
-  'scira-gpt-4.1',
-  'scira-gpt-4.1-mini',
-  'scira-gpt-4.1-nano',
-  'scira-gpt5',
-  'scira-gpt5-mini',
-  'scira-gpt5-nano',
-  'scira-gpt5-medium',
-  'scira-gpt5-codex',
-  'scira-gpt-5.1',
-  'scira-gpt-5.1-codex',
-  'scira-gpt-5.1-codex-mini',
-  'scira-gpt-5.1-codex-max',
-  'scira-gpt-5.1-thinking',
-  'scira-gpt-5.2',
-  'scira-gpt-5.2-thinking',
-  'scira-o3',
-  'scira-o4-mini',
-];
-
-const ANTHROPIC_MODELS = [
-  'scira-haiku',
-  'scira-anthropic-small',
-  'scira-anthropic',
-  'scira-anthropic-think',
-  'scira-anthropic-opus',
-  'scira-anthropic-opus-think',
-];
-
 // Check if a model should be filtered based on region
 export function isModelRestrictedInRegion(modelValue: string, countryCode?: string): boolean {
   if (!countryCode) return false;
@@ -2072,10 +276,7 @@ export function isModelRestrictedInRegion(modelValue: string, countryCode?: stri
   const isRestricted = RESTRICTED_REGIONS.includes(countryCode.toUpperCase());
   if (!isRestricted) return false;
 
-  const isOpenAI = OPENAI_MODELS.includes(modelValue);
-  const isAnthropic = ANTHROPIC_MODELS.includes(modelValue);
-
-  return isOpenAI || isAnthropic;
+  return getRegistryEntry(modelValue)?.regionRestricted || false;
 }
 
 // Filter models based on user's region
@@ -0,0 +1,97 @@
+import type { JSONValue } from 'ai';
+import { z } from 'zod';
+import registryConfig from './models.json';
+
+// Every chat model lives in ai/models.json: which provider serves it, the upstream
+// model ID, capabilities, access gating and the provider options the search route
+// sends. Adding an Ollama, OpenRouter or other OpenAI-compatible model is a new
+// entry there (plus a `providers` entry for a new endpoint), with no code changes.
+
+const jsonValue: z.ZodType<JSONValue> = z.lazy(() =>
+  z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(jsonValue), z.record(z.string(), jsonValue)]),
+);
+const providerOptionsSchema = z.record(z.string(), z.record(z.string(), jsonValue));
+
+const modelParametersSchema = z.object({
+  temperature: z.number().optional(),
+  topP: z.number().optional(),
+  topK: z.number().optional(),
+  minP: z.number().optional(),
+  frequencyPenalty: z.number().optional(),
+  presencePenalty: z.number().optional(),
+  maxOutputTokens: z.number().optional(),
+});
+
+const providerConfigSchema = z.object({
+  type: z.literal('openai-compatible'),
+  baseURL: z.string(),
+  // Env var that overrides baseURL, e.g. OLLAMA_BASE_URL
+  baseURLEnv: z.string().optional(),
+  apiKeyEnv: z.string().optional(),
+  // Used when apiKeyEnv is unset, for local servers that want any non-empty key
+  apiKey: z.string().optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+});
+
+const modelEntrySchema = z.object({
+  id: z.string(),
+  label: z.string().optional(),
+  description: z.string().optional().default(''),
+  category: z.string().optional().default('Free'),
+  // A built-in provider (xai, xai-eu, openai, groq, mistral, google, anthropic,
+  // cohere, gateway) or a key of `providers`
+  provider: z.string(),
+  upstreamModel: z.string(),
+  // Env var that overrides upstreamModel, e.g. OLLAMA_MODEL
+  upstreamModelEnv: z.string().optional(),
+  // Extract <think> reasoning; 'think-start' for models that omit the opening tag
+  middleware: z.enum(['think', 'think-start']).optional(),
+  vision: z.boolean().optional().default(false),
+  pdf: z.boolean().optional().default(false),
+  reasoning: z.boolean().optional().default(false),
+  experimental: z.boolean().optional().default(false),
+  pro: z.boolean().optional().default(false),
+  requiresAuth: z.boolean().optional().default(false),
+  freeUnlimited: z.boolean().optional().default(false),
+  maxOutputTokens: z.number().int().positive().optional().default(8000),
+  // Total tokens the model accepts (input and output); the search route budgets chat history against it
+  contextWindow: z.number().int().positive().optional().default(128000),
+  extreme: z.boolean().optional(),
+  fast: z.boolean().optional(),
+  isNew: z.boolean().optional(),
+  // Hidden from users in regions where the upstream provider is unavailable
+  regionRestricted: z.boolean().optional().default(false),
+  // Internal models (titles, follow-ups, ...) are served but not offered in the model picker
+  listed: z.boolean().optional().default(true),
+  parameters: modelParametersSchema.optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  // Tools the search route withholds from this model
+  excludedTools: z.array(z.string()).optional().default([]),
+  providerOptions: providerOptionsSchema.optional().default({}),
+});
+
+const modelRegistrySchema = z.object({
+  providers: z.record(z.string(), providerConfigSchema).optional().default({}),
+  // Sent with every request; a model's own providerOptions are merged over these per provider,
+  // and a null there drops the default (e.g. "openai": { "parallelToolCalls": null })
+  defaultProviderOptions: providerOptionsSchema.optional().default({}),
+  models: z.array(modelEntrySchema),
+});
+
+export type ModelParameters = z.infer<typeof modelParametersSchema>;
+export type ProviderConfig = z.infer<typeof providerConfigSchema>;
+export type ModelRegistryEntry = z.infer<typeof modelEntrySchema>;
+export type ModelProviderOptions = z.infer<typeof providerOptionsSchema>;
+
+export const modelRegistry = modelRegistrySchema.parse(registryConfig);
+
+const duplicateId = modelRegistry.models.find(
+  (entry, index) => modelRegistry.models.findIndex((other) => other.id === entry.id) !== index,
+);
+if (duplicateId) {
+  throw new Error(`Duplicate model "${duplicateId.id}" in ai/models.json`);
+}
+
+export function getRegistryEntry(modelValue: string): ModelRegistryEntry | undefined {
+  return modelRegistry.models.find((entry) => entry.id === modelValue);
+}
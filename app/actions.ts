@@ -2,20 +2,21 @@
 'use server';
 
 import { geolocation } from '@vercel/functions';
-import { serverEnv } from '@/env/server';
 import { SearchGroupId } from '@/lib/utils';
 import { UIMessage, generateText, Output } from 'ai';
 import type { ModelMessage } from 'ai';
 import { z } from 'zod';
 import { getUser } from '@/lib/auth-utils';
-import { scira } from '@/ai/providers';
+import { getModelConfig, requiresProSubscription, scira } from '@/ai/providers';
 import {
   getChatsByUserId,
   deleteChatById,
   updateChatVisibilityById,
   getChatById,
-  getMessageById,
-  deleteMessagesByChatIdAfterTimestamp,
+  getChatByIdForValidation,
+  getMessageTreeByChatId,
+  getBranchMessages,
+  updateChatActiveMessage,
   updateChatTitleById,
   getExtremeSearchCount,
   incrementMessageUsage,
@@ -29,23 +30,64 @@ import {
   getDodoSubscriptionsByUserId,
   createLookout,
   getLookoutsByUserId,
+  getLookoutsByOrganizationId,
   getLookoutById,
+  getLookoutRuns,
+  getLookoutRunStats,
+  getLookoutDeliveryTargets,
+  getLookoutDeliveryTargetById,
+  createLookoutDeliveryTarget,
+  updateLookoutDeliveryTarget,
+  deleteLookoutDeliveryTarget,
   updateLookout,
   updateLookoutStatus,
   deleteLookout,
   getChatWithUserById,
+  searchChats,
+  upsertSavedSource,
+  updateSavedSource,
+  deleteSavedSource,
+  getSavedSourcesByUserId,
+  updateUserAdminFields,
+  deleteSessionsByUserId,
+  resetUsageByUserId,
+  getUser as getUserByEmail,
+  createOrganization,
+  getOrganizationsByUserId,
+  getOrganizationMemberRole,
+  getOrganizationMembers,
+  addOrganizationMember,
+  updateOrganizationMemberRole,
+  removeOrganizationMember,
+  countOrganizationOwners,
+  deleteOrganization,
 } from '@/lib/db/queries';
 import { extractChatPreview } from '@/lib/search-utils';
 import { db } from '@/lib/db';
-import { chat } from '@/lib/db/schema';
-import { eq, desc, ilike, and } from 'drizzle-orm';
+import {
+  chat,
+  type LookoutDeliveryChannel,
+  type LookoutNoChangeEmail,
+  type LookoutResearchDepth,
+  type LookoutRunStatus,
+  type LookoutSearchGroup,
+  type OrganizationRole,
+} from '@/lib/db/schema';
+import { and, eq, desc, isNull } from 'drizzle-orm';
 import { getDiscountConfig } from '@/lib/discount';
 import { get } from '@vercel/edge-config';
 import { groq } from '@ai-sdk/groq';
-import { Client } from '@upstash/qstash';
-import { usageCountCache, createMessageCountKey, createExtremeCountKey } from '@/lib/performance-cache';
-import { CronExpressionParser } from 'cron-parser';
-import { getComprehensiveUserData, getLightweightUserAuth, getCachedUserPreferencesByUserId, clearUserPreferencesCache, type ComprehensiveUserData } from '@/lib/user-data-server';
+import { usageCountCache, createMessageCountKey, createExtremeCountKey, invalidateUserCaches } from '@/lib/performance-cache';
+import { getComprehensiveUserData, getLightweightUserAuth, getCachedUserPreferencesByUserId, clearUserPreferencesCache, clearUserDataCache, type ComprehensiveUserData } from '@/lib/user-data-server';
+import { getAdminUser } from '@/lib/admin';
+import {
+  canAccessResource,
+  canManageOrganization,
+  canManageResource,
+  getActiveOrganizationId,
+  getResourceMemberRole,
+  setActiveOrganizationId,
+} from '@/lib/workspaces';
 import {
   createConnection,
   listUserConnections,
@@ -58,6 +100,20 @@ import { jsonrepair } from 'jsonrepair';
 import { headers } from 'next/headers';
 import { v7 as uuidv7 } from 'uuid';
 import { saveChat, saveMessages } from '@/lib/db/queries';
+import { clampExcerpt, clampNotes, isSavedSourceKind, parseTags } from '@/lib/source-library';
+import { releaseChatSandbox } from '@/lib/sandbox';
+import { getLookoutScheduler } from '@/lib/lookout/scheduler';
+import { isLookoutResearchDepth, isLookoutSearchGroup } from '@/lib/lookout/prompt';
+import { generateWebhookSecret, validateDeliveryUrl } from '@/lib/lookout/delivery';
+import { findRelatedResearch } from '@/lib/research/memory';
+import { convertToUIMessages } from '@/lib/ui-messages';
+import {
+  buildCronSchedule,
+  calculateNextRun,
+  validateLookoutSchedule,
+  type LookoutFrequency,
+  type LookoutSchedule,
+} from '@/lib/lookout/schedule';
 
 // Server action to get the current user with Pro status - UNIFIED VERSION
 export async function getCurrentUser() {
@@ -86,7 +142,8 @@ export async function getChatMeta(chatId: string) {
 
     if (!chat) return null;
 
-    const isOwner = lightUser?.userId ? chat.userId === lightUser.userId : false;
+    const memberRole = lightUser?.userId ? await getResourceMemberRole(chat, lightUser.userId) : null;
+    const isOwner = lightUser?.userId ? canAccessResource(chat, lightUser.userId, memberRole) : false;
 
     return {
       id: chat.id,
@@ -313,8 +370,9 @@ const groupTools = {
     'find_place_on_map',
     'trending_tv',
     'datetime',
+    'search_past_research',
   ] as const,
-  academic: ['academic_search', 'code_interpreter', 'datetime'] as const,
+  academic: ['academic_search', 'code_interpreter', 'datetime', 'search_past_research'] as const,
   youtube: ['youtube_search', 'datetime'] as const,
   code: ['code_context'] as const,
   reddit: ['reddit_search', 'datetime'] as const,
@@ -545,6 +603,7 @@ YOU ARE NOT AN AGENT, YOU ARE A SEARCH ENGINE. DO THE ONE THING YOU ARE GOOD AT
 - **Single URL**: Provide a single URL string to get detailed content extraction
 - **Multiple URLs**: Provide an array of URL strings to retrieve and compare content from multiple sources in parallel
 - **Automatic Detection**: Detects and optimally processes YouTube videos, Twitter/X posts, TikTok videos, Instagram posts with metadata and transcripts
+- **Crawl Mode**: For questions about a whole site the user linked ("summarize this documentation site", "what does this guide cover"), set mode to "crawl" with the start URL; it follows same-site links (max_depth, max_pages) and returns each page plus a site outline
 
 **CRITICAL RESTRICTIONS:**
 - ⚠️ **ONLY USE WHEN USER EXPLICITLY PROVIDES URL(S)**: The user must paste, share, or mention a specific URL
@@ -565,6 +624,12 @@ YOU ARE NOT AN AGENT, YOU ARE A SEARCH ENGINE. DO THE ONE THING YOU ARE GOOD AT
 - ❌ "Get current information about X" - Use web_search
 - ❌ After web_search returned URLs - DO NOT retrieve them
 
+#### Past Research Tool
+- **Purpose**: search_past_research looks up the user's own earlier Scira answers and the sources they cited (signed-in users only)
+- Use it first when the user follows up on, or asks again about, a topic they have likely researched before
+- If the results answer the question and are recent enough for the topic, build on them and cite their original source URLs; otherwise continue with web_search
+- Skip it for greetings, time-sensitive "latest" questions and topics that are clearly new
+
 ### Specialized Tools
 
 #### Flight Tracker Tool
@@ -1199,6 +1264,10 @@ ${LINK_FORMAT_EXAMPLES}`,
   - Include necessary library imports
   - Only use after academic search when needed
 
+  #### Past Research Tool:
+  - search_past_research finds the user's earlier Scira answers and the papers they cited
+  - Check it first when the user revisits a topic; reuse and cite those findings, then run academic_search for anything missing
+
   #### datetime tool:
   - Only use when explicitly asked about time/date
   - Format timezone appropriately for user
@@ -2189,6 +2258,19 @@ export async function getGroupConfig(
   };
 }
 
+// Chat lists follow the workspace selected in the sidebar, but only for the signed-in user's own lists
+async function getChatListOrganizationId(userId: string) {
+  const user = await getUser();
+  if (!user || user.id !== userId) return null;
+  return getActiveOrganizationId(user.id);
+}
+
+// Whether the user may delete or change the chat: its creator, or an owner/admin of its workspace
+async function canManageChat(userId: string, chatId: string) {
+  const existingChat = await getChatByIdForValidation({ id: chatId, userId });
+  return !!existingChat && canManageResource(existingChat, userId, existingChat.memberRole);
+}
+
 // Add functions to fetch user chats
 export async function getUserChats(
   userId: string,
@@ -2203,6 +2285,7 @@ export async function getUserChats(
   try {
     return await getChatsByUserId({
       id: userId,
+      organizationId: await getChatListOrganizationId(userId),
       limit,
       startingAfter: startingAfter || null,
       endingBefore: endingBefore || null,
@@ -2226,6 +2309,7 @@ export async function loadMoreChats(
   try {
     return await getChatsByUserId({
       id: userId,
+      organizationId: await getChatListOrganizationId(userId),
       limit,
       startingAfter: null,
       endingBefore: lastChatId,
@@ -2243,6 +2327,10 @@ export async function deleteChat(chatId: string) {
   if (!chatId) return null;
 
   try {
+    const user = await getUser();
+    if (!user || !(await canManageChat(user.id, chatId))) return null;
+
+    await releaseChatSandbox(chatId);
     return await deleteChatById({ id: chatId });
   } catch (error) {
     console.error('Error deleting chat:', error);
@@ -2259,9 +2347,18 @@ export async function bulkDeleteChats(chatIds: string[]) {
   }
 
   try {
-    // Delete chats in parallel
+    const user = await getUser();
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    // Delete chats in parallel, skipping any the user may not delete
     const results = await Promise.all(
-      chatIds.map((id) => deleteChatById({ id }))
+      chatIds.map(async (id) => {
+        if (!(await canManageChat(user.id, id))) return null;
+        await releaseChatSandbox(id);
+        return deleteChatById({ id });
+      })
     );
     
     // Count successful deletions
@@ -2286,6 +2383,11 @@ export async function updateChatVisibility(chatId: string, visibility: 'private'
   }
 
   try {
+    const user = await getUser();
+    if (!user || !(await canManageChat(user.id, chatId))) {
+      throw new Error('Chat not found');
+    }
+
     console.log('📡 Calling updateChatVisibilityById with:', { chatId, visibility });
     const result = await updateChatVisibilityById({ chatId, visibility });
     console.log('✅ updateChatVisibilityById successful, result:', result);
@@ -2322,26 +2424,58 @@ export async function getChatInfo(chatId: string) {
   }
 }
 
-export async function deleteTrailingMessages({ id }: { id: string }) {
+// For every message in a chat that has other versions (from edits or regenerations),
+// the ids of all versions at that position, oldest first
+export async function getMessageBranchesAction({ chatId }: { chatId: string }) {
   'use server';
+
   try {
-    const [message] = await getMessageById({ id });
-    console.log('Message: ', message);
+    const user = await getUser();
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
 
-    if (!message) {
-      console.error(`No message found with id: ${id}`);
-      return;
+    const existingChat = await getChatByIdForValidation({ id: chatId, userId: user.id });
+    if (!existingChat || !canAccessResource(existingChat, user.id, existingChat.memberRole)) {
+      return { error: 'Chat not found', status: 404 };
     }
 
-    await deleteMessagesByChatIdAfterTimestamp({
-      chatId: message.chatId,
-      timestamp: message.createdAt,
-    });
+    const tree = await getMessageTreeByChatId({ chatId });
+    return { siblings: tree.siblingGroups() };
+  } catch (error) {
+    console.error('Error getting message branches:', error);
+    return { error: 'Failed to get message branches', status: 500 };
+  }
+}
+
+// Show another version of a message: the chat continues from that version's most
+// recent reply, and the returned messages replace the ones on screen
+export async function switchMessageBranchAction({ chatId, messageId }: { chatId: string; messageId: string }) {
+  'use server';
+
+  try {
+    const user = await getUser();
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+
+    const existingChat = await getChatByIdForValidation({ id: chatId, userId: user.id });
+    if (!existingChat || !canAccessResource(existingChat, user.id, existingChat.memberRole)) {
+      return { error: 'Chat not found', status: 404 };
+    }
 
-    console.log(`Successfully deleted trailing messages after message ID: ${id}`);
+    const tree = await getMessageTreeByChatId({ chatId });
+    if (!tree.has(messageId)) {
+      return { error: 'Message not found', status: 404 };
+    }
+
+    const leafId = tree.latestLeaf(messageId);
+    await updateChatActiveMessage({ chatId, messageId: leafId });
+
+    return { messages: convertToUIMessages(await getBranchMessages({ tree, leafId })) };
   } catch (error) {
-    console.error(`Error deleting trailing messages: ${error}`);
-    throw error; // Re-throw to allow caller to handle
+    console.error('Error switching message branch:', error);
+    return { error: 'Failed to switch message branch', status: 500 };
   }
 }
 
@@ -2387,6 +2521,7 @@ export async function branchOutChat({
     await saveChat({
       id: newChatId,
       userId: currentUser.id,
+      organizationId: await getActiveOrganizationId(currentUser.id),
       title: chatTitle,
       visibility: 'private',
     });
@@ -2396,11 +2531,13 @@ export async function branchOutChat({
       {
         chatId: newChatId,
         id: newUserMessageId,
+        parentId: null,
         role: 'user' as const,
         parts: userMessage.parts,
         attachments: (userMessage as any).experimental_attachments ?? [],
         createdAt: new Date(),
         model: (userMessage as any).metadata?.model || null,
+        searchGroup: null,
         inputTokens: (userMessage as any).metadata?.inputTokens ?? null,
         outputTokens: null,
         totalTokens: null,
@@ -2409,11 +2546,13 @@ export async function branchOutChat({
       {
         chatId: newChatId,
         id: newAssistantMessageId,
+        parentId: newUserMessageId,
         role: 'assistant' as const,
         parts: assistantMessage.parts,
         attachments: [],
         createdAt: new Date(),
         model: (assistantMessage as any).metadata?.model || null,
+        searchGroup: null,
         inputTokens: (assistantMessage as any).metadata?.inputTokens ?? null,
         outputTokens: (assistantMessage as any).metadata?.outputTokens ?? null,
         totalTokens: (assistantMessage as any).metadata?.totalTokens ?? null,
@@ -2853,66 +2992,18 @@ export async function getDodoSubscriptionExpirationDate() {
   return userData?.dodoSubscription?.expiresAt || null;
 }
 
-// Initialize QStash client
-const qstash = new Client({ token: serverEnv.QSTASH_TOKEN });
-
-// Helper function to convert frequency to cron schedule with timezone
-function frequencyToCron(frequency: string, time: string, timezone: string, dayOfWeek?: string): string {
-  const [hours, minutes] = time.split(':').map(Number);
-
-  let cronExpression = '';
-  switch (frequency) {
-    case 'once':
-      // For 'once', we'll handle it differently - no cron schedule needed
-      return '';
-    case 'daily':
-      cronExpression = `${minutes} ${hours} * * *`;
-      break;
-    case 'weekly':
-      // Use the day of week if provided, otherwise default to Sunday (0)
-      const day = dayOfWeek || '0';
-      cronExpression = `${minutes} ${hours} * * ${day}`;
-      break;
-    case 'monthly':
-      // Run on the 1st of each month
-      cronExpression = `${minutes} ${hours} 1 * *`;
-      break;
-    case 'yearly':
-      // Run on January 1st
-      cronExpression = `${minutes} ${hours} 1 1 *`;
-      break;
-    default:
-      cronExpression = `${minutes} ${hours} * * *`; // Default to daily
-  }
-
-  // Prepend timezone to cron expression for QStash
-  return `CRON_TZ=${timezone} ${cronExpression}`;
-}
-
-// Helper function to calculate next run time using cron-parser
-function calculateNextRun(cronSchedule: string, timezone: string): Date {
-  try {
-    // Extract the actual cron expression from the timezone-prefixed format
-    // Format: "CRON_TZ=timezone 0 9 * * *" -> "0 9 * * *"
-    const actualCronExpression = cronSchedule.startsWith('CRON_TZ=')
-      ? cronSchedule.split(' ').slice(1).join(' ')
-      : cronSchedule;
-
-    const options = {
-      currentDate: new Date(),
-      tz: timezone,
-    };
-
-    const interval = CronExpressionParser.parse(actualCronExpression, options);
-    return interval.next().toDate();
-  } catch (error) {
-    console.error('Error parsing cron expression:', cronSchedule, error);
-    // Fallback to simple calculation
-    const now = new Date();
-    const nextRun = new Date(now);
-    nextRun.setDate(nextRun.getDate() + 1);
-    return nextRun;
+// Check the model, search group and research depth chosen for a lookout
+function validateLookoutRunOptions(
+  { model, searchGroup, researchDepth }: { model?: string; searchGroup?: string; researchDepth?: string },
+  isProUser: boolean,
+): string | null {
+  if (model !== undefined) {
+    if (!getModelConfig(model)) return 'Unknown model';
+    if (requiresProSubscription(model) && !isProUser) return 'This model requires a Pro subscription';
   }
+  if (searchGroup !== undefined && !isLookoutSearchGroup(searchGroup)) return 'Unsupported search group';
+  if (researchDepth !== undefined && !isLookoutResearchDepth(researchDepth)) return 'Unsupported research depth';
+  return null;
 }
 
 // Helper function to calculate next run for 'once' frequency
@@ -2946,13 +3037,29 @@ export async function createScheduledLookout({
   time,
   timezone = 'UTC',
   date,
+  daysOfWeek,
+  intervalHours,
+  dayOfMonth,
+  cronExpression,
+  noChangeEmail,
+  model,
+  searchGroup,
+  researchDepth,
 }: {
   title: string;
   prompt: string;
-  frequency: 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly';
-  time: string; // Format: "HH:MM" or "HH:MM:dayOfWeek" for weekly
+  frequency: LookoutFrequency;
+  time: string; // Format: "HH:MM"
   timezone?: string;
   date?: string; // For 'once' frequency
+  daysOfWeek?: string[]; // For 'weekly' frequency
+  intervalHours?: number; // For 'hourly' frequency
+  dayOfMonth?: number; // For 'monthly' frequency
+  cronExpression?: string; // For 'custom' frequency
+  noChangeEmail?: LookoutNoChangeEmail;
+  model?: string;
+  searchGroup?: LookoutSearchGroup;
+  researchDepth?: LookoutResearchDepth;
 }) {
   try {
     const user = await getCurrentUser();
@@ -2981,32 +3088,41 @@ export async function createScheduledLookout({
       }
     }
 
+    const schedule: LookoutSchedule = {
+      frequency,
+      time,
+      timezone,
+      daysOfWeek,
+      intervalHours,
+      dayOfMonth,
+      cronExpression,
+    };
+    const scheduleError = validateLookoutSchedule(schedule);
+    if (scheduleError) {
+      throw new Error(scheduleError);
+    }
+
+    const runOptionsError = validateLookoutRunOptions({ model, searchGroup, researchDepth }, user.isProUser);
+    if (runOptionsError) {
+      throw new Error(runOptionsError);
+    }
+
     let cronSchedule = '';
     let nextRunAt: Date;
-    let actualTime = time;
-    let dayOfWeek: string | undefined;
-
-    // Extract day of week for weekly frequency
-    if (frequency === 'weekly' && time.includes(':')) {
-      const parts = time.split(':');
-      if (parts.length === 3) {
-        actualTime = `${parts[0]}:${parts[1]}`;
-        dayOfWeek = parts[2];
-      }
-    }
 
     if (frequency === 'once') {
       // For 'once', calculate the next run time without cron
-      nextRunAt = calculateOnceNextRun(actualTime, timezone, date);
+      nextRunAt = calculateOnceNextRun(time, timezone, date);
     } else {
       // Generate cron schedule for recurring frequencies
-      cronSchedule = frequencyToCron(frequency, actualTime, timezone, dayOfWeek);
+      cronSchedule = buildCronSchedule(schedule);
       nextRunAt = calculateNextRun(cronSchedule, timezone);
     }
 
     // Create lookout in database first
     const lookout = await createLookout({
       userId: user.id,
+      organizationId: await getActiveOrganizationId(user.id),
       title,
       prompt,
       frequency,
@@ -3014,89 +3130,32 @@ export async function createScheduledLookout({
       timezone,
       nextRunAt,
       qstashScheduleId: undefined, // Will be updated if needed
+      noChangeEmail,
+      model,
+      searchGroup,
+      researchDepth,
     });
 
-    console.log('📝 Created lookout in database:', lookout.id, 'Now scheduling with QStash...');
+    const scheduler = getLookoutScheduler();
+    console.log('📝 Created lookout in database:', lookout.id, `Now scheduling with ${scheduler.name}...`);
 
     // Small delay to ensure database transaction is committed
     await new Promise((resolve) => setTimeout(resolve, 100));
 
-    // Create QStash schedule for all frequencies (recurring and once)
     if (lookout.id) {
       try {
-        if (frequency === 'once') {
-          console.log('⏰ Creating QStash one-time execution for lookout:', lookout.id);
-          console.log('📅 Scheduled time:', nextRunAt.toISOString());
-
-          const delay = Math.floor((nextRunAt.getTime() - Date.now()) / 1000); // Delay in seconds
-          const minimumDelay = Math.max(delay, 5); // At least 5 seconds to ensure DB consistency
-
-          if (delay > 0) {
-            await qstash.publish({
-              // if dev env use localhost:3000/api/lookout, else use scira.ai/api/lookout
-              url:
-                process.env.NODE_ENV === 'development'
-                  ? process.env.NGROK_URL + '/api/lookout'
-                  : `https://scira.ai/api/lookout`,
-              body: JSON.stringify({
-                lookoutId: lookout.id,
-                prompt,
-                userId: user.id,
-              }),
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              delay: minimumDelay,
-            });
-
-            console.log(
-              '✅ QStash one-time execution scheduled for lookout:',
-              lookout.id,
-              'with delay:',
-              minimumDelay,
-              'seconds',
-            );
-
-            // For consistency, we don't store a qstashScheduleId for one-time executions
-            // since they use the publish API instead of schedules API
-          } else {
-            throw new Error('Cannot schedule for a time in the past');
-          }
-        } else {
-          console.log('⏰ Creating QStash recurring schedule for lookout:', lookout.id);
-          console.log('📅 Cron schedule with timezone:', cronSchedule);
-
-          const scheduleResponse = await qstash.schedules.create({
-            // if dev env use localhost:3000/api/lookout, else use scira.ai/api/lookout
-            destination:
-              process.env.NODE_ENV === 'development'
-                ? process.env.NGROK_URL + '/api/lookout'
-                : `https://scira.ai/api/lookout`,
-            method: 'POST',
-            cron: cronSchedule,
-            body: JSON.stringify({
-              lookoutId: lookout.id,
-              prompt,
-              userId: user.id,
-            }),
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          });
-
-          console.log('✅ QStash recurring schedule created:', scheduleResponse.scheduleId, 'for lookout:', lookout.id);
-
-          // Update lookout with QStash schedule ID
+        const scheduleId = await scheduler.schedule(lookout);
+        if (scheduleId) {
           await updateLookout({
             id: lookout.id,
-            qstashScheduleId: scheduleResponse.scheduleId,
+            qstashScheduleId: scheduleId,
           });
 
-          lookout.qstashScheduleId = scheduleResponse.scheduleId;
+          lookout.qstashScheduleId = scheduleId;
         }
-      } catch (qstashError) {
-        console.error('Error creating QStash schedule:', qstashError);
-        // Delete the lookout if QStash creation fails
+      } catch (schedulerError) {
+        console.error('Error scheduling lookout:', schedulerError);
+        // Delete the lookout if scheduling fails
         await deleteLookout({ id: lookout.id });
         throw new Error(
           `Failed to ${frequency === 'once' ? 'schedule one-time search' : 'create recurring schedule'}. Please try again.`,
@@ -3111,6 +3170,22 @@ export async function createScheduledLookout({
   }
 }
 
+// Workspace lookouts can be viewed and run by any member of the organization, but only
+// changed by their creator or the organization's owners and admins
+async function getWorkspaceLookout(id: string, userId: string, access: 'view' | 'manage') {
+  const lookout = await getLookoutById({ id });
+  const memberRole = lookout ? await getResourceMemberRole(lookout, userId) : null;
+  const allowed =
+    lookout &&
+    (access === 'manage'
+      ? canManageResource(lookout, userId, memberRole)
+      : canAccessResource(lookout, userId, memberRole));
+  if (!allowed) {
+    throw new Error('Lookout not found or access denied');
+  }
+  return lookout;
+}
+
 export async function getUserLookouts() {
   try {
     const user = await getCurrentUser();
@@ -3118,7 +3193,11 @@ export async function getUserLookouts() {
       throw new Error('Authentication required');
     }
 
-    const lookouts = await getLookoutsByUserId({ userId: user.id });
+    // Lookouts of the active workspace
+    const organizationId = await getActiveOrganizationId(user.id);
+    const lookouts = organizationId
+      ? await getLookoutsByOrganizationId({ organizationId })
+      : (await getLookoutsByUserId({ userId: user.id })).filter((lookout) => !lookout.organizationId);
 
     // Update next run times for active lookouts
     const updatedLookouts = lookouts.map((lookout) => {
@@ -3141,6 +3220,147 @@ export async function getUserLookouts() {
   }
 }
 
+export async function getLookoutRunsAction({
+  id,
+  limit = 10,
+  offset = 0,
+  status,
+}: {
+  id: string;
+  limit?: number;
+  offset?: number;
+  status?: LookoutRunStatus;
+}) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('Authentication required');
+    }
+
+    // Verify access to the lookout
+    await getWorkspaceLookout(id, user.id, 'view');
+
+    const { runs, hasMore } = await getLookoutRuns({ lookoutId: id, limit: Math.min(limit, 50), offset, status });
+    return { success: true, runs, hasMore };
+  } catch (error) {
+    console.error('Error getting lookout runs:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export async function getLookoutRunStatsAction({ id }: { id: string }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('Authentication required');
+    }
+
+    // Verify access to the lookout
+    await getWorkspaceLookout(id, user.id, 'view');
+
+    const stats = await getLookoutRunStats({ id });
+    if (!stats) {
+      throw new Error('Failed to load run statistics');
+    }
+
+    return { success: true, stats };
+  } catch (error) {
+    console.error('Error getting lookout run stats:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// Lookout the user may manage, for a delivery target action, or an error
+async function getOwnedLookoutForDelivery(lookoutId: string) {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('Authentication required');
+  }
+
+  return getWorkspaceLookout(lookoutId, user.id, 'manage');
+}
+
+export async function getLookoutDeliveryTargetsAction({ lookoutId }: { lookoutId: string }) {
+  try {
+    await getOwnedLookoutForDelivery(lookoutId);
+    const targets = await getLookoutDeliveryTargets({ lookoutId });
+    return { success: true, targets };
+  } catch (error) {
+    console.error('Error getting lookout delivery targets:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export async function createLookoutDeliveryTargetAction({
+  lookoutId,
+  channel,
+  url,
+}: {
+  lookoutId: string;
+  channel: LookoutDeliveryChannel;
+  url: string;
+}) {
+  try {
+    await getOwnedLookoutForDelivery(lookoutId);
+
+    if (!['webhook', 'slack', 'discord'].includes(channel)) {
+      throw new Error('Unsupported delivery channel');
+    }
+    const urlError = await validateDeliveryUrl(channel, url.trim());
+    if (urlError) {
+      throw new Error(urlError);
+    }
+
+    const existingTargets = await getLookoutDeliveryTargets({ lookoutId });
+    if (existingTargets.length >= 10) {
+      throw new Error('A lookout can have at most 10 delivery targets');
+    }
+
+    const target = await createLookoutDeliveryTarget({
+      lookoutId,
+      channel,
+      url: url.trim(),
+      secret: channel === 'webhook' ? generateWebhookSecret() : undefined,
+    });
+    return { success: true, target };
+  } catch (error) {
+    console.error('Error creating lookout delivery target:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export async function updateLookoutDeliveryTargetAction({ id, enabled }: { id: string; enabled: boolean }) {
+  try {
+    const target = await getLookoutDeliveryTargetById({ id });
+    if (!target) {
+      throw new Error('Delivery target not found');
+    }
+    await getOwnedLookoutForDelivery(target.lookoutId);
+
+    const updatedTarget = await updateLookoutDeliveryTarget({ id, enabled });
+    return { success: true, target: updatedTarget };
+  } catch (error) {
+    console.error('Error updating lookout delivery target:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export async function deleteLookoutDeliveryTargetAction({ id }: { id: string }) {
+  try {
+    const target = await getLookoutDeliveryTargetById({ id });
+    if (!target) {
+      throw new Error('Delivery target not found');
+    }
+    await getOwnedLookoutForDelivery(target.lookoutId);
+
+    await deleteLookoutDeliveryTarget({ id });
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting lookout delivery target:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
 export async function updateLookoutStatusAction({
   id,
   status,
@@ -3154,31 +3374,28 @@ export async function updateLookoutStatusAction({
       throw new Error('Authentication required');
     }
 
-    // Get lookout to verify ownership
-    const lookout = await getLookoutById({ id });
-    if (!lookout || lookout.userId !== user.id) {
-      throw new Error('Lookout not found or access denied');
+    // Get lookout to verify access
+    const lookout = await getWorkspaceLookout(id, user.id, 'manage');
+
+    // Keep the scheduler in step with the new status
+    const scheduler = getLookoutScheduler();
+    try {
+      if (status === 'paused') {
+        await scheduler.pause(lookout);
+      } else if (status === 'active') {
+        await scheduler.resume(lookout);
+      } else if (status === 'archived') {
+        await scheduler.unschedule(lookout);
+      }
+    } catch (schedulerError) {
+      console.error('Error updating lookout schedule:', schedulerError);
+      // Continue with database update even if the scheduler fails
     }
 
-    // Update QStash schedule status if it exists
-    if (lookout.qstashScheduleId) {
-      try {
-        if (status === 'paused') {
-          await qstash.schedules.pause({ schedule: lookout.qstashScheduleId });
-        } else if (status === 'active') {
-          await qstash.schedules.resume({ schedule: lookout.qstashScheduleId });
-          // Update next run time when resuming
-          if (lookout.cronSchedule) {
-            const nextRunAt = calculateNextRun(lookout.cronSchedule, lookout.timezone);
-            await updateLookout({ id, nextRunAt });
-          }
-        } else if (status === 'archived') {
-          await qstash.schedules.delete(lookout.qstashScheduleId);
-        }
-      } catch (qstashError) {
-        console.error('Error updating QStash schedule:', qstashError);
-        // Continue with database update even if QStash fails
-      }
+    // Update next run time when resuming so missed runs aren't picked up
+    if (status === 'active' && lookout.cronSchedule && lookout.frequency !== 'once') {
+      const nextRunAt = calculateNextRun(lookout.cronSchedule, lookout.timezone);
+      await updateLookout({ id, nextRunAt });
     }
 
     // Update database
@@ -3197,15 +3414,29 @@ export async function updateLookoutAction({
   frequency,
   time,
   timezone,
-  dayOfWeek,
+  daysOfWeek,
+  intervalHours,
+  dayOfMonth,
+  cronExpression,
+  noChangeEmail,
+  model,
+  searchGroup,
+  researchDepth,
 }: {
   id: string;
   title: string;
   prompt: string;
-  frequency: 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+  frequency: LookoutFrequency;
   time: string;
   timezone: string;
-  dayOfWeek?: string;
+  daysOfWeek?: string[];
+  intervalHours?: number;
+  dayOfMonth?: number;
+  cronExpression?: string;
+  noChangeEmail?: LookoutNoChangeEmail;
+  model?: string;
+  searchGroup?: LookoutSearchGroup;
+  researchDepth?: LookoutResearchDepth;
 }) {
   try {
     const user = await getCurrentUser();
@@ -3213,11 +3444,8 @@ export async function updateLookoutAction({
       throw new Error('Authentication required');
     }
 
-    // Get lookout to verify ownership
-    const lookout = await getLookoutById({ id });
-    if (!lookout || lookout.userId !== user.id) {
-      throw new Error('Lookout not found or access denied');
-    }
+    // Get lookout to verify access
+    const lookout = await getWorkspaceLookout(id, user.id, 'manage');
 
     // Check daily lookout limit if changing to daily frequency
     if (frequency === 'daily' && lookout.frequency !== 'daily') {
@@ -3231,10 +3459,23 @@ export async function updateLookoutAction({
       }
     }
 
-    // Handle weekly day selection
-    let adjustedTime = time;
-    if (frequency === 'weekly' && dayOfWeek) {
-      adjustedTime = `${time}:${dayOfWeek}`;
+    const schedule: LookoutSchedule = {
+      frequency,
+      time,
+      timezone,
+      daysOfWeek,
+      intervalHours,
+      dayOfMonth,
+      cronExpression,
+    };
+    const scheduleError = validateLookoutSchedule(schedule);
+    if (scheduleError) {
+      throw new Error(scheduleError);
+    }
+
+    const runOptionsError = validateLookoutRunOptions({ model, searchGroup, researchDepth }, user.isProUser);
+    if (runOptionsError) {
+      throw new Error(runOptionsError);
     }
 
     // Generate new cron schedule if frequency changed
@@ -3243,78 +3484,61 @@ export async function updateLookoutAction({
 
     if (frequency === 'once') {
       // For 'once', set next run to today/tomorrow at specified time
-      const [hours, minutes] = time.split(':').map(Number);
-      const now = new Date();
-      nextRunAt = new Date(now);
-      nextRunAt.setHours(hours, minutes, 0, 0);
-
-      if (nextRunAt <= now) {
-        nextRunAt.setDate(nextRunAt.getDate() + 1);
-      }
+      nextRunAt = calculateOnceNextRun(time, timezone);
     } else {
-      cronSchedule = frequencyToCron(frequency, time, timezone, dayOfWeek);
+      cronSchedule = buildCronSchedule(schedule);
       nextRunAt = calculateNextRun(cronSchedule, timezone);
     }
 
-    // Update QStash schedule if it exists and frequency/time changed
-    if (lookout.qstashScheduleId && frequency !== 'once') {
-      try {
-        // Delete old schedule
-        await qstash.schedules.delete(lookout.qstashScheduleId);
+    // Recreate the schedule with the updated details. A one-time lookout that stays one-time keeps
+    // its original execution, which can't be cancelled.
+    let scheduleId: string | undefined;
+    try {
+      const scheduler = getLookoutScheduler();
+      await scheduler.unschedule(lookout);
 
-        console.log('⏰ Recreating QStash schedule for lookout:', id);
+      if (frequency !== 'once' || lookout.frequency !== 'once') {
+        console.log(`⏰ Rescheduling lookout with ${scheduler.name}:`, id);
         console.log('📅 Updated cron schedule with timezone:', cronSchedule);
 
-        // Create new schedule with updated cron
-        const scheduleResponse = await qstash.schedules.create({
-          // if dev env use localhost:3000/api/lookout, else use scira.ai/api/lookout
-          destination:
-            process.env.NODE_ENV === 'development'
-              ? process.env.NGROK_URL + '/api/lookout'
-              : `https://scira.ai/api/lookout`,
-          method: 'POST',
-          cron: cronSchedule,
-          body: JSON.stringify({
-            lookoutId: id,
-            prompt: prompt.trim(),
-            userId: user.id,
-          }),
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        });
-
-        // Update database with new details
-        const updatedLookout = await updateLookout({
+        const updatedSchedule = {
           id,
-          title: title.trim(),
+          userId: user.id,
           prompt: prompt.trim(),
           frequency,
           cronSchedule,
-          timezone,
           nextRunAt,
-          qstashScheduleId: scheduleResponse.scheduleId,
-        });
+          qstashScheduleId: null,
+        };
+        scheduleId = await scheduler.schedule(updatedSchedule);
 
-        return { success: true, lookout: updatedLookout };
-      } catch (qstashError) {
-        console.error('Error updating QStash schedule:', qstashError);
-        throw new Error('Failed to update schedule. Please try again.');
+        // Recreated schedules start active; keep a paused lookout paused
+        if (lookout.status === 'paused') {
+          await scheduler.pause({ ...updatedSchedule, qstashScheduleId: scheduleId ?? null });
+        }
       }
-    } else {
-      // Update database only
-      const updatedLookout = await updateLookout({
-        id,
-        title: title.trim(),
-        prompt: prompt.trim(),
-        frequency,
-        cronSchedule,
-        timezone,
-        nextRunAt,
-      });
-
-      return { success: true, lookout: updatedLookout };
+    } catch (schedulerError) {
+      console.error('Error updating lookout schedule:', schedulerError);
+      throw new Error('Failed to update schedule. Please try again.');
     }
+
+    // Update database with new details
+    const updatedLookout = await updateLookout({
+      id,
+      title: title.trim(),
+      prompt: prompt.trim(),
+      frequency,
+      cronSchedule,
+      timezone,
+      nextRunAt,
+      qstashScheduleId: scheduleId ?? '',
+      noChangeEmail,
+      model,
+      searchGroup,
+      researchDepth,
+    });
+
+    return { success: true, lookout: updatedLookout };
   } catch (error) {
     console.error('Error updating lookout:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -3328,20 +3552,15 @@ export async function deleteLookoutAction({ id }: { id: string }) {
       throw new Error('Authentication required');
     }
 
-    // Get lookout to verify ownership
-    const lookout = await getLookoutById({ id });
-    if (!lookout || lookout.userId !== user.id) {
-      throw new Error('Lookout not found or access denied');
-    }
+    // Get lookout to verify access
+    const lookout = await getWorkspaceLookout(id, user.id, 'manage');
 
-    // Delete QStash schedule if it exists
-    if (lookout.qstashScheduleId) {
-      try {
-        await qstash.schedules.delete(lookout.qstashScheduleId);
-      } catch (error) {
-        console.error('Error deleting QStash schedule:', error);
-        // Continue with database deletion even if QStash deletion fails
-      }
+    // Stop scheduling the lookout
+    try {
+      await getLookoutScheduler().unschedule(lookout);
+    } catch (error) {
+      console.error('Error deleting lookout schedule:', error);
+      // Continue with database deletion even if the scheduler fails
     }
 
     // Delete from database
@@ -3360,36 +3579,16 @@ export async function testLookoutAction({ id }: { id: string }) {
       throw new Error('Authentication required');
     }
 
-    // Get lookout to verify ownership
-    const lookout = await getLookoutById({ id });
-    if (!lookout || lookout.userId !== user.id) {
-      throw new Error('Lookout not found or access denied');
-    }
+    // Get lookout to verify access
+    const lookout = await getWorkspaceLookout(id, user.id, 'view');
 
     // Only allow testing of active or paused lookouts
     if (lookout.status === 'archived' || lookout.status === 'running') {
       throw new Error(`Cannot test lookout with status: ${lookout.status}`);
     }
 
-    // Make a POST request to the lookout API endpoint to trigger the run
-    const response = await fetch(
-      process.env.NODE_ENV === 'development' ? process.env.NGROK_URL + '/api/lookout' : `https://scira.ai/api/lookout`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          lookoutId: lookout.id,
-          prompt: lookout.prompt,
-          userId: user.id,
-        }),
-      },
-    );
-
-    if (!response.ok) {
-      throw new Error(`Failed to trigger lookout test: ${response.statusText}`);
-    }
+    // Runs as the lookout's creator, whose plan and preferences the lookout uses
+    await getLookoutScheduler().trigger(lookout);
 
     return { success: true, message: 'Lookout test started successfully' };
   } catch (error) {
@@ -3579,9 +3778,12 @@ export async function getAllChatsWithPreview(limit: number = 25, offset: number
       return { error: 'Unauthorized', status: 401 };
     }
 
-    // Fetch chats only - no messages for better performance
+    // Fetch chats of the active workspace only - no messages for better performance
+    const organizationId = await getActiveOrganizationId(user.id);
     const chats = await db.query.chat.findMany({
-      where: eq(chat.userId, user.id),
+      where: organizationId
+        ? eq(chat.organizationId, organizationId)
+        : and(eq(chat.userId, user.id), isNull(chat.organizationId)),
       orderBy: [desc(chat.createdAt)],
       limit,
       offset,
@@ -3594,46 +3796,623 @@ export async function getAllChatsWithPreview(limit: number = 25, offset: number
   }
 }
 
-// Search chats by title (paginated)
-export async function searchChatsByTitle(query: string, limit: number = 25, offset: number = 0) {
+// Full-text search over chat titles and message content (paginated)
+export async function searchChatsAction({
+  query = '',
+  model,
+  searchGroup,
+  from,
+  to,
+  visibility,
+  limit = 25,
+  offset = 0,
+}: {
+  query?: string;
+  model?: string;
+  searchGroup?: string;
+  from?: string;
+  to?: string;
+  visibility?: 'public' | 'private';
+  limit?: number;
+  offset?: number;
+}) {
   'use server';
-  
+
   try {
     const user = await getUser();
-    
+
     if (!user) {
       return { error: 'Unauthorized', status: 401 };
     }
 
-    const trimmedQuery = query?.trim() || '';
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return { error: 'Invalid date range', status: 400 };
+    }
 
-    // If no query, return paginated chats
-    if (trimmedQuery.length === 0) {
-      const chats = await db.query.chat.findMany({
-        where: eq(chat.userId, user.id),
-        orderBy: [desc(chat.createdAt)],
-        limit,
-        offset,
-      });
+    return await searchChats({
+      userId: user.id,
+      organizationId: await getActiveOrganizationId(user.id),
+      query: query.slice(0, 200),
+      filters: {
+        model: model || undefined,
+        searchGroup: searchGroup || undefined,
+        from: fromDate,
+        to: toDate,
+        visibility: visibility === 'public' || visibility === 'private' ? visibility : undefined,
+      },
+      limit: Math.min(Math.max(limit, 1), 50),
+      offset: Math.max(offset, 0),
+    });
+  } catch (error) {
+    console.error('Error searching chats:', error);
+    return { error: 'Failed to search chats', status: 500 };
+  }
+}
+
+// Past chats semantically related to a query, or to an existing chat's title
+export async function getRelatedResearchAction({
+  query,
+  chatId,
+  limit = 5,
+}: {
+  query?: string;
+  chatId?: string;
+  limit?: number;
+}) {
+  'use server';
+
+  try {
+    const user = await getUser();
 
-      return { chats };
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
     }
 
-    // Optimized: Use AND to combine userId and title search at DB level
-    // Use ilike for case-insensitive search
-    const chats = await db.query.chat.findMany({
-      where: and(
-        eq(chat.userId, user.id),
-        ilike(chat.title, `%${trimmedQuery}%`)
-      ),
-      orderBy: [desc(chat.createdAt)],
-      limit,
-      offset,
+    let lookupQuery = query?.trim().slice(0, 500);
+    if (!lookupQuery && chatId) {
+      const existingChat = await getChatById({ id: chatId });
+      const memberRole = existingChat ? await getResourceMemberRole(existingChat, user.id) : null;
+      if (!existingChat || !canAccessResource(existingChat, user.id, memberRole)) {
+        return { error: 'Chat not found', status: 404 };
+      }
+      lookupQuery = existingChat.title;
+    }
+    if (!lookupQuery) {
+      return { results: [] };
+    }
+
+    const results = await findRelatedResearch({
+      userId: user.id,
+      query: lookupQuery,
+      limit: Math.min(Math.max(limit, 1), 10),
+      excludeChatId: chatId,
     });
 
-    return { chats };
+    return { results };
   } catch (error) {
-    console.error('Error searching chats:', error);
-    return { error: 'Failed to search chats', status: 500 };
+    console.error('Error finding related research:', error);
+    return { error: 'Failed to find related research', status: 500 };
+  }
+}
+
+// Source library: sources saved from search results, with tags and notes
+export async function saveSourceAction({
+  url,
+  title,
+  excerpt,
+  kind,
+  tags = [],
+  notes,
+}: {
+  url: string;
+  title: string;
+  excerpt?: string | null;
+  kind: string;
+  tags?: string[];
+  notes?: string | null;
+}) {
+  'use server';
+
+  try {
+    const user = await getUser();
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+
+    if (!/^https?:\/\//.test(url) || !isSavedSourceKind(kind)) {
+      return { error: 'Invalid source', status: 400 };
+    }
+
+    const source = await upsertSavedSource({
+      userId: user.id,
+      url,
+      title: title.trim().slice(0, 500) || url,
+      excerpt: clampExcerpt(excerpt),
+      kind,
+      tags: parseTags(tags),
+      notes: clampNotes(notes),
+    });
+    return { source };
+  } catch (error) {
+    console.error('Error saving source:', error);
+    return { error: 'Failed to save source', status: 500 };
+  }
+}
+
+export async function updateSavedSourceAction({ id, tags, notes }: { id: string; tags: string[]; notes?: string | null }) {
+  'use server';
+
+  try {
+    const user = await getUser();
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+
+    const source = await updateSavedSource({ id, userId: user.id, tags: parseTags(tags), notes: clampNotes(notes) });
+    if (!source) {
+      return { error: 'Source not found', status: 404 };
+    }
+    return { source };
+  } catch (error) {
+    console.error('Error updating saved source:', error);
+    return { error: 'Failed to update source', status: 500 };
+  }
+}
+
+export async function deleteSavedSourceAction({ id }: { id: string }) {
+  'use server';
+
+  try {
+    const user = await getUser();
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+
+    const deleted = await deleteSavedSource({ id, userId: user.id });
+    if (!deleted) {
+      return { error: 'Source not found', status: 404 };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting saved source:', error);
+    return { error: 'Failed to delete source', status: 500 };
+  }
+}
+
+export async function getSavedSourcesAction({
+  query,
+  tag,
+  kind,
+}: { query?: string; tag?: string; kind?: string } = {}) {
+  'use server';
+
+  try {
+    const user = await getUser();
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+
+    const sources = await getSavedSourcesByUserId({
+      userId: user.id,
+      query: query?.trim().slice(0, 200) || undefined,
+      tag: tag || undefined,
+      kind: isSavedSourceKind(kind) ? kind : undefined,
+    });
+    return { sources };
+  } catch (error) {
+    console.error('Error getting saved sources:', error);
+    return { error: 'Failed to get saved sources', status: 500 };
+  }
+}
+
+// Admin console actions. Each one re-checks the caller is an admin and drops
+// the target user's cached auth, Pro status and usage counts.
+
+const MAX_PRO_GRANT_DAYS = 3650;
+const MAX_SUSPENSION_REASON_LENGTH = 500;
+
+async function applyAdminUserChange(userId: string, values: Parameters<typeof updateUserAdminFields>[0]['values']) {
+  const updatedUser = await updateUserAdminFields({ userId, values });
+  invalidateUserCaches(userId);
+  clearUserDataCache(userId);
+  return updatedUser;
+}
+
+export async function grantProAction({ userId, days }: { userId: string; days: number }) {
+  'use server';
+
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return { error: 'Forbidden', status: 403 };
+    }
+    if (!Number.isInteger(days) || days < 1 || days > MAX_PRO_GRANT_DAYS) {
+      return { error: `Days must be between 1 and ${MAX_PRO_GRANT_DAYS}`, status: 400 };
+    }
+
+    const proGrantedUntil = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    const updatedUser = await applyAdminUserChange(userId, { proGrantedUntil });
+    if (!updatedUser) {
+      return { error: 'User not found', status: 404 };
+    }
+    console.log(`[Admin] ${admin.email} granted Pro to ${userId} until ${proGrantedUntil.toISOString()}`);
+    return { success: true, proGrantedUntil };
+  } catch (error) {
+    console.error('Error granting Pro:', error);
+    return { error: 'Failed to grant Pro', status: 500 };
+  }
+}
+
+export async function revokeProGrantAction({ userId }: { userId: string }) {
+  'use server';
+
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return { error: 'Forbidden', status: 403 };
+    }
+
+    const updatedUser = await applyAdminUserChange(userId, { proGrantedUntil: null });
+    if (!updatedUser) {
+      return { error: 'User not found', status: 404 };
+    }
+    console.log(`[Admin] ${admin.email} revoked the Pro grant of ${userId}`);
+    return { success: true };
+  } catch (error) {
+    console.error('Error revoking Pro grant:', error);
+    return { error: 'Failed to revoke Pro grant', status: 500 };
+  }
+}
+
+export async function resetUsageAction({ userId, kind }: { userId: string; kind: 'messages' | 'extreme' }) {
+  'use server';
+
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return { error: 'Forbidden', status: 403 };
+    }
+    if (kind !== 'messages' && kind !== 'extreme') {
+      return { error: 'Invalid usage type', status: 400 };
+    }
+
+    await resetUsageByUserId({ userId, kind });
+    invalidateUserCaches(userId);
+    console.log(`[Admin] ${admin.email} reset ${kind} usage of ${userId}`);
+    return { success: true };
+  } catch (error) {
+    console.error('Error resetting usage:', error);
+    return { error: 'Failed to reset usage', status: 500 };
+  }
+}
+
+export async function suspendUserAction({ userId, reason }: { userId: string; reason: string }) {
+  'use server';
+
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return { error: 'Forbidden', status: 403 };
+    }
+    if (admin.id === userId) {
+      return { error: 'You cannot suspend your own account', status: 400 };
+    }
+
+    const updatedUser = await applyAdminUserChange(userId, {
+      suspendedAt: new Date(),
+      suspensionReason: reason.trim().slice(0, MAX_SUSPENSION_REASON_LENGTH) || null,
+    });
+    if (!updatedUser) {
+      return { error: 'User not found', status: 404 };
+    }
+    // Sign the user out everywhere; new sign-ins are refused while suspended
+    await deleteSessionsByUserId({ userId });
+    console.log(`[Admin] ${admin.email} suspended ${userId}`);
+    return { success: true };
+  } catch (error) {
+    console.error('Error suspending user:', error);
+    return { error: 'Failed to suspend user', status: 500 };
+  }
+}
+
+export async function unsuspendUserAction({ userId }: { userId: string }) {
+  'use server';
+
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return { error: 'Forbidden', status: 403 };
+    }
+
+    const updatedUser = await applyAdminUserChange(userId, { suspendedAt: null, suspensionReason: null });
+    if (!updatedUser) {
+      return { error: 'User not found', status: 404 };
+    }
+    console.log(`[Admin] ${admin.email} lifted the suspension of ${userId}`);
+    return { success: true };
+  } catch (error) {
+    console.error('Error lifting suspension:', error);
+    return { error: 'Failed to lift suspension', status: 500 };
+  }
+}
+
+export async function setUserRoleAction({ userId, role }: { userId: string; role: 'user' | 'admin' }) {
+  'use server';
+
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return { error: 'Forbidden', status: 403 };
+    }
+    if (role !== 'user' && role !== 'admin') {
+      return { error: 'Invalid role', status: 400 };
+    }
+    if (admin.id === userId && role !== 'admin') {
+      return { error: 'You cannot remove your own admin role', status: 400 };
+    }
+
+    const updatedUser = await applyAdminUserChange(userId, { role });
+    if (!updatedUser) {
+      return { error: 'User not found', status: 404 };
+    }
+    console.log(`[Admin] ${admin.email} set the role of ${userId} to ${role}`);
+    return { success: true };
+  } catch (error) {
+    console.error('Error setting user role:', error);
+    return { error: 'Failed to set user role', status: 500 };
+  }
+}
+
+// Organizations and shared workspaces. Owners and admins manage membership;
+// only owners can delete the organization or hand out the owner role.
+
+const MAX_ORGANIZATION_NAME_LENGTH = 100;
+const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'admin', 'member'];
+
+// The signed-in user and their role in the organization (null when not a member)
+async function getOrganizationCaller(organizationId: string) {
+  const user = await getUser();
+  if (!user) return { user: null, role: null };
+  const role = await getOrganizationMemberRole({ organizationId, userId: user.id });
+  return { user, role };
+}
+
+export async function getWorkspacesAction() {
+  'use server';
+
+  try {
+    const user = await getUser();
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+
+    const [organizations, activeOrganizationId] = await Promise.all([
+      getOrganizationsByUserId({ userId: user.id }),
+      getActiveOrganizationId(user.id),
+    ]);
+    return { organizations, activeOrganizationId };
+  } catch (error) {
+    console.error('Error getting workspaces:', error);
+    return { error: 'Failed to get workspaces', status: 500 };
+  }
+}
+
+// Switch the workspace new chats and lookouts are created in; null for the personal workspace
+export async function setActiveWorkspaceAction({ organizationId }: { organizationId: string | null }) {
+  'use server';
+
+  try {
+    const user = await getUser();
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+    if (organizationId && !(await getOrganizationMemberRole({ organizationId, userId: user.id }))) {
+      return { error: 'Workspace not found', status: 404 };
+    }
+
+    await setActiveOrganizationId(organizationId);
+    return { success: true };
+  } catch (error) {
+    console.error('Error switching workspace:', error);
+    return { error: 'Failed to switch workspace', status: 500 };
+  }
+}
+
+export async function createOrganizationAction({ name }: { name: string }) {
+  'use server';
+
+  try {
+    const user = await getUser();
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+    const trimmedName = name.trim().slice(0, MAX_ORGANIZATION_NAME_LENGTH);
+    if (!trimmedName) {
+      return { error: 'Name is required', status: 400 };
+    }
+
+    const organization = await createOrganization({ name: trimmedName, ownerId: user.id });
+    await setActiveOrganizationId(organization.id);
+    return { success: true, organization };
+  } catch (error) {
+    console.error('Error creating organization:', error);
+    return { error: 'Failed to create organization', status: 500 };
+  }
+}
+
+export async function getOrganizationMembersAction({ organizationId }: { organizationId: string }) {
+  'use server';
+
+  try {
+    const { user, role } = await getOrganizationCaller(organizationId);
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+    if (!role) {
+      return { error: 'Organization not found', status: 404 };
+    }
+
+    const members = await getOrganizationMembers({ organizationId });
+    return { members, role };
+  } catch (error) {
+    console.error('Error getting organization members:', error);
+    return { error: 'Failed to get organization members', status: 500 };
+  }
+}
+
+// Add an existing Scira account to the organization by email
+export async function addOrganizationMemberAction({
+  organizationId,
+  email,
+  role = 'member',
+}: {
+  organizationId: string;
+  email: string;
+  role?: OrganizationRole;
+}) {
+  'use server';
+
+  try {
+    const { user, role: callerRole } = await getOrganizationCaller(organizationId);
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+    if (!canManageOrganization(callerRole)) {
+      return { error: 'Forbidden', status: 403 };
+    }
+    if (!ORGANIZATION_ROLES.includes(role)) {
+      return { error: 'Invalid role', status: 400 };
+    }
+    if (role === 'owner' && callerRole !== 'owner') {
+      return { error: 'Only owners can add owners', status: 403 };
+    }
+
+    const [invitedUser] = await getUserByEmail(email.trim().toLowerCase());
+    if (!invitedUser) {
+      return { error: 'No account uses that email', status: 404 };
+    }
+
+    const member = await addOrganizationMember({ organizationId, userId: invitedUser.id, role });
+    if (!member) {
+      return { error: 'Already a member', status: 409 };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error adding organization member:', error);
+    return { error: 'Failed to add member', status: 500 };
+  }
+}
+
+export async function updateOrganizationMemberRoleAction({
+  organizationId,
+  userId,
+  role,
+}: {
+  organizationId: string;
+  userId: string;
+  role: OrganizationRole;
+}) {
+  'use server';
+
+  try {
+    const { user, role: callerRole } = await getOrganizationCaller(organizationId);
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+    if (!canManageOrganization(callerRole)) {
+      return { error: 'Forbidden', status: 403 };
+    }
+    if (!ORGANIZATION_ROLES.includes(role)) {
+      return { error: 'Invalid role', status: 400 };
+    }
+
+    const currentRole = await getOrganizationMemberRole({ organizationId, userId });
+    if (!currentRole) {
+      return { error: 'Member not found', status: 404 };
+    }
+    if ((role === 'owner' || currentRole === 'owner') && callerRole !== 'owner') {
+      return { error: 'Only owners can change the owner role', status: 403 };
+    }
+    if (currentRole === 'owner' && role !== 'owner' && (await countOrganizationOwners({ organizationId })) <= 1) {
+      return { error: 'An organization needs at least one owner', status: 400 };
+    }
+
+    await updateOrganizationMemberRole({ organizationId, userId, role });
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating organization member role:', error);
+    return { error: 'Failed to update member role', status: 500 };
+  }
+}
+
+// Remove a member, or leave the organization when userId is the caller's own id.
+// Chats and lookouts the member created stay with the organization.
+export async function removeOrganizationMemberAction({ organizationId, userId }: { organizationId: string; userId: string }) {
+  'use server';
+
+  try {
+    const { user, role: callerRole } = await getOrganizationCaller(organizationId);
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+    const isSelf = user.id === userId;
+    if (!callerRole || (!isSelf && !canManageOrganization(callerRole))) {
+      return { error: 'Forbidden', status: 403 };
+    }
+
+    const currentRole = await getOrganizationMemberRole({ organizationId, userId });
+    if (!currentRole) {
+      return { error: 'Member not found', status: 404 };
+    }
+    if (currentRole === 'owner' && !isSelf && callerRole !== 'owner') {
+      return { error: 'Only owners can remove owners', status: 403 };
+    }
+    if (currentRole === 'owner' && (await countOrganizationOwners({ organizationId })) <= 1) {
+      return { error: 'An organization needs at least one owner', status: 400 };
+    }
+
+    await removeOrganizationMember({ organizationId, userId });
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing organization member:', error);
+    return { error: 'Failed to remove member', status: 500 };
+  }
+}
+
+// Delete the organization with all of its chats and lookouts
+export async function deleteOrganizationAction({ organizationId }: { organizationId: string }) {
+  'use server';
+
+  try {
+    const { user, role } = await getOrganizationCaller(organizationId);
+    if (!user) {
+      return { error: 'Unauthorized', status: 401 };
+    }
+    if (role !== 'owner') {
+      return { error: 'Forbidden', status: 403 };
+    }
+
+    // Stop the organization's lookouts before their rows go away with it
+    const lookouts = await getLookoutsByOrganizationId({ organizationId });
+    const scheduler = getLookoutScheduler();
+    await Promise.all(
+      lookouts.map((lookout) =>
+        scheduler.unschedule(lookout).catch((error) => {
+          console.error('Error deleting lookout schedule:', lookout.id, error);
+        }),
+      ),
+    );
+
+    await deleteOrganization({ id: organizationId });
+    // Clear the workspace cookie if it pointed at the deleted organization
+    if ((await getActiveOrganizationId(user.id)) === null) {
+      await setActiveOrganizationId(null);
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting organization:', error);
+    return { error: 'Failed to delete organization', status: 500 };
   }
 }
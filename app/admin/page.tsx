@@ -0,0 +1,36 @@
+import { notFound } from 'next/navigation';
+import { Metadata } from 'next';
+import { getAdminUser } from '@/lib/admin';
+import { searchUsersForAdmin } from '@/lib/db/queries';
+import { SidebarLayout } from '@/components/sidebar-layout';
+import { AdminShell } from '@/components/admin-layout';
+import { AdminUserList } from '@/components/admin-users';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Users',
+  robots: { index: false, follow: false },
+};
+
+export default async function Page({ searchParams }: { searchParams: Promise<{ q?: string }> }) {
+  // Hidden rather than forbidden, so the route does not advertise itself
+  const admin = await getAdminUser();
+  if (!admin) notFound();
+
+  const { q } = await searchParams;
+  const query = q?.trim().slice(0, 200) ?? '';
+  const users = await searchUsersForAdmin({ query });
+
+  return (
+    <SidebarLayout>
+      <AdminShell
+        page="users"
+        title="Users"
+        description="Find an account to review its usage, grant Pro or suspend it."
+      >
+        <AdminUserList query={query} users={users} />
+      </AdminShell>
+    </SidebarLayout>
+  );
+}
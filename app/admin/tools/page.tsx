@@ -0,0 +1,36 @@
+import { notFound } from 'next/navigation';
+import { Metadata } from 'next';
+import { getAdminUser } from '@/lib/admin';
+import { getToolCalls, getToolCallStats } from '@/lib/db/queries';
+import { SidebarLayout } from '@/components/sidebar-layout';
+import { TOOL_CALL_WINDOWS, ToolCallDashboard, type ToolCallWindow } from '@/components/tool-call-dashboard';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Tool Calls',
+  robots: { index: false, follow: false },
+};
+
+export default async function Page({ searchParams }: { searchParams: Promise<{ window?: string }> }) {
+  // Hidden rather than forbidden, so the route does not advertise itself
+  const admin = await getAdminUser();
+  if (!admin) notFound();
+
+  const { window } = await searchParams;
+  const selectedWindow: ToolCallWindow =
+    window && Object.hasOwn(TOOL_CALL_WINDOWS, window) ? (window as ToolCallWindow) : '24h';
+  const since = new Date(Date.now() - TOOL_CALL_WINDOWS[selectedWindow].hours * 60 * 60 * 1000);
+
+  const [stats, slowest, failures] = await Promise.all([
+    getToolCallStats({ since }),
+    getToolCalls({ since, orderBy: 'slowest', limit: 25 }),
+    getToolCalls({ since, status: 'error', limit: 50 }),
+  ]);
+
+  return (
+    <SidebarLayout>
+      <ToolCallDashboard window={selectedWindow} stats={stats} slowest={slowest} failures={failures} />
+    </SidebarLayout>
+  );
+}
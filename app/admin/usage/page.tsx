@@ -0,0 +1,44 @@
+import { notFound } from 'next/navigation';
+import { Metadata } from 'next';
+import { getAdminUser } from '@/lib/admin';
+import { getTopTokenConsumers } from '@/lib/db/queries';
+import { SidebarLayout } from '@/components/sidebar-layout';
+import { AdminShell, AdminWindowNav } from '@/components/admin-layout';
+import { TopConsumers, USAGE_WINDOWS, type UsageWindow } from '@/components/admin-users';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Top Consumers',
+  robots: { index: false, follow: false },
+};
+
+export default async function Page({ searchParams }: { searchParams: Promise<{ window?: string }> }) {
+  const admin = await getAdminUser();
+  if (!admin) notFound();
+
+  const { window } = await searchParams;
+  const selectedWindow: UsageWindow = window && window in USAGE_WINDOWS ? (window as UsageWindow) : '24h';
+  const since = new Date(Date.now() - USAGE_WINDOWS[selectedWindow].hours * 60 * 60 * 1000);
+
+  const consumers = await getTopTokenConsumers({ since, limit: 50 });
+
+  return (
+    <SidebarLayout>
+      <AdminShell
+        page="usage"
+        title="Top Consumers"
+        description={USAGE_WINDOWS[selectedWindow].label}
+        actions={
+          <AdminWindowNav
+            windows={USAGE_WINDOWS}
+            selected={selectedWindow}
+            href={(key) => `/admin/usage?window=${key}`}
+          />
+        }
+      >
+        <TopConsumers consumers={consumers} />
+      </AdminShell>
+    </SidebarLayout>
+  );
+}
@@ -0,0 +1,79 @@
+import { notFound } from 'next/navigation';
+import { Metadata } from 'next';
+import { getHistoricalUsage } from '@/app/actions';
+import { getAdminUser } from '@/lib/admin';
+import {
+  getDodoSubscriptionsByUserId,
+  getExtremeSearchCount,
+  getMessageCount,
+  getPolarSubscriptionsByUserId,
+  getTokenUsageByUserId,
+  getUserById,
+} from '@/lib/db/queries';
+import type { DodoSubscription } from '@/lib/db/schema';
+import { SidebarLayout } from '@/components/sidebar-layout';
+import { AdminShell } from '@/components/admin-layout';
+import { AdminUserDetail, type AdminSubscriptionRow } from '@/components/admin-users';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'User',
+  robots: { index: false, follow: false },
+};
+
+const USAGE_HISTORY_DAYS = 90;
+
+export default async function Page({ params }: { params: Promise<{ id: string }> }) {
+  const admin = await getAdminUser();
+  if (!admin) notFound();
+
+  const { id } = await params;
+  const user = await getUserById(id);
+  if (!user) notFound();
+
+  const [messageCount, extremeSearchCount, tokens, polarSubscriptions, dodoSubscriptions, usageHistory] =
+    await Promise.all([
+      getMessageCount({ userId: user.id }),
+      getExtremeSearchCount({ userId: user.id }),
+      getTokenUsageByUserId({ userId: user.id, since: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) }),
+      getPolarSubscriptionsByUserId({ userId: user.id }),
+      getDodoSubscriptionsByUserId({ userId: user.id }) as Promise<DodoSubscription[]>,
+      getHistoricalUsage({ id: user.id }, USAGE_HISTORY_DAYS),
+    ]);
+
+  const subscriptions: AdminSubscriptionRow[] = [
+    ...polarSubscriptions.map((subscription) => ({
+      id: subscription.id,
+      provider: 'Polar' as const,
+      status: subscription.status,
+      amount: subscription.amount,
+      currency: subscription.currency,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+    })),
+    ...dodoSubscriptions.map((subscription) => ({
+      id: subscription.id,
+      provider: 'Dodo' as const,
+      status: subscription.status,
+      amount: subscription.amount,
+      currency: subscription.currency,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+    })),
+  ];
+
+  return (
+    <SidebarLayout>
+      <AdminShell page="users" title={user.name || user.email} description={user.email}>
+        <AdminUserDetail
+          user={user}
+          isSelf={user.id === admin.id}
+          messageCount={messageCount}
+          extremeSearchCount={extremeSearchCount}
+          tokens={tokens}
+          subscriptions={subscriptions}
+          usageHistory={usageHistory}
+        />
+      </AdminShell>
+    </SidebarLayout>
+  );
+}
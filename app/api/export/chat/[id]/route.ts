@@ -0,0 +1,62 @@
+import { auth } from '@/lib/auth';
+import { getChatById, getMessagesByChatId } from '@/lib/db/queries';
+import type { Chat } from '@/lib/db/schema';
+import { ChatSDKError } from '@/lib/errors';
+import { buildChatExport, exportFileName, isChatExportFormat, renderChatExport } from '@/lib/export';
+import { canAccessResource, getResourceMemberRole } from '@/lib/workspaces';
+
+const MAX_EXPORT_MESSAGES = 1000;
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: chatId } = await params;
+  const format = new URL(req.url).searchParams.get('format') ?? 'markdown';
+
+  if (!chatId || !isChatExportFormat(format)) {
+    return new ChatSDKError('bad_request:api', 'Format must be one of markdown, json or docx').toResponse();
+  }
+
+  let chat: Chat | null;
+  try {
+    chat = await getChatById({ id: chatId });
+  } catch {
+    return new ChatSDKError('not_found:chat').toResponse();
+  }
+
+  if (!chat) {
+    return new ChatSDKError('not_found:chat').toResponse();
+  }
+
+  // Public chats can be exported by anyone who can view them; private ones only by their owner
+  // or, for workspace chats, by members of the organization
+  if (chat.visibility === 'private') {
+    const session = await auth.api.getSession(req);
+    if (!session?.user) {
+      return new ChatSDKError('unauthorized:chat').toResponse();
+    }
+    const memberRole = await getResourceMemberRole(chat, session.user.id);
+    if (!canAccessResource(chat, session.user.id, memberRole)) {
+      return new ChatSDKError('forbidden:chat').toResponse();
+    }
+  }
+
+  try {
+    const messages = await getMessagesByChatId({ id: chatId, limit: MAX_EXPORT_MESSAGES });
+    const { body, contentType, extension } = await renderChatExport(buildChatExport(chat, messages), format);
+
+    return new Response(typeof body === 'string' ? body : new Uint8Array(body), {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${exportFileName(chat.title, extension)}"`,
+        'Cache-Control': 'no-store, no-cache, must-revalidate',
+        Pragma: 'no-cache',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ChatSDKError) {
+      return error.toResponse();
+    }
+    console.error('Chat export error:', error);
+    return new ChatSDKError('bad_request:api', 'Failed to export chat').toResponse();
+  }
+}
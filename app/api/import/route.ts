@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { saveImportedChat } from '@/lib/db/queries';
+import { ChatSDKError } from '@/lib/errors';
+import { MAX_IMPORT_BYTES, MAX_IMPORT_CHATS, parseImport, readImportFile, type SkippedImportItem } from '@/lib/import';
+
+export const maxDuration = 300;
+
+/**
+ * Import chat history from a Scira JSON export or a ChatGPT / Claude data
+ * export (zip or conversations.json), uploaded as the `file` form field.
+ */
+export async function POST(request: NextRequest) {
+  const session = await auth.api.getSession({ headers: request.headers });
+  if (!session?.user) {
+    return new ChatSDKError('unauthorized:chat').toResponse();
+  }
+
+  const formData = await request.formData();
+  const file = formData.get('file');
+  if (!(file instanceof Blob)) {
+    return new ChatSDKError('bad_request:api', 'No file uploaded').toResponse();
+  }
+  if (file.size > MAX_IMPORT_BYTES) {
+    return new ChatSDKError('bad_request:api', 'File size should be less than 100MB').toResponse();
+  }
+
+  let data: unknown;
+  try {
+    data = readImportFile(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unreadable file';
+    return new ChatSDKError('bad_request:api', `Could not read export: ${reason}`).toResponse();
+  }
+
+  const parsed = parseImport(data);
+  if (!parsed) {
+    return new ChatSDKError(
+      'bad_request:api',
+      'Unrecognised export format. Upload a Scira JSON export or a ChatGPT or Claude data export.',
+    ).toResponse();
+  }
+
+  const skipped: SkippedImportItem[] = [...parsed.skipped];
+  const chats = parsed.chats.slice(0, MAX_IMPORT_CHATS);
+  if (parsed.chats.length > chats.length) {
+    skipped.push({
+      chat: null,
+      reason: `Import limit of ${MAX_IMPORT_CHATS} chats reached`,
+      count: parsed.chats.length - chats.length,
+    });
+  }
+
+  const imported: Array<{ id: string; title: string; messageCount: number }> = [];
+  for (const chat of chats) {
+    try {
+      const id = await saveImportedChat({ userId: session.user.id, ...chat });
+      imported.push({ id, title: chat.title, messageCount: chat.messages.length });
+    } catch (error) {
+      console.error(`[Import] Failed to save chat "${chat.title}":`, error);
+      skipped.push({ chat: chat.title, reason: 'Failed to save', count: 1 });
+    }
+  }
+
+  console.log(
+    `[Import] User ${session.user.id} imported ${imported.length} ${parsed.source} chats (${skipped.length} skipped items)`,
+  );
+
+  return Response.json({ source: parsed.source, imported, skipped });
+}
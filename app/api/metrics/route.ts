@@ -0,0 +1,27 @@
+import { serverEnv } from '@/env/server';
+import { renderPrometheusMetrics } from '@/lib/metrics';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+// Prometheus scrape endpoint; disabled until METRICS_TOKEN is set
+export async function GET(req: NextRequest) {
+  if (!serverEnv.METRICS_TOKEN) {
+    return new NextResponse('Not Found', { status: 404 });
+  }
+  if (req.headers.get('Authorization') !== `Bearer ${serverEnv.METRICS_TOKEN}`) {
+    return new NextResponse('Unauthorized', { status: 401 });
+  }
+
+  const body = await renderPrometheusMetrics();
+  if (body === null) {
+    return new NextResponse('Metrics are not initialized', { status: 503 });
+  }
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -3,6 +3,7 @@ import { getChatById, getMessagesByChatId, getStreamIdsByChatId } from '@/lib/db
 import type { Chat } from '@/lib/db/schema';
 import { ChatSDKError } from '@/lib/errors';
 import type { ChatMessage } from '@/lib/types';
+import { canAccessResource, getResourceMemberRole } from '@/lib/workspaces';
 import { createUIMessageStream, JsonToSseTransformStream } from 'ai';
 import { getStreamContext } from '../../route';
 import { differenceInSeconds } from 'date-fns';
@@ -42,8 +43,11 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
     return new ChatSDKError('not_found:chat').toResponse();
   }
 
-  if (chat.visibility === 'private' && chat.userId !== session.user.id) {
-    return new ChatSDKError('forbidden:chat').toResponse();
+  if (chat.visibility === 'private') {
+    const memberRole = await getResourceMemberRole(chat, session.user.id);
+    if (!canAccessResource(chat, session.user.id, memberRole)) {
+      return new ChatSDKError('forbidden:chat').toResponse();
+    }
   }
 
   const streamIds = await getStreamIdsByChatId({ chatId });
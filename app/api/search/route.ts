@@ -8,9 +8,7 @@ import {
   getLightweightUser,
 } from '@/app/actions';
 import {
-  convertToModelMessages,
   streamText,
-  pruneMessages,
   NoSuchToolError,
   createUIMessageStream,
   generateObject,
@@ -24,20 +22,28 @@ import {
   requiresProSubscription,
   shouldBypassRateLimits,
   getModelParameters,
-  getMaxOutputTokens,
+  getProviderOptions,
+  getModelHeaders,
+  getExcludedTools,
 } from '@/ai/providers';
 import {
   createStreamId,
+  getBranchMessages,
   getChatByIdForValidation,
+  getSavedSourcesByIds,
+  getMessageTreeByChatId,
   saveChat,
   saveMessages,
+  updateChatActiveMessage,
   incrementExtremeSearchUsage,
   incrementMessageUsage,
 } from '@/lib/db/queries';
 import { ChatSDKError } from '@/lib/errors';
+import { canAccessResource, getActiveOrganizationId } from '@/lib/workspaces';
 import { createResumableStreamContext, type ResumableStreamContext } from 'resumable-stream';
 import { after } from 'next/server';
 import { CustomInstructions } from '@/lib/db/schema';
+import { convertToUIMessages } from '@/lib/ui-messages';
 import { v7 as uuidv7 } from 'uuid';
 import { geolocation } from '@vercel/functions';
 
@@ -68,20 +74,58 @@ import {
   extremeSearchTool,
   createConnectorsSearchTool,
   codeContextTool,
+  createPastResearchTool,
 } from '@/lib/tools';
-import { GroqProviderOptions } from '@ai-sdk/groq';
 import { markdownJoinerTransform } from '@/lib/parser';
 import { ChatMessage } from '@/lib/types';
-import { OpenAIResponsesProviderOptions } from '@ai-sdk/openai';
-import { AnthropicProviderOptions } from '@ai-sdk/anthropic';
 import { getCachedCustomInstructionsByUserId, getCachedUserPreferencesByUserId } from '@/lib/user-data-server';
-import { GoogleGenerativeAIProviderOptions } from '@ai-sdk/google';
 import { unauthenticatedRateLimit, getClientIdentifier } from '@/lib/rate-limit';
-import { CohereChatModelOptions } from '@ai-sdk/cohere';
-import { XaiProviderOptions } from '@ai-sdk/xai';
+import { isUserSearchProvider, type UserSearchProvider } from '@/lib/search-providers';
+import { getAttachmentFilename, isUploadedAttachmentUrl, type SandboxAttachment } from '@/lib/sandbox';
+import { indexResearchMessages } from '@/lib/research/memory';
+import { buildModelContext } from '@/lib/chat-context';
+import { checkCitations, extractCitationSources } from '@/lib/citation-check';
+import { attachedSourcesPrompt, MAX_ATTACHED_SOURCES } from '@/lib/source-library';
+import { createToolCallRecorder } from '@/lib/tool-call-recorder';
+import {
+  recordPreStreamTimings,
+  recordSearchCompletion,
+  recordSearchError,
+  recordTimeToFirstToken,
+  searchMetricLabels,
+} from '@/lib/metrics';
 
 let globalStreamContext: ResumableStreamContext | null = null;
 
+// Every file uploaded in this chat, mounted into the code interpreter's working directory
+function collectSandboxAttachments(messages: ChatMessage[]): SandboxAttachment[] {
+  const seen = new Map<string, SandboxAttachment>();
+  for (const message of messages) {
+    for (const part of message.parts ?? []) {
+      // Only files uploaded through this app; the server must not fetch arbitrary client-supplied URLs
+      if (part.type === 'file' && part.url && isUploadedAttachmentUrl(part.url) && !seen.has(part.url)) {
+        seen.set(part.url, { url: part.url, name: part.filename });
+      }
+    }
+  }
+  return [...seen.values()];
+}
+
+// Models only take images and PDFs as files; point them at the sandbox copy of anything else
+function replaceDataFileParts(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    parts: message.parts.map((part) =>
+      part.type === 'file' && !part.mediaType.startsWith('image/') && part.mediaType !== 'application/pdf'
+        ? {
+            type: 'text' as const,
+            text: `[Attached file ./${getAttachmentFilename({ url: part.url, name: part.filename })} is available to the code interpreter]`,
+          }
+        : part,
+    ),
+  }));
+}
+
 // Shared config promise to avoid duplicate calls
 let configPromise: Promise<any>;
 
@@ -141,9 +185,12 @@ function initializeChatAndChecks({
     message: messages[messages.length - 1],
   }).catch(() => 'New Chat');
 
-  // Validate ownership once and get chat data
+  // New chats are created in the workspace selected in the sidebar
+  const activeOrganizationPromise = getActiveOrganizationId(lightweightUser.userId).catch(() => null);
+
+  // Validate access once and get chat data
   const validatedChatPromise = chatQueryPromise.then((existingChat) => {
-    if (existingChat && existingChat.userId !== lightweightUser.userId) {
+    if (existingChat && !canAccessResource(existingChat, lightweightUser.userId, existingChat.memberRole)) {
       throw new ChatSDKError('forbidden:chat', 'This chat belongs to another user');
     }
     return existingChat;
@@ -237,10 +284,11 @@ function initializeChatAndChecks({
 
       if (!existingChat) {
         // New chat: create it only after pro check passes (needed before saving messages due to FK constraint)
-        const chatTitle = await titleGenerationPromise;
+        const [chatTitle, organizationId] = await Promise.all([titleGenerationPromise, activeOrganizationPromise]);
         await saveChat({
           id,
           userId: lightweightUser.userId,
+          organizationId,
           title: chatTitle,
           visibility: selectedVisibilityType,
         });
@@ -302,8 +350,10 @@ export async function POST(req: Request) {
     isCustomInstructionsEnabled,
     searchProvider,
     selectedConnectors,
+    savedSourceIds,
   } = await req.json();
   recordTiming('parse_request_body', opStart);
+  const metricLabels = searchMetricLabels(model, group);
 
   opStart = Date.now();
   const { latitude, longitude } = geolocation(req);
@@ -316,8 +366,10 @@ export async function POST(req: Request) {
   // Start all independent operations in parallel immediately
   opStart = Date.now();
   const lightweightUserPromise = getLightweightUser();
-  // Use lightweight validation query - only fetches id and userId
-  const chatQueryPromise = getChatByIdForValidation({ id }); // Start immediately - doesn't depend on auth
+  // Use lightweight validation query - only fetches the owner, workspace and the user's membership
+  const chatQueryPromise = lightweightUserPromise.then((lightweightUser) =>
+    lightweightUser ? getChatByIdForValidation({ id, userId: lightweightUser.userId }) : null,
+  );
   const rateLimitPromise = (async () => {
     const identifier = getClientIdentifier(req);
     return unauthenticatedRateLimit.limit(identifier);
@@ -420,51 +472,86 @@ export async function POST(req: Request) {
 
   customInstructions = customInstructionsResult;
 
+  // Sources attached from the user's library are read with the retrieve tool before answering
+  const attachedSources =
+    user && Array.isArray(savedSourceIds) && savedSourceIds.length > 0
+      ? await getSavedSourcesByIds({
+          userId: user.id,
+          ids: savedSourceIds
+            .filter((sourceId): sourceId is string => typeof sourceId === 'string')
+            .slice(0, MAX_ATTACHED_SOURCES),
+        })
+      : [];
+  const requestTools =
+    attachedSources.length > 0 && !activeTools.includes('retrieve') ? [...activeTools, 'retrieve' as const] : activeTools;
+
+  // The request carries the client's current choice; fall back to the synced preference
+  const preferredSearchProvider = userPreferencesResult?.preferences?.['scira-search-provider'];
+  const webSearchProvider: UserSearchProvider = isUserSearchProvider(searchProvider)
+    ? searchProvider
+    : isUserSearchProvider(preferredSearchProvider)
+      ? preferredSearchProvider
+      : 'exa';
+
+  const lastMessage = messages[messages.length - 1];
+  let contextMessages: ChatMessage[] = messages;
+
   // Save user message (chat is guaranteed to exist now) - await synchronously (no background)
+  // The model sees the stored branch ending at this message, never its sibling versions
   if (user) {
     opStart = Date.now();
-    await saveMessages({
-      messages: [
-        {
-          chatId: id,
-          id: messages[messages.length - 1].id,
-          role: 'user',
-          parts: messages[messages.length - 1].parts,
-          attachments: messages[messages.length - 1].experimental_attachments ?? [],
-          createdAt: new Date(),
-          model: model,
-          inputTokens: 0,
-          outputTokens: 0,
-          totalTokens: 0,
-          completionTime: 0,
-        },
-      ],
-    });
+    const tree = await getMessageTreeByChatId({ chatId: id });
+
+    if (tree.has(lastMessage.id)) {
+      // Regenerating: the question is already saved, the new answer becomes a sibling of the old one
+      contextMessages = convertToUIMessages(await getBranchMessages({ tree, leafId: lastMessage.id }));
+    } else {
+      // New or edited question: it follows the message shown before it in the client's branch
+      // (or the latest saved message if the client's copy was never persisted)
+      const previousId: string | undefined = messages[messages.length - 2]?.id;
+      const parentId = !previousId ? null : tree.has(previousId) ? previousId : tree.activeLeaf(null);
+
+      await saveMessages({
+        messages: [
+          {
+            chatId: id,
+            id: lastMessage.id,
+            parentId,
+            role: 'user',
+            parts: lastMessage.parts,
+            attachments: lastMessage.experimental_attachments ?? [],
+            createdAt: new Date(),
+            model: model,
+            searchGroup: group,
+            inputTokens: 0,
+            outputTokens: 0,
+            totalTokens: 0,
+            completionTime: 0,
+          },
+        ],
+      });
+      contextMessages = [...convertToUIMessages(await getBranchMessages({ tree, leafId: parentId })), lastMessage];
+    }
+
+    await updateChatActiveMessage({ chatId: id, messageId: lastMessage.id });
     recordTiming('save_user_message', opStart);
   }
 
-  const setupTimeMs = Date.now() - requestStartTime;
-  console.log('⏱ Pre-stream operation timings (ms):', preStreamTimings);
-  console.log(`🚀 Time to streamText: ${(setupTimeMs / 1000).toFixed(2)}s`);
+  recordPreStreamTimings(metricLabels, preStreamTimings, Date.now() - requestStartTime);
 
   const streamStartTime = Date.now();
   const initialMessageIds = new Set(messages.map((message: any) => message.id));
 
-  const shouldPrune = messages.length > 10;
-
-  const prunedMessages = shouldPrune
-    ? await (async () => {
-        console.log(`🔧 Pruning messages: ${messages.length} messages`);
-        const pruned = pruneMessages({
-          reasoning: 'none',
-          messages: await convertToModelMessages(messages),
-          toolCalls: 'before-last-3-messages',
-          emptyMessages: 'remove',
-        });
-        console.log(`✂️ Pruned to ${pruned.length} messages`);
-        return pruned;
-      })()
-    : await convertToModelMessages(messages);
+  const sandboxAttachments = collectSandboxAttachments(contextMessages);
+  const modelMessages = replaceDataFileParts(contextMessages);
+  const modelContext = await buildModelContext({ chatId: user ? id : null, model, messages: modelMessages });
+  let firstTokenAt: number | null = null;
+  const toolCallRecorder = createToolCallRecorder({
+    chatId: lightweightUser ? id : null,
+    userId: lightweightUser?.userId ?? null,
+    model,
+    providers: { web_search: webSearchProvider, extreme_search: 'exa' },
+  });
 
   const stream = createUIMessageStream<ChatMessage>({
     execute: async ({ writer: dataStream }) => {
@@ -477,19 +564,14 @@ export async function POST(req: Request) {
         });
       }
 
+      const excludedTools = getExcludedTools(model);
       const result = streamText({
         model: scira.languageModel(model),
-        messages: prunedMessages,
+        messages: modelContext.messages,
         ...getModelParameters(model),
         stopWhen: stepCountIs(5),
-        ...(model === "scira-default" || model === "scira-grok4.1-fast-thinking" || model === "scira-glm-4.6" || model === "scira-glm-4.6v-flash" || model === "scira-glm-4.6v" ? {
-          maxOutputTokens: getMaxOutputTokens(model),
-        } : {}),
         maxRetries: 10,
-        activeTools:
-          model === 'scira-qwen-coder-plus'
-            ? [...activeTools].filter((tool) => tool !== 'code_interpreter')
-            : [...activeTools],
+        activeTools: [...requestTools].filter((tool) => !excludedTools.includes(tool)),
         experimental_transform: markdownJoinerTransform(),
         system:
           instructions +
@@ -498,194 +580,25 @@ export async function POST(req: Request) {
             : '\n') +
           (latitude && longitude && userPreferencesResult?.preferences?.['scira-location-metadata-enabled'] === true
             ? `\n\nThe user's location is ${latitude}, ${longitude}.`
-            : ''),
+            : '') +
+          attachedSourcesPrompt(attachedSources) +
+          modelContext.system,
         toolChoice: 'auto',
-        ...(model === 'scira-anthropic' || model === 'scira-anthropic-think'
-          ? {
-            headers: {
-              'anthropic-beta': 'context-1m-2025-08-07',
-            },
-          } : {}),
-        providerOptions: {
-          gateway: {
-            only: ['openai', 'google', 'zai', 'arcee-ai', 'deepseek', 'alibaba', 'baseten', 'minimax', 'fireworks', 'bedrock', 'vercel'],
-            ...(model === 'scira-kimi-k2-v2-thinking' || model === 'scira-kimi-k2-v2'
-              ? {
-                order: ['baseten', 'fireworks'],
-              }
-              : {}),
-            ...(model === 'scira-qwen-coder' || model === 'scira-deepseek-v3' || model === 'scira-qwen-235'
-              ? {
-                order: ['baseten'],
-              }
-              : {}),
-            ...(model === 'scira-nova-2-lite'
-              ? {
-                order: ['bedrock'],
-              }
-              : {}),
-          },
-          openai: {
-            ...(model !== 'scira-qwen-coder'
-              ? {
-                parallelToolCalls: false,
-              }
-              : {}),
-            ...((model === 'scira-gpt5' ||
-              model === 'scira-gpt5-mini' ||
-              model === 'scira-o3' ||
-              model === 'scira-gpt5-nano' ||
-              model === 'scira-gpt5-codex' ||
-              model === 'scira-gpt5-medium' ||
-              model === 'scira-o4-mini' ||
-              model === 'scira-gpt-4.1' ||
-              model === 'scira-gpt-4.1-mini' ||
-              model === 'scira-gpt-4.1-nano' ||
-              model === 'scira-gpt-5.1' ||
-              model === 'scira-gpt-5.1-thinking' ||
-              model === 'scira-gpt-5.1-codex' ||
-              model === 'scira-gpt-5.1-codex-mini' ||
-              model === 'scira-gpt-5.1-codex-max' ||
-              model === 'scira-gpt-5.2' ||
-              model === 'scira-gpt-5.2-thinking'
-              ? {
-                reasoningEffort:
-                  model === 'scira-gpt5-nano' || model === 'scira-gpt5' || model === 'scira-gpt5-mini'
-                    ? 'minimal'
-                    : model === 'scira-gpt-5.1' || model === 'scira-gpt-5.2'
-                      ? 'none'
-                      : 'medium',
-                parallelToolCalls: false,
-                reasoningSummary: 'detailed',
-                promptCacheKey: 'scira-oai',
-                ...(model === 'scira-gpt-5.1' ||
-                  model === 'scira-gpt-5.2' ||
-                  model === 'scira-gpt-5.2-thinking' ||
-                  model === 'scira-gpt-5.1-codex' ||
-                  model === 'scira-gpt-5.1-codex-mini' ||
-                  model === 'scira-gpt-5.1-codex-max' ||
-                  model === 'scira-gpt5' ||
-                  model === 'scira-gpt5-codex' ||
-                  model === 'scira-gpt4.1'
-                  ? {
-                    promptCacheRetention: '24h',
-                  }
-                  : {}),
-                store: false,
-                // only for reasoning models
-                ...(model === 'scira-gpt-5.1' ||
-                  model === 'scira-gpt-5.1-codex' ||
-                  model === 'scira-gpt-5.1-codex-mini' ||
-                  model === 'scira-gpt5' ||
-                  model === 'scira-gpt5-codex' ||
-                  model === 'scira-gpt-5.1-thinking' ||
-                  model === 'scira-gpt5-nano' ||
-                  model === 'scira-gpt5-mini' ||
-                  model === 'scira-gpt-5.1-codex-max' ||
-                  model === 'scira-gpt-5.2' ||
-                  model === 'scira-gpt-5.2-thinking'
-                  ? {
-                    include: ['reasoning.encrypted_content'],
-                  }
-                  : {}),
-                textVerbosity:
-                  model === 'scira-o3' ||
-                    model === 'scira-gpt5-codex' ||
-                    model === 'scira-gpt-5.1-codex' ||
-                    model === 'scira-gpt-5.1-codex-mini' ||
-                    model === 'scira-gpt-5.1-codex-max' ||
-                    model === 'scira-o4-mini' ||
-                    model === 'scira-gpt-4.1' ||
-                    model === 'scira-gpt-4.1-mini' ||
-                    model === 'scira-gpt-4.1-nano'
-                    ? 'medium'
-                    : 'high',
-              }
-              : {}) satisfies OpenAIResponsesProviderOptions),
-          },
-          deepseek: {
-            parallelToolCalls: false,
-          },
-          groq: {
-            ...(model === 'scira-gpt-oss-20' || model === 'scira-gpt-oss-120'
-              ? {
-                reasoningEffort: 'high',
-                reasoningFormat: 'hidden',
-              }
-              : {}),
-            ...(model === 'scira-qwen-32b'
-              ? {
-                reasoningEffort: 'none',
-              }
-              : {}),
-            parallelToolCalls: false,
-            structuredOutputs: true,
-            serviceTier: 'auto',
-          } satisfies GroqProviderOptions,
-          xai: {
-            parallel_function_calling: false,
-          } satisfies XaiProviderOptions,
-          cohere: {
-            ...(model === 'scira-cmd-a-think'
-              ? {
-                thinking: {
-                  type: 'enabled',
-                  tokenBudget: 1000,
-                },
-              }
-              : {}),
-          } satisfies CohereChatModelOptions,
-          anthropic: {
-            ...(model === 'scira-anthropic-think' || model === 'scira-anthropic-opus-think'
-              ? {
-                sendReasoning: true,
-                thinking: {
-                  type: 'enabled',
-                  budgetTokens: 4000,
-                },
-              }
-              : {}),
-            disableParallelToolUse: true,
-          } satisfies AnthropicProviderOptions,
-          google: {
-            ...(model === 'scira-google-think' || model === 'scira-google-pro-think'
-              ? {
-                thinkingConfig: {
-                  thinkingBudget: 400,
-                  includeThoughts: true,
-                },
-              }
-              : {}),
-            ...(model === 'scira-gemini-3-pro'
-              ? {
-                thinkingConfig: {
-                  thinkingLevel: 'low',
-                  includeThoughts: true,
-                },
-              }
-              : {}),
-            ...(model === 'scira-gemini-3-flash-think'
-              ? {
-                thinkingConfig: {
-                  thinkingLevel: 'medium',
-                  includeThoughts: true,
-                },
-              }
-              : {}),
-            threshold: 'OFF',
-          } satisfies GoogleGenerativeAIProviderOptions,
-          openrouter: {
-            ...(model === 'scira-anthropic-think' || model === 'scira-anthropic-opus-think'
-              ? {
-                reasoning: {
-                  exclude: false,
-                  max_tokens: 400,
-                },
-              }
-              : {}),
-          },
+        headers: getModelHeaders(model),
+        providerOptions: getProviderOptions(model),
+        // Spans for the call, each step and each tool execution; prompts and outputs stay out of traces
+        experimental_telemetry: {
+          isEnabled: true,
+          functionId: 'search',
+          recordInputs: false,
+          recordOutputs: false,
+          metadata: { chatId: id, model, group },
         },
         prepareStep: async ({ steps }) => {
+          if (steps.length === 0 && attachedSources.length > 0) {
+            return { toolChoice: { type: 'tool' as const, toolName: 'retrieve' as const } };
+          }
+
           // Check if we should disable tool calls (after first tool execution)
           const shouldDisableTools =
             steps.length > 0 &&
@@ -711,7 +624,7 @@ export async function POST(req: Request) {
             coin_ohlc: coinOhlcTool,
 
             x_search: xSearchTool(dataStream),
-            web_search: webSearchTool(dataStream, searchProvider),
+            web_search: webSearchTool(dataStream, webSearchProvider),
             academic_search: academicSearchTool(dataStream),
             youtube_search: youtubeSearchTool,
             reddit_search: redditSearchTool(dataStream),
@@ -726,7 +639,7 @@ export async function POST(req: Request) {
             get_weather_data: weatherTool,
 
             text_translate: textTranslateTool,
-            ...(model !== 'scira-qwen-coder-plus' ? { code_interpreter: codeInterpreterTool } : {}),
+            code_interpreter: codeInterpreterTool(id, lightweightUser?.userId ?? null, sandboxAttachments),
             track_flight: flightTrackerTool,
             datetime: datetimeTool,
             extreme_search: extremeSearchTool(dataStream, 'exa'),
@@ -744,6 +657,7 @@ export async function POST(req: Request) {
             search_memories: memoryTools.searchMemories as any,
             add_memory: memoryTools.addMemory as any,
             connectors_search: createConnectorsSearchTool(user.id, selectedConnectors),
+            search_past_research: createPastResearchTool(user.id, id),
           } as any;
         })(),
         experimental_repairToolCall: async ({ toolCall, tools, inputSchema, error }) => {
@@ -787,19 +701,24 @@ export async function POST(req: Request) {
           return { ...toolCall, args: JSON.stringify(repairedArgs) };
         },
         onChunk(event) {
-          if (event.chunk.type === 'tool-call') {
-            console.log('Called Tool: ', event.chunk.toolName);
+          if (firstTokenAt === null && (event.chunk.type === 'text-delta' || event.chunk.type === 'reasoning-delta')) {
+            firstTokenAt = Date.now();
+            recordTimeToFirstToken(metricLabels, firstTokenAt - requestStartTime);
           }
+          toolCallRecorder.onChunk(event.chunk);
         },
         onStepFinish(event) {
-          console.log('Step Request:', event.request);
-          if (event.warnings) {
+          toolCallRecorder.onStepFinish(event);
+          if (event.warnings?.length) {
             console.log('Warnings: ', event.warnings);
           }
         },
         onFinish: async (event) => {
-          const processingTime = (Date.now() - requestStartTime) / 1000;
-          console.log(`✅ Request completed: ${processingTime.toFixed(2)}s (${event.finishReason})`);
+          recordSearchCompletion(metricLabels, {
+            durationMs: Date.now() - requestStartTime,
+            finishReason: event.finishReason,
+            usage: event.totalUsage,
+          });
 
           if (user?.id && event.finishReason === 'stop') {
             // Track usage in background
@@ -824,6 +743,7 @@ export async function POST(req: Request) {
           }
         },
         onError(event) {
+          recordSearchError(metricLabels);
           const processingTime = (Date.now() - requestStartTime) / 1000;
           console.error(`❌ Request failed: ${processingTime.toFixed(2)}s`, event.error);
         },
@@ -850,6 +770,21 @@ export async function POST(req: Request) {
           },
         }),
       );
+
+      // Once the answer is complete, check its citations against what its tools returned
+      try {
+        const steps = await result.steps;
+        const answer = steps.map((step) => step.text).join('\n\n');
+        const citationCheck = checkCitations(
+          answer,
+          extractCitationSources(steps.flatMap((step) => step.toolResults.map((toolResult) => toolResult.output))),
+        );
+        if (citationCheck.citations.length > 0) {
+          dataStream.write({ type: 'data-citation_check', data: citationCheck });
+        }
+      } catch (error) {
+        console.error('Failed to check citations:', error);
+      }
     },
     onError(error) {
       console.log('Error: ', error);
@@ -858,7 +793,9 @@ export async function POST(req: Request) {
       }
       return 'Oops, an error occurred!';
     },
-    onFinish: async ({ messages: streamedMessages }) => {
+    onFinish: async ({ messages: streamedMessages, responseMessage }) => {
+      await toolCallRecorder.flush(responseMessage?.id ?? null);
+
       if (!lightweightUser) {
         return;
       }
@@ -870,20 +807,27 @@ export async function POST(req: Request) {
         return;
       }
 
+      // Replies continue the branch from the question they answer
+      let parentId: string = lastMessage.id;
+
       await saveMessages({
         messages: newMessages.map((message) => {
           const attachments = (message as any).experimental_attachments ?? [];
           const createdAt =
             typeof message.metadata?.createdAt === 'string' ? new Date(message.metadata.createdAt) : new Date();
+          const messageParentId = parentId;
+          parentId = message.id;
 
           return {
             id: message.id,
+            parentId: messageParentId,
             role: message.role,
             parts: message.parts,
             createdAt,
             attachments,
             chatId: id,
             model: model,
+            searchGroup: group,
             completionTime: message.metadata?.completionTime ?? 0,
             inputTokens: message.metadata?.inputTokens ?? 0,
             outputTokens: message.metadata?.outputTokens ?? 0,
@@ -891,6 +835,10 @@ export async function POST(req: Request) {
           };
         }),
       });
+
+      await updateChatActiveMessage({ chatId: id, messageId: parentId });
+
+      after(() => indexResearchMessages({ userId: lightweightUser.userId, chatId: id, messages: newMessages }));
     },
   });
   const streamContext = getStreamContext();
@@ -13,11 +13,13 @@ const FileSchema = z.object({
     })
     .refine(
       (file) => {
-        const validTypes = ['image/jpeg', 'image/png', 'image/gif', 'application/pdf'];
-        return validTypes.includes(file.type);
+        const validTypes = ['image/jpeg', 'image/png', 'image/gif', 'application/pdf', 'text/csv'];
+        // Browsers report CSV inconsistently, so fall back to the extension
+        const isCsv = file instanceof File && file.name.toLowerCase().endsWith('.csv');
+        return validTypes.includes(file.type) || isCsv;
       },
       {
-        message: 'File type should be JPEG, PNG, GIF or PDF',
+        message: 'File type should be JPEG, PNG, GIF, PDF or CSV',
       },
     ),
 });
@@ -54,14 +56,16 @@ export async function POST(request: NextRequest) {
     // Use a different prefix for authenticated vs unauthenticated uploads
     const prefix = isAuthenticated ? 'auth' : 'public';
 
+    const contentType = file.name.toLowerCase().endsWith('.csv') ? 'text/csv' : file.type;
     const blob = await put(`mplx/${prefix}.${file.name.split('.').pop()}`, file, {
       access: 'public',
       addRandomSuffix: true,
+      contentType,
     });
 
     return NextResponse.json({
       name: file.name,
-      contentType: file.type,
+      contentType,
       url: blob.url,
       size: file.size,
       authenticated: isAuthenticated,
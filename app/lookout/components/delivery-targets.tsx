@@ -0,0 +1,108 @@
+'use client';
+
+import React from 'react';
+import { HugeiconsIcon } from '@/components/ui/hugeicons';
+import { Copy01Icon, Delete02Icon } from '@hugeicons/core-free-icons';
+import { toast } from 'sonner';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLookoutDeliveryTargets } from '@/hooks/use-lookouts';
+import type { LookoutDeliveryChannel } from '@/lib/db/schema';
+import { deliveryChannelOptions } from '../constants';
+
+interface DeliveryTargetsProps {
+  lookoutId: string;
+}
+
+export function DeliveryTargets({ lookoutId }: DeliveryTargetsProps) {
+  const { targets, isLoading, addTarget, toggleTarget, removeTarget, isAdding } = useLookoutDeliveryTargets(lookoutId);
+  const [channel, setChannel] = React.useState<LookoutDeliveryChannel>('webhook');
+  const [url, setUrl] = React.useState('');
+
+  const selectedChannel = deliveryChannelOptions.find((option) => option.value === channel);
+
+  const handleAdd = () => {
+    if (!url.trim()) return;
+    addTarget({ channel, url: url.trim() }, { onSuccess: () => setUrl('') });
+  };
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast.success('Signing secret copied');
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-foreground mb-3">Delivery</h3>
+      <div className="space-y-2">
+        {targets.map((target) => (
+          <div key={target.id} className="p-3 border rounded-md space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-medium">
+                {deliveryChannelOptions.find((option) => option.value === target.channel)?.label}
+              </span>
+              <span className="text-xs text-muted-foreground truncate flex-1" title={target.url}>
+                {new URL(target.url).host}
+              </span>
+              <Switch
+                checked={target.enabled}
+                onCheckedChange={(enabled) => toggleTarget({ id: target.id, enabled })}
+                aria-label="Enable delivery target"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => removeTarget({ id: target.id })}
+                aria-label="Remove delivery target"
+              >
+                <HugeiconsIcon icon={Delete02Icon} size={12} color="currentColor" strokeWidth={1.5} />
+              </Button>
+            </div>
+            {target.secret && (
+              <button
+                type="button"
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                onClick={() => copySecret(target.secret!)}
+              >
+                <HugeiconsIcon icon={Copy01Icon} size={12} color="currentColor" strokeWidth={1.5} />
+                Copy signing secret
+              </button>
+            )}
+          </div>
+        ))}
+
+        {!isLoading && targets.length === 0 && (
+          <p className="text-xs text-muted-foreground">Results are sent by email only.</p>
+        )}
+
+        <div className="flex gap-2">
+          <Select value={channel} onValueChange={(value) => setChannel(value as LookoutDeliveryChannel)}>
+            <SelectTrigger className="h-8 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {deliveryChannelOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+            onKeyDown={(event) => event.key === 'Enter' && handleAdd()}
+            placeholder={selectedChannel?.placeholder}
+            className="h-8 text-xs flex-1"
+          />
+          <Button size="sm" className="h-8 text-xs" onClick={handleAdd} disabled={isAdding || !url.trim()}>
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
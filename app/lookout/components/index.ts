@@ -11,3 +11,4 @@ export { ProUpgradeScreen } from './pro-upgrade-screen';
 export { LookoutForm } from './lookout-form';
 export { TimezoneSelector } from './timezone-selector';
 export { TimePicker } from './time-picker';
+export { DeliveryTargets } from './delivery-targets';
@@ -22,16 +22,10 @@ import { Button } from '@/components/ui/button';
 import { BorderTrail } from '@/components/core/border-trail';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import Link from 'next/link';
-
-interface LookoutRun {
-  runAt: string;
-  chatId: string;
-  status: 'success' | 'error' | 'timeout';
-  error?: string;
-  duration?: number;
-  tokensUsed?: number;
-  searchesPerformed?: number;
-}
+import { useLookoutRuns } from '@/hooks/use-lookouts';
+import { getModelConfig } from '@/ai/providers';
+import { deliveryChannelOptions, researchDepthOptions, searchGroupOptions } from '../constants';
+import { DeliveryTargets } from './delivery-targets';
 
 interface LookoutWithHistory {
   id: string;
@@ -43,7 +37,9 @@ interface LookoutWithHistory {
   status: 'active' | 'paused' | 'archived' | 'running';
   lastRunAt?: Date | null;
   lastRunChatId?: string | null;
-  runHistory: LookoutRun[];
+  model: string;
+  searchGroup: string;
+  researchDepth: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -67,18 +63,15 @@ export function LookoutDetailsSidebar({
   onEditLookout,
   onTest,
 }: LookoutDetailsSidebarProps) {
-  const runHistory = lookout.runHistory || [];
-  const totalRuns = runHistory.length;
-  const successfulRuns = runHistory.filter((run) => run.status === 'success').length;
-  const failedRuns = runHistory.filter((run) => run.status === 'error').length;
-  const successRate = totalRuns > 0 ? (successfulRuns / totalRuns) * 100 : 0;
-
-  const averageDuration =
-    runHistory.length > 0 ? runHistory.reduce((sum, run) => sum + (run.duration || 0), 0) / runHistory.length : 0;
-
-  const lastWeekRuns = runHistory.filter(
-    (run) => new Date(run.runAt) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-  ).length;
+  const { runs, stats, recentErrors, isLoading, hasMore, isFetchingMore, loadMore } = useLookoutRuns(
+    lookout.id,
+    lookout.lastRunAt,
+  );
+  const totalRuns = stats?.totalRuns ?? 0;
+  const failedRuns = stats?.failedRuns ?? 0;
+  const successRate = totalRuns > 0 ? ((stats?.successfulRuns ?? 0) / totalRuns) * 100 : 0;
+  const averageDuration = stats?.averageDuration ?? 0;
+  const lastWeekRuns = stats?.lastWeekRuns ?? 0;
 
   // Get currently running lookouts
   const runningLookouts = allLookouts.filter((l) => l.status === 'running');
@@ -209,6 +202,18 @@ export function LookoutDetailsSidebar({
                   <span className="text-xs text-muted-foreground">Failed Runs</span>
                   <span className="text-sm font-medium text-red-600">{failedRuns}</span>
                 </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-muted-foreground">Unchanged Runs</span>
+                  <span className="text-sm font-medium">{stats?.noChangeRuns ?? 0}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-muted-foreground">Searches Performed</span>
+                  <span className="text-sm font-medium">{stats?.totalSearches ?? 0}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-muted-foreground">Tokens Used</span>
+                  <span className="text-sm font-medium">{(stats?.totalTokens ?? 0).toLocaleString()}</span>
+                </div>
               </div>
             </div>
 
@@ -234,26 +239,23 @@ export function LookoutDetailsSidebar({
               </div>
             </div>
 
-            {failedRuns > 0 && (
+            {recentErrors.length > 0 && (
               <div>
                 <h3 className="text-sm font-medium text-foreground mb-3">Recent Errors</h3>
                 <div className="space-y-2 max-h-32 overflow-y-auto">
-                  {runHistory
-                    .filter((run) => run.status === 'error')
-                    .slice(-3)
-                    .map((run, index) => (
-                      <div
-                        key={index}
-                        className="p-2 bg-red-50 dark:bg-red-950/20 rounded border border-red-200 dark:border-red-800"
-                      >
-                        <div className="text-xs font-medium text-red-700 dark:text-red-400 mb-1">
-                          {format(new Date(run.runAt), 'MMM d, h:mm a')}
-                        </div>
-                        <div className="text-xs text-red-600 dark:text-red-300 leading-tight">
-                          {run.error || 'Unknown error'}
-                        </div>
+                  {recentErrors.map((run) => (
+                    <div
+                      key={run.id}
+                      className="p-2 bg-red-50 dark:bg-red-950/20 rounded border border-red-200 dark:border-red-800"
+                    >
+                      <div className="text-xs font-medium text-red-700 dark:text-red-400 mb-1">
+                        {format(new Date(run.runAt), 'MMM d, h:mm a')}
                       </div>
-                    ))}
+                      <div className="text-xs text-red-600 dark:text-red-300 leading-tight">
+                        {run.error || 'Unknown error'}
+                      </div>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
@@ -337,7 +339,11 @@ export function LookoutDetailsSidebar({
 
               <div className="p-3 bg-muted/50 rounded-md border gap-2">
                 <p className="text-xs leading-relaxed">{lookout.prompt}</p>
-                <p className="text-xs leading-relaxed border-t mt-2 pt-2">Grok 4・Extreme Research</p>
+                <p className="text-xs leading-relaxed border-t mt-2 pt-2">
+                  {getModelConfig(lookout.model)?.label ?? lookout.model}・
+                  {searchGroupOptions.find((option) => option.value === lookout.searchGroup)?.label}・
+                  {researchDepthOptions.find((option) => option.value === lookout.researchDepth)?.label}
+                </p>
               </div>
             </div>
 
@@ -370,50 +376,82 @@ export function LookoutDetailsSidebar({
               </div>
             </div>
 
+            <DeliveryTargets lookoutId={lookout.id} />
+
             {/* Recent Runs */}
             <div>
-              <h3 className="text-sm font-medium text-foreground mb-3">Recent Runs ({runHistory.length})</h3>
+              <h3 className="text-sm font-medium text-foreground mb-3">Recent Runs ({totalRuns})</h3>
               <div className="space-y-2">
-                {runHistory
-                  .slice(-10)
-                  .reverse()
-                  .map((run, index) => (
-                    <div
-                      key={`${run.chatId}-${index}`}
-                      className="p-3 border rounded-md hover:bg-muted/30 transition-colors"
-                    >
-                      <div className="flex items-start justify-between">
-                        <div className="flex items-start gap-2 flex-1">
-                          {getStatusIcon(run.status)}
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center gap-2 mb-1">
-                              <span className="text-xs text-muted-foreground">
-                                {format(new Date(run.runAt), 'MMM d, h:mm a')}
-                              </span>
-                              {run.duration && (
-                                <Badge variant="outline" className="text-xs h-4">
-                                  {(run.duration / 1000).toFixed(1)}s
-                                </Badge>
-                              )}
-                            </div>
-                            {run.error && <p className="text-xs text-red-600 mb-1 leading-tight">{run.error}</p>}
-                            {typeof run.searchesPerformed === 'number' && (
-                              <p className="text-xs text-muted-foreground">{run.searchesPerformed} searches</p>
+                {runs.map((run) => (
+                  <div key={run.id} className="p-3 border rounded-md hover:bg-muted/30 transition-colors">
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-start gap-2 flex-1">
+                        {getStatusIcon(run.status)}
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(run.runAt), 'MMM d, h:mm a')}
+                            </span>
+                            {run.duration && (
+                              <Badge variant="outline" className="text-xs h-4">
+                                {(run.duration / 1000).toFixed(1)}s
+                              </Badge>
+                            )}
+                            {run.change === 'no_change' && (
+                              <Badge variant="secondary" className="text-xs h-4">
+                                No change
+                              </Badge>
+                            )}
+                            {run.change === 'changed' && run.whatsNew && (
+                              <Badge
+                                variant="default"
+                                className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 text-xs h-4"
+                              >
+                                Updated
+                              </Badge>
                             )}
                           </div>
+                          {run.error && <p className="text-xs text-red-600 mb-1 leading-tight">{run.error}</p>}
+                          {run.deliveryFailures?.map((failure) => (
+                            <p key={failure.targetId} className="text-xs text-red-600 mb-1 leading-tight">
+                              {deliveryChannelOptions.find((option) => option.value === failure.channel)?.label}{' '}
+                              delivery failed: {failure.error}
+                            </p>
+                          ))}
+                          {run.whatsNew && (
+                            <p className="text-xs text-muted-foreground mb-1 leading-tight line-clamp-3 whitespace-pre-line">
+                              {run.whatsNew.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')}
+                            </p>
+                          )}
+                          {typeof run.searchesPerformed === 'number' && (
+                            <p className="text-xs text-muted-foreground">{run.searchesPerformed} searches</p>
+                          )}
                         </div>
-                        {run.status === 'success' && (
-                          <Link href={`/search/${run.chatId}`}>
-                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
-                              <HugeiconsIcon icon={ArrowUpRightIcon} size={12} color="currentColor" strokeWidth={1.5} />
-                            </Button>
-                          </Link>
-                        )}
                       </div>
+                      {run.status === 'success' && (
+                        <Link href={`/search/${run.chatId}`}>
+                          <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                            <HugeiconsIcon icon={ArrowUpRightIcon} size={12} color="currentColor" strokeWidth={1.5} />
+                          </Button>
+                        </Link>
+                      )}
                     </div>
-                  ))}
+                  </div>
+                ))}
+
+                {hasMore && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full text-xs h-8"
+                    onClick={() => loadMore()}
+                    disabled={isFetchingMore}
+                  >
+                    {isFetchingMore ? 'Loading...' : 'Load more runs'}
+                  </Button>
+                )}
 
-                {runHistory.length === 0 && (
+                {!isLoading && runs.length === 0 && (
                   <div className="text-center py-8 text-muted-foreground">
                     <div className="p-3 rounded-full bg-muted/50 w-12 h-12 mx-auto mb-3 flex items-center justify-center">
                       <HugeiconsIcon
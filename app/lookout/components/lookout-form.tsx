@@ -13,10 +13,27 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar } from '@/components/ui/calendar';
 import { ProgressRing } from '@/components/ui/progress-ring';
 import { cn } from '@/lib/utils';
+import { models } from '@/ai/providers';
 import { TimezoneSelector } from './timezone-selector';
 import { TimePicker } from './time-picker';
-import { frequencyOptions, dayOfWeekOptions, LOOKOUT_LIMITS } from '../constants';
+import {
+  frequencyOptions,
+  dayOfWeekOptions,
+  intervalHourOptions,
+  dayOfMonthOptions,
+  noChangeEmailOptions,
+  searchGroupOptions,
+  researchDepthOptions,
+  LOOKOUT_LIMITS,
+} from '../constants';
 import { LookoutFormHookReturn } from '../hooks/use-lookout-form';
+import { formatNextRun } from '../utils/time-utils';
+import {
+  buildCronSchedule,
+  calculateNextRuns,
+  validateLookoutSchedule,
+  type LookoutFrequency,
+} from '@/lib/lookout/schedule';
 
 interface LookoutFormProps {
   formHook: LookoutFormHookReturn;
@@ -44,14 +61,28 @@ export function LookoutForm({
     selectedTime,
     selectedTimezone,
     selectedDate,
-    selectedDayOfWeek,
+    selectedDaysOfWeek,
+    selectedIntervalHours,
+    selectedDayOfMonth,
+    cronExpression,
+    selectedNoChangeEmail,
+    selectedModel,
+    selectedSearchGroup,
+    selectedResearchDepth,
     selectedExample,
     editingLookout,
     setSelectedFrequency,
     setSelectedTime,
     setSelectedTimezone,
     setSelectedDate,
-    setSelectedDayOfWeek,
+    setSelectedDaysOfWeek,
+    setSelectedIntervalHours,
+    setSelectedDayOfMonth,
+    setCronExpression,
+    setSelectedNoChangeEmail,
+    setSelectedModel,
+    setSelectedSearchGroup,
+    setSelectedResearchDepth,
     createLookoutFromForm,
     updateLookoutFromForm,
   } = formHook;
@@ -64,6 +95,41 @@ export function LookoutForm({
     }
   };
 
+  // Preview the next runs exactly as the server will schedule them
+  const schedulePreview = React.useMemo(() => {
+    if (selectedFrequency === 'once') return null;
+
+    const schedule = {
+      frequency: selectedFrequency as LookoutFrequency,
+      time: selectedTime,
+      timezone: selectedTimezone,
+      daysOfWeek: selectedDaysOfWeek,
+      intervalHours: Number(selectedIntervalHours),
+      dayOfMonth: Number(selectedDayOfMonth),
+      cronExpression,
+    };
+    const error = validateLookoutSchedule(schedule);
+    if (error) return { error, runs: [] };
+
+    return { error: null, runs: calculateNextRuns(buildCronSchedule(schedule), selectedTimezone, 5) };
+  }, [
+    selectedFrequency,
+    selectedTime,
+    selectedTimezone,
+    selectedDaysOfWeek,
+    selectedIntervalHours,
+    selectedDayOfMonth,
+    cronExpression,
+  ]);
+
+  const toggleDayOfWeek = (day: string) => {
+    setSelectedDaysOfWeek(
+      selectedDaysOfWeek.includes(day)
+        ? selectedDaysOfWeek.filter((selected) => selected !== day)
+        : [...selectedDaysOfWeek, day],
+    );
+  };
+
   const isSubmitDisabled =
     isMutating ||
     (!editingLookout && selectedFrequency === 'daily' && !canCreateDailyMore) ||
@@ -133,15 +199,71 @@ export function LookoutForm({
           <div className="flex-1">
             <div className="flex flex-col sm:flex-row gap-3">
               {/* Time Picker */}
-              <div className="flex-1 min-w-0">
-                <TimePicker
-                  name="time"
-                  value={selectedTime}
-                  onChange={setSelectedTime}
-                  selectedDate={selectedFrequency === 'once' ? selectedDate : undefined}
-                  filterPastTimes={selectedFrequency === 'once'}
-                />
-              </div>
+              {selectedFrequency === 'hourly' || selectedFrequency === 'custom' ? (
+                <input type="hidden" name="time" value={selectedTime} />
+              ) : (
+                <div className="flex-1 min-w-0">
+                  <TimePicker
+                    name="time"
+                    value={selectedTime}
+                    onChange={setSelectedTime}
+                    selectedDate={selectedFrequency === 'once' ? selectedDate : undefined}
+                    filterPastTimes={selectedFrequency === 'once'}
+                  />
+                </div>
+              )}
+
+              {/* Interval selection for 'hourly' frequency */}
+              {selectedFrequency === 'hourly' && (
+                <div className="flex-1 min-w-0">
+                  <input type="hidden" name="intervalHours" value={selectedIntervalHours} />
+                  <Select value={selectedIntervalHours} onValueChange={setSelectedIntervalHours}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder="Select interval" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {intervalHourOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* Day selection for 'monthly' frequency */}
+              {selectedFrequency === 'monthly' && (
+                <div className="flex-1 min-w-0">
+                  <input type="hidden" name="dayOfMonth" value={selectedDayOfMonth} />
+                  <Select value={selectedDayOfMonth} onValueChange={setSelectedDayOfMonth}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder="Select day" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {dayOfMonthOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* Cron expression for 'custom' frequency */}
+              {selectedFrequency === 'custom' && (
+                <div className="flex-1 min-w-0">
+                  <Input
+                    name="cronExpression"
+                    placeholder="0 9 * * 1,3,5"
+                    className="h-9 font-mono text-sm"
+                    value={cronExpression}
+                    onChange={(e) => setCronExpression(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">minute hour day-of-month month day-of-week</p>
+                </div>
+              )}
 
               {/* Date selection for 'once' frequency */}
               {selectedFrequency === 'once' && (
@@ -177,26 +299,29 @@ export function LookoutForm({
                   </Popover>
                 </div>
               )}
-
-              {/* Day selection for 'weekly' frequency */}
-              {selectedFrequency === 'weekly' && (
-                <div className="flex-1 min-w-0">
-                  <input type="hidden" name="dayOfWeek" value={selectedDayOfWeek} />
-                  <Select value={selectedDayOfWeek} onValueChange={setSelectedDayOfWeek}>
-                    <SelectTrigger className="h-9">
-                      <SelectValue placeholder="Select day" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {dayOfWeekOptions.map((option) => (
-                        <SelectItem key={option.value} value={option.value}>
-                          {option.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
             </div>
+
+            {/* Day selection for 'weekly' frequency */}
+            {selectedFrequency === 'weekly' && (
+              <div className="grid grid-cols-7 gap-1 mt-3">
+                <input type="hidden" name="daysOfWeek" value={selectedDaysOfWeek.join(',')} />
+                {dayOfWeekOptions.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => toggleDayOfWeek(option.value)}
+                    className={cn(
+                      'py-2 text-xs rounded-md border transition-colors',
+                      selectedDaysOfWeek.includes(option.value)
+                        ? 'bg-primary text-primary-foreground border-primary hover:bg-primary/90'
+                        : 'hover:bg-accent',
+                    )}
+                  >
+                    {option.label.slice(0, 3)}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -210,11 +335,101 @@ export function LookoutForm({
 
         {/* Single hidden input for timezone form submission */}
         <input type="hidden" name="timezone" value={selectedTimezone} />
+
+        {/* Next run preview */}
+        {schedulePreview && (
+          <div className="flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4">
+            <Label className="text-sm font-medium sm:w-20 sm:flex-shrink-0">Next runs</Label>
+            <div className="flex-1 text-xs">
+              {schedulePreview.error ? (
+                <p className="text-red-600">{schedulePreview.error}</p>
+              ) : (
+                <ul className="space-y-0.5 text-muted-foreground">
+                  {schedulePreview.runs.map((run) => (
+                    <li key={run.getTime()}>{formatNextRun(run, selectedTimezone)}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Model and toolset used for each run */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+        <Label className="text-sm font-medium sm:w-20 sm:flex-shrink-0">Model</Label>
+        <div className="flex-1">
+          <input type="hidden" name="model" value={selectedModel} />
+          <Select value={selectedModel} onValueChange={setSelectedModel}>
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder="Select model" />
+            </SelectTrigger>
+            <SelectContent className="max-h-72">
+              {models.map((model) => (
+                <SelectItem key={model.value} value={model.value}>
+                  {model.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+        <Label className="text-sm font-medium sm:w-20 sm:flex-shrink-0">Search</Label>
+        <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <input type="hidden" name="searchGroup" value={selectedSearchGroup} />
+          <Select value={selectedSearchGroup} onValueChange={setSelectedSearchGroup}>
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder="Search group" />
+            </SelectTrigger>
+            <SelectContent>
+              {searchGroupOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input type="hidden" name="researchDepth" value={selectedResearchDepth} />
+          <Select value={selectedResearchDepth} onValueChange={setSelectedResearchDepth}>
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder="Research depth" />
+            </SelectTrigger>
+            <SelectContent>
+              {researchDepthOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Email behaviour when a run finds nothing new */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+        <Label className="text-sm font-medium sm:w-20 sm:flex-shrink-0">No change</Label>
+        <div className="flex-1">
+          <input type="hidden" name="noChangeEmail" value={selectedNoChangeEmail} />
+          <Select value={selectedNoChangeEmail} onValueChange={setSelectedNoChangeEmail}>
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder="When nothing changed" />
+            </SelectTrigger>
+            <SelectContent>
+              {noChangeEmailOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       <div className="flex items-center gap-2 text-xs text-muted-foreground bg-muted/20 rounded-md p-2">
         <HugeiconsIcon icon={AlarmClockIcon} size={12} color="currentColor" strokeWidth={1.5} />
-        <span>Email notifications enabled</span>
+        <span>Email notifications enabled, with a &quot;what&apos;s new&quot; summary when results change</span>
       </div>
 
       {/* Footer */}
@@ -1,8 +1,13 @@
+import { HOURLY_INTERVALS } from '@/lib/lookout/schedule';
+
 export const frequencyOptions = [
   { value: 'once', label: 'Once' },
+  { value: 'hourly', label: 'Hourly' },
   { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Weekdays' },
   { value: 'weekly', label: 'Weekly' },
   { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Custom' },
 ];
 
 export const timezoneOptions = [
@@ -208,6 +213,12 @@ export const DEFAULT_FORM_VALUES = {
   TIME: '09:00',
   TIMEZONE: 'UTC',
   DAY_OF_WEEK: '0', // Sunday
+  INTERVAL_HOURS: '6',
+  DAY_OF_MONTH: '1',
+  NO_CHANGE_EMAIL: 'condensed',
+  MODEL: 'scira-grok-4-fast-think',
+  SEARCH_GROUP: 'extreme',
+  RESEARCH_DEPTH: 'standard',
 } as const;
 
 export const dayOfWeekOptions = [
@@ -219,3 +230,41 @@ export const dayOfWeekOptions = [
   { value: '5', label: 'Friday' },
   { value: '6', label: 'Saturday' },
 ];
+
+export const intervalHourOptions = HOURLY_INTERVALS.map((hours) => ({
+  value: String(hours),
+  label: hours === 1 ? 'Every hour' : `Every ${hours} hours`,
+}));
+
+export const dayOfMonthOptions = Array.from({ length: 28 }, (_, i) => ({
+  value: String(i + 1),
+  label: `Day ${i + 1}`,
+}));
+
+export const noChangeEmailOptions = [
+  { value: 'full', label: 'Send full report' },
+  { value: 'condensed', label: 'Send short notice' },
+  { value: 'skip', label: "Don't email" },
+];
+
+export const searchGroupOptions = [
+  { value: 'extreme', label: 'Extreme Research' },
+  { value: 'web', label: 'Web' },
+  { value: 'academic', label: 'Academic' },
+  { value: 'reddit', label: 'Reddit' },
+  { value: 'x', label: 'X' },
+  { value: 'stocks', label: 'Stocks' },
+  { value: 'crypto', label: 'Crypto' },
+];
+
+export const researchDepthOptions = [
+  { value: 'quick', label: 'Quick briefing' },
+  { value: 'standard', label: 'Standard report' },
+  { value: 'deep', label: 'Deep dive' },
+];
+
+export const deliveryChannelOptions = [
+  { value: 'webhook', label: 'Webhook', placeholder: 'https://example.com/hooks/lookout' },
+  { value: 'slack', label: 'Slack', placeholder: 'https://hooks.slack.com/services/...' },
+  { value: 'discord', label: 'Discord', placeholder: 'https://discord.com/api/webhooks/...' },
+];
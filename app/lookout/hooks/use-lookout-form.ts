@@ -4,15 +4,29 @@ import React from 'react';
 import { toast } from 'sonner';
 import { DEFAULT_FORM_VALUES } from '../constants';
 import { isTimeInPast } from '../utils/time-utils';
+import {
+  parseLookoutSchedule,
+  validateLookoutSchedule,
+  type LookoutFrequency,
+  type LookoutSchedule,
+} from '@/lib/lookout/schedule';
+import type { LookoutResearchDepth, LookoutSearchGroup } from '@/lib/db/schema';
 
 export interface LookoutFormData {
   title: string;
   prompt: string;
-  frequency: 'once' | 'daily' | 'weekly' | 'monthly';
+  frequency: LookoutFrequency;
   time: string;
   timezone: string;
   date?: string;
-  dayOfWeek?: string;
+  daysOfWeek?: string[];
+  intervalHours?: number;
+  dayOfMonth?: number;
+  cronExpression?: string;
+  noChangeEmail: 'full' | 'condensed' | 'skip';
+  model: string;
+  searchGroup: LookoutSearchGroup;
+  researchDepth: LookoutResearchDepth;
 }
 
 export interface LookoutFormHookReturn {
@@ -21,7 +35,14 @@ export interface LookoutFormHookReturn {
   selectedTime: string;
   selectedTimezone: string;
   selectedDate: Date | undefined;
-  selectedDayOfWeek: string;
+  selectedDaysOfWeek: string[];
+  selectedIntervalHours: string;
+  selectedDayOfMonth: string;
+  cronExpression: string;
+  selectedNoChangeEmail: string;
+  selectedModel: string;
+  selectedSearchGroup: string;
+  selectedResearchDepth: string;
   selectedExample: any | null;
   isCreateDialogOpen: boolean;
   editingLookout: any | null;
@@ -31,7 +52,14 @@ export interface LookoutFormHookReturn {
   setSelectedTime: (time: string) => void;
   setSelectedTimezone: (timezone: string) => void;
   setSelectedDate: (date: Date | undefined) => void;
-  setSelectedDayOfWeek: (day: string) => void;
+  setSelectedDaysOfWeek: (days: string[]) => void;
+  setSelectedIntervalHours: (hours: string) => void;
+  setSelectedDayOfMonth: (day: string) => void;
+  setCronExpression: (expression: string) => void;
+  setSelectedNoChangeEmail: (value: string) => void;
+  setSelectedModel: (model: string) => void;
+  setSelectedSearchGroup: (group: string) => void;
+  setSelectedResearchDepth: (depth: string) => void;
   setSelectedExample: (example: any | null) => void;
   setIsCreateDialogOpen: (open: boolean) => void;
   setEditingLookout: (lookout: any | null) => void;
@@ -50,6 +78,32 @@ export interface LookoutFormHookReturn {
   validateForm: (formData: FormData) => boolean;
 }
 
+// Model and toolset fields as submitted by the lookout form
+function readRunOptions(formData: FormData): Pick<LookoutFormData, 'model' | 'searchGroup' | 'researchDepth'> {
+  return {
+    model: (formData.get('model') as string) || DEFAULT_FORM_VALUES.MODEL,
+    searchGroup: ((formData.get('searchGroup') as string) || DEFAULT_FORM_VALUES.SEARCH_GROUP) as LookoutSearchGroup,
+    researchDepth: ((formData.get('researchDepth') as string) ||
+      DEFAULT_FORM_VALUES.RESEARCH_DEPTH) as LookoutResearchDepth,
+  };
+}
+
+// Schedule fields as submitted by the lookout form
+function readSchedule(formData: FormData): LookoutSchedule {
+  const frequency = formData.get('frequency') as LookoutFrequency;
+  const daysOfWeek = formData.get('daysOfWeek') as string | null;
+
+  return {
+    frequency,
+    time: formData.get('time') as string,
+    timezone: (formData.get('timezone') as string) || DEFAULT_FORM_VALUES.TIMEZONE,
+    daysOfWeek: frequency === 'weekly' ? (daysOfWeek ? daysOfWeek.split(',') : []) : undefined,
+    intervalHours: frequency === 'hourly' ? Number(formData.get('intervalHours')) : undefined,
+    dayOfMonth: frequency === 'monthly' ? Number(formData.get('dayOfMonth')) : undefined,
+    cronExpression: frequency === 'custom' ? (formData.get('cronExpression') as string) : undefined,
+  };
+}
+
 export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TIMEZONE): LookoutFormHookReturn {
   console.log('🎯 Form hook received detectedTimezone:', detectedTimezone);
 
@@ -59,7 +113,14 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
   const [selectedTimezone, setSelectedTimezone] = React.useState<string>(detectedTimezone);
   console.log('🔧 Initial selectedTimezone state:', detectedTimezone);
   const [selectedDate, setSelectedDate] = React.useState<Date | undefined>();
-  const [selectedDayOfWeek, setSelectedDayOfWeek] = React.useState<string>(DEFAULT_FORM_VALUES.DAY_OF_WEEK);
+  const [selectedDaysOfWeek, setSelectedDaysOfWeek] = React.useState<string[]>([DEFAULT_FORM_VALUES.DAY_OF_WEEK]);
+  const [selectedIntervalHours, setSelectedIntervalHours] = React.useState<string>(DEFAULT_FORM_VALUES.INTERVAL_HOURS);
+  const [selectedDayOfMonth, setSelectedDayOfMonth] = React.useState<string>(DEFAULT_FORM_VALUES.DAY_OF_MONTH);
+  const [cronExpression, setCronExpression] = React.useState<string>('');
+  const [selectedNoChangeEmail, setSelectedNoChangeEmail] = React.useState<string>(DEFAULT_FORM_VALUES.NO_CHANGE_EMAIL);
+  const [selectedModel, setSelectedModel] = React.useState<string>(DEFAULT_FORM_VALUES.MODEL);
+  const [selectedSearchGroup, setSelectedSearchGroup] = React.useState<string>(DEFAULT_FORM_VALUES.SEARCH_GROUP);
+  const [selectedResearchDepth, setSelectedResearchDepth] = React.useState<string>(DEFAULT_FORM_VALUES.RESEARCH_DEPTH);
   const [selectedExample, setSelectedExample] = React.useState<any | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = React.useState(false);
   const [editingLookout, setEditingLookout] = React.useState<any | null>(null);
@@ -79,7 +140,14 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
     setSelectedTime(DEFAULT_FORM_VALUES.TIME as string);
     setSelectedTimezone(detectedTimezone);
     setSelectedDate(undefined);
-    setSelectedDayOfWeek(DEFAULT_FORM_VALUES.DAY_OF_WEEK as string);
+    setSelectedDaysOfWeek([DEFAULT_FORM_VALUES.DAY_OF_WEEK]);
+    setSelectedIntervalHours(DEFAULT_FORM_VALUES.INTERVAL_HOURS as string);
+    setSelectedDayOfMonth(DEFAULT_FORM_VALUES.DAY_OF_MONTH as string);
+    setCronExpression('');
+    setSelectedNoChangeEmail(DEFAULT_FORM_VALUES.NO_CHANGE_EMAIL as string);
+    setSelectedModel(DEFAULT_FORM_VALUES.MODEL as string);
+    setSelectedSearchGroup(DEFAULT_FORM_VALUES.SEARCH_GROUP as string);
+    setSelectedResearchDepth(DEFAULT_FORM_VALUES.RESEARCH_DEPTH as string);
     setSelectedExample(null);
     setEditingLookout(null);
   }, [detectedTimezone]);
@@ -104,7 +172,7 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
     setSelectedFrequency(example.frequency);
     setSelectedTime(example.time);
     setSelectedTimezone(example.timezone || (DEFAULT_FORM_VALUES.TIMEZONE as string));
-    setSelectedDayOfWeek(example.dayOfWeek || (DEFAULT_FORM_VALUES.DAY_OF_WEEK as string));
+    setSelectedDaysOfWeek([example.dayOfWeek || DEFAULT_FORM_VALUES.DAY_OF_WEEK]);
     setIsCreateDialogOpen(true);
   }, []);
 
@@ -113,24 +181,19 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
     setEditingLookout(lookout);
     setSelectedFrequency(lookout.frequency);
     setSelectedTimezone(lookout.timezone);
+    setSelectedNoChangeEmail(lookout.noChangeEmail || (DEFAULT_FORM_VALUES.NO_CHANGE_EMAIL as string));
+    setSelectedModel(lookout.model || (DEFAULT_FORM_VALUES.MODEL as string));
+    setSelectedSearchGroup(lookout.searchGroup || (DEFAULT_FORM_VALUES.SEARCH_GROUP as string));
+    setSelectedResearchDepth(lookout.researchDepth || (DEFAULT_FORM_VALUES.RESEARCH_DEPTH as string));
 
-    // Parse time from existing data or use default
+    // Recover the schedule fields from the stored cron expression
     if (lookout.cronSchedule) {
-      // Parse time from cron schedule if available
-      const parts = lookout.cronSchedule.split(' ');
-      const cronParts = parts[0]?.startsWith('CRON_TZ=') ? parts.slice(1) : parts;
-
-      if (cronParts.length >= 2) {
-        const minutes = cronParts[0];
-        const hours = cronParts[1];
-        setSelectedTime(`${hours.padStart(2, '0')}:${minutes.padStart(2, '0')}` as string);
-      }
-
-      // Parse day of week for weekly frequency
-      if (lookout.frequency === 'weekly' && cronParts.length >= 5) {
-        const dayOfWeek = cronParts[4]; // Day of week is the 5th field in cron
-        setSelectedDayOfWeek(dayOfWeek);
-      }
+      const schedule = parseLookoutSchedule(lookout.frequency, lookout.cronSchedule, lookout.timezone);
+      setSelectedTime(schedule.time);
+      if (schedule.daysOfWeek) setSelectedDaysOfWeek(schedule.daysOfWeek);
+      if (schedule.intervalHours) setSelectedIntervalHours(String(schedule.intervalHours));
+      if (schedule.dayOfMonth) setSelectedDayOfMonth(String(schedule.dayOfMonth));
+      if (schedule.cronExpression) setCronExpression(schedule.cronExpression);
     }
 
     setIsCreateDialogOpen(true);
@@ -149,6 +212,12 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
       return false;
     }
 
+    const scheduleError = validateLookoutSchedule(readSchedule(formData));
+    if (scheduleError) {
+      toast.error(scheduleError);
+      return false;
+    }
+
     // For once frequency, validate date and time
     if (frequency === 'once') {
       if (!date) {
@@ -180,24 +249,16 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
       const title = formData.get('title') as string;
       const prompt = formData.get('prompt') as string;
       const frequency = formData.get('frequency') as string;
-      const time = formData.get('time') as string;
-      const timezone = (formData.get('timezone') as string) || DEFAULT_FORM_VALUES.TIMEZONE;
       const date = formData.get('date') as string;
-      const dayOfWeek = formData.get('dayOfWeek') as string;
-
-      // Handle weekly day selection
-      let adjustedTime = time;
-      if (frequency === 'weekly' && dayOfWeek) {
-        adjustedTime = `${time}:${dayOfWeek}`;
-      }
+      const noChangeEmail = formData.get('noChangeEmail') as LookoutFormData['noChangeEmail'];
 
       createLookout({
         title: title.trim(),
         prompt: prompt.trim(),
-        frequency: frequency as 'once' | 'daily' | 'weekly' | 'monthly',
-        time: adjustedTime,
-        timezone,
+        ...readSchedule(formData),
         date: frequency === 'once' ? date : undefined,
+        noChangeEmail,
+        ...readRunOptions(formData),
         onSuccess: () => handleDialogOpenChange(false),
       });
     },
@@ -211,18 +272,15 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
 
       const title = formData.get('title') as string;
       const prompt = formData.get('prompt') as string;
-      const frequency = formData.get('frequency') as string;
-      const time = formData.get('time') as string;
-      const timezone = formData.get('timezone') as string;
-      const dayOfWeek = formData.get('dayOfWeek') as string;
+      const noChangeEmail = formData.get('noChangeEmail') as LookoutFormData['noChangeEmail'];
 
       updateLookout({
         id: editingLookout.id,
         title: title.trim(),
         prompt: prompt.trim(),
-        frequency: frequency as 'once' | 'daily' | 'weekly' | 'monthly',
-        time: frequency === 'weekly' && dayOfWeek ? `${time}:${dayOfWeek}` : time,
-        timezone,
+        ...readSchedule(formData),
+        noChangeEmail,
+        ...readRunOptions(formData),
         onSuccess: () => handleDialogOpenChange(false),
       });
     },
@@ -235,7 +293,14 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
     selectedTime,
     selectedTimezone,
     selectedDate,
-    selectedDayOfWeek,
+    selectedDaysOfWeek,
+    selectedIntervalHours,
+    selectedDayOfMonth,
+    cronExpression,
+    selectedNoChangeEmail,
+    selectedModel,
+    selectedSearchGroup,
+    selectedResearchDepth,
     selectedExample,
     isCreateDialogOpen,
     editingLookout,
@@ -245,7 +310,14 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
     setSelectedTime,
     setSelectedTimezone,
     setSelectedDate,
-    setSelectedDayOfWeek,
+    setSelectedDaysOfWeek,
+    setSelectedIntervalHours,
+    setSelectedDayOfMonth,
+    setCronExpression,
+    setSelectedNoChangeEmail,
+    setSelectedModel,
+    setSelectedSearchGroup,
+    setSelectedResearchDepth,
     setSelectedExample,
     setIsCreateDialogOpen,
     setEditingLookout,
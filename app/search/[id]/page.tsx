@@ -1,13 +1,12 @@
 import { notFound } from 'next/navigation';
 import { ChatInterface } from '@/components/chat-interface';
 import { getUser } from '@/lib/auth-utils';
-import { getChatWithUserAndInitialMessages } from '@/lib/db/chat-queries';
+import { getChatWithUserAndActiveBranch } from '@/lib/db/chat-queries';
 import { getChatById } from '@/lib/db/queries';
-import { Message, type Chat } from '@/lib/db/schema';
+import { type Chat } from '@/lib/db/schema';
 import { Metadata } from 'next';
-import { UIMessagePart } from 'ai';
-import { ChatMessage, ChatTools, CustomUIDataTypes } from '@/lib/types';
-import { formatISO } from 'date-fns';
+import { convertToUIMessages } from '@/lib/ui-messages';
+import { canAccessResource, getResourceMemberRole } from '@/lib/workspaces';
 
 async function sleep(durationMs: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, durationMs));
@@ -108,138 +107,6 @@ export async function generateMetadata({ params }: { params: Promise<{ id: strin
   } as Metadata;
 }
 
-export function convertToUIMessages(messages: Message[]): ChatMessage[] {
-  console.log('Messages: ', messages);
-
-  return messages.map((message) => {
-    // Handle the parts array which comes from JSON in the database
-    const partsArray = Array.isArray(message.parts) ? message.parts : [];
-    const convertedParts = partsArray
-      // First convert legacy tool invocations
-      .map((part: unknown) => convertLegacyToolInvocation(part))
-      // Then convert legacy reasoning parts
-      .map((part: unknown) => convertLegacyReasoningPart(part));
-
-    return {
-      id: message.id,
-      role: message.role as 'user' | 'assistant' | 'system',
-      parts: convertedParts as UIMessagePart<CustomUIDataTypes, ChatTools>[],
-      metadata: {
-        createdAt: formatISO(message.createdAt),
-        model: message.model ?? '',
-        completionTime: message.completionTime,
-        inputTokens: message.inputTokens,
-        outputTokens: message.outputTokens,
-        totalTokens: message.totalTokens,
-      },
-    };
-  });
-}
-
-function convertLegacyToolInvocation(part: unknown): unknown {
-  // Check if this is a legacy tool-invocation part
-  if (
-    typeof part === 'object' &&
-    part !== null &&
-    'type' in part &&
-    part.type === 'tool-invocation' &&
-    'toolInvocation' in part &&
-    typeof part.toolInvocation === 'object' &&
-    part.toolInvocation !== null &&
-    'toolName' in part.toolInvocation
-  ) {
-    const toolInvocation = part.toolInvocation as {
-      toolName: string;
-      toolCallId: string;
-      state: string;
-      args: unknown;
-      result: unknown;
-    };
-
-    // Map old state to new state
-    const mapState = (oldState: string): string => {
-      switch (oldState) {
-        case 'result':
-          return 'output-available';
-        case 'partial-result':
-          return 'input-available';
-        case 'call':
-          return 'input-streaming';
-        default:
-          return oldState; // Keep unknown states as-is
-      }
-    };
-
-    // Return the new format
-    return {
-      type: `tool-${toolInvocation.toolName}`,
-      toolCallId: toolInvocation.toolCallId,
-      state: mapState(toolInvocation.state),
-      input: toolInvocation.args,
-      output: toolInvocation.result,
-    };
-  }
-
-  // Return the part unchanged if it's not a legacy tool-invocation
-  return part;
-}
-
-// Convert legacy reasoning structures to the standard ReasoningUIPart shape
-function convertLegacyReasoningPart(part: unknown): unknown {
-  if (typeof part !== 'object' || part === null || !('type' in part)) {
-    return part;
-  }
-
-  // Narrow the type
-  const maybePart = part as {
-    type?: unknown;
-    text?: unknown;
-    reasoning?: unknown;
-    details?: unknown;
-  };
-
-  // Only handle legacy reasoning-like entries
-  if (maybePart.type === 'reasoning') {
-    // If already in the desired shape (has string text), keep as-is
-    if (typeof maybePart.text === 'string' && maybePart.text.length > 0) {
-      return part;
-    }
-
-    // Collect text from possible legacy fields
-    const mainText = typeof maybePart.reasoning === 'string' ? maybePart.reasoning : '';
-
-    let detailsText = '';
-    if (Array.isArray(maybePart.details)) {
-      const collected: string[] = [];
-      for (const entry of maybePart.details as Array<unknown>) {
-        if (
-          typeof entry === 'object' &&
-          entry !== null &&
-          'type' in entry &&
-          (entry as { type?: unknown }).type === 'text' &&
-          'text' in entry &&
-          typeof (entry as { text?: unknown }).text === 'string'
-        ) {
-          collected.push((entry as { text: string }).text);
-        }
-      }
-      if (collected.length > 0) {
-        detailsText = collected.join('\n\n');
-      }
-    }
-
-    const combinedText = [mainText, detailsText].filter((v) => v && v.trim().length > 0).join('\n\n');
-
-    return {
-      type: 'reasoning',
-      text: combinedText,
-    };
-  }
-
-  // Some logs store step markers; ignore or pass-through for non-reasoning types
-  return part;
-}
-
 export default async function Page(props: { params: Promise<{ id: string }> }) {
   const params = await props.params;
   const { id } = params;
@@ -250,12 +117,8 @@ export default async function Page(props: { params: Promise<{ id: string }> }) {
   // Get user first for ownership checks
   const user = await getUser();
 
-  // Use optimized combined query to get chat, user, and messages in fewer DB calls
-  const { chat, messages: messagesFromDb } = await getChatWithUserAndInitialMessages({
-    id,
-    messageLimit: 20,
-    messageOffset: 0,
-  });
+  // Load the chat with its owner and the messages of the active branch
+  const { chat, messages: messagesFromDb } = await getChatWithUserAndActiveBranch({ id });
 
   if (!chat) {
     notFound();
@@ -264,21 +127,25 @@ export default async function Page(props: { params: Promise<{ id: string }> }) {
   console.log('Chat: ', chat);
   console.log('Messages from DB: ', messagesFromDb);
 
-  // Check visibility and ownership
+  // Workspace chats are shared with every member of the organization
+  const memberRole = user ? await getResourceMemberRole(chat, user.id) : null;
+  const canAccess = user ? canAccessResource(chat, user.id, memberRole) : false;
+
+  // Check visibility and access
   if (chat.visibility === 'private') {
     if (!user) {
       return notFound();
     }
 
-    if (user.id !== chat.userId) {
+    if (!canAccess) {
       return notFound();
     }
   }
 
   const initialMessages = convertToUIMessages(messagesFromDb);
 
-  // Determine if the current user owns this chat
-  const isOwner = user ? user.id === chat.userId : false;
+  // Owners and workspace members can continue the chat
+  const isOwner = canAccess;
 
   const pageLoadTime = (Date.now() - pageStartTime) / 1000;
   console.log(`⏱️  [PAGE] Total page load time: ${pageLoadTime.toFixed(2)}s`);
@@ -0,0 +1,36 @@
+import { redirect } from 'next/navigation';
+import { Metadata } from 'next';
+import { getUser } from '@/lib/auth-utils';
+import { getOrganizationMembers, getOrganizationsByUserId } from '@/lib/db/queries';
+import { getActiveOrganizationId } from '@/lib/workspaces';
+import { SidebarLayout } from '@/components/sidebar-layout';
+import { WorkspaceSettings } from '@/components/workspace-settings';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Workspaces',
+  robots: { index: false, follow: false },
+};
+
+export default async function Page() {
+  const user = await getUser();
+  if (!user) redirect('/sign-in');
+
+  const [organizations, activeOrganizationId] = await Promise.all([
+    getOrganizationsByUserId({ userId: user.id }),
+    getActiveOrganizationId(user.id),
+  ]);
+  const workspaces = await Promise.all(
+    organizations.map(async (organization) => ({
+      ...organization,
+      members: await getOrganizationMembers({ organizationId: organization.id }),
+    })),
+  );
+
+  return (
+    <SidebarLayout>
+      <WorkspaceSettings userId={user.id} workspaces={workspaces} activeOrganizationId={activeOrganizationId} />
+    </SidebarLayout>
+  );
+}
@@ -1,4 +1,5 @@
 import { Book, Calendar, Download, FileText, User2, ArrowUpRight, ChevronDown } from 'lucide-react';
+import { SaveSourceButton } from '@/components/save-source-button';
 import { Sheet, SheetContent } from '@/components/ui/sheet';
 import { Drawer, DrawerContent } from '@/components/ui/drawer';
 import { Spinner } from '@/components/ui/spinner';
@@ -77,6 +78,11 @@ const AcademicSourceCard: React.FC<{
           {/* Title */}
           <div className="flex items-baseline gap-1.5">
             <h3 className="font-medium text-[13px] text-foreground line-clamp-1 flex-1">{paper.title}</h3>
+            <SaveSourceButton
+              source={{ url: paper.url, title: paper.title, excerpt: paper.summary }}
+              kind="academic"
+              className="self-center"
+            />
             <ArrowUpRight className="w-3 h-3 shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
           </div>
 
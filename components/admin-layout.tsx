@@ -0,0 +1,115 @@
+import Link from 'next/link';
+import { TableCell, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+
+const ADMIN_PAGES = [
+  { id: 'users', label: 'Users', href: '/admin' },
+  { id: 'usage', label: 'Top consumers', href: '/admin/usage' },
+  { id: 'tools', label: 'Tool calls', href: '/admin/tools' },
+] as const;
+
+export type AdminPage = (typeof ADMIN_PAGES)[number]['id'];
+
+export function AdminShell({
+  page,
+  title,
+  description,
+  actions,
+  children,
+}: {
+  page: AdminPage;
+  title: string;
+  description?: React.ReactNode;
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="w-full min-h-screen">
+      <main className="px-4 py-6 md:px-8 md:py-8 max-w-6xl mx-auto w-full space-y-8">
+        <nav className="flex gap-4 border-b border-border/60 text-sm">
+          {ADMIN_PAGES.map((adminPage) => (
+            <Link
+              key={adminPage.id}
+              href={adminPage.href}
+              className={cn(
+                '-mb-px border-b-2 pb-2 transition-colors',
+                adminPage.id === page
+                  ? 'border-foreground text-foreground'
+                  : 'border-transparent text-muted-foreground hover:text-foreground',
+              )}
+            >
+              {adminPage.label}
+            </Link>
+          ))}
+        </nav>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold">{title}</h1>
+            {description && <p className="text-sm text-muted-foreground">{description}</p>}
+          </div>
+          {actions}
+        </div>
+        {children}
+      </main>
+    </div>
+  );
+}
+
+export function AdminSection({
+  title,
+  description,
+  children,
+}: {
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="space-y-3">
+      <div>
+        <h2 className="text-sm font-medium text-foreground">{title}</h2>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+      <div className="rounded-lg border border-border/60 overflow-hidden">{children}</div>
+    </section>
+  );
+}
+
+export function AdminEmptyRow({ colSpan, children }: { colSpan: number; children: React.ReactNode }) {
+  return (
+    <TableRow>
+      <TableCell colSpan={colSpan} className="py-8 text-center text-sm text-muted-foreground">
+        {children}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+// Segmented links between time windows, e.g. 24h / 7d / 30d
+export function AdminWindowNav<T extends string>({
+  windows,
+  selected,
+  href,
+}: {
+  windows: Record<T, { label: string }>;
+  selected: T;
+  href: (window: T) => string;
+}) {
+  return (
+    <nav className="flex gap-1 rounded-lg border border-border/60 p-1">
+      {(Object.keys(windows) as T[]).map((key) => (
+        <Link
+          key={key}
+          href={href(key)}
+          title={windows[key].label}
+          className={cn(
+            'rounded-md px-3 py-1 text-xs transition-colors',
+            key === selected ? 'bg-accent text-accent-foreground' : 'text-muted-foreground hover:text-foreground',
+          )}
+        >
+          {key}
+        </Link>
+      ))}
+    </nav>
+  );
+}
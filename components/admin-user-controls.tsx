@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import {
+  grantProAction,
+  resetUsageAction,
+  revokeProGrantAction,
+  setUserRoleAction,
+  suspendUserAction,
+  unsuspendUserAction,
+} from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  ContributionGraph,
+  ContributionGraphBlock,
+  ContributionGraphCalendar,
+  ContributionGraphFooter,
+  ContributionGraphTotalCount,
+} from '@/components/ui/kibo-ui/contribution-graph';
+
+export interface UsageDay {
+  date: string;
+  count: number;
+  level: 0 | 1 | 2 | 3 | 4;
+}
+
+export function AdminUsageGraph({ data }: { data: UsageDay[] }) {
+  return (
+    <ContributionGraph data={data} blockSize={11} blockMargin={3} fontSize={12}>
+      <ContributionGraphCalendar>
+        {({ activity, dayIndex, weekIndex }) => (
+          <ContributionGraphBlock activity={activity} dayIndex={dayIndex} weekIndex={weekIndex} />
+        )}
+      </ContributionGraphCalendar>
+      <ContributionGraphFooter>
+        <ContributionGraphTotalCount>
+          {({ totalCount }) => <span className="text-xs text-muted-foreground">{totalCount} searches</span>}
+        </ContributionGraphTotalCount>
+      </ContributionGraphFooter>
+    </ContributionGraph>
+  );
+}
+
+function ActionRow({
+  title,
+  description,
+  children,
+}: {
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 p-4">
+      <div>
+        <p className="text-sm font-medium">{title}</p>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">{children}</div>
+    </div>
+  );
+}
+
+export function AdminUserActions({
+  userId,
+  isSelf,
+  role,
+  suspended,
+  hasProGrant,
+}: {
+  userId: string;
+  isSelf: boolean;
+  role: 'user' | 'admin';
+  suspended: boolean;
+  hasProGrant: boolean;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [grantDays, setGrantDays] = useState('30');
+  const [suspensionReason, setSuspensionReason] = useState('');
+
+  const run = (action: () => Promise<{ error?: string; success?: boolean }>, successMessage: string) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(successMessage);
+      router.refresh();
+    });
+  };
+
+  return (
+    <section className="space-y-3">
+      <div>
+        <h2 className="text-sm font-medium text-foreground">Account actions</h2>
+        <p className="text-xs text-muted-foreground">Changes apply to the user within a couple of minutes.</p>
+      </div>
+      <div className="rounded-lg border border-border/60 divide-y divide-border/60">
+        <ActionRow title="Pro access" description="Grant Pro without a subscription, e.g. for support or testing.">
+          <Input
+            type="number"
+            min={1}
+            max={3650}
+            value={grantDays}
+            onChange={(event) => setGrantDays(event.target.value)}
+            className="w-24"
+            aria-label="Days of Pro access"
+          />
+          <Button
+            variant="outline"
+            disabled={isPending}
+            onClick={() =>
+              run(() => grantProAction({ userId, days: Number(grantDays) }), `Pro granted for ${grantDays} days`)
+            }
+          >
+            {hasProGrant ? 'Replace grant' : 'Grant Pro'}
+          </Button>
+          {hasProGrant && (
+            <Button
+              variant="ghost"
+              disabled={isPending}
+              onClick={() => run(() => revokeProGrantAction({ userId }), 'Pro grant revoked')}
+            >
+              Revoke
+            </Button>
+          )}
+        </ActionRow>
+
+        <ActionRow title="Usage" description="Clear the counters that enforce the free limits.">
+          <Button
+            variant="outline"
+            disabled={isPending}
+            onClick={() => run(() => resetUsageAction({ userId, kind: 'messages' }), 'Daily searches reset')}
+          >
+            Reset daily searches
+          </Button>
+          <Button
+            variant="outline"
+            disabled={isPending}
+            onClick={() => run(() => resetUsageAction({ userId, kind: 'extreme' }), 'Extreme searches reset')}
+          >
+            Reset extreme searches
+          </Button>
+        </ActionRow>
+
+        <ActionRow
+          title="Role"
+          description={role === 'admin' ? 'This user can open the admin console.' : 'Regular user.'}
+        >
+          <Button
+            variant="outline"
+            disabled={isPending || isSelf}
+            onClick={() =>
+              run(
+                () => setUserRoleAction({ userId, role: role === 'admin' ? 'user' : 'admin' }),
+                role === 'admin' ? 'Admin role removed' : 'Admin role granted',
+              )
+            }
+          >
+            {role === 'admin' ? 'Remove admin' : 'Make admin'}
+          </Button>
+        </ActionRow>
+
+        <ActionRow
+          title="Suspension"
+          description={suspended ? 'The user cannot sign in.' : 'Sign the user out everywhere and block new sign-ins.'}
+        >
+          {suspended ? (
+            <Button
+              variant="outline"
+              disabled={isPending}
+              onClick={() => run(() => unsuspendUserAction({ userId }), 'Suspension lifted')}
+            >
+              Lift suspension
+            </Button>
+          ) : (
+            <>
+              <Input
+                value={suspensionReason}
+                onChange={(event) => setSuspensionReason(event.target.value)}
+                placeholder="Reason (internal)"
+                maxLength={500}
+                className="w-64"
+              />
+              <Button
+                variant="destructive"
+                disabled={isPending || isSelf}
+                onClick={() => run(() => suspendUserAction({ userId, reason: suspensionReason }), 'User suspended')}
+              >
+                Suspend
+              </Button>
+            </>
+          )}
+        </ActionRow>
+      </div>
+    </section>
+  );
+}
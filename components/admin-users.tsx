@@ -0,0 +1,285 @@
+import Link from 'next/link';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AdminEmptyRow, AdminSection } from '@/components/admin-layout';
+import { AdminUsageGraph, AdminUserActions, type UsageDay } from '@/components/admin-user-controls';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SEARCH_LIMITS } from '@/lib/constants';
+import type { User } from '@/lib/db/schema';
+
+export const USAGE_WINDOWS = {
+  '24h': { label: 'Last 24 hours', hours: 24 },
+  '7d': { label: 'Last 7 days', hours: 24 * 7 },
+  '30d': { label: 'Last 30 days', hours: 24 * 30 },
+} as const;
+
+export type UsageWindow = keyof typeof USAGE_WINDOWS;
+
+export interface AdminUserRow {
+  id: string;
+  name: string;
+  email: string;
+  role: 'user' | 'admin';
+  createdAt: Date;
+  suspendedAt: Date | null;
+  proGrantedUntil: Date | null;
+  hasActiveSubscription: boolean;
+}
+
+export interface TokenConsumerRow {
+  userId: string;
+  name: string;
+  email: string;
+  suspendedAt: Date | null;
+  messages: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface AdminSubscriptionRow {
+  id: string;
+  provider: 'Polar' | 'Dodo';
+  status: string;
+  amount: number;
+  currency: string;
+  currentPeriodEnd: Date | null;
+}
+
+const timeAgo = (date: Date | string) => formatDistanceToNow(new Date(date), { addSuffix: true });
+
+const hasProGrant = (user: { proGrantedUntil: Date | null }) =>
+  !!user.proGrantedUntil && new Date(user.proGrantedUntil) > new Date();
+
+function UserBadges({
+  user,
+}: {
+  user: Pick<AdminUserRow, 'role' | 'suspendedAt' | 'proGrantedUntil'> & { hasActiveSubscription?: boolean };
+}) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {user.role === 'admin' && <Badge variant="outline">Admin</Badge>}
+      {user.suspendedAt && <Badge variant="destructive">Suspended</Badge>}
+      {user.hasActiveSubscription && <Badge variant="green">Subscriber</Badge>}
+      {hasProGrant(user) && <Badge variant="secondary">Pro grant</Badge>}
+    </div>
+  );
+}
+
+function UserLink({ id, children }: { id: string; children: React.ReactNode }) {
+  return (
+    <Link href={`/admin/users/${id}`} className="underline-offset-2 hover:underline">
+      {children}
+    </Link>
+  );
+}
+
+export function AdminUserList({ query, users }: { query: string; users: AdminUserRow[] }) {
+  return (
+    <>
+      <form action="/admin" className="flex gap-2 max-w-lg">
+        <Input name="q" defaultValue={query} placeholder="Search by email, name or user id" />
+        <Button type="submit" variant="outline">
+          Search
+        </Button>
+      </form>
+
+      <AdminSection
+        title={query ? `Results for “${query}”` : 'Newest users'}
+        description="Open a user to see their usage and manage their account."
+      >
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Joined</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {users.length === 0 ? (
+              <AdminEmptyRow colSpan={4}>No users found.</AdminEmptyRow>
+            ) : (
+              users.map((user) => (
+                <TableRow key={user.id}>
+                  <TableCell className="font-medium">
+                    <UserLink id={user.id}>{user.name || user.id}</UserLink>
+                  </TableCell>
+                  <TableCell className="text-xs">{user.email}</TableCell>
+                  <TableCell>
+                    <UserBadges user={user} />
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{timeAgo(user.createdAt)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </AdminSection>
+    </>
+  );
+}
+
+export function TopConsumers({ consumers }: { consumers: TokenConsumerRow[] }) {
+  return (
+    <AdminSection title="By tokens" description="Model tokens used by each user's responses, most first.">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>User</TableHead>
+            <TableHead className="text-right">Responses</TableHead>
+            <TableHead className="text-right">Input</TableHead>
+            <TableHead className="text-right">Output</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {consumers.length === 0 ? (
+            <AdminEmptyRow colSpan={5}>No responses in this window.</AdminEmptyRow>
+          ) : (
+            consumers.map((consumer) => (
+              <TableRow key={consumer.userId}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <UserLink id={consumer.userId}>{consumer.email}</UserLink>
+                    {consumer.suspendedAt && <Badge variant="destructive">Suspended</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right tabular-nums">{consumer.messages.toLocaleString()}</TableCell>
+                <TableCell className="text-right tabular-nums">{consumer.inputTokens.toLocaleString()}</TableCell>
+                <TableCell className="text-right tabular-nums">{consumer.outputTokens.toLocaleString()}</TableCell>
+                <TableCell className="text-right tabular-nums font-medium">
+                  {consumer.totalTokens.toLocaleString()}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </AdminSection>
+  );
+}
+
+function Stat({ label, value, hint }: { label: string; value: React.ReactNode; hint?: string }) {
+  return (
+    <div className="rounded-lg border border-border/60 p-4">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold tabular-nums">{value}</p>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+export function AdminUserDetail({
+  user,
+  isSelf,
+  messageCount,
+  extremeSearchCount,
+  tokens,
+  subscriptions,
+  usageHistory,
+}: {
+  user: User;
+  isSelf: boolean;
+  messageCount: number;
+  extremeSearchCount: number;
+  tokens: { messages: number; totalTokens: number };
+  subscriptions: AdminSubscriptionRow[];
+  usageHistory: UsageDay[];
+}) {
+  const hasActiveSubscription = subscriptions.some((subscription) => subscription.status === 'active');
+
+  return (
+    <>
+      <div className="space-y-2">
+        <UserBadges user={{ ...user, hasActiveSubscription }} />
+        <p className="text-xs text-muted-foreground">
+          {user.id} · joined {format(user.createdAt, 'PP')}
+        </p>
+        {user.suspendedAt && (
+          <p className="text-sm text-red-700 dark:text-red-300">
+            Suspended {timeAgo(user.suspendedAt)}
+            {user.suspensionReason && `: ${user.suspensionReason}`}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <Stat
+          label="Searches today"
+          value={messageCount}
+          hint={`Free limit ${SEARCH_LIMITS.DAILY_SEARCH_LIMIT} per day`}
+        />
+        <Stat
+          label="Extreme searches this month"
+          value={extremeSearchCount}
+          hint={`Free limit ${SEARCH_LIMITS.EXTREME_SEARCH_LIMIT} per month`}
+        />
+        <Stat
+          label="Tokens, last 30 days"
+          value={tokens.totalTokens.toLocaleString()}
+          hint={`${tokens.messages} responses`}
+        />
+        <Stat
+          label="Pro grant"
+          value={hasProGrant(user) ? 'Active' : 'None'}
+          hint={hasProGrant(user) ? `Until ${format(user.proGrantedUntil!, 'PP')}` : undefined}
+        />
+      </div>
+
+      <AdminSection title="Searches per day" description="Messages sent by the user over the last 90 days.">
+        <div className="p-4">
+          <AdminUsageGraph data={usageHistory} />
+        </div>
+      </AdminSection>
+
+      <AdminSection title="Subscriptions" description="Payments through Polar and Dodo, newest first.">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Provider</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Period ends</TableHead>
+              <TableHead>Id</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {subscriptions.length === 0 ? (
+              <AdminEmptyRow colSpan={5}>No subscriptions.</AdminEmptyRow>
+            ) : (
+              subscriptions.map((subscription) => (
+                <TableRow key={`${subscription.provider}:${subscription.id}`}>
+                  <TableCell className="text-xs">{subscription.provider}</TableCell>
+                  <TableCell>
+                    <Badge variant={subscription.status === 'active' ? 'green' : 'secondary'}>
+                      {subscription.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {(subscription.amount / 100).toFixed(2)} {subscription.currency.toUpperCase()}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {subscription.currentPeriodEnd ? format(subscription.currentPeriodEnd, 'PP') : '—'}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{subscription.id}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </AdminSection>
+
+      <AdminUserActions
+        userId={user.id}
+        isSelf={isSelf}
+        role={user.role}
+        suspended={!!user.suspendedAt}
+        hasProGrant={hasProGrant(user)}
+      />
+    </>
+  );
+}
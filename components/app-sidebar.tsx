@@ -2,7 +2,7 @@
 
 import React, { memo, useMemo } from 'react';
 import Link from 'next/link';
-import { usePathname } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import {
   PlusIcon,
   GearIcon,
@@ -19,8 +19,16 @@ import {
   SunIcon,
   MoonIcon,
   UsersIcon,
+  UserIcon,
+  BuildingsIcon,
 } from '@phosphor-icons/react';
-import { Crown02Icon, BinocularsIcon, SearchList02Icon, FolderLibraryIcon } from '@hugeicons/core-free-icons';
+import {
+  Crown02Icon,
+  BinocularsIcon,
+  SearchList02Icon,
+  FolderLibraryIcon,
+  Bookmark02Icon,
+} from '@hugeicons/core-free-icons';
 import { HugeiconsIcon } from '@/components/ui/hugeicons';
 import {
   RocketIcon as VercelIcon,
@@ -32,6 +40,7 @@ import {
   Share2,
   Trash2,
   Keyboard,
+  Check,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -44,7 +53,15 @@ import {
   DropdownMenuSubTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { deleteChat, getUserChats, updateChatTitle, updateChatVisibility } from '@/app/actions';
+import {
+  deleteChat,
+  getUserChats,
+  getWorkspacesAction,
+  setActiveWorkspaceAction,
+  updateChatTitle,
+  updateChatVisibility,
+} from '@/app/actions';
+import { lookoutKeys } from '@/hooks/use-lookouts';
 import {
   Sidebar,
   SidebarContent,
@@ -151,6 +168,85 @@ const groupChatsByDate = (chats: any[]) => {
   return groups;
 };
 
+// Query keys whose lists depend on the active workspace
+const WORKSPACE_SCOPED_QUERY_KEYS = [['recent-chats'], ['chats'], ['chat-search'], lookoutKeys.all];
+
+// Switches between the personal workspace and the user's organizations
+const WorkspaceSwitcher = ({ onNavigate }: { onNavigate: () => void }) => {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [isSwitching, setIsSwitching] = React.useState(false);
+
+  const { data } = useQuery({
+    queryKey: ['workspaces'],
+    queryFn: getWorkspacesAction,
+    staleTime: 1000 * 60,
+    refetchOnWindowFocus: false,
+  });
+
+  const organizations = data?.organizations ?? [];
+  const activeOrganizationId = data?.activeOrganizationId ?? null;
+  const activeOrganization = organizations.find((organization) => organization.id === activeOrganizationId);
+
+  const switchWorkspace = async (organizationId: string | null) => {
+    if (organizationId === activeOrganizationId) return;
+    setIsSwitching(true);
+    try {
+      const result = await setActiveWorkspaceAction({ organizationId });
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      await queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+      WORKSPACE_SCOPED_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      router.refresh();
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <SidebarMenuItem>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuButton
+            tooltip={activeOrganization?.name ?? 'Personal workspace'}
+            disabled={isSwitching}
+            className="hover:bg-primary/10 transition-all duration-200"
+          >
+            {activeOrganization ? <BuildingsIcon size={18} /> : <UserIcon size={18} />}
+            <span className="truncate group-data-[collapsible=icon]:hidden">
+              {activeOrganization?.name ?? 'Personal'}
+            </span>
+            <ChevronsUpDown className="ml-auto h-4 w-4 shrink-0 opacity-50 group-data-[collapsible=icon]:hidden" />
+          </SidebarMenuButton>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="bottom" align="start" className="w-56 bg-background border shadow-lg">
+          <DropdownMenuItem onClick={() => switchWorkspace(null)}>
+            <UserIcon size={16} className="mr-2" />
+            <span className="flex-1">Personal</span>
+            {!activeOrganizationId && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+          {organizations.map((organization) => (
+            <DropdownMenuItem key={organization.id} onClick={() => switchWorkspace(organization.id)}>
+              <BuildingsIcon size={16} className="mr-2" />
+              <span className="flex-1 truncate">{organization.name}</span>
+              {organization.id === activeOrganizationId && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem asChild>
+            <Link href="/workspaces" onClick={onNavigate}>
+              <GearIcon size={16} className="mr-2" />
+              <span>Manage workspaces</span>
+            </Link>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </SidebarMenuItem>
+  );
+};
+
 export const AppSidebar = memo(({ user, onHistoryClick, isProUser }: AppSidebarProps) => {
   const { theme, setTheme } = useTheme();
   const [blurPersonalInfo] = useSyncedPreferences<boolean>('scira-blur-personal-info', false);
@@ -403,6 +499,9 @@ export const AppSidebar = memo(({ user, onHistoryClick, isProUser }: AppSidebarP
       {/* Main Content */}
       <SidebarContent className="p-2">
         <SidebarMenu className="group-data-[collapsible=icon]:items-center group-data-[collapsible=icon]:justify-center">
+          {/* Workspace the chats and lookouts below belong to */}
+          {user && <WorkspaceSwitcher onNavigate={closeMobileSidebar} />}
+
           {/* New Chat - Primary Action */}
           <SidebarMenuItem>
             <SidebarMenuButton
@@ -447,6 +546,29 @@ export const AppSidebar = memo(({ user, onHistoryClick, isProUser }: AppSidebarP
             </SidebarMenuItem>
           )}
 
+          {user && (
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                asChild
+                tooltip="Source Library"
+                className={cn(
+                  'hover:bg-primary/10 transition-all duration-200',
+                  pathname === '/sources' ? 'bg-primary/15 text-foreground font-medium' : '',
+                )}
+              >
+                <Link
+                  prefetch={true}
+                  href="/sources"
+                  onClick={closeMobileSidebar}
+                  className="flex items-center gap-2 group-data-[collapsible=icon]:justify-center group-data-[collapsible=icon]:w-full"
+                >
+                  <HugeiconsIcon icon={Bookmark02Icon} size={18} />
+                  <span className="group-data-[collapsible=icon]:hidden">Source Library</span>
+                </Link>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          )}
+
           {/* Tools Section Label */}
           {user && (
             <div className="px-2 py-1.5 group-data-[collapsible=icon]:hidden">
@@ -851,6 +973,15 @@ export const AppSidebar = memo(({ user, onHistoryClick, isProUser }: AppSidebarP
                       </Link>
                     </DropdownMenuItem>
 
+                    {user.role === 'admin' && (
+                      <DropdownMenuItem asChild>
+                        <Link href="/admin" onClick={closeMobileSidebar}>
+                          <ShieldIcon size={16} weight="regular" className="mr-2" />
+                          <span>Admin</span>
+                        </Link>
+                      </DropdownMenuItem>
+                    )}
+
                     <DropdownMenuSeparator />
 
                     {/* Theme Switcher in dropdown */}
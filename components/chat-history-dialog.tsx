@@ -29,6 +29,9 @@ import {
   isThisWeek,
   isThisMonth,
   subWeeks,
+  startOfDay,
+  startOfWeek,
+  startOfMonth,
   differenceInSeconds,
   differenceInMinutes,
   differenceInHours,
@@ -37,23 +40,33 @@ import {
   differenceInMonths,
   differenceInYears,
 } from 'date-fns';
-import { deleteChat, getUserChats, loadMoreChats, updateChatTitle } from '@/app/actions';
+import {
+  deleteChat,
+  getRelatedResearchAction,
+  getUserChats,
+  loadMoreChats,
+  searchChatsAction,
+  updateChatTitle,
+} from '@/app/actions';
 import { Button } from './ui/button';
 import { toast } from 'sonner';
 import { User } from '@/lib/db/schema';
 import { Skeleton } from '@/components/ui/skeleton';
-import { useMutation, useQueryClient, useInfiniteQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient, useInfiniteQuery } from '@tanstack/react-query';
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { Spinner } from '@/components/ui/spinner';
 import { useChatPrefetch } from '@/hooks/use-chat-prefetch';
 import { Kbd } from '@/components/ui/kbd';
 import { Empty, EmptyHeader, EmptyMedia, EmptyTitle, EmptyDescription, EmptyContent } from '@/components/ui/empty';
+import { SearchHighlight } from '@/components/search-highlight';
 
 // Constants
 const SCROLL_THRESHOLD = 0.8;
 const INTERSECTION_ROOT_MARGIN = '100px';
 const FOCUS_DELAY = 100;
+const SERVER_SEARCH_DEBOUNCE = 300;
+const SERVER_SEARCH_MIN_LENGTH = 2;
 
 interface Chat {
   id: string;
@@ -61,6 +74,7 @@ interface Chat {
   createdAt: Date;
   userId: string;
   visibility: 'public' | 'private';
+  snippet?: string | null;
 }
 
 interface ChatHistoryDialogProps {
@@ -227,6 +241,31 @@ function isSameDay(date1: Date, date2: Date): boolean {
   );
 }
 
+// Map a title/all-mode query onto the server's full-text search, which also
+// matches message content. Prefixes become filters; date: queries stay local.
+function toServerSearch(
+  query: string,
+  mode: SearchMode,
+): { query: string; visibility?: 'public' | 'private'; from?: string } | null {
+  if (mode !== 'all' && mode !== 'title') return null;
+
+  const now = new Date();
+  const prefixes: Array<[string, { visibility?: 'public' | 'private'; from?: Date }]> = [
+    ['public:', { visibility: 'public' }],
+    ['private:', { visibility: 'private' }],
+    ['today:', { from: startOfDay(now) }],
+    ['week:', { from: startOfWeek(now) }],
+    ['month:', { from: startOfMonth(now) }],
+  ];
+
+  if (query.startsWith('date:')) return null;
+  const [prefix, filters] = prefixes.find(([prefix]) => query.startsWith(prefix)) ?? ['', {}];
+  const text = query.slice(prefix.length).trim();
+  if (text.length < SERVER_SEARCH_MIN_LENGTH) return null;
+
+  return { query: text, visibility: filters.visibility, from: filters.from?.toISOString() };
+}
+
 // Advanced search function with multiple criteria
 function advancedSearch(chat: Chat, query: string, mode: SearchMode): boolean {
   if (!query) return true;
@@ -297,6 +336,7 @@ export function ChatHistoryDialog({ open, onOpenChange, user }: ChatHistoryDialo
 
   const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
   const [searchMode, setSearchMode] = useState<SearchMode>('all');
   const [navigating, setNavigating] = useState<string | null>(null);
   const [deletingChatId, setDeletingChatId] = useState<string | null>(null);
@@ -427,10 +467,61 @@ export function ChatHistoryDialog({ open, onOpenChange, user }: ChatHistoryDialo
     };
   }, [open]);
 
-  // Filter chats based on search query and mode with memoization
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchQuery(searchQuery), SERVER_SEARCH_DEBOUNCE);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Search titles and message content beyond the pages loaded so far
+  const serverSearch = useMemo(
+    () => toServerSearch(debouncedSearchQuery, searchMode),
+    [debouncedSearchQuery, searchMode],
+  );
+  const { data: serverResults } = useQuery({
+    queryKey: ['chat-search', user?.id, serverSearch],
+    queryFn: async () => {
+      const result = await searchChatsAction({ ...serverSearch, limit: 20 });
+      if ('error' in result) throw new Error(result.error);
+      return result.chats as Chat[];
+    },
+    enabled: !!user?.id && open && !!serverSearch,
+    staleTime: 1000 * 30,
+  });
+
+  // Semantically related past research: for the search text, or for the open chat when not searching
+  const relatedLookup = useMemo(
+    () =>
+      serverSearch
+        ? { query: serverSearch.query }
+        : !debouncedSearchQuery && currentChatId
+          ? { chatId: currentChatId }
+          : null,
+    [serverSearch, debouncedSearchQuery, currentChatId],
+  );
+  const { data: relatedResearch = [] } = useQuery({
+    queryKey: ['related-research', user?.id, relatedLookup],
+    queryFn: async () => {
+      const result = await getRelatedResearchAction({ ...relatedLookup, limit: 3 });
+      if ('error' in result) throw new Error(result.error);
+      return result.results;
+    },
+    enabled: !!user?.id && open && !!relatedLookup && !bulkSelectMode,
+    staleTime: 1000 * 60,
+  });
+
+  // Filter chats based on search query and mode with memoization, then add
+  // server matches the loaded pages don't contain
   const filteredChats = useMemo(() => {
-    return allChats.filter((chat) => advancedSearch(chat, searchQuery, searchMode));
-  }, [allChats, searchQuery, searchMode]);
+    const localMatches = allChats.filter((chat) => advancedSearch(chat, searchQuery, searchMode));
+    if (!serverSearch || !serverResults || debouncedSearchQuery !== searchQuery) return localMatches;
+
+    const snippets = new Map(serverResults.map((chat) => [chat.id, chat.snippet]));
+    const localIds = new Set(localMatches.map((chat) => chat.id));
+    return [
+      ...localMatches.map((chat) => ({ ...chat, snippet: snippets.get(chat.id) })),
+      ...serverResults.filter((chat) => !localIds.has(chat.id)),
+    ];
+  }, [allChats, searchQuery, searchMode, serverSearch, serverResults, debouncedSearchQuery]);
 
   // Categorize filtered chats with memoization
   const categorizedChats = useMemo(() => {
@@ -925,6 +1016,9 @@ export function ChatHistoryDialog({ open, onOpenChange, user }: ChatHistoryDialo
                 {isDeleting ? `Delete "${displayTitle}"?` : displayTitle}
               </span>
             )}
+            {chat.snippet && !isEditing && !isDeleting && (
+              <SearchHighlight text={chat.snippet} className="block truncate text-xs text-muted-foreground mt-0.5" />
+            )}
           </div>
 
           {/* Meta information and actions */}
@@ -1259,6 +1353,40 @@ export function ChatHistoryDialog({ open, onOpenChange, user }: ChatHistoryDialo
               </div>
             ) : (
               <>
+                {relatedResearch.length > 0 && (
+                  <CommandGroup
+                    heading="Related research"
+                    className="**:[[cmdk-group-heading]]:py-0.5! py-1! mb-0!"
+                  >
+                    {relatedResearch.map((related) => (
+                      <CommandItem
+                        key={`related-${related.chatId}`}
+                        value={`related-${related.chatId}`}
+                        onSelect={() => {
+                          setNavigating(related.chatId);
+                          router.push(`/search/${related.chatId}`);
+                        }}
+                        onMouseEnter={() => prefetchOnHover(related.chatId)}
+                        className="flex items-center py-2.5 px-3 mx-1 my-0.5 rounded-lg cursor-pointer hover:bg-accent/50 border border-transparent"
+                        disabled={navigating === related.chatId}
+                      >
+                        <div className="grid grid-cols-[auto_1fr] w-full gap-3 items-center">
+                          <div className="flex items-center justify-center w-5">
+                            {navigating === related.chatId ? (
+                              <Spinner className="h-4 w-4 shrink-0" />
+                            ) : (
+                              <HugeiconsIcon icon={SearchList02Icon} size={16} className="shrink-0 text-muted-foreground" />
+                            )}
+                          </div>
+                          <div className="min-w-0">
+                            <span className="truncate block">{related.chatTitle || 'Untitled Conversation'}</span>
+                            <span className="block truncate text-xs text-muted-foreground mt-0.5">{related.excerpt}</span>
+                          </div>
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
                 {filteredChats.length > 0 ? (
                   <>
                     {[
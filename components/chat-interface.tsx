@@ -15,6 +15,7 @@ import { useRouter, usePathname } from 'next/navigation';
 import { parseAsString, useQueryState } from 'nuqs';
 import { toast } from 'sonner';
 import { v7 as uuidv7 } from 'uuid';
+import { messageBranchesKey } from '@/hooks/use-message-branches';
 
 // Internal app imports
 import { suggestQuestions, updateChatVisibility, getChatMeta } from '@/app/actions';
@@ -95,6 +96,7 @@ const ChatInterface = memo(
     const [query] = useQueryState('query', parseAsString.withDefault(''));
     const [q] = useQueryState('q', parseAsString.withDefault(''));
     const [groupParam] = useQueryState('group', parseAsString.withDefault(''));
+    const [sourcesParam] = useQueryState('sources', parseAsString.withDefault(''));
     const [input, setInput] = useLocalStorage<string>('scira-draft-input', '');
     const [localChatTitle, setLocalChatTitle] = useState<string>(chatTitle || (initialChatId ? 'Chat' : 'New Chat'));
     const [isEditingTitle, setIsEditingTitle] = useState(false); // legacy inline edit (to be removed)
@@ -154,6 +156,10 @@ const ChatInterface = memo(
       groupParam ? (groupParam as unknown as SearchGroupId) : selectedGroup
     ) as SearchGroupId;
     const [selectedConnectors, setSelectedConnectors] = useState<ConnectorProvider[]>([]);
+    // Saved sources attached to the next query, e.g. from the source library's "Ask about selected"
+    const [selectedSavedSourceIds, setSelectedSavedSourceIds] = useState<string[]>(() =>
+      sourcesParam ? sourcesParam.split(',').filter(Boolean) : [],
+    );
     const [isCustomInstructionsEnabled, setIsCustomInstructionsEnabled] = useLocalStorage(
       'scira-custom-instructions-enabled',
       true,
@@ -428,6 +434,7 @@ const ChatInterface = memo(
     const searchProviderRef = useRef(searchProvider);
     const extremeSearchProviderRef = useRef(extremeSearchProvider);
     const selectedConnectorsRef = useRef(selectedConnectors);
+    const selectedSavedSourceIdsRef = useRef(selectedSavedSourceIds);
 
     // Update refs whenever state changes - this ensures we always have current values
     selectedModelRef.current = selectedModel;
@@ -436,6 +443,7 @@ const ChatInterface = memo(
     searchProviderRef.current = searchProvider;
     extremeSearchProviderRef.current = extremeSearchProvider;
     selectedConnectorsRef.current = selectedConnectors;
+    selectedSavedSourceIdsRef.current = selectedSavedSourceIds;
 
     const { messages, sendMessage, setMessages, regenerate, stop, status, error, resumeStream } = useChat<ChatMessage>({
       id: chatId,
@@ -455,6 +463,9 @@ const ChatInterface = memo(
               searchProvider: searchProviderRef.current,
               extremeSearchProvider: extremeSearchProviderRef.current,
               selectedConnectors: selectedConnectorsRef.current,
+              ...(selectedSavedSourceIdsRef.current.length > 0
+                ? { savedSourceIds: selectedSavedSourceIdsRef.current }
+                : {}),
               ...(initialChatId ? { chat_id: initialChatId } : {}),
               ...body,
             },
@@ -486,6 +497,8 @@ const ChatInterface = memo(
           queryClient.invalidateQueries({ queryKey: ['user-usage', user.id] });
           // Refetch chats cache to refresh sidebar (use refetch to bypass staleTime)
           queryClient.refetchQueries({ queryKey: ['recent-chats', user.id] });
+          // Edits and regenerations add versions to switch between
+          queryClient.invalidateQueries({ queryKey: messageBranchesKey(chatId) });
         }
 
         // Check if this is the first message completion and user is not Pro
@@ -603,6 +616,13 @@ const ChatInterface = memo(
       }
     }, [status]);
 
+    // Attached sources only apply to the query they were sent with
+    useEffect(() => {
+      if (status === 'submitted' && selectedSavedSourceIdsRef.current.length > 0) {
+        setSelectedSavedSourceIds([]);
+      }
+    }, [status]);
+
     // Removed header/recents invalidation effects; chat meta now refetches based on messages.length via query key
 
     useEffect(() => {
@@ -1227,6 +1247,8 @@ const ChatInterface = memo(
                       onOpenSettings={handleOpenSettings}
                       selectedConnectors={selectedConnectors}
                       setSelectedConnectors={setSelectedConnectors}
+                      selectedSavedSourceIds={selectedSavedSourceIds}
+                      setSelectedSavedSourceIds={setSelectedSavedSourceIds}
                       usageData={usageData ? { messageCount: usageData.messageCount, extremeSearchCount: usageData.extremeSearchCount, error: usageData.error } : undefined}
                     />
 
@@ -5,8 +5,79 @@ interface SearchCompletedEmailProps {
   chatTitle: string;
   assistantResponse: string;
   chatId: string;
+  whatsNew?: string;
+  condensed?: boolean;
 }
 
+const markdownCustomStyles = {
+  h1: {
+    color: '#020304',
+    fontSize: '20px',
+    fontWeight: '600',
+    marginBottom: '20px',
+    marginTop: '32px',
+  },
+  h2: {
+    color: '#020304',
+    fontSize: '18px',
+    fontWeight: '600',
+    marginBottom: '16px',
+    marginTop: '32px',
+  },
+  h3: {
+    color: '#020304',
+    fontSize: '16px',
+    fontWeight: '600',
+    marginBottom: '12px',
+    marginTop: '24px',
+  },
+  p: {
+    color: '#374151',
+    fontSize: '16px',
+    lineHeight: '1.65',
+    marginBottom: '20px',
+    marginTop: '0',
+  },
+  ul: {
+    color: '#374151',
+    fontSize: '16px',
+    lineHeight: '1.65',
+    marginBottom: '20px',
+    paddingLeft: '24px',
+    marginTop: '0',
+  },
+  ol: {
+    color: '#374151',
+    fontSize: '16px',
+    lineHeight: '1.65',
+    marginBottom: '20px',
+    paddingLeft: '24px',
+    marginTop: '0',
+  },
+  li: { marginBottom: '8px' },
+  bold: { fontWeight: '600', color: '#020304' },
+  italic: { fontStyle: 'italic', color: '#6B7280' },
+  codeInline: {
+    backgroundColor: '#F3F4F6',
+    color: '#374151',
+    padding: '3px 6px',
+    borderRadius: '4px',
+    fontSize: '14px',
+    fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Consolas, "Liberation Mono", Menlo, monospace',
+  },
+  blockQuote: {
+    borderLeft: '3px solid #D1D5DB',
+    paddingLeft: '20px',
+    margin: '24px 0',
+    fontStyle: 'italic',
+    color: '#6B7280',
+  },
+};
+
+const markdownContainerStyles = {
+  fontFamily: "system-ui, -apple-system, 'Segoe UI', sans-serif",
+};
+
 const SearchCompletedEmail = (props: SearchCompletedEmailProps) => {
   return (
     <Html lang="en" dir="ltr">
@@ -16,86 +87,36 @@ const SearchCompletedEmail = (props: SearchCompletedEmailProps) => {
           <Container className="max-w-[560px] mx-auto px-[24px] py-[48px] bg-[#FFFFFF] border border-solid border-neutral-300 rounded-lg">
             <Section className="text-center mb-6">
               <Img src="https://scira.ai/icon.png" alt="Scira AI" className="w-[48px] h-[48px] mx-auto mb-[24px]" />
-              <Text className="text-[24px] font-semibold text-[#020304] mb-[16px] m-0">Daily Lookout Complete</Text>
+              <Text className="text-[24px] font-semibold text-[#020304] mb-[16px] m-0">
+                {props.condensed ? 'No Changes Since Last Run' : 'Daily Lookout Complete'}
+              </Text>
               <Text className="text-[14px] font-medium text-[#374151] bg-[#F3F4F6] px-[16px] py-[8px] rounded-lg inline-block m-0 mt-2!">
                 {props.chatTitle}
               </Text>
             </Section>
 
-            <Section className="mb-6">
-              <Markdown
-                markdownCustomStyles={{
-                  h1: {
-                    color: '#020304',
-                    fontSize: '20px',
-                    fontWeight: '600',
-                    marginBottom: '20px',
-                    marginTop: '32px',
-                  },
-                  h2: {
-                    color: '#020304',
-                    fontSize: '18px',
-                    fontWeight: '600',
-                    marginBottom: '16px',
-                    marginTop: '32px',
-                  },
-                  h3: {
-                    color: '#020304',
-                    fontSize: '16px',
-                    fontWeight: '600',
-                    marginBottom: '12px',
-                    marginTop: '24px',
-                  },
-                  p: {
-                    color: '#374151',
-                    fontSize: '16px',
-                    lineHeight: '1.65',
-                    marginBottom: '20px',
-                    marginTop: '0',
-                  },
-                  ul: {
-                    color: '#374151',
-                    fontSize: '16px',
-                    lineHeight: '1.65',
-                    marginBottom: '20px',
-                    paddingLeft: '24px',
-                    marginTop: '0',
-                  },
-                  ol: {
-                    color: '#374151',
-                    fontSize: '16px',
-                    lineHeight: '1.65',
-                    marginBottom: '20px',
-                    paddingLeft: '24px',
-                    marginTop: '0',
-                  },
-                  li: { marginBottom: '8px' },
-                  bold: { fontWeight: '600', color: '#020304' },
-                  italic: { fontStyle: 'italic', color: '#6B7280' },
-                  codeInline: {
-                    backgroundColor: '#F3F4F6',
-                    color: '#374151',
-                    padding: '3px 6px',
-                    borderRadius: '4px',
-                    fontSize: '14px',
-                    fontFamily:
-                      'ui-monospace, SFMono-Regular, "SF Mono", Consolas, "Liberation Mono", Menlo, monospace',
-                  },
-                  blockQuote: {
-                    borderLeft: '3px solid #D1D5DB',
-                    paddingLeft: '20px',
-                    margin: '24px 0',
-                    fontStyle: 'italic',
-                    color: '#6B7280',
-                  },
-                }}
-                markdownContainerStyles={{
-                  fontFamily: "system-ui, -apple-system, 'Segoe UI', sans-serif",
-                }}
-              >
-                {props.assistantResponse}
-              </Markdown>
-            </Section>
+            {props.whatsNew && (
+              <Section className="mb-6 bg-[#F9FAFB] border border-solid border-neutral-200 rounded-lg px-[20px] py-[4px]">
+                <Text className="text-[16px] font-semibold text-[#020304] mb-0">What's new since the last run</Text>
+                <Markdown markdownCustomStyles={markdownCustomStyles} markdownContainerStyles={markdownContainerStyles}>
+                  {props.whatsNew}
+                </Markdown>
+              </Section>
+            )}
+
+            {props.condensed ? (
+              <Section className="mb-6">
+                <Text className="text-[16px] text-[#374151] leading-[1.65] m-0">
+                  No material changes since the last run. The full report is still available if you want to review it.
+                </Text>
+              </Section>
+            ) : (
+              <Section className="mb-6">
+                <Markdown markdownCustomStyles={markdownCustomStyles} markdownContainerStyles={markdownContainerStyles}>
+                  {props.assistantResponse}
+                </Markdown>
+              </Section>
+            )}
 
             <Section className="text-center mb-[40px]">
               <Button
@@ -14,13 +14,27 @@ import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/h
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
-import { Check, Copy, WrapText, ArrowLeftRight, Download, Globe } from 'lucide-react';
+import {
+  Check,
+  Copy,
+  WrapText,
+  ArrowLeftRight,
+  Download,
+  Globe,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldQuestionMark,
+  ShieldX,
+} from 'lucide-react';
 import { toast } from 'sonner';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { normalizeCitationUrl, type CitationCheck, type CitationStatus } from '@/lib/citation-check';
 
 interface MarkdownRendererProps {
   content: string;
   isUserMessage?: boolean;
+  // Results of the server-side citation check, shown as a badge next to each cited link
+  citationChecks?: CitationCheck[];
 }
 
 interface CitationLink {
@@ -1349,13 +1363,66 @@ const LinkPreview = React.memo(({ href, title }: { href: string; title?: string
 
 LinkPreview.displayName = 'LinkPreview';
 
+const CITATION_CHECK_STYLES: Record<
+  CitationStatus,
+  { label: string; icon: React.ComponentType<{ className?: string }>; className: string }
+> = {
+  supported: { label: 'Supported by the source', icon: ShieldCheck, className: 'text-green-600 dark:text-green-500' },
+  partial: { label: 'Partly supported by the source', icon: ShieldAlert, className: 'text-amber-500' },
+  unsupported: { label: 'Not backed by the source text', icon: ShieldAlert, className: 'text-red-500' },
+  unchecked: { label: 'Could not be checked', icon: ShieldQuestionMark, className: 'text-muted-foreground' },
+  not_retrieved: { label: 'Source was never retrieved by a search', icon: ShieldX, className: 'text-red-500' },
+};
+
+// Order from least to most trustworthy, so a link cited several times shows its weakest result
+const CITATION_STATUS_RANK: CitationStatus[] = ['not_retrieved', 'unsupported', 'partial', 'unchecked', 'supported'];
+
+function citationChecksByUrl(checks: CitationCheck[] | undefined): Map<string, CitationCheck> {
+  const byUrl = new Map<string, CitationCheck>();
+  for (const check of checks ?? []) {
+    const key = normalizeCitationUrl(check.url);
+    const existing = byUrl.get(key);
+    if (!existing || CITATION_STATUS_RANK.indexOf(check.status) < CITATION_STATUS_RANK.indexOf(existing.status)) {
+      byUrl.set(key, check);
+    }
+  }
+  return byUrl;
+}
+
+const CitationCheckBadge = React.memo(({ check }: { check: CitationCheck }) => {
+  const { label, icon: Icon, className } = CITATION_CHECK_STYLES[check.status];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          aria-label={label}
+          className={cn('inline-flex items-center align-middle ml-0.5 -translate-y-0.5 cursor-help', className)}
+        >
+          <Icon className="size-3" />
+        </span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs text-xs">
+        <p className="font-medium">
+          {label}
+          {check.score !== null && ` · ${Math.round(check.score * 100)}% match`}
+        </p>
+        {check.evidence && <p className="mt-1 opacity-80">&ldquo;{check.evidence}&rdquo;</p>}
+      </TooltipContent>
+    </Tooltip>
+  );
+});
+
+CitationCheckBadge.displayName = 'CitationCheckBadge';
+
 // Mobile-friendly HoverCard component
 const MobileHoverCard: React.FC<{
   href: string;
   text: React.ReactNode;
   isCitation?: boolean;
   citationText?: string;
-}> = React.memo(({ href, text, isCitation = false, citationText }) => {
+  check?: CitationCheck;
+}> = React.memo(({ href, text, isCitation = false, citationText, check }) => {
   const isMobile = useIsMobile();
   const [isOpen, setIsOpen] = useState(false);
   const title = citationText || (typeof text === 'string' ? text : '');
@@ -1383,38 +1450,41 @@ const MobileHoverCard: React.FC<{
   }, []);
 
   return (
-    <HoverCard 
-      open={isOpen}
-      onOpenChange={handleOpenChange}
-      openDelay={!isMobile ? 10 : undefined}
-    >
-      <HoverCardTrigger asChild>
-        <Link
-          href={href}
-          target="_blank"
-          onClick={handleClick}
-          className={
-            isCitation
-              ? 'cursor-pointer text-[10px] no-underline py-0.5 px-1.5 m-0! bg-accent/80 border border-border/40 rounded font-mono font-medium inline-block whitespace-nowrap items-center -translate-y-0.5 leading-none hover:bg-accent hover:border-border/60 active:bg-accent active:border-border/60 transition-colors focus:outline-none focus:ring-2 focus:ring-primary/30 touch-manipulation'
-              : 'text-primary bg-primary/10 no-underline hover:underline font-medium active:underline touch-manipulation'
-          }
-        >
-          {isCitation ? <span className="text-foreground">{text}</span> : text}
-        </Link>
-      </HoverCardTrigger>
-      <HoverCardContent
-        side="bottom"
-        align="start"
-        sideOffset={8}
-        className="w-64 p-0 shadow-xl border border-border rounded-lg overflow-hidden bg-background/95 backdrop-blur-sm"
-        onClick={(e) => {
-          // Allow clicks inside the preview to work normally (for navigation)
-          e.stopPropagation();
-        }}
+    <>
+      <HoverCard 
+        open={isOpen}
+        onOpenChange={handleOpenChange}
+        openDelay={!isMobile ? 10 : undefined}
       >
-        <LinkPreview href={href} title={title} />
-      </HoverCardContent>
-    </HoverCard>
+        <HoverCardTrigger asChild>
+          <Link
+            href={href}
+            target="_blank"
+            onClick={handleClick}
+            className={
+              isCitation
+                ? 'cursor-pointer text-[10px] no-underline py-0.5 px-1.5 m-0! bg-accent/80 border border-border/40 rounded font-mono font-medium inline-block whitespace-nowrap items-center -translate-y-0.5 leading-none hover:bg-accent hover:border-border/60 active:bg-accent active:border-border/60 transition-colors focus:outline-none focus:ring-2 focus:ring-primary/30 touch-manipulation'
+                : 'text-primary bg-primary/10 no-underline hover:underline font-medium active:underline touch-manipulation'
+            }
+          >
+            {isCitation ? <span className="text-foreground">{text}</span> : text}
+          </Link>
+        </HoverCardTrigger>
+        <HoverCardContent
+          side="bottom"
+          align="start"
+          sideOffset={8}
+          className="w-64 p-0 shadow-xl border border-border rounded-lg overflow-hidden bg-background/95 backdrop-blur-sm"
+          onClick={(e) => {
+            // Allow clicks inside the preview to work normally (for navigation)
+            e.stopPropagation();
+          }}
+        >
+          <LinkPreview href={href} title={title} />
+        </HoverCardContent>
+      </HoverCard>
+      {check && <CitationCheckBadge check={check} />}
+    </>
   );
 });
 
@@ -1424,10 +1494,11 @@ interface CitationGroupProps {
   urls: string[];
   texts: string[];
   elementKey: string;
+  checks?: Array<CitationCheck | undefined>;
 }
 
 // Citation item with favicon fallback
-const CitationItem = React.memo(({ url, text, domain, itemKey }: { url: string; text: string; domain: string; itemKey: string }) => {
+const CitationItem = React.memo(({ url, text, domain, itemKey, check }: { url: string; text: string; domain: string; itemKey: string; check?: CitationCheck }) => {
   const [faviconError, setFaviconError] = useState(false);
   const [proxyError, setProxyError] = useState(false);
   const googleFavicon = `https://www.google.com/s2/favicons?domain=${domain}&sz=128`;
@@ -1474,6 +1545,7 @@ const CitationItem = React.memo(({ url, text, domain, itemKey }: { url: string;
       <div className="flex-1 min-w-0 flex items-baseline gap-2">
         <h5 className="text-xs font-medium text-foreground truncate m-0 flex-1">{text}</h5>
         <p className="text-[10px] text-muted-foreground font-mono m-0 shrink-0">{domain}</p>
+        {check && <CitationCheckBadge check={check} />}
       </div>
     </Link>
   );
@@ -1481,7 +1553,7 @@ const CitationItem = React.memo(({ url, text, domain, itemKey }: { url: string;
 
 CitationItem.displayName = 'CitationItem';
 
-const CitationGroup = React.memo(({ urls, texts, elementKey }: CitationGroupProps) => {
+const CitationGroup = React.memo(({ urls, texts, elementKey, checks }: CitationGroupProps) => {
   const isMobile = useIsMobile();
   const [isOpen, setIsOpen] = useState(false);
   const firstDomain = useMemo(() => {
@@ -1558,6 +1630,7 @@ const CitationGroup = React.memo(({ urls, texts, elementKey }: CitationGroupProp
                   text={texts[index]}
                   domain={domain}
                   itemKey={`${elementKey}-${index}`}
+                  check={checks?.[index]}
                 />
               );
             })}
@@ -1571,9 +1644,10 @@ const CitationGroup = React.memo(({ urls, texts, elementKey }: CitationGroupProp
 CitationGroup.displayName = 'CitationGroup';
 
 const MarkdownRenderer: React.FC<MarkdownRendererProps> = React.memo(
-  ({ content, isUserMessage = false }) => {
+  ({ content, isUserMessage = false, citationChecks }) => {
     const { processedContent, citations: extractedCitations, citationGroups, latexBlocks, isProcessing } = useProcessedContent(content);
     const citationLinks = extractedCitations;
+    const checksByUrl = useMemo(() => citationChecksByUrl(citationChecks), [citationChecks]);
 
     // Preload metadata for all citation URLs as content streams in
     useEffect(() => {
@@ -1622,10 +1696,16 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = React.memo(
     const renderHoverCard = useCallback(
       (href: string, text: React.ReactNode, isCitation: boolean = false, citationText?: string) => {
         return (
-          <MobileHoverCard href={href} text={text} isCitation={isCitation} citationText={citationText} />
+          <MobileHoverCard
+            href={href}
+            text={text}
+            isCitation={isCitation}
+            citationText={citationText}
+            check={checksByUrl.get(normalizeCitationUrl(href))}
+          />
         );
       },
-      [],
+      [checksByUrl],
     );
 
     const renderCitation = useCallback(
@@ -1696,6 +1776,7 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = React.memo(
                     urls={citationGroup.urls}
                     texts={citationGroup.texts}
                     elementKey={key}
+                    checks={citationGroup.urls.map((url) => checksByUrl.get(normalizeCitationUrl(url)))}
                   />
                 );
               }
@@ -1962,7 +2043,7 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = React.memo(
           );
         },
       }),
-      [latexBlocks, citationGroups, isUserMessage, renderCitation, renderHoverCard, getElementKey, citationLinks],
+      [latexBlocks, citationGroups, isUserMessage, renderCitation, renderHoverCard, getElementKey, citationLinks, checksByUrl],
     );
 
     // Show a progressive loading state for large content
@@ -1993,7 +2074,11 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = React.memo(
     );
   },
   (prevProps, nextProps) => {
-    return prevProps.content === nextProps.content && prevProps.isUserMessage === nextProps.isUserMessage;
+    return (
+      prevProps.content === nextProps.content &&
+      prevProps.isUserMessage === nextProps.isUserMessage &&
+      prevProps.citationChecks === nextProps.citationChecks
+    );
   },
 );
 
@@ -2001,7 +2086,7 @@ MarkdownRenderer.displayName = 'MarkdownRenderer';
 
 // Virtual scrolling component for very large content
 const VirtualMarkdownRenderer: React.FC<MarkdownRendererProps> = React.memo(
-  ({ content, isUserMessage = false }) => {
+  ({ content, isUserMessage = false, citationChecks }) => {
     const [visibleRange, setVisibleRange] = useState({ start: 0, end: 50 });
     const containerRef = useRef<HTMLDivElement>(null);
 
@@ -2031,7 +2116,7 @@ const VirtualMarkdownRenderer: React.FC<MarkdownRendererProps> = React.memo(
 
     // Only use virtual scrolling for very large content
     if (content.length < 50000) {
-      return <MarkdownRenderer content={content} isUserMessage={isUserMessage} />;
+      return <MarkdownRenderer content={content} isUserMessage={isUserMessage} citationChecks={citationChecks} />;
     }
 
     return (
@@ -2041,13 +2126,22 @@ const VirtualMarkdownRenderer: React.FC<MarkdownRendererProps> = React.memo(
         onScroll={handleScroll}
       >
         {contentChunks.slice(visibleRange.start, visibleRange.end).map((chunk, index) => (
-          <MarkdownRenderer key={`chunk-${visibleRange.start + index}`} content={chunk} isUserMessage={isUserMessage} />
+          <MarkdownRenderer
+            key={`chunk-${visibleRange.start + index}`}
+            content={chunk}
+            isUserMessage={isUserMessage}
+            citationChecks={citationChecks}
+          />
         ))}
       </div>
     );
   },
   (prevProps, nextProps) => {
-    return prevProps.content === nextProps.content && prevProps.isUserMessage === nextProps.isUserMessage;
+    return (
+      prevProps.content === nextProps.content &&
+      prevProps.isUserMessage === nextProps.isUserMessage &&
+      prevProps.citationChecks === nextProps.citationChecks
+    );
   },
 );
 
@@ -2093,18 +2187,22 @@ const usePerformanceMonitor = (content: string) => {
 
 // Main optimized markdown component with automatic optimization selection
 const OptimizedMarkdownRenderer: React.FC<MarkdownRendererProps> = React.memo(
-  ({ content, isUserMessage = false }) => {
+  ({ content, isUserMessage = false, citationChecks }) => {
     usePerformanceMonitor(content);
 
     // Automatically choose the best rendering strategy based on content size
     if (content.length > 100000) {
-      return <VirtualMarkdownRenderer content={content} isUserMessage={isUserMessage} />;
+      return <VirtualMarkdownRenderer content={content} isUserMessage={isUserMessage} citationChecks={citationChecks} />;
     }
 
-    return <MarkdownRenderer content={content} isUserMessage={isUserMessage} />;
+    return <MarkdownRenderer content={content} isUserMessage={isUserMessage} citationChecks={citationChecks} />;
   },
   (prevProps, nextProps) => {
-    return prevProps.content === nextProps.content && prevProps.isUserMessage === nextProps.isUserMessage;
+    return (
+      prevProps.content === nextProps.content &&
+      prevProps.isUserMessage === nextProps.isUserMessage &&
+      prevProps.citationChecks === nextProps.citationChecks
+    );
   },
 );
 
@@ -8,10 +8,11 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card';
-import { deleteTrailingMessages, generateSpeech, branchOutChat } from '@/app/actions';
+import { generateSpeech, branchOutChat } from '@/app/actions';
 import { toast } from 'sonner';
 import { Wave } from '@foobar404/wave';
 import { cn } from '@/lib/utils';
+import { parseToolError } from '@/lib/tool-errors';
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/components/ui/tooltip';
 import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
 import { ShareButton } from '@/components/share';
@@ -25,6 +26,8 @@ import {
   DropdownMenuTrigger,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
 } from '@/components/ui/dropdown-menu';
 
 // Tool-specific components (eagerly loaded for better UX)
@@ -51,6 +54,8 @@ import {
   Code,
   FileText,
   FileCode,
+  FileJson,
+  FileType,
   Download,
 } from 'lucide-react';
 import {
@@ -121,22 +126,58 @@ const StockChartLoader = ({ title }: { title?: string; input?: any }) => {
   );
 };
 
+const TOOL_DISPLAY_NAMES: Record<string, string> = {
+  find_place_on_map: 'Location Search',
+  nearby_places_search: 'Nearby Places',
+  get_weather_data: 'Weather',
+  track_flight: 'Flight Tracker',
+  movie_or_tv_search: 'Movie & TV Search',
+  coin_data: 'Crypto Data',
+  coin_data_by_contract: 'Crypto Data',
+  coin_ohlc: 'Crypto Chart',
+};
+
+const toolDisplayName = (partType: string) => {
+  const name = partType.replace(/^tool-/, '');
+  if (TOOL_DISPLAY_NAMES[name]) return TOOL_DISPLAY_NAMES[name];
+  const words = name.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
 // Error component for tool errors
-const ToolErrorDisplay = ({ errorText, toolName }: { errorText: string; toolName: string }) => (
-  <div className="w-full my-4 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-950">
-    <div className="p-4">
-      <div className="flex items-start gap-3">
-        <div className="shrink-0 w-8 h-8 rounded-lg bg-red-100 dark:bg-red-900 flex items-center justify-center">
-          <XCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
-        </div>
-        <div className="flex-1">
-          <h3 className="text-sm font-medium text-red-900 dark:text-red-100">{toolName} failed</h3>
-          <p className="text-xs text-red-700 dark:text-red-300 mt-1">{errorText}</p>
+const ToolErrorDisplay = ({ errorText, toolName }: { errorText: string; toolName: string }) => {
+  const toolError = parseToolError(errorText);
+  const details = toolError
+    ? [
+        toolError.service,
+        toolError.status ? `HTTP ${toolError.status}` : null,
+        toolError.retryable
+          ? toolError.retryAfterSeconds
+            ? `Try again in ${toolError.retryAfterSeconds}s`
+            : 'Try again shortly'
+          : null,
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <div className="w-full my-4 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-950">
+      <div className="p-4">
+        <div className="flex items-start gap-3">
+          <div className="shrink-0 w-8 h-8 rounded-lg bg-red-100 dark:bg-red-900 flex items-center justify-center">
+            <XCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+          </div>
+          <div className="flex-1">
+            <h3 className="text-sm font-medium text-red-900 dark:text-red-100">{toolName} failed</h3>
+            <p className="text-xs text-red-700 dark:text-red-300 mt-1">{toolError?.message ?? errorText}</p>
+            {details.length > 0 && (
+              <p className="text-[11px] text-red-600/80 dark:text-red-400/80 mt-1">{details.join(' · ')}</p>
+            )}
+          </div>
         </div>
       </div>
     </div>
-  </div>
-);
+  );
+};
 
 interface MessagePartRendererProps {
   part: ChatMessage['parts'][number];
@@ -273,6 +314,11 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
       // 2. This is NOT the last assistant message (previous messages keep their buttons)
       const shouldShowActionButtons = status === 'ready' || !isLastAssistantMessage;
 
+      const citationChecks = annotations?.find(
+        (annotation): annotation is Extract<typeof annotation, { type: 'data-citation_check' }> =>
+          annotation.type === 'data-citation_check',
+      )?.data.citations;
+
       // Clean the text by removing box markers and special tokens
       const cleanText = part.text
         .replace(/<\|begin_of_box\|>/g, '')
@@ -283,7 +329,7 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
         <div key={`${messageIndex}-${partIndex}-text`} className="mt-2">
           <div>
             <ChatTextHighlighter onHighlight={onHighlight} removeHighlightOnClick={true}>
-              <MarkdownRenderer content={cleanText} />
+              <MarkdownRenderer content={cleanText} citationChecks={citationChecks} />
             </ChatTextHighlighter>
           </div>
 
@@ -309,12 +355,7 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
                               const lastUserMessage = messages.findLast((m) => m.role === 'user');
                               if (!lastUserMessage) return;
 
-                              if (user && lastUserMessage.id) {
-                                await deleteTrailingMessages({
-                                  id: lastUserMessage.id,
-                                });
-                              }
-
+                              // The current answer is kept as an earlier version of the regenerated one
                               const newMessages = [];
                               for (let i = 0; i < messages.length; i++) {
                                 newMessages.push(messages[i]);
@@ -588,6 +629,30 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
                         <FileCode className="h-4 w-4" />
                         <span>Markdown</span>
                       </DropdownMenuItem>
+                      {chatId && (
+                        <>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuLabel className="text-xs text-muted-foreground">Whole chat</DropdownMenuLabel>
+                          <DropdownMenuItem className="cursor-pointer gap-2" asChild>
+                            <a href={`/api/export/chat/${chatId}?format=markdown`} download>
+                              <FileCode className="h-4 w-4" />
+                              <span>Markdown</span>
+                            </a>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem className="cursor-pointer gap-2" asChild>
+                            <a href={`/api/export/chat/${chatId}?format=docx`} download>
+                              <FileType className="h-4 w-4" />
+                              <span>Word (DOCX)</span>
+                            </a>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem className="cursor-pointer gap-2" asChild>
+                            <a href={`/api/export/chat/${chatId}?format=json`} download>
+                              <FileJson className="h-4 w-4" />
+                              <span>JSON</span>
+                            </a>
+                          </DropdownMenuItem>
+                        </>
+                      )}
                     </DropdownMenuContent>
                   </DropdownMenu>
                 )}
@@ -751,6 +816,17 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
     if (isStaticToolUIPart(part)) {
       // Check if this part has the new state system
       if ('state' in part && part.state) {
+        // Tools throw when an upstream call fails, so every tool shares one error card
+        if (part.state === 'output-error') {
+          return (
+            <ToolErrorDisplay
+              key={`${messageIndex}-${partIndex}-tool`}
+              errorText={part.errorText}
+              toolName={toolDisplayName(part.type)}
+            />
+          );
+        }
+
         switch (part.type) {
           case 'tool-find_place_on_map':
             switch (part.state) {
@@ -898,14 +974,6 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
                     </div>
                   </div>
                 );
-              case 'output-error':
-                return (
-                  <ToolErrorDisplay
-                    key={`${messageIndex}-${partIndex}-tool`}
-                    errorText={part.errorText}
-                    toolName="Location Search"
-                  />
-                );
             }
             break;
 
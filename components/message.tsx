@@ -26,9 +26,8 @@ import {
   LogIn,
   CornerDownRight,
 } from 'lucide-react';
-import { UIMessagePart } from 'ai';
+import { UIMessagePart, generateId } from 'ai';
 import { MarkdownRenderer } from '@/components/markdown';
-import { deleteTrailingMessages } from '@/app/actions';
 import { getErrorActions, getErrorIcon, isSignInRequired, isProRequired, isRateLimited } from '@/lib/errors';
 import { UserIcon } from '@phosphor-icons/react';
 import { HugeiconsIcon } from '@/components/ui/hugeicons';
@@ -300,8 +299,61 @@ interface MessageProps {
   isOwner?: boolean;
   onHighlight?: (text: string) => void;
   shouldReduceHeight?: boolean;
+  branchSiblings?: string[];
+  onSwitchBranch?: (messageId: string) => Promise<void>;
 }
 
+// Version switcher (< 2/3 >) for messages that were edited or regenerated
+interface BranchSwitcherProps {
+  messageId: string;
+  siblings?: string[];
+  onSwitch?: (messageId: string) => Promise<void>;
+  disabled?: boolean;
+  className?: string;
+}
+
+const BranchSwitcher: React.FC<BranchSwitcherProps> = ({ messageId, siblings, onSwitch, disabled, className }) => {
+  const [isSwitching, setIsSwitching] = useState(false);
+  const index = siblings?.indexOf(messageId) ?? -1;
+
+  if (!siblings || !onSwitch || siblings.length < 2 || index === -1) return null;
+
+  const switchTo = async (targetIndex: number) => {
+    setIsSwitching(true);
+    try {
+      await onSwitch(siblings[targetIndex]);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const isDisabled = disabled || isSwitching;
+
+  return (
+    <div className={cn('flex items-center gap-0.5 text-xs text-muted-foreground tabular-nums', className)}>
+      <button
+        onClick={() => switchTo(index - 1)}
+        disabled={isDisabled || index === 0}
+        className="p-1 rounded-full hover:bg-accent/80 hover:text-foreground transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        aria-label="Previous version"
+      >
+        <ChevronLeft className="h-3.5 w-3.5" />
+      </button>
+      <span>
+        {index + 1}/{siblings.length}
+      </span>
+      <button
+        onClick={() => switchTo(index + 1)}
+        disabled={isDisabled || index === siblings.length - 1}
+        className="p-1 rounded-full hover:bg-accent/80 hover:text-foreground transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        aria-label="Next version"
+      >
+        <ChevronRight className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+};
+
 // Message Editor Component
 interface MessageEditorProps {
   message: ChatMessage;
@@ -310,7 +362,6 @@ interface MessageEditorProps {
   regenerate: UseChatHelpers<ChatMessage>['regenerate'];
   messages: ChatMessage[];
   setSuggestedQuestions: (questions: string[]) => void;
-  user?: ComprehensiveUserData | null;
 }
 
 const MessageEditor: React.FC<MessageEditorProps> = ({
@@ -320,7 +371,6 @@ const MessageEditor: React.FC<MessageEditorProps> = ({
   regenerate,
   messages,
   setSuggestedQuestions,
-  user,
 }) => {
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [draftContent, setDraftContent] = useState<string>(
@@ -359,12 +409,7 @@ const MessageEditor: React.FC<MessageEditorProps> = ({
     try {
       setIsSubmitting(true);
 
-      if (user && message.id) {
-        await deleteTrailingMessages({
-          id: message.id,
-        });
-      }
-
+      // The edit is saved as a new version next to the original, which stays in the chat's history
       setMessages((messages) => {
         const index = messages.findIndex((m) => m.id === message.id);
 
@@ -393,6 +438,7 @@ const MessageEditor: React.FC<MessageEditorProps> = ({
 
           const updatedMessage: ChatMessage = {
             ...message,
+            id: generateId(),
             parts: mergedParts,
           };
 
@@ -521,6 +567,8 @@ export const Message: React.FC<MessageProps> = ({
   isOwner = true,
   onHighlight,
   shouldReduceHeight = false,
+  branchSiblings,
+  onSwitchBranch,
 }) => {
   // State for expanding/collapsing long user messages
   const [isExpanded, setIsExpanded] = useState(false);
@@ -605,10 +653,16 @@ export const Message: React.FC<MessageProps> = ({
                 regenerate={regenerate}
                 messages={messages}
                 setSuggestedQuestions={setSuggestedQuestions}
-                user={user}
               />
             ) : (
               <div className="group relative flex items-center gap-3 justify-end">
+                <BranchSwitcher
+                  messageId={message.id}
+                  siblings={branchSiblings}
+                  onSwitch={onSwitchBranch}
+                  disabled={status === 'submitted' || status === 'streaming'}
+                />
+
                 {/* Actions on the left - vertically centered */}
                 <div className="flex items-center gap-0.5 opacity-100 lg:opacity-0 lg:group-hover:opacity-100 transition-opacity duration-200">
                   {((user && isOwner) || (!user && selectedVisibilityType === 'private')) && (
@@ -710,6 +764,14 @@ export const Message: React.FC<MessageProps> = ({
           );
         })}
 
+        <BranchSwitcher
+          messageId={message.id}
+          siblings={branchSiblings}
+          onSwitch={onSwitchBranch}
+          disabled={status === 'submitted' || status === 'streaming'}
+          className="-ml-1 mb-2"
+        />
+
         {/* Missing assistant response UI moved inside assistant message */}
         {isMissingAssistantResponse && (
           <div className="flex items-start mt-4">
@@ -4,7 +4,7 @@ import { DataUIPart, isToolUIPart } from 'ai';
 import { EnhancedErrorDisplay } from '@/components/message';
 import { MessagePartRenderer } from '@/components/message-parts';
 // import { SciraLogoHeader } from '@/components/scira-logo-header';
-import { deleteTrailingMessages } from '@/app/actions';
+import { useMessageBranches } from '@/hooks/use-message-branches';
 import { ChatMessage, CustomUIDataTypes } from '@/lib/types';
 import { UseChatHelpers } from '@ai-sdk/react';
 import { ComprehensiveUserData } from '@/lib/user-data-server';
@@ -65,6 +65,12 @@ const Messages: React.FC<MessagesProps> = ({
 
   useDataStream();
 
+  const { siblings: branchSiblings, switchBranch } = useMessageBranches({
+    chatId,
+    enabled: !!user && !!isOwner,
+    setMessages,
+  });
+
   // Scroll to bottom immediately (without animation) when opening existing chat
   useEffect(() => {
     if (initialMessages && initialMessages.length > 0 && !hasInitialScrolled && messagesEndRef.current) {
@@ -165,14 +171,8 @@ const Messages: React.FC<MessagesProps> = ({
       const lastUserMessage = messages.findLast((m) => m.role === 'user');
       if (!lastUserMessage) return;
 
-      // Step 1: Delete trailing messages if user is authenticated
-      if (user && lastUserMessage.id) {
-        await deleteTrailingMessages({
-          id: lastUserMessage.id,
-        });
-      }
-
-      // Step 2: Update local state to remove assistant messages
+      // Step 1: Update local state to remove assistant messages
+      // (the server keeps earlier answers as sibling versions of the new one)
       const newMessages = [];
       // Find the index of the last user message
       for (let i = 0; i < messages.length; i++) {
@@ -182,16 +182,16 @@ const Messages: React.FC<MessagesProps> = ({
         }
       }
 
-      // Step 3: Update UI state
+      // Step 2: Update UI state
       setMessages(newMessages);
       setSuggestedQuestions([]);
 
-      // Step 4: Reload
+      // Step 3: Reload
       await regenerate();
     } catch (error) {
       console.error('Error in retry:', error);
     }
-  }, [messages, user, setMessages, setSuggestedQuestions, regenerate]);
+  }, [messages, setMessages, setSuggestedQuestions, regenerate]);
 
   // Handle rendering of message parts - using the new MessagePartRenderer component
   const renderPart = useCallback(
@@ -404,6 +404,8 @@ const Messages: React.FC<MessagesProps> = ({
                 handleRetry={handleRetry}
                 isOwner={isOwner}
                 onHighlight={onHighlight}
+                branchSiblings={branchSiblings[message.id]}
+                onSwitchBranch={switchBranch}
                 shouldReduceHeight={
                   message.role === 'assistant'
                     ? status === 'submitted'
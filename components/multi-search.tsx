@@ -2,6 +2,7 @@
 /* eslint-disable @next/next/no-img-element */
 import React from 'react';
 
+import { SaveSourceButton } from '@/components/save-source-button';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { Drawer, DrawerContent } from '@/components/ui/drawer';
@@ -154,6 +155,11 @@ const SourceCard: React.FC<{ result: SearchResult; onClick?: () => void }> = ({
           {/* Title and Domain */}
           <div className="flex items-baseline gap-1.5">
             <h3 className="font-medium text-[13px] text-foreground line-clamp-1 flex-1">{result.title}</h3>
+            <SaveSourceButton
+              source={{ url: result.url, title: result.title, excerpt: result.content }}
+              kind="web"
+              className="self-center"
+            />
             <Icons.ArrowUpRight className="w-3 h-3 shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
           </div>
 
@@ -4,6 +4,7 @@
 import React from 'react';
 import Image from 'next/image';
 import ReactMarkdown from 'react-markdown';
+import { SaveSourceButton } from '@/components/save-source-button';
 import { Badge } from '@/components/ui/badge';
 import { Sheet, SheetContent } from '@/components/ui/sheet';
 import { Drawer, DrawerContent } from '@/components/ui/drawer';
@@ -41,6 +42,12 @@ interface RetrieveResponse {
   response_time: number;
   error?: string;
   partial_errors?: string[];
+  crawl?: {
+    start_url: string;
+    pages_crawled: number;
+    outline: Array<{ url: string; title: string; depth: number; parent_url: string | null }>;
+    skipped: { robots: number; duplicate: number; failed: number; budget: number };
+  };
 }
 
 // Helper function to proxy images from social media
@@ -118,6 +125,11 @@ const SourceCard: React.FC<{ result: RetrieveResult; onClick?: () => void }> = (
           {/* Title and Domain */}
           <div className="flex items-baseline gap-1.5">
             <h3 className="font-medium text-[13px] text-foreground line-clamp-1 flex-1">{result.title}</h3>
+            <SaveSourceButton
+              source={{ url: result.url, title: result.title, excerpt: result.description || result.content }}
+              kind="retrieve"
+              className="self-center"
+            />
             <ArrowUpRight className="w-3 h-3 shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
           </div>
 
@@ -445,6 +457,52 @@ const EnhancedSourceCard: React.FC<{ result: RetrieveResult; index: number }> =
   );
 };
 
+const getHostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace('www.', '');
+  } catch {
+    return url;
+  }
+};
+
+// Site outline for crawl mode - pages indented by how many links from the start page they were found
+const CrawlOutline: React.FC<{ crawl: NonNullable<RetrieveResponse['crawl']> }> = ({ crawl }) => {
+  const skipped = [
+    crawl.skipped.robots > 0 && `${crawl.skipped.robots} blocked by robots.txt`,
+    crawl.skipped.budget > 0 && `${crawl.skipped.budget} over the page budget`,
+    crawl.skipped.failed > 0 && `${crawl.skipped.failed} failed`,
+  ].filter(Boolean);
+
+  return (
+    <Accordion type="single" collapsible className="border-b border-neutral-200 dark:border-neutral-800">
+      <AccordionItem value="outline" className="border-0">
+        <AccordionTrigger className="px-4 py-2.5 text-xs font-medium text-neutral-700 dark:text-neutral-300 hover:no-underline">
+          Site outline
+        </AccordionTrigger>
+        <AccordionContent className="px-4 pb-3">
+          <ul className="space-y-1 max-h-64 overflow-y-auto">
+            {crawl.outline.map((entry) => (
+              <li key={entry.url} style={{ paddingLeft: `${entry.depth * 14}px` }} className="text-xs truncate">
+                <a
+                  href={entry.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-neutral-700 dark:text-neutral-300 hover:text-blue-600 dark:hover:text-blue-400"
+                >
+                  {entry.title}
+                </a>
+              </li>
+            ))}
+          </ul>
+          {skipped.length > 0 && (
+            <p className="text-[11px] text-muted-foreground mt-2">Skipped links: {skipped.join(', ')}</p>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
 // Multi URL Result Component - Rich card design inspired by single URL
 export const RetrieveMultiResults: React.FC<{ result: RetrieveResponse }> = ({ result }) => {
   const [isExpanded, setIsExpanded] = React.useState(true); // Default to expanded for better UX
@@ -476,7 +534,11 @@ export const RetrieveMultiResults: React.FC<{ result: RetrieveResponse }> = ({ r
         >
           <div className="flex items-center gap-2.5">
             <Layers className="h-4 w-4 text-neutral-500 dark:text-neutral-400" />
-            <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100">Retrieved from {result.results.length} sources</span>
+            <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
+              {result.crawl
+                ? `Crawled ${result.results.length} pages from ${getHostname(result.crawl.start_url)}`
+                : `Retrieved from ${result.results.length} sources`}
+            </span>
             {result.response_time && (
               <Badge
                 variant="secondary"
@@ -498,6 +560,8 @@ export const RetrieveMultiResults: React.FC<{ result: RetrieveResponse }> = ({ r
         {/* Expanded content */}
         {isExpanded && (
           <div>
+            {result.crawl && <CrawlOutline crawl={result.crawl} />}
+
             {/* Rich source cards */}
             <div className="max-h-[600px] overflow-y-auto">
               {result.results.map((resultItem, index) => (
@@ -526,7 +590,7 @@ export const RetrieveMultiResults: React.FC<{ result: RetrieveResponse }> = ({ r
 // Main component that auto-detects single vs multi
 export const RetrieveResults: React.FC<{ result: RetrieveResponse }> = ({ result }) => {
   // Auto-detect if this is single or multiple URLs
-  if (result.urls.length === 1) {
+  if (result.urls.length === 1 && !result.crawl) {
     return <RetrieveSingleResult result={result} />;
   }
 
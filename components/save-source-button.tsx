@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bookmark, BookmarkCheck, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { deleteSavedSourceAction, getSavedSourcesAction, saveSourceAction } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Textarea } from '@/components/ui/textarea';
+import { useUser } from '@/contexts/user-context';
+import type { SavedSourceKind } from '@/lib/db/schema';
+import { savedSourcesKey } from '@/lib/source-library';
+import { cn } from '@/lib/utils';
+
+interface SaveSourceButtonProps {
+  source: { url: string; title: string; excerpt?: string | null };
+  kind: SavedSourceKind;
+  className?: string;
+}
+
+/**
+ * Every saved source of the signed-in user, shared by all save buttons on the
+ * page so each card knows whether its URL is already in the library.
+ */
+export function useSavedSources() {
+  const { user } = useUser();
+
+  return useQuery({
+    queryKey: savedSourcesKey(user?.id),
+    queryFn: async () => {
+      const result = await getSavedSourcesAction();
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      return result.sources;
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+// Bookmark button for a source card; opens a small form for tags and notes.
+// Cards are usually links, so clicks never reach the surrounding anchor.
+export function SaveSourceButton({ source, kind, className }: SaveSourceButtonProps) {
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const { data: savedSources } = useSavedSources();
+  const [open, setOpen] = useState(false);
+  const [tags, setTags] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const saved = useMemo(() => savedSources?.find((item) => item.url === source.url), [savedSources, source.url]);
+
+  if (!user) return null;
+
+  const stopNavigation = (event: React.SyntheticEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setTags(saved?.tags.join(', ') ?? '');
+      setNotes(saved?.notes ?? '');
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await saveSourceAction({
+        url: source.url,
+        title: source.title,
+        excerpt: source.excerpt,
+        kind,
+        tags: tags.split(','),
+        notes,
+      });
+      if ('error' in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(saved ? 'Source updated' : 'Saved to your source library');
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: savedSourcesKey(user.id) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!saved) return;
+    setIsSaving(true);
+    try {
+      const result = await deleteSavedSourceAction({ id: saved.id });
+      if ('error' in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success('Removed from your source library');
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: savedSourcesKey(user.id) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <span className="contents" onClick={stopNavigation}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={saved ? 'Edit saved source' : 'Save source'}
+            className={cn(
+              'size-6 shrink-0 text-muted-foreground hover:text-foreground',
+              !saved && 'opacity-0 group-hover:opacity-100 focus-visible:opacity-100',
+              className,
+            )}
+          >
+            {saved ? <BookmarkCheck className="size-3.5 text-primary" /> : <Bookmark className="size-3.5" />}
+          </Button>
+        </PopoverTrigger>
+      </span>
+      <PopoverContent
+        align="end"
+        className="w-72 p-3 space-y-2"
+        onClick={(event) => event.stopPropagation()}
+        onKeyDown={(event) => event.stopPropagation()}
+      >
+        <div>
+          <p className="text-xs font-medium text-foreground line-clamp-1">{source.title}</p>
+          <p className="text-[10px] text-muted-foreground truncate">{source.url}</p>
+        </div>
+        <Input
+          value={tags}
+          onChange={(event) => setTags(event.target.value)}
+          placeholder="Tags, comma separated"
+          className="h-8 text-xs"
+        />
+        <Textarea
+          value={notes}
+          onChange={(event) => setNotes(event.target.value)}
+          placeholder="Notes (optional)"
+          className="min-h-16 text-xs"
+        />
+        <div className="flex items-center justify-between gap-2">
+          {saved ? (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleRemove} disabled={isSaving}>
+              Remove
+            </Button>
+          ) : (
+            <span />
+          )}
+          <Button size="sm" className="h-7 text-xs" onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="size-3 animate-spin" />}
+            {saved ? 'Update' : 'Save'}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,27 @@
+import { Fragment } from 'react';
+
+interface SearchHighlightProps {
+  text: string;
+  className?: string;
+}
+
+// Renders chat search results highlighted by Postgres ts_headline, which marks
+// matches with <mark>...</mark>. The text is split on the tags and rendered as
+// plain text, so message content is never interpreted as HTML.
+export function SearchHighlight({ text, className }: SearchHighlightProps) {
+  const segments = text.split(/(<mark>[\s\S]*?<\/mark>)/g);
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.startsWith('<mark>') && segment.endsWith('</mark>') ? (
+          <mark key={index} className="bg-primary/15 text-foreground rounded-sm px-0.5">
+            {segment.slice(6, -7)}
+          </mark>
+        ) : (
+          <Fragment key={index}>{segment}</Fragment>
+        ),
+      )}
+    </span>
+  );
+}
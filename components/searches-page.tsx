@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -31,11 +31,15 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Search, Globe, MoreVertical, Check, Pencil, Trash2, Share2, Lock, Plus } from 'lucide-react';
+import { Search, Globe, MoreVertical, Check, Pencil, Trash2, Share2, Lock, Plus, Upload, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import Link from 'next/link';
-import { bulkDeleteChats, getAllChatsWithPreview, searchChatsByTitle, updateChatTitle, deleteChat, updateChatVisibility } from '@/app/actions';
-import { formatDistanceToNow } from 'date-fns';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { bulkDeleteChats, getAllChatsWithPreview, searchChatsAction, updateChatTitle, deleteChat, updateChatVisibility } from '@/app/actions';
+import { formatDistanceToNow, subDays } from 'date-fns';
+import { models } from '@/ai/providers';
+import { searchGroups } from '@/lib/utils';
+import { SearchHighlight } from '@/components/search-highlight';
 import { SidebarTrigger } from '@/components/ui/sidebar';
 import { HugeiconsIcon } from '@hugeicons/react';
 import { FolderLibraryIcon } from '@hugeicons/core-free-icons';
@@ -48,6 +52,15 @@ interface Chat {
   updatedAt: Date;
   visibility: 'public' | 'private';
   preview?: string;
+  titleHighlight?: string;
+  snippet?: string | null;
+}
+
+interface SearchFilters {
+  model: string;
+  searchGroup: string;
+  dateRange: string;
+  visibility: string;
 }
 
 interface SearchesPageProps {
@@ -56,9 +69,22 @@ interface SearchesPageProps {
 
 const ITEMS_PER_PAGE = 25;
 
+const ALL = 'all';
+
+const DEFAULT_FILTERS: SearchFilters = { model: ALL, searchGroup: ALL, dateRange: ALL, visibility: ALL };
+
+const DATE_RANGE_OPTIONS = [
+  { value: ALL, label: 'Any time', days: 0 },
+  { value: 'day', label: 'Past day', days: 1 },
+  { value: 'week', label: 'Past week', days: 7 },
+  { value: 'month', label: 'Past month', days: 30 },
+  { value: 'year', label: 'Past year', days: 365 },
+];
+
 export function SearchesPage({ userId }: SearchesPageProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_FILTERS);
   const [selectedChatIds, setSelectedChatIds] = useState<Set<string>>(new Set());
   const [isSelectMode, setIsSelectMode] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -74,6 +100,8 @@ export function SearchesPage({ userId }: SearchesPageProps) {
   const [chatToShare, setChatToShare] = useState<{ id: string; title: string; visibility: 'public' | 'private' } | null>(null);
   const [isChangingVisibility, setIsChangingVisibility] = useState(false);
   const [openDropdownId, setOpenDropdownId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const queryClient = useQueryClient();
 
   // Debounce search query
@@ -85,6 +113,13 @@ export function SearchesPage({ userId }: SearchesPageProps) {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  const hasActiveFilters = Object.values(filters).some((value) => value !== ALL);
+  const isSearching = searchQuery.trim().length > 0 || hasActiveFilters;
+
+  const updateFilter = useCallback((key: keyof SearchFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  }, []);
+
   // Fetch chats (either all or search results) with offset-based pagination
   const {
     data,
@@ -94,12 +129,12 @@ export function SearchesPage({ userId }: SearchesPageProps) {
     hasNextPage,
     isFetchingNextPage,
   } = useInfiniteQuery({
-    queryKey: ['searches', userId, debouncedQuery],
+    queryKey: ['searches', userId, debouncedQuery, filters],
     initialPageParam: 0,
     queryFn: async ({ pageParam }) => {
       const offset = pageParam * ITEMS_PER_PAGE;
 
-      if (debouncedQuery.trim().length === 0) {
+      if (debouncedQuery.trim().length === 0 && !hasActiveFilters) {
         const result = await getAllChatsWithPreview(ITEMS_PER_PAGE, offset);
         if ('error' in result) {
           throw new Error(result.error);
@@ -108,7 +143,16 @@ export function SearchesPage({ userId }: SearchesPageProps) {
         return chats;
       }
 
-      const result = await searchChatsByTitle(debouncedQuery, ITEMS_PER_PAGE, offset);
+      const days = DATE_RANGE_OPTIONS.find((option) => option.value === filters.dateRange)?.days;
+      const result = await searchChatsAction({
+        query: debouncedQuery,
+        model: filters.model === ALL ? undefined : filters.model,
+        searchGroup: filters.searchGroup === ALL ? undefined : filters.searchGroup,
+        from: days ? subDays(new Date(), days).toISOString() : undefined,
+        visibility: filters.visibility === ALL ? undefined : (filters.visibility as 'public' | 'private'),
+        limit: ITEMS_PER_PAGE,
+        offset,
+      });
       if ('error' in result) {
         throw new Error(result.error);
       }
@@ -160,6 +204,43 @@ export function SearchesPage({ userId }: SearchesPageProps) {
   }, [displayedChats, selectedChatIds]);
 
   // Handle bulk delete
+  const handleImport = useCallback(
+    async (file: File) => {
+      setIsImporting(true);
+      try {
+        const formData = new FormData();
+        formData.append('file', file);
+        const response = await fetch('/api/import', { method: 'POST', body: formData });
+        const result = await response.json();
+
+        if (!response.ok) {
+          toast.error(result.cause || result.message || 'Failed to import chats');
+          return;
+        }
+
+        const importedCount = result.imported.length;
+        const skippedCount = result.skipped.reduce((total: number, item: { count: number }) => total + item.count, 0);
+        if (skippedCount > 0) {
+          console.info('Skipped during import:', result.skipped);
+        }
+        toast.success(
+          `Imported ${importedCount} chat${importedCount === 1 ? '' : 's'}` +
+            (skippedCount > 0 ? `, skipped ${skippedCount} item${skippedCount === 1 ? '' : 's'}` : ''),
+        );
+
+        queryClient.invalidateQueries({ queryKey: ['searches', userId] });
+        queryClient.invalidateQueries({ queryKey: ['recent-chats', userId] });
+      } catch (error) {
+        console.error('Failed to import chats:', error);
+        toast.error('Failed to import chats. Please try again.');
+      } finally {
+        setIsImporting(false);
+        if (importInputRef.current) importInputRef.current.value = '';
+      }
+    },
+    [userId, queryClient],
+  );
+
   const handleBulkDelete = useCallback(async () => {
     if (selectedChatIds.size === 0) return;
 
@@ -313,12 +394,35 @@ export function SearchesPage({ userId }: SearchesPageProps) {
                 <h1 className="text-xl md:text-2xl font-normal font-be-vietnam-pro tracking-tight">Search Library</h1>
               </div>
             </div>
-            <Link href="/new" prefetch>
-              <Button variant="outline" size="sm" className="gap-2">
-                <Plus className="h-4 w-4" />
-                <span className="hidden sm:inline">New Search</span>
+            <div className="flex items-center gap-2">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,.zip,application/json,application/zip"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                }}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-2"
+                disabled={isImporting}
+                onClick={() => importInputRef.current?.click()}
+                title="Import chats from a Scira, ChatGPT or Claude export"
+              >
+                {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                <span className="hidden sm:inline">Import</span>
               </Button>
-            </Link>
+              <Link href="/new" prefetch>
+                <Button variant="outline" size="sm" className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  <span className="hidden sm:inline">New Search</span>
+                </Button>
+              </Link>
+            </div>
           </div>
 
           {/* Fixed Search Input */}
@@ -333,6 +437,68 @@ export function SearchesPage({ userId }: SearchesPageProps) {
                 className="pl-9 pr-4 h-10 text-sm bg-muted/50 border-0 focus-visible:ring-1 focus-visible:ring-ring"
               />
             </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-2 mt-3">
+              <Select value={filters.dateRange} onValueChange={(value) => updateFilter('dateRange', value)}>
+                <SelectTrigger size="sm" className="text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATE_RANGE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filters.searchGroup} onValueChange={(value) => updateFilter('searchGroup', value)}>
+                <SelectTrigger size="sm" className="text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All modes</SelectItem>
+                  {searchGroups.map((group) => (
+                    <SelectItem key={group.id} value={group.id}>
+                      {group.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filters.model} onValueChange={(value) => updateFilter('model', value)}>
+                <SelectTrigger size="sm" className="text-xs max-w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All models</SelectItem>
+                  {models.map((model) => (
+                    <SelectItem key={model.value} value={model.value}>
+                      {model.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filters.visibility} onValueChange={(value) => updateFilter('visibility', value)}>
+                <SelectTrigger size="sm" className="text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any visibility</SelectItem>
+                  <SelectItem value="public">Public</SelectItem>
+                  <SelectItem value="private">Private</SelectItem>
+                </SelectContent>
+              </Select>
+              {hasActiveFilters && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  onClick={() => setFilters(DEFAULT_FILTERS)}
+                  className="h-auto p-0 text-xs text-muted-foreground hover:text-foreground"
+                >
+                  Clear filters
+                </Button>
+              )}
+            </div>
           </div>
 
           {/* Chat count and Select toggle */}
@@ -426,7 +592,7 @@ export function SearchesPage({ userId }: SearchesPageProps) {
           )}
 
           {/* Empty State - No Chats */}
-          {!isLoading && !error && displayedChats.length === 0 && searchQuery.trim().length === 0 && (
+          {!isLoading && !error && displayedChats.length === 0 && !isSearching && (
             <div className="flex flex-col items-center justify-center py-16">
               <h3 className="text-base font-normal mb-2 text-muted-foreground">No chats yet</h3>
               <p className="text-sm text-muted-foreground mb-6 text-center max-w-md">
@@ -439,11 +605,11 @@ export function SearchesPage({ userId }: SearchesPageProps) {
           )}
 
           {/* Empty State - No Search Results */}
-          {!isLoading && !error && displayedChats.length === 0 && searchQuery.trim().length > 0 && (
+          {!isLoading && !error && displayedChats.length === 0 && isSearching && (
             <div className="flex flex-col items-center justify-center py-16">
               <h3 className="text-base font-normal mb-2 text-muted-foreground">No results found</h3>
               <p className="text-sm text-muted-foreground text-center max-w-md">
-                No chats match &ldquo;{searchQuery}&rdquo;
+                {searchQuery.trim() ? <>No chats match &ldquo;{searchQuery}&rdquo;</> : 'No chats match these filters'}
               </p>
             </div>
           )}
@@ -482,13 +648,21 @@ export function SearchesPage({ userId }: SearchesPageProps) {
                         {/* Title */}
                         <div className="flex items-center gap-2">
                           <h3 className="font-normal text-sm sm:text-base truncate group-hover:text-primary/80 transition-colors">
-                            {chat.title}
+                            {chat.titleHighlight ? <SearchHighlight text={chat.titleHighlight} /> : chat.title}
                           </h3>
                           {chat.visibility === 'public' && (
                             <Globe className="h-3.5 w-3.5 shrink-0 text-muted-foreground/60" />
                           )}
                         </div>
 
+                        {/* Matching message excerpt */}
+                        {chat.snippet && (
+                          <SearchHighlight
+                            text={chat.snippet}
+                            className="block text-xs sm:text-sm text-muted-foreground line-clamp-2"
+                          />
+                        )}
+
                         {/* Timestamp */}
                         <p className="text-xs sm:text-sm text-muted-foreground">
                           Last message {formatDistanceToNow(createdDate, { addSuffix: false })} ago
@@ -0,0 +1,389 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { BookOpen, Globe, Loader2, MoreVertical, Pencil, Search, Sparkles, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { HugeiconsIcon } from '@hugeicons/react';
+import { Bookmark02Icon } from '@hugeicons/core-free-icons';
+
+import { deleteSavedSourceAction, getSavedSourcesAction, updateSavedSourceAction } from '@/app/actions';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import type { SavedSource, SavedSourceKind } from '@/lib/db/schema';
+import { MAX_ATTACHED_SOURCES, savedSourcesKey } from '@/lib/source-library';
+
+interface SourceLibraryPageProps {
+  userId: string;
+}
+
+const ALL = 'all';
+
+const KIND_LABELS: Record<SavedSourceKind, string> = {
+  web: 'Web',
+  academic: 'Academic',
+  retrieve: 'Page',
+};
+
+function hostnameOf(url: string) {
+  try {
+    return new URL(url).hostname.replace('www.', '');
+  } catch {
+    return url;
+  }
+}
+
+export function SourceLibraryPage({ userId }: SourceLibraryPageProps) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [tag, setTag] = useState(ALL);
+  const [kind, setKind] = useState(ALL);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<SavedSource | null>(null);
+  const [editTags, setEditTags] = useState('');
+  const [editNotes, setEditNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // The unfiltered list is shared with the save buttons and the chat input
+  const { data: allSources = [], isLoading } = useQuery({
+    queryKey: savedSourcesKey(userId),
+    queryFn: async () => {
+      const result = await getSavedSourcesAction();
+      if ('error' in result) throw new Error(result.error);
+      return result.sources;
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const hasFilters = !!debouncedQuery || tag !== ALL || kind !== ALL;
+
+  const { data: filteredSources, isFetching } = useQuery({
+    queryKey: [...savedSourcesKey(userId), { query: debouncedQuery, tag, kind }],
+    queryFn: async () => {
+      const result = await getSavedSourcesAction({
+        query: debouncedQuery || undefined,
+        tag: tag === ALL ? undefined : tag,
+        kind: kind === ALL ? undefined : (kind as SavedSourceKind),
+      });
+      if ('error' in result) throw new Error(result.error);
+      return result.sources;
+    },
+    enabled: hasFilters,
+  });
+
+  const sources = hasFilters ? (filteredSources ?? []) : allSources;
+
+  const allTags = useMemo(() => [...new Set(allSources.flatMap((source) => source.tags))].sort(), [allSources]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: savedSourcesKey(userId) });
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else if (next.size >= MAX_ATTACHED_SOURCES) {
+        toast.error(`You can attach up to ${MAX_ATTACHED_SOURCES} sources`);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const openEditor = (source: SavedSource) => {
+    setEditing(source);
+    setEditTags(source.tags.join(', '));
+    setEditNotes(source.notes ?? '');
+  };
+
+  const handleUpdate = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    try {
+      const result = await updateSavedSourceAction({ id: editing.id, tags: editTags.split(','), notes: editNotes });
+      if ('error' in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success('Source updated');
+      setEditing(null);
+      invalidate();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteSavedSourceAction({ id });
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+    toast.success('Removed from your source library');
+    invalidate();
+  };
+
+  const askAboutSelected = () => {
+    router.push(`/?sources=${Array.from(selectedIds).join(',')}`);
+  };
+
+  return (
+    <div className="w-full h-screen flex flex-col">
+      <main className="flex-1 flex flex-col overflow-hidden px-4 pt-4 md:px-8 md:pt-8 max-w-3xl mx-auto w-full">
+        <div className="shrink-0">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-3">
+              {/* Mobile sidebar trigger */}
+              <div className="md:hidden">
+                <SidebarTrigger />
+              </div>
+              <div className="flex items-center gap-2">
+                <HugeiconsIcon icon={Bookmark02Icon} size={24} strokeWidth={1.5} className="shrink-0" />
+                <h1 className="text-xl md:text-2xl font-normal font-be-vietnam-pro tracking-tight">Source Library</h1>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={selectedIds.size === 0}
+              onClick={askAboutSelected}
+              title="Start a new search answered from the selected sources"
+            >
+              <Sparkles className="h-4 w-4" />
+              <span className="hidden sm:inline">
+                Ask about {selectedIds.size > 0 ? selectedIds.size : ''} selected
+              </span>
+            </Button>
+          </div>
+
+          <div className="mb-6 relative z-10 bg-background">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="text"
+                placeholder="Search titles, links and notes..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9 pr-4 h-10 text-sm bg-muted/50 border-0 focus-visible:ring-1 focus-visible:ring-ring"
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mt-3">
+              <Select value={tag} onValueChange={setTag}>
+                <SelectTrigger size="sm" className="text-xs max-w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All tags</SelectItem>
+                  {allTags.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={kind} onValueChange={setKind}>
+                <SelectTrigger size="sm" className="text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All kinds</SelectItem>
+                  {(Object.keys(KIND_LABELS) as SavedSourceKind[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {KIND_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {hasFilters && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  onClick={() => {
+                    setSearchQuery('');
+                    setTag(ALL);
+                    setKind(ALL);
+                  }}
+                  className="h-auto p-0 text-xs text-muted-foreground hover:text-foreground"
+                >
+                  Clear filters
+                </Button>
+              )}
+              {isFetching && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 mb-4">
+            {isLoading ? (
+              <Skeleton className="h-4 w-16" />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {sources.length} saved {sources.length === 1 ? 'source' : 'sources'}
+              </p>
+            )}
+            {selectedIds.size > 0 && (
+              <Button
+                variant="link"
+                size="sm"
+                onClick={() => setSelectedIds(new Set())}
+                className="h-auto p-0 text-sm text-foreground hover:text-primary underline"
+              >
+                Clear selection
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto pb-8">
+          {isLoading ? (
+            <div className="space-y-0">
+              {[...Array(6)].map((_, i) => (
+                <div key={i} className="py-4 border-b border-border/40 space-y-2">
+                  <Skeleton className="h-4 w-2/3" />
+                  <Skeleton className="h-3 w-40" />
+                </div>
+              ))}
+            </div>
+          ) : sources.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-center">
+              <HugeiconsIcon icon={Bookmark02Icon} size={32} strokeWidth={1.5} className="text-muted-foreground mb-3" />
+              <p className="text-sm text-muted-foreground max-w-sm">
+                {hasFilters
+                  ? 'No saved sources match these filters.'
+                  : 'Save sources from search results with the bookmark button to collect them here.'}
+              </p>
+            </div>
+          ) : (
+            sources.map((source) => (
+              <div key={source.id} className="group flex items-start gap-3 py-4 border-b border-border/40">
+                <Checkbox
+                  checked={selectedIds.has(source.id)}
+                  onCheckedChange={() => toggleSelected(source.id)}
+                  className="mt-1"
+                  aria-label={`Select ${source.title}`}
+                />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm font-medium text-foreground hover:underline line-clamp-1"
+                  >
+                    {source.title}
+                  </a>
+                  <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    {source.kind === 'academic' ? <BookOpen className="h-3 w-3" /> : <Globe className="h-3 w-3" />}
+                    <span className="truncate">{hostnameOf(source.url)}</span>
+                    <span>·</span>
+                    <span className="shrink-0">
+                      {formatDistanceToNow(new Date(source.createdAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {source.notes ? (
+                    <p className="text-xs text-foreground/80 line-clamp-2 whitespace-pre-wrap">{source.notes}</p>
+                  ) : (
+                    source.excerpt && <p className="text-xs text-muted-foreground line-clamp-2">{source.excerpt}</p>
+                  )}
+                  {source.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 pt-0.5">
+                      {source.tags.map((value) => (
+                        <Badge
+                          key={value}
+                          variant="secondary"
+                          className="text-[10px] px-1.5 py-0 cursor-pointer"
+                          onClick={() => setTag(value)}
+                        >
+                          {value}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" aria-label="Source actions">
+                      <MoreVertical className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => openEditor(source)}>
+                      <Pencil className="h-4 w-4" />
+                      Edit tags and notes
+                    </DropdownMenuItem>
+                    <DropdownMenuItem variant="destructive" onClick={() => handleDelete(source.id)}>
+                      <Trash2 className="h-4 w-4" />
+                      Remove
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            ))
+          )}
+        </div>
+      </main>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit source</DialogTitle>
+            <DialogDescription className="line-clamp-1">{editing?.title}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input value={editTags} onChange={(e) => setEditTags(e.target.value)} placeholder="Tags, comma separated" />
+            <Textarea
+              value={editNotes}
+              onChange={(e) => setEditNotes(e.target.value)}
+              placeholder="Notes"
+              className="min-h-28"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleUpdate} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
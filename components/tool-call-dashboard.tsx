@@ -0,0 +1,202 @@
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { AdminEmptyRow, AdminSection, AdminShell, AdminWindowNav } from '@/components/admin-layout';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type { ToolCall } from '@/lib/db/schema';
+
+export const TOOL_CALL_WINDOWS = {
+  '1h': { label: 'Last hour', hours: 1 },
+  '24h': { label: 'Last 24 hours', hours: 24 },
+  '7d': { label: 'Last 7 days', hours: 24 * 7 },
+  '30d': { label: 'Last 30 days', hours: 24 * 30 },
+} as const;
+
+export type ToolCallWindow = keyof typeof TOOL_CALL_WINDOWS;
+
+export interface ToolCallStatsRow {
+  toolName: string;
+  provider: string | null;
+  calls: number;
+  errors: number;
+  averageDuration: number;
+  p95Duration: number;
+  maxDuration: number;
+  lastErrorAt: Date | string | null;
+}
+
+// Thresholds for highlighting rows that need attention
+const SLOW_P95_MS = 10_000;
+const FAILING_RATE = 0.1;
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return '—';
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  return `${(ms / 1000).toFixed(ms < 10_000 ? 1 : 0)} s`;
+}
+
+const timeAgo = (date: Date | string) => formatDistanceToNow(new Date(date), { addSuffix: true });
+
+function ChatLink({ call }: { call: ToolCall }) {
+  if (!call.chatId) return <span className="text-muted-foreground">anonymous</span>;
+  return (
+    <Link href={`/search/${call.chatId}`} className="underline-offset-2 hover:underline">
+      {call.chatId.slice(0, 8)}
+    </Link>
+  );
+}
+
+export function ToolCallDashboard({
+  window,
+  stats,
+  slowest,
+  failures,
+}: {
+  window: ToolCallWindow;
+  stats: ToolCallStatsRow[];
+  slowest: ToolCall[];
+  failures: ToolCall[];
+}) {
+  const totalCalls = stats.reduce((sum, row) => sum + row.calls, 0);
+  const totalErrors = stats.reduce((sum, row) => sum + row.errors, 0);
+
+  return (
+    <AdminShell
+      page="tools"
+      title="Tool Calls"
+      description={
+        <>
+          {totalCalls.toLocaleString()} calls, {totalErrors.toLocaleString()} failed
+          {totalCalls > 0 && ` (${((totalErrors / totalCalls) * 100).toFixed(1)}%)`}
+        </>
+      }
+      actions={
+        <AdminWindowNav windows={TOOL_CALL_WINDOWS} selected={window} href={(key) => `/admin/tools?window=${key}`} />
+      }
+    >
+      <AdminSection title="By tool and backend" description="Slowest first, by 95th percentile duration.">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tool</TableHead>
+              <TableHead>Backend</TableHead>
+              <TableHead className="text-right">Calls</TableHead>
+              <TableHead className="text-right">Failures</TableHead>
+              <TableHead className="text-right">Avg</TableHead>
+              <TableHead className="text-right">p95</TableHead>
+              <TableHead className="text-right">Max</TableHead>
+              <TableHead>Last failure</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stats.length === 0 ? (
+              <AdminEmptyRow colSpan={8}>No tool calls in this window.</AdminEmptyRow>
+            ) : (
+              stats.map((row) => {
+                const errorRate = row.calls > 0 ? row.errors / row.calls : 0;
+                return (
+                  <TableRow key={`${row.toolName}:${row.provider ?? ''}`}>
+                    <TableCell className="font-mono text-xs">{row.toolName}</TableCell>
+                    <TableCell className="text-xs">{row.provider ?? '—'}</TableCell>
+                    <TableCell className="text-right tabular-nums">{row.calls.toLocaleString()}</TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {row.errors > 0 ? (
+                        <Badge variant={errorRate >= FAILING_RATE ? 'destructive' : 'secondary'}>
+                          {row.errors} ({(errorRate * 100).toFixed(0)}%)
+                        </Badge>
+                      ) : (
+                        '0'
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatDuration(row.averageDuration)}</TableCell>
+                    <TableCell
+                      className={cn(
+                        'text-right tabular-nums',
+                        row.p95Duration >= SLOW_P95_MS && 'text-amber-600 dark:text-amber-400 font-medium',
+                      )}
+                    >
+                      {formatDuration(row.p95Duration)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatDuration(row.maxDuration)}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {row.lastErrorAt ? timeAgo(row.lastErrorAt) : '—'}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </AdminSection>
+
+      <AdminSection title="Slowest calls" description="Individual calls that took the longest.">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tool</TableHead>
+              <TableHead>Backend</TableHead>
+              <TableHead className="text-right">Duration</TableHead>
+              <TableHead>Model</TableHead>
+              <TableHead>Chat</TableHead>
+              <TableHead>When</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {slowest.length === 0 ? (
+              <AdminEmptyRow colSpan={6}>No tool calls in this window.</AdminEmptyRow>
+            ) : (
+              slowest.map((call) => (
+                <TableRow key={call.id}>
+                  <TableCell className="font-mono text-xs">{call.toolName}</TableCell>
+                  <TableCell className="text-xs">{call.provider ?? '—'}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatDuration(call.duration)}</TableCell>
+                  <TableCell className="text-xs">{call.model ?? '—'}</TableCell>
+                  <TableCell className="text-xs">
+                    <ChatLink call={call} />
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{timeAgo(call.createdAt)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </AdminSection>
+
+      <AdminSection title="Recent failures" description="Latest failed calls with the error they returned.">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tool</TableHead>
+              <TableHead>Backend</TableHead>
+              <TableHead>Error</TableHead>
+              <TableHead className="text-right">Duration</TableHead>
+              <TableHead>Chat</TableHead>
+              <TableHead>When</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {failures.length === 0 ? (
+              <AdminEmptyRow colSpan={6}>No failures in this window.</AdminEmptyRow>
+            ) : (
+              failures.map((call) => (
+                <TableRow key={call.id}>
+                  <TableCell className="font-mono text-xs">{call.toolName}</TableCell>
+                  <TableCell className="text-xs">{call.provider ?? '—'}</TableCell>
+                  <TableCell className="text-xs max-w-md whitespace-normal break-words text-red-700 dark:text-red-300">
+                    {call.error}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatDuration(call.duration)}</TableCell>
+                  <TableCell className="text-xs">
+                    <ChatLink call={call} />
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{timeAgo(call.createdAt)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </AdminSection>
+    </AdminShell>
+  );
+}
@@ -37,6 +37,7 @@ import {
   Crown02Icon,
   DocumentAttachmentIcon,
   ConnectIcon,
+  Bookmark02Icon,
 } from '@hugeicons/core-free-icons';
 import { AudioLinesIcon } from '@/components/ui/audio-lines';
 import { GripIcon } from '@/components/ui/grip';
@@ -53,6 +54,8 @@ import { useIsMobile } from '@/hooks/use-mobile';
 import { CONNECTOR_CONFIGS, CONNECTOR_ICONS, type ConnectorProvider } from '@/lib/connectors';
 import { useQuery } from '@tanstack/react-query';
 import { listUserConnectorsAction } from '@/app/actions';
+import { useSavedSources } from '@/components/save-source-button';
+import { MAX_ATTACHED_SOURCES } from '@/lib/source-library';
 import { CaretDownIcon } from '@phosphor-icons/react/dist/ssr';
 
 // Pro Badge Component
@@ -1288,6 +1291,9 @@ const StopIcon = ({ size = 16 }: { size?: number }) => {
 
 const MAX_FILES = 4;
 const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+// Data files aren't sent to the model directly; they're mounted into the code interpreter
+const isDataFile = (file: File) => file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv');
 const MAX_INPUT_CHARS = 50000;
 
 const fileToDataURL = (file: File): Promise<string> => {
@@ -1343,6 +1349,16 @@ const AttachmentPreview: React.FC<{
     [isUploadingAttachment],
   );
 
+  const isDataAttachment = useCallback(
+    (attachment: Attachment | UploadingAttachment): boolean => {
+      if (isUploadingAttachment(attachment)) {
+        return isDataFile(attachment.file);
+      }
+      return (attachment as Attachment).contentType === 'text/csv';
+    },
+    [isUploadingAttachment],
+  );
+
   return (
     <motion.div
       layout
@@ -1427,6 +1443,25 @@ const AttachmentPreview: React.FC<{
               <path d="M9 15v-2h6v2"></path>
               <path d="M12 18v-5"></path>
             </svg>
+          ) : isDataAttachment(attachment) ? (
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="text-green-600"
+            >
+              <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path>
+              <polyline points="14 2 14 8 20 8"></polyline>
+              <path d="M8 13h8"></path>
+              <path d="M8 17h8"></path>
+              <path d="M12 13v4"></path>
+            </svg>
           ) : (
             <img
               src={(attachment as Attachment).url}
@@ -1501,6 +1536,8 @@ interface FormComponentProps {
   onOpenSettings?: (tab?: string) => void;
   selectedConnectors?: ConnectorProvider[];
   setSelectedConnectors?: React.Dispatch<React.SetStateAction<ConnectorProvider[]>>;
+  selectedSavedSourceIds?: string[];
+  setSelectedSavedSourceIds?: React.Dispatch<React.SetStateAction<string[]>>;
   usageData?: { messageCount: number; extremeSearchCount: number; error: string | null } | null;
 }
 
@@ -1659,6 +1696,85 @@ const ConnectorSelector: React.FC<ConnectorSelectorProps> = React.memo(
 
 ConnectorSelector.displayName = 'ConnectorSelector';
 
+interface SavedSourceSelectorProps {
+  selectedIds: string[];
+  setSelectedIds: React.Dispatch<React.SetStateAction<string[]>>;
+}
+
+// Saved Source Selector Component - attaches sources from the user's library to the next query
+const SavedSourceSelector: React.FC<SavedSourceSelectorProps> = React.memo(({ selectedIds, setSelectedIds }) => {
+  const [open, setOpen] = useState(false);
+  const { data: savedSources = [] } = useSavedSources();
+
+  if (savedSources.length === 0 && selectedIds.length === 0) {
+    return null;
+  }
+
+  const toggleSource = (id: string) => {
+    setSelectedIds((prev) => {
+      if (prev.includes(id)) return prev.filter((sourceId) => sourceId !== id);
+      if (prev.length >= MAX_ATTACHED_SOURCES) {
+        toast.error(`You can attach up to ${MAX_ATTACHED_SOURCES} sources`);
+        return prev;
+      }
+      return [...prev, id];
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <Tooltip delayDuration={300}>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className={cn('h-8 px-2 text-xs', selectedIds.length > 0 && 'border-primary/40 text-primary')}
+            >
+              <HugeiconsIcon icon={Bookmark02Icon} size={16} color="currentColor" strokeWidth={1.5} />
+              {selectedIds.length > 0 && <span className="ml-1">{selectedIds.length}</span>}
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="bottom">Attach saved sources</TooltipContent>
+      </Tooltip>
+      <PopoverContent className="w-72 p-2" align="start">
+        <div className="flex items-center justify-between px-2 pb-1.5">
+          <span className="text-xs font-medium text-muted-foreground">Answer from saved sources</span>
+          {selectedIds.length > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setSelectedIds([])}>
+              Clear
+            </Button>
+          )}
+        </div>
+        <div className="space-y-0.5 max-h-64 overflow-auto">
+          {savedSources.map((source) => (
+            <label
+              key={source.id}
+              className="flex items-start gap-2 p-2 hover:bg-muted rounded cursor-pointer"
+              title={source.url}
+            >
+              <Switch
+                checked={selectedIds.includes(source.id)}
+                onCheckedChange={() => toggleSource(source.id)}
+                className="mt-0.5 shrink-0"
+              />
+              <div className="min-w-0">
+                <p className="text-xs font-medium line-clamp-1">{source.title}</p>
+                <p className="text-[10px] text-muted-foreground truncate">
+                  {source.tags.length > 0 ? source.tags.join(', ') : source.url}
+                </p>
+              </div>
+            </label>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+});
+
+SavedSourceSelector.displayName = 'SavedSourceSelector';
+
 const WEB_SEARCH_PROVIDERS: Array<{
   value: SearchProvider;
   label: string;
@@ -2361,6 +2477,8 @@ const FormComponent: React.FC<FormComponentProps> = ({
   usageData,
   selectedConnectors = [],
   setSelectedConnectors,
+  selectedSavedSourceIds = [],
+  setSelectedSavedSourceIds,
 }) => {
   const [uploadQueue, setUploadQueue] = useState<Array<string>>([]);
   const isMounted = useRef(true);
@@ -2873,6 +2991,7 @@ const FormComponent: React.FC<FormComponentProps> = ({
 
       const imageFiles: File[] = [];
       const pdfFiles: File[] = [];
+      const dataFiles: File[] = [];
       const unsupportedFiles: File[] = [];
       const oversizedFiles: File[] = [];
       const blockedPdfFiles: File[] = [];
@@ -2891,6 +3010,8 @@ const FormComponent: React.FC<FormComponentProps> = ({
           } else {
             pdfFiles.push(file);
           }
+        } else if (isDataFile(file)) {
+          dataFiles.push(file);
         } else {
           unsupportedFiles.push(file);
         }
@@ -2917,7 +3038,7 @@ const FormComponent: React.FC<FormComponentProps> = ({
         });
       }
 
-      if (imageFiles.length === 0 && pdfFiles.length === 0) {
+      if (imageFiles.length === 0 && pdfFiles.length === 0 && dataFiles.length === 0) {
         console.log('No supported files found');
         event.target.value = '';
         return;
@@ -2936,14 +3057,14 @@ const FormComponent: React.FC<FormComponentProps> = ({
           console.warn('No PDF-compatible model found');
           toast.error('PDFs are only supported by Gemini and Claude models');
 
-          if (imageFiles.length === 0) {
+          if (imageFiles.length === 0 && dataFiles.length === 0) {
             event.target.value = '';
             return;
           }
         }
       }
 
-      let validFiles: File[] = [...imageFiles];
+      let validFiles: File[] = [...imageFiles, ...dataFiles];
       if (hasPdfSupport(selectedModel) || pdfFiles.length > 0) {
         validFiles = [...validFiles, ...pdfFiles];
       }
@@ -3109,6 +3230,7 @@ const FormComponent: React.FC<FormComponentProps> = ({
 
       const imageFiles: File[] = [];
       const pdfFiles: File[] = [];
+      const dataFiles: File[] = [];
       const unsupportedFiles: File[] = [];
       const oversizedFiles: File[] = [];
       const blockedPdfFiles: File[] = [];
@@ -3129,6 +3251,8 @@ const FormComponent: React.FC<FormComponentProps> = ({
           } else {
             pdfFiles.push(file);
           }
+        } else if (isDataFile(file)) {
+          dataFiles.push(file);
         } else {
           unsupportedFiles.push(file);
         }
@@ -3167,8 +3291,8 @@ const FormComponent: React.FC<FormComponentProps> = ({
         });
       }
 
-      if (imageFiles.length === 0 && pdfFiles.length === 0) {
-        toast.error('Only image and PDF files are supported');
+      if (imageFiles.length === 0 && pdfFiles.length === 0 && dataFiles.length === 0) {
+        toast.error('Only image, PDF and CSV files are supported');
         return;
       }
 
@@ -3185,11 +3309,11 @@ const FormComponent: React.FC<FormComponentProps> = ({
         } else {
           console.warn('No PDF-compatible model found');
           toast.error('PDFs are only supported by Gemini and Claude models');
-          if (imageFiles.length === 0) return;
+          if (imageFiles.length === 0 && dataFiles.length === 0) return;
         }
       }
 
-      let validFiles: File[] = [...imageFiles];
+      let validFiles: File[] = [...imageFiles, ...dataFiles];
       if (hasPdfSupport(selectedModel) || pdfFiles.length > 0) {
         validFiles = [...validFiles, ...pdfFiles];
       }
@@ -3446,6 +3570,7 @@ const FormComponent: React.FC<FormComponentProps> = ({
               type: 'file' as const,
               url: attachment.url,
               name: attachment.name,
+              filename: attachment.name,
               mediaType: attachment.contentType || attachment.mediaType || '',
             })),
             {
@@ -3836,6 +3961,13 @@ const FormComponent: React.FC<FormComponentProps> = ({
                     />
                   )}
 
+                  {user && setSelectedSavedSourceIds && (
+                    <SavedSourceSelector
+                      selectedIds={selectedSavedSourceIds}
+                      setSelectedIds={setSelectedSavedSourceIds}
+                    />
+                  )}
+
                   <ModelSwitcher
                     selectedModel={selectedModel}
                     setSelectedModel={setSelectedModel}
@@ -0,0 +1,303 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  addOrganizationMemberAction,
+  createOrganizationAction,
+  deleteOrganizationAction,
+  removeOrganizationMemberAction,
+  setActiveWorkspaceAction,
+  updateOrganizationMemberRoleAction,
+} from '@/app/actions';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import type { OrganizationRole } from '@/lib/db/schema';
+
+export interface WorkspaceMember {
+  userId: string;
+  role: OrganizationRole;
+  name: string;
+  email: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  members: WorkspaceMember[];
+}
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+type ActionResult = { error?: string; success?: boolean };
+
+function useWorkspaceAction() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [isPending, startTransition] = useTransition();
+
+  const run = (action: () => Promise<ActionResult>, successMessage: string, onSuccess?: () => void) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(successMessage);
+      onSuccess?.();
+      // The sidebar switcher and chat lists follow workspace changes
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+      queryClient.invalidateQueries({ queryKey: ['recent-chats'] });
+      router.refresh();
+    });
+  };
+
+  return { isPending, run };
+}
+
+function WorkspaceCard({ userId, workspace, isActive }: { userId: string; workspace: Workspace; isActive: boolean }) {
+  const { isPending, run } = useWorkspaceAction();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('member');
+
+  const canManage = workspace.role === 'owner' || workspace.role === 'admin';
+  const isOwner = workspace.role === 'owner';
+  const organizationId = workspace.id;
+
+  return (
+    <section className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <h2 className="text-sm font-medium text-foreground">{workspace.name}</h2>
+          <Badge variant="outline">{ROLE_LABELS[workspace.role]}</Badge>
+          {isActive && <Badge variant="secondary">Active</Badge>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {!isActive && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isPending}
+              onClick={() => run(() => setActiveWorkspaceAction({ organizationId }), `Switched to ${workspace.name}`)}
+            >
+              Switch to
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={isPending}
+            onClick={() =>
+              run(() => removeOrganizationMemberAction({ organizationId, userId }), `Left ${workspace.name}`)
+            }
+          >
+            Leave
+          </Button>
+          {isOwner && (
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={isPending}
+              onClick={() => {
+                if (!confirm(`Delete ${workspace.name} with all of its chats and lookouts?`)) return;
+                run(() => deleteOrganizationAction({ organizationId }), `${workspace.name} deleted`);
+              }}
+            >
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-border/60 divide-y divide-border/60">
+        {workspace.members.map((member) => (
+          <div key={member.userId} className="flex flex-wrap items-center justify-between gap-3 p-4">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">
+                {member.name || member.email}
+                {member.userId === userId && <span className="text-muted-foreground"> (you)</span>}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+            </div>
+            {canManage && member.userId !== userId ? (
+              <div className="flex items-center gap-2">
+                <Select
+                  value={member.role}
+                  disabled={isPending || (!isOwner && member.role === 'owner')}
+                  onValueChange={(value) =>
+                    run(
+                      () =>
+                        updateOrganizationMemberRoleAction({
+                          organizationId,
+                          userId: member.userId,
+                          role: value as OrganizationRole,
+                        }),
+                      'Role updated',
+                    )
+                  }
+                >
+                  <SelectTrigger className="w-28" size="sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ROLE_LABELS) as OrganizationRole[]).map((value) => (
+                      <SelectItem key={value} value={value} disabled={value === 'owner' && !isOwner}>
+                        {ROLE_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isPending || (!isOwner && member.role === 'owner')}
+                  onClick={() =>
+                    run(
+                      () => removeOrganizationMemberAction({ organizationId, userId: member.userId }),
+                      'Member removed',
+                    )
+                  }
+                >
+                  Remove
+                </Button>
+              </div>
+            ) : (
+              <span className="text-xs text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+            )}
+          </div>
+        ))}
+
+        {canManage && (
+          <form
+            className="flex flex-wrap items-center gap-2 p-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              run(
+                () => addOrganizationMemberAction({ organizationId, email, role }),
+                'Member added',
+                () => setEmail(''),
+              );
+            }}
+          >
+            <Input
+              type="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              placeholder="Email of a Scira account"
+              className="flex-1 min-w-48"
+              required
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as OrganizationRole)}>
+              <SelectTrigger className="w-28" size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ROLE_LABELS) as OrganizationRole[]).map((value) => (
+                  <SelectItem key={value} value={value} disabled={value === 'owner' && !isOwner}>
+                    {ROLE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" variant="outline" size="sm" disabled={isPending || !email.trim()}>
+              Add member
+            </Button>
+          </form>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export function WorkspaceSettings({
+  userId,
+  workspaces,
+  activeOrganizationId,
+}: {
+  userId: string;
+  workspaces: Workspace[];
+  activeOrganizationId: string | null;
+}) {
+  const { isPending, run } = useWorkspaceAction();
+  const [name, setName] = useState('');
+
+  return (
+    <div className="w-full min-h-screen">
+      <main className="px-4 py-6 md:px-8 md:py-8 max-w-3xl mx-auto w-full space-y-8">
+        <div className="flex items-start gap-3">
+          <SidebarTrigger className="md:hidden" />
+          <div>
+            <h1 className="text-xl font-semibold">Workspaces</h1>
+            <p className="text-sm text-muted-foreground">
+              Chats and lookouts created in an organization&apos;s workspace are shared with all of its members.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border/60 p-4">
+          <div>
+            <p className="text-sm font-medium">Personal</p>
+            <p className="text-xs text-muted-foreground">Chats and lookouts only you can see.</p>
+          </div>
+          {activeOrganizationId ? (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isPending}
+              onClick={() =>
+                run(() => setActiveWorkspaceAction({ organizationId: null }), 'Switched to your personal workspace')
+              }
+            >
+              Switch to
+            </Button>
+          ) : (
+            <Badge variant="secondary">Active</Badge>
+          )}
+        </div>
+
+        {workspaces.map((workspace) => (
+          <WorkspaceCard
+            key={workspace.id}
+            userId={userId}
+            workspace={workspace}
+            isActive={workspace.id === activeOrganizationId}
+          />
+        ))}
+
+        <form
+          className="flex flex-wrap items-center gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            run(
+              () => createOrganizationAction({ name }),
+              'Organization created',
+              () => setName(''),
+            );
+          }}
+        >
+          <Input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="New organization name"
+            maxLength={100}
+            className="flex-1 min-w-48"
+            required
+          />
+          <Button type="submit" variant="outline" disabled={isPending || !name.trim()}>
+            Create organization
+          </Button>
+        </form>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+ALTER TABLE "lookout" ADD COLUMN "no_change_email" text DEFAULT 'condensed' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,34 @@
+CREATE TABLE "lookout_run" (
+	"id" text PRIMARY KEY NOT NULL,
+	"lookout_id" text NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"chat_id" text NOT NULL,
+	"status" text NOT NULL,
+	"error" text,
+	"duration" integer,
+	"tokens_used" integer,
+	"searches_performed" integer,
+	"model" text,
+	"change" text,
+	"digest" json,
+	"whats_new" text
+);
+--> statement-breakpoint
+ALTER TABLE "lookout_run" ADD CONSTRAINT "lookout_run_lookout_id_lookout_id_fk" FOREIGN KEY ("lookout_id") REFERENCES "public"."lookout"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "lookout_run_lookoutId_runAt_idx" ON "lookout_run" USING btree ("lookout_id","run_at");--> statement-breakpoint
+INSERT INTO "lookout_run" ("id", "lookout_id", "run_at", "chat_id", "status", "error", "duration", "tokens_used", "searches_performed", "change", "digest", "whats_new")
+SELECT
+	gen_random_uuid()::text,
+	"lookout"."id",
+	COALESCE(("run"->>'runAt')::timestamp, "lookout"."created_at"),
+	COALESCE("run"->>'chatId', ''),
+	COALESCE("run"->>'status', 'success'),
+	"run"->>'error',
+	round(("run"->>'duration')::numeric)::integer,
+	round(("run"->>'tokensUsed')::numeric)::integer,
+	round(("run"->>'searchesPerformed')::numeric)::integer,
+	"run"->>'change',
+	"run"->'digest',
+	"run"->>'whatsNew'
+FROM "lookout", json_array_elements(COALESCE("lookout"."run_history", '[]'::json)) AS "run";--> statement-breakpoint
+ALTER TABLE "lookout" DROP COLUMN "run_history";
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "lookout" ADD COLUMN "model" text DEFAULT 'scira-grok-4-fast-think' NOT NULL;--> statement-breakpoint
+ALTER TABLE "lookout" ADD COLUMN "search_group" text DEFAULT 'extreme' NOT NULL;--> statement-breakpoint
+ALTER TABLE "lookout" ADD COLUMN "research_depth" text DEFAULT 'standard' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE "lookout_delivery" (
+	"id" text PRIMARY KEY NOT NULL,
+	"run_id" text NOT NULL,
+	"target_id" text,
+	"channel" text NOT NULL,
+	"status" text NOT NULL,
+	"attempts" integer NOT NULL,
+	"response_status" integer,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "lookout_delivery_target" (
+	"id" text PRIMARY KEY NOT NULL,
+	"lookout_id" text NOT NULL,
+	"channel" text NOT NULL,
+	"url" text NOT NULL,
+	"secret" text,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "lookout_run" ADD COLUMN "delivery_failures" json;--> statement-breakpoint
+ALTER TABLE "lookout_delivery" ADD CONSTRAINT "lookout_delivery_run_id_lookout_run_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."lookout_run"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lookout_delivery" ADD CONSTRAINT "lookout_delivery_target_id_lookout_delivery_target_id_fk" FOREIGN KEY ("target_id") REFERENCES "public"."lookout_delivery_target"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lookout_delivery_target" ADD CONSTRAINT "lookout_delivery_target_lookout_id_lookout_id_fk" FOREIGN KEY ("lookout_id") REFERENCES "public"."lookout"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "lookout_delivery_runId_idx" ON "lookout_delivery" USING btree ("run_id");--> statement-breakpoint
+CREATE INDEX "lookout_delivery_target_lookoutId_idx" ON "lookout_delivery_target" USING btree ("lookout_id");
\ No newline at end of file
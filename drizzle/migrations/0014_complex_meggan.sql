@@ -0,0 +1,4 @@
+ALTER TABLE "message" ADD COLUMN "search_group" text;--> statement-breakpoint
+CREATE INDEX "chat_title_search_idx" ON "chat" USING gin (to_tsvector('english', "title"));--> statement-breakpoint
+CREATE INDEX "message_chat_id_idx" ON "message" USING btree ("chat_id");--> statement-breakpoint
+CREATE INDEX "message_text_search_idx" ON "message" USING gin (to_tsvector('english', jsonb_path_query_array("parts"::jsonb, '$[*] ? (@.type == "text").text')));
\ No newline at end of file
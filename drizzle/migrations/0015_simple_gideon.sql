@@ -0,0 +1,20 @@
+CREATE EXTENSION IF NOT EXISTS vector;--> statement-breakpoint
+CREATE TABLE "research_chunk" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"chat_id" text NOT NULL,
+	"message_id" text NOT NULL,
+	"kind" varchar NOT NULL,
+	"content" text NOT NULL,
+	"source_url" text,
+	"source_title" text,
+	"embedding" vector(1536) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "research_chunk" ADD CONSTRAINT "research_chunk_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "research_chunk" ADD CONSTRAINT "research_chunk_chat_id_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chat"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "research_chunk" ADD CONSTRAINT "research_chunk_message_id_message_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."message"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "research_chunk_user_id_idx" ON "research_chunk" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "research_chunk_message_id_idx" ON "research_chunk" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "research_chunk_embedding_idx" ON "research_chunk" USING hnsw ("embedding" vector_cosine_ops);
\ No newline at end of file
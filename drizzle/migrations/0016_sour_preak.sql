@@ -0,0 +1,11 @@
+ALTER TABLE "chat" ADD COLUMN "active_message_id" text;--> statement-breakpoint
+ALTER TABLE "message" ADD COLUMN "parent_id" text;--> statement-breakpoint
+ALTER TABLE "message" ADD CONSTRAINT "message_parent_id_message_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."message"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "message_parent_id_idx" ON "message" USING btree ("parent_id");--> statement-breakpoint
+-- Existing chats are linear: link every message to the one before it
+UPDATE "message" AS m SET "parent_id" = ordered."previous_id"
+FROM (
+  SELECT "id", lag("id") OVER (PARTITION BY "chat_id" ORDER BY "created_at", "id") AS "previous_id"
+  FROM "message"
+) AS ordered
+WHERE m."id" = ordered."id" AND ordered."previous_id" IS NOT NULL;
@@ -0,0 +1,3 @@
+ALTER TABLE "chat" ADD COLUMN "context_summary" text;--> statement-breakpoint
+ALTER TABLE "chat" ADD COLUMN "context_summary_message_id" text;--> statement-breakpoint
+ALTER TABLE "chat" ADD COLUMN "context_sources" json;
\ No newline at end of file
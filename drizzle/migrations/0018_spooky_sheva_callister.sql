@@ -0,0 +1,16 @@
+CREATE TABLE "saved_source" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"url" text NOT NULL,
+	"title" text NOT NULL,
+	"excerpt" text,
+	"kind" varchar DEFAULT 'web' NOT NULL,
+	"tags" text[] DEFAULT '{}'::text[] NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "saved_source" ADD CONSTRAINT "saved_source_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "saved_source_user_url_idx" ON "saved_source" USING btree ("user_id","url");--> statement-breakpoint
+CREATE INDEX "saved_source_tags_idx" ON "saved_source" USING gin ("tags");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "tool_call" (
+	"id" text PRIMARY KEY NOT NULL,
+	"chat_id" text,
+	"user_id" text,
+	"message_id" text,
+	"tool_call_id" text NOT NULL,
+	"tool_name" text NOT NULL,
+	"input" json,
+	"status" text NOT NULL,
+	"output_size" integer,
+	"duration" integer,
+	"provider" text,
+	"model" text,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tool_call" ADD CONSTRAINT "tool_call_chat_id_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chat"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tool_call" ADD CONSTRAINT "tool_call_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tool_call_createdAt_idx" ON "tool_call" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "tool_call_toolName_createdAt_idx" ON "tool_call" USING btree ("tool_name","created_at");--> statement-breakpoint
+CREATE INDEX "tool_call_chatId_idx" ON "tool_call" USING btree ("chat_id");
\ No newline at end of file
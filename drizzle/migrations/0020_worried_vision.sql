@@ -0,0 +1,4 @@
+ALTER TABLE "user" ADD COLUMN "role" varchar DEFAULT 'user' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "suspended_at" timestamp;--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "suspension_reason" text;--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "pro_granted_until" timestamp;
\ No newline at end of file
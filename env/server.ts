@@ -15,6 +15,15 @@ export const serverEnv = createEnv({
     GROQ_API_KEY: z.string().optional().default(''),
     GOOGLE_GENERATIVE_AI_API_KEY: z.string().optional().default(''),
     DAYTONA_API_KEY: z.string().optional().default(''),
+    CODE_SANDBOX_PROVIDER: z.enum(['daytona', 'local']).optional().default('daytona'),
+    LOCAL_SANDBOX_RUNTIME: z.enum(['process', 'docker']).optional().default('docker'),
+    LOCAL_SANDBOX_ALLOW_UNISOLATED: z.enum(['true', 'false']).optional().default('false'),
+    LOCAL_SANDBOX_PYTHON: z.string().optional().default('python3'),
+    LOCAL_SANDBOX_DOCKER_IMAGE: z.string().optional().default('quay.io/jupyter/scipy-notebook:latest'),
+    LOCAL_SANDBOX_TIMEOUT_MS: z.coerce.number().int().positive().optional().default(60000),
+    LOCAL_SANDBOX_MEMORY_MB: z.coerce.number().int().positive().optional().default(2048),
+    LOCAL_SANDBOX_CPUS: z.coerce.number().positive().optional().default(1),
+    CODE_SANDBOX_IDLE_TIMEOUT_MS: z.coerce.number().int().positive().optional().default(900000),
     DATABASE_URL: z.string().min(1),
     BETTER_AUTH_SECRET: z.string().min(1),
     GITHUB_CLIENT_ID: z.string().optional().default(''),
@@ -43,12 +52,23 @@ export const serverEnv = createEnv({
     SMITHERY_API_KEY: z.string().optional().default(''),
     COINGECKO_API_KEY: z.string().optional().default(''),
     SUPADATA_API_KEY: z.string().optional().default(''),
-    QSTASH_TOKEN: z.string().min(1),
+    QSTASH_TOKEN: z.string().optional().default(''),
+    LOOKOUT_SCHEDULER: z.enum(['qstash', 'postgres']).optional().default('qstash'),
+    LOOKOUT_CALLBACK_URL: z.string().optional().default(''),
+    LOOKOUT_POLL_INTERVAL_MS: z.coerce.number().int().positive().optional().default(30000),
+    LOOKOUT_MAX_CONCURRENT_RUNS: z.coerce.number().int().positive().optional().default(2),
+    LOOKOUT_RUN_RETENTION_COUNT: z.coerce.number().int().positive().optional().default(500),
+    LOOKOUT_RUN_RETENTION_DAYS: z.coerce.number().int().nonnegative().optional().default(365),
+    LOOKOUT_DELIVERY_MAX_ATTEMPTS: z.coerce.number().int().positive().optional().default(4),
+    LOOKOUT_DELIVERY_TIMEOUT_MS: z.coerce.number().int().positive().optional().default(10000),
     RESEND_API_KEY: z.string().optional().default(''),
     SUPERMEMORY_API_KEY: z.string().optional().default(''),
     SEARXNG_URL: z.string().optional().default('http://192.168.50.158:30053'),
+    WEB_SEARCH_FALLBACKS: z.string().optional().default(''),
     PLAYWRIGHT_SERVICE_URL: z.string().optional().default('http://127.0.0.1:3001/extract'),
     ALLOWED_ORIGINS: z.string().optional().default('http://localhost:3000'),
+    ADMIN_EMAILS: z.string().optional().default(''),
+    METRICS_TOKEN: z.string().optional().default(''),
   },
   experimental__runtimeEnv: process.env,
 });
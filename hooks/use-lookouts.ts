@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import {
   createScheduledLookout,
@@ -10,7 +10,21 @@ import {
   updateLookoutAction,
   deleteLookoutAction,
   testLookoutAction,
+  getLookoutRunsAction,
+  getLookoutRunStatsAction,
+  getLookoutDeliveryTargetsAction,
+  createLookoutDeliveryTargetAction,
+  updateLookoutDeliveryTargetAction,
+  deleteLookoutDeliveryTargetAction,
 } from '@/app/actions';
+import type { LookoutFrequency } from '@/lib/lookout/schedule';
+import type {
+  LookoutDeliveryChannel,
+  LookoutDeliveryTarget,
+  LookoutResearchDepth,
+  LookoutRun,
+  LookoutSearchGroup,
+} from '@/lib/db/schema';
 
 interface Lookout {
   id: string;
@@ -33,8 +47,12 @@ export const lookoutKeys = {
   list: (filters: string) => [...lookoutKeys.lists(), { filters }] as const,
   details: () => [...lookoutKeys.all, 'detail'] as const,
   detail: (id: string) => [...lookoutKeys.details(), id] as const,
+  runs: (id: string) => [...lookoutKeys.detail(id), 'runs'] as const,
+  deliveryTargets: (id: string) => [...lookoutKeys.detail(id), 'delivery-targets'] as const,
 };
 
+const RUNS_PAGE_SIZE = 10;
+
 // Custom hook for lookouts
 export function useLookouts() {
   const queryClient = useQueryClient();
@@ -127,10 +145,18 @@ export function useLookouts() {
     mutationFn: async (params: {
       title: string;
       prompt: string;
-      frequency: 'once' | 'daily' | 'weekly' | 'monthly';
+      frequency: LookoutFrequency;
       time: string;
       timezone: string;
       date?: string;
+      daysOfWeek?: string[];
+      intervalHours?: number;
+      dayOfMonth?: number;
+      cronExpression?: string;
+      noChangeEmail?: 'full' | 'condensed' | 'skip';
+      model?: string;
+      searchGroup?: LookoutSearchGroup;
+      researchDepth?: LookoutResearchDepth;
       onSuccess?: () => void;
     }) => {
       const { onSuccess: successCallback, ...mutationParams } = params;
@@ -213,9 +239,17 @@ export function useLookouts() {
       id: string;
       title: string;
       prompt: string;
-      frequency: 'once' | 'daily' | 'weekly' | 'monthly';
+      frequency: LookoutFrequency;
       time: string;
       timezone: string;
+      daysOfWeek?: string[];
+      intervalHours?: number;
+      dayOfMonth?: number;
+      cronExpression?: string;
+      noChangeEmail?: 'full' | 'condensed' | 'skip';
+      model?: string;
+      searchGroup?: LookoutSearchGroup;
+      researchDepth?: LookoutResearchDepth;
       onSuccess?: () => void;
     }) => {
       const { onSuccess: successCallback, ...mutationParams } = params;
@@ -404,3 +438,136 @@ export function useFilteredLookouts(filter: 'active' | 'archived' | 'all' = 'all
     ...rest,
   };
 }
+
+// Paginated run history and aggregated stats for one lookout. Keyed on the last
+// run time so a finished run refreshes the history.
+export function useLookoutRuns(lookoutId: string, lastRunAt?: Date | null) {
+  const runsKey = [...lookoutKeys.runs(lookoutId), lastRunAt ? new Date(lastRunAt).getTime() : null] as const;
+
+  const runsQuery = useInfiniteQuery({
+    queryKey: [...runsKey, 'list'],
+    queryFn: async ({ pageParam }) => {
+      const result = await getLookoutRunsAction({ id: lookoutId, limit: RUNS_PAGE_SIZE, offset: pageParam });
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load runs');
+      }
+      return { runs: (result.runs || []) as LookoutRun[], hasMore: !!result.hasMore };
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.hasMore ? allPages.reduce((total, page) => total + page.runs.length, 0) : undefined,
+    staleTime: 1000 * 30,
+  });
+
+  const statsQuery = useQuery({
+    queryKey: [...runsKey, 'stats'],
+    queryFn: async () => {
+      const result = await getLookoutRunStatsAction({ id: lookoutId });
+      if (!result.success || !result.stats) {
+        throw new Error(result.error || 'Failed to load run statistics');
+      }
+      return result.stats;
+    },
+    staleTime: 1000 * 30,
+  });
+
+  const recentErrorsQuery = useQuery({
+    queryKey: [...runsKey, 'errors'],
+    queryFn: async () => {
+      const result = await getLookoutRunsAction({ id: lookoutId, limit: 3, status: 'error' });
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load runs');
+      }
+      return (result.runs || []) as LookoutRun[];
+    },
+    enabled: (statsQuery.data?.failedRuns ?? 0) > 0,
+    staleTime: 1000 * 30,
+  });
+
+  return {
+    runs: runsQuery.data?.pages.flatMap((page) => page.runs) ?? [],
+    stats: statsQuery.data,
+    recentErrors: recentErrorsQuery.data ?? [],
+    isLoading: runsQuery.isLoading,
+    hasMore: runsQuery.hasNextPage,
+    isFetchingMore: runsQuery.isFetchingNextPage,
+    loadMore: () => runsQuery.fetchNextPage(),
+  };
+}
+
+// Webhook, Slack and Discord targets of one lookout
+export function useLookoutDeliveryTargets(lookoutId: string) {
+  const queryClient = useQueryClient();
+  const queryKey = lookoutKeys.deliveryTargets(lookoutId);
+
+  const targetsQuery = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const result = await getLookoutDeliveryTargetsAction({ lookoutId });
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load delivery targets');
+      }
+      return (result.targets || []) as LookoutDeliveryTarget[];
+    },
+    staleTime: 1000 * 30,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (params: { channel: LookoutDeliveryChannel; url: string }) => {
+      const result = await createLookoutDeliveryTargetAction({ lookoutId, ...params });
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to add delivery target');
+      }
+      return result.target;
+    },
+    onSuccess: () => {
+      toast.success('Delivery target added');
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (params: { id: string; enabled: boolean }) => {
+      const result = await updateLookoutDeliveryTargetAction(params);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update delivery target');
+      }
+      return result.target;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (params: { id: string }) => {
+      const result = await deleteLookoutDeliveryTargetAction(params);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to remove delivery target');
+      }
+      return params;
+    },
+    onSuccess: () => {
+      toast.success('Delivery target removed');
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return {
+    targets: targetsQuery.data ?? [],
+    isLoading: targetsQuery.isLoading,
+    addTarget: createMutation.mutate,
+    toggleTarget: toggleMutation.mutate,
+    removeTarget: deleteMutation.mutate,
+    isAdding: createMutation.isPending,
+  };
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { getMessageBranchesAction, switchMessageBranchAction } from '@/app/actions';
+import type { ChatMessage } from '@/lib/types';
+
+export const messageBranchesKey = (chatId: string | undefined) => ['message-branches', chatId] as const;
+
+const EMPTY_SIBLINGS: Record<string, string[]> = {};
+
+// Sibling versions of the messages in a chat, and switching the visible branch.
+// Only the owner can switch, since the choice is saved on the chat.
+export function useMessageBranches({
+  chatId,
+  enabled,
+  setMessages,
+}: {
+  chatId: string | undefined;
+  enabled: boolean;
+  setMessages: (messages: ChatMessage[]) => void;
+}) {
+  const queryClient = useQueryClient();
+
+  const { data: siblings = EMPTY_SIBLINGS } = useQuery({
+    queryKey: messageBranchesKey(chatId),
+    queryFn: async () => {
+      const result = await getMessageBranchesAction({ chatId: chatId! });
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      return result.siblings;
+    },
+    enabled: enabled && !!chatId,
+    staleTime: 1000 * 30,
+  });
+
+  const switchBranch = useCallback(
+    async (messageId: string) => {
+      if (!chatId) return;
+
+      const result = await switchMessageBranchAction({ chatId, messageId });
+      if ('error' in result) {
+        toast.error(result.error || 'Failed to switch version');
+        return;
+      }
+
+      setMessages(result.messages);
+      queryClient.invalidateQueries({ queryKey: messageBranchesKey(chatId) });
+    },
+    [chatId, setMessages, queryClient],
+  );
+
+  return { siblings, switchBranch };
+}
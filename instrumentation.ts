@@ -0,0 +1,18 @@
+import { registerOTel } from '@vercel/otel';
+
+export async function register() {
+  // The Prometheus and OTLP metric readers need Node.js APIs
+  const metricReaders =
+    process.env.NEXT_RUNTIME === 'nodejs' ? (await import('@/lib/metrics')).createMetricReaders() : undefined;
+
+  // Traces go to OTEL_EXPORTER_OTLP_ENDPOINT when set (or the Vercel collector when deployed there)
+  registerOTel({ serviceName: 'scira', metricReaders });
+
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { serverEnv } = await import('@/env/server');
+  if (serverEnv.LOOKOUT_SCHEDULER === 'postgres') {
+    const { startLookoutPoller } = await import('@/lib/lookout/scheduler');
+    startLookoutPoller();
+  }
+}
@@ -0,0 +1,27 @@
+import 'server-only';
+
+import { serverEnv } from '@/env/server';
+import { getUser } from '@/lib/auth-utils';
+import { getUserById } from '@/lib/db/queries';
+
+const adminEmails = () =>
+  new Set(
+    serverEnv.ADMIN_EMAILS.split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean),
+  );
+
+/**
+ * The signed-in user when they have the admin role or their email is listed
+ * in ADMIN_EMAILS, otherwise null. Suspended accounts are never admins.
+ */
+export async function getAdminUser() {
+  const sessionUser = await getUser();
+  if (!sessionUser?.id) return null;
+
+  // The session does not carry the role, so read it from the user row
+  const user = await getUserById(sessionUser.id);
+  if (!user || user.suspendedAt) return null;
+  if (user.role === 'admin' || adminEmails().has(user.email.toLowerCase())) return user;
+  return null;
+}
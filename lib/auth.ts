@@ -1,6 +1,7 @@
 import { betterAuth } from 'better-auth/minimal';
 import { nextCookies } from 'better-auth/next-js';
 import { lastLoginMethod } from 'better-auth/plugins';
+import { APIError } from 'better-auth/api';
 import {
   user,
   session,
@@ -208,6 +209,23 @@ export const auth = betterAuth({
       lookout,
     },
   }),
+  databaseHooks: {
+    session: {
+      create: {
+        // Suspended accounts cannot start new sessions
+        before: async (newSession) => {
+          const [sessionUser] = await db
+            .select({ suspendedAt: user.suspendedAt })
+            .from(user)
+            .where(eq(user.id, newSession.userId))
+            .limit(1);
+          if (sessionUser?.suspendedAt) {
+            throw new APIError('FORBIDDEN', { message: 'This account has been suspended' });
+          }
+        },
+      },
+    },
+  },
   socialProviders: {
     github: {
       clientId: serverEnv.GITHUB_CLIENT_ID,
@@ -0,0 +1,237 @@
+import { convertToModelMessages, generateText, type ModelMessage } from 'ai';
+import { getContextWindow, getMaxOutputTokens, getModelParameters, scira } from '@/ai/providers';
+import { getChatContextSummary, updateChatContextSummary } from '@/lib/db/queries';
+import type { ContextSource } from '@/lib/db/schema';
+import { toolSources } from '@/lib/research/chunks';
+import type { ChatMessage } from '@/lib/types';
+
+// Rough token estimate; close enough for budgeting without a per-provider tokenizer
+const CHARS_PER_TOKEN = 4;
+const FILE_TOKENS = 1500;
+// The system prompt and tool definitions are not measured, so leave room for them
+const RESERVED_PROMPT_TOKENS = 12000;
+const MIN_INPUT_TOKENS = 4000;
+// Once turns have to be summarized, compact well below the budget so the next
+// few turns fit without summarizing again
+const COMPACTION_TARGET = 0.6;
+// Tool calls and reasoning in the most recent messages are always kept verbatim
+const RECENT_DETAILED_MESSAGES = 3;
+const MAX_CONTEXT_SOURCES = 50;
+const MAX_SUMMARY_TOKENS = 1500;
+const MAX_SUMMARY_MESSAGE_CHARS = 6000;
+const MAX_SUMMARY_INPUT_CHARS = 120_000;
+
+const INLINE_LINK = /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g;
+
+type MessagePart = ChatMessage['parts'][number];
+
+export interface ModelContext {
+  messages: ModelMessage[];
+  // Summary of the turns left out and the sources they relied on, for the system prompt
+  system: string;
+}
+
+function isToolPart(part: MessagePart): boolean {
+  return part.type.startsWith('tool-') || part.type === 'dynamic-tool';
+}
+
+function estimateTokens(message: ChatMessage): number {
+  let chars = 0;
+  let tokens = 0;
+  for (const part of message.parts) {
+    if (part.type === 'text' || part.type === 'reasoning') {
+      chars += part.text.length;
+    } else if (part.type === 'file') {
+      tokens += FILE_TOKENS;
+    } else if (isToolPart(part)) {
+      chars += JSON.stringify(part).length;
+    }
+  }
+  return tokens + Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+function countTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(message), 0);
+}
+
+/**
+ * Tokens of chat history the model can take: its context window less the
+ * answer it may write and the unmeasured system prompt and tools.
+ */
+export function inputTokenBudget(model: string): number {
+  const outputTokens = getModelParameters(model).maxOutputTokens ?? getMaxOutputTokens(model);
+  return Math.max(getContextWindow(model) - outputTokens - RESERVED_PROMPT_TOKENS, MIN_INPUT_TOKENS);
+}
+
+function withoutToolDetail(message: ChatMessage): ChatMessage {
+  return { ...message, parts: message.parts.filter((part) => !isToolPart(part) && part.type !== 'reasoning') };
+}
+
+function messageText(message: ChatMessage): string {
+  return message.parts
+    .map((part) => (part.type === 'text' ? part.text.trim() : ''))
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Sources a message relied on: documents its search and retrieve tools
+ * returned, and links cited in an answer.
+ */
+function messageSources(message: ChatMessage): ContextSource[] {
+  const sources: ContextSource[] = [];
+  for (const part of message.parts) {
+    for (const source of toolSources(part as Parameters<typeof toolSources>[0])) {
+      if (source?.url) sources.push({ url: source.url, title: source.title?.trim() || source.url });
+    }
+    if (message.role === 'assistant' && part.type === 'text') {
+      for (const match of part.text.matchAll(INLINE_LINK)) {
+        sources.push({ url: match[2], title: match[1] });
+      }
+    }
+  }
+  return sources;
+}
+
+// Later occurrences win, and only the most recent sources are kept
+function mergeSources(...lists: ContextSource[][]): ContextSource[] {
+  const byUrl = new Map<string, ContextSource>();
+  for (const source of lists.flat()) {
+    byUrl.delete(source.url);
+    byUrl.set(source.url, source);
+  }
+  return [...byUrl.values()].slice(-MAX_CONTEXT_SOURCES);
+}
+
+async function summarizeTurns(previousSummary: string | null, messages: ChatMessage[]): Promise<string> {
+  const transcript = messages
+    .map((message) => {
+      const text = messageText(message).slice(0, MAX_SUMMARY_MESSAGE_CHARS);
+      return text ? `${message.role === 'user' ? 'User' : 'Assistant'}: ${text}` : null;
+    })
+    .filter(Boolean)
+    .join('\n\n')
+    .slice(-MAX_SUMMARY_INPUT_CHARS);
+
+  const { text } = await generateText({
+    model: scira.languageModel('scira-default'),
+    maxOutputTokens: MAX_SUMMARY_TOKENS,
+    system: `You condense the earlier part of a research conversation so it can continue without the full transcript.
+
+    - keep the user's questions, goals, constraints and preferences
+    - keep the key findings, numbers, names and dates from the answers, with the links they cite
+    - keep open questions and anything the assistant promised to follow up on
+    - merge the existing summary with the new turns; do not drop facts from it
+    - write compact markdown bullet points, no preamble`,
+    prompt: `## Existing summary
+${previousSummary || '(none)'}
+
+## New turns
+${transcript}`,
+  });
+
+  return text.trim();
+}
+
+function systemContext(summary: string | null, sources: ContextSource[]): string {
+  const sections: string[] = [];
+  if (summary) {
+    sections.push(`## Earlier in this conversation\n\n${summary}`);
+  }
+  if (sources.length > 0) {
+    sections.push(
+      `## Sources from earlier turns\n\nThese were cited or retrieved earlier in the conversation; cite them again where they are relevant.\n\n${sources
+        .map((source) => `- [${source.title}](${source.url})`)
+        .join('\n')}`,
+    );
+  }
+  return sections.length > 0 ? `\n\n${sections.join('\n\n')}` : '';
+}
+
+/**
+ * Fit a branch of chat history into the model's context window. Within budget
+ * it is sent as is. Otherwise tool calls and reasoning are dropped from older
+ * messages, and if that is not enough the oldest turns are folded into a
+ * rolling summary saved on the chat. Sources from anything dropped are listed
+ * in the returned system text so answers can keep citing them.
+ *
+ * `chatId` is null for chats that are not stored (anonymous users). Their
+ * oldest turns are dropped without a summary, so no extra model call is made.
+ */
+export async function buildModelContext({
+  chatId,
+  model,
+  messages,
+}: {
+  chatId: string | null;
+  model: string;
+  messages: ChatMessage[];
+}): Promise<ModelContext> {
+  const budget = inputTokenBudget(model);
+  const stored = chatId ? await getChatContextSummary({ chatId }) : null;
+
+  // A saved summary only applies while the turns it covers are on this branch
+  const summaryIndex = stored?.messageId ? messages.findIndex((message) => message.id === stored.messageId) : -1;
+  const hasSummary = !!stored?.summary && summaryIndex >= 0 && summaryIndex < messages.length - 1;
+  let summary = hasSummary ? stored.summary : null;
+  let summarySources = hasSummary ? (stored.sources ?? []) : [];
+  let start = hasSummary ? summaryIndex + 1 : 0;
+
+  const summaryTokens = (text: string | null) => (text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0);
+  const recentFrom = Math.max(start, messages.length - RECENT_DETAILED_MESSAGES);
+  const compact = () =>
+    messages.slice(start).map((message, index) => (start + index < recentFrom ? withoutToolDetail(message) : message));
+
+  let kept = messages.slice(start);
+  let detailTrimmed = false;
+
+  if (countTokens(kept) + summaryTokens(summary) > budget) {
+    kept = compact();
+    detailTrimmed = true;
+  }
+
+  if (countTokens(kept) + summaryTokens(summary) > budget) {
+    // Drop whole turns from the front until well under budget, never the latest message.
+    // Without a stored chat nothing carries over, so only drop what does not fit.
+    const target = chatId ? budget * COMPACTION_TARGET - MAX_SUMMARY_TOKENS : budget;
+    let total = countTokens(kept);
+    let cut = 0;
+    while (cut < kept.length - 1 && (total > target || kept[cut].role !== 'user')) {
+      total -= estimateTokens(kept[cut]);
+      cut++;
+    }
+
+    // Nothing to drop when the latest message alone is over budget or a summary covers all the rest
+    if (cut > 0) {
+      const dropped = messages.slice(start, start + cut);
+      summarySources = mergeSources(summarySources, ...dropped.map(messageSources));
+      if (chatId) {
+        try {
+          summary = await summarizeTurns(summary, dropped);
+          await updateChatContextSummary({
+            chatId,
+            summary,
+            messageId: dropped[dropped.length - 1].id,
+            sources: summarySources,
+          });
+        } catch (error) {
+          // The turns are still left out; their sources remain in the system prompt
+          console.error(`[Context] Failed to summarize ${dropped.length} messages for chat ${chatId}:`, error);
+        }
+      }
+
+      start += cut;
+      kept = compact();
+      console.log(
+        `[Context] ${chatId ? 'Summarized' : 'Dropped'} ${dropped.length} messages for ${model}, keeping ${kept.length}`,
+      );
+    }
+  }
+
+  const trimmedSources = detailTrimmed ? messages.slice(start, recentFrom).flatMap(messageSources) : [];
+
+  return {
+    messages: await convertToModelMessages(kept.filter((message) => message.parts.length > 0)),
+    system: systemContext(summary, mergeSources(summarySources, trimmedSources)),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Helpers for the message tree of a chat. Every message points at the message
+ * it follows (parentId); editing a question or regenerating an answer adds a
+ * sibling instead of replacing it, and the chat remembers which leaf is active.
+ */
+
+export interface MessageNode {
+  id: string;
+  parentId: string | null;
+  createdAt: Date;
+}
+
+export class MessageTree {
+  private readonly nodes = new Map<string, MessageNode>();
+  private readonly children = new Map<string | null, MessageNode[]>();
+
+  // Nodes must be ordered oldest first so children lists are in creation order
+  constructor(nodes: MessageNode[]) {
+    for (const node of nodes) this.nodes.set(node.id, node);
+    for (const node of nodes) {
+      // A parent outside this chat would orphan the node, so treat it as a root
+      const parentId = node.parentId && this.nodes.has(node.parentId) ? node.parentId : null;
+      const siblings = this.children.get(parentId) ?? [];
+      siblings.push(node);
+      this.children.set(parentId, siblings);
+    }
+  }
+
+  has(id: string | null | undefined): id is string {
+    return !!id && this.nodes.has(id);
+  }
+
+  /**
+   * Ids from the root down to (and including) the given message.
+   */
+  pathTo(id: string): string[] {
+    const path: string[] = [];
+    const seen = new Set<string>();
+    let node = this.nodes.get(id);
+
+    while (node && !seen.has(node.id)) {
+      seen.add(node.id);
+      path.push(node.id);
+      node = node.parentId ? this.nodes.get(node.parentId) : undefined;
+    }
+
+    return path.reverse();
+  }
+
+  /**
+   * The leaf reached from a message by always following its newest reply, which
+   * is where the user left off in that branch.
+   */
+  latestLeaf(id: string): string {
+    let current = id;
+    const seen = new Set<string>();
+
+    while (!seen.has(current)) {
+      seen.add(current);
+      const replies = this.children.get(current);
+      if (!replies?.length) break;
+      current = replies[replies.length - 1].id;
+    }
+
+    return current;
+  }
+
+  /**
+   * Leaf of the active branch: the stored one when it still exists, otherwise
+   * the most recently created message.
+   */
+  activeLeaf(activeMessageId: string | null | undefined): string | null {
+    if (this.has(activeMessageId)) return activeMessageId;
+
+    let latest: MessageNode | null = null;
+    for (const node of this.nodes.values()) {
+      if (!latest || node.createdAt.getTime() >= latest.createdAt.getTime()) latest = node;
+    }
+    return latest?.id ?? null;
+  }
+
+  /**
+   * For every message that has alternatives, the ids of all versions at that
+   * position (itself included), oldest first.
+   */
+  siblingGroups(): Record<string, string[]> {
+    const groups: Record<string, string[]> = {};
+
+    for (const siblings of this.children.values()) {
+      if (siblings.length < 2) continue;
+      const ids = siblings.map((sibling) => sibling.id);
+      for (const id of ids) groups[id] = ids;
+    }
+
+    return groups;
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Post-generation check of the inline `[Title](URL)` citations in an answer.
+ * Each citation is matched to the documents the answer's tool calls returned:
+ * URLs that never appeared in a tool result are flagged, and for the rest the
+ * cited sentence is scored against the retrieved text by key-term overlap.
+ */
+
+export type CitationStatus = 'supported' | 'partial' | 'unsupported' | 'unchecked' | 'not_retrieved';
+
+export interface CitationCheck {
+  url: string;
+  title: string;
+  // The sentence the citation is attached to, without markdown
+  sentence: string;
+  status: CitationStatus;
+  // Share of the sentence's key terms found in the best matching passage; null when not scored
+  score: number | null;
+  // Best matching passage from the source
+  evidence?: string;
+}
+
+export interface CitationCheckData {
+  citations: CitationCheck[];
+}
+
+export interface CitationSourceDocument {
+  url: string;
+  text: string;
+}
+
+const SUPPORTED_SCORE = 0.6;
+const PARTIAL_SCORE = 0.3;
+// Claims with fewer key terms than this are too short to score meaningfully
+const MIN_CLAIM_TERMS = 3;
+const MAX_CITATIONS = 100;
+const MAX_SOURCE_CHARS = 50_000;
+const MAX_SOURCE_DEPTH = 6;
+const PASSAGE_SENTENCES = 3;
+const MAX_EVIDENCE_LENGTH = 280;
+
+const CITATION_LINK = /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g;
+const ANY_LINK = /\[([^\]]*)\]\([^)\s]*\)/g;
+const SOURCE_URL_FIELDS = ['url', 'link', 'sourceUrl'];
+const SOURCE_TEXT_FIELDS = [
+  'title',
+  'content',
+  'text',
+  'snippet',
+  'description',
+  'summary',
+  'abstract',
+  'highlights',
+  'selftext',
+  'body',
+];
+
+const STOPWORDS = new Set(
+  (
+    'the and for are was were with that this from have has had not but its their they them than then there these ' +
+    'those which who whom what when where why how also into onto over under more most such can could would should ' +
+    'will may might been being about after before between while during per via some any all each other only very ' +
+    'just both our your his her you she him yes out off too own same again further once here many much new one'
+  ).split(' '),
+);
+
+/**
+ * Comparable form of a URL: no scheme, `www.`, fragment, tracking parameters
+ * or trailing slash.
+ */
+export function normalizeCitationUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (key.startsWith('utm_')) parsed.searchParams.delete(key);
+    }
+    const search = parsed.searchParams.toString();
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}${search ? `?${search}` : ''}`.toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+function terms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 2 && !STOPWORDS.has(term))
+    .map((term) => (term.length > 4 && term.endsWith('s') ? term.slice(0, -1) : term));
+}
+
+function numbers(text: string): string[] {
+  return (text.match(/\d+(?:[.,]\d+)*/g) ?? []).map((value) => value.replace(/,/g, ''));
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function plainText(markdown: string): string {
+  return markdown
+    .replace(ANY_LINK, '$1')
+    .replace(/[*_`#>|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * The sentence a citation supports: the one it closes, or the one before it
+ * when the citation starts a new sentence or follows other citations.
+ */
+function claimBefore(text: string, index: number): string {
+  const before = text
+    .slice(0, index)
+    .replace(/(?:\s*\[[^\]]*\]\([^)\s]*\))+\s*$/, '')
+    .replace(/[\s(,;:–—-]+$/, '');
+  const sentences = splitSentences(before);
+  return plainText(sentences[sentences.length - 1] ?? '');
+}
+
+function collectText(value: unknown, into: string[], depth: number) {
+  if (depth > MAX_SOURCE_DEPTH || !value) return;
+  if (typeof value === 'string') {
+    into.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectText(item, into, depth + 1));
+  }
+}
+
+function collectDocuments(value: unknown, documents: Map<string, string[]>, depth: number) {
+  if (!value || typeof value !== 'object' || depth > MAX_SOURCE_DEPTH) return;
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectDocuments(item, documents, depth + 1));
+    return;
+  }
+
+  const record = value as Record<string, unknown>;
+  const url = SOURCE_URL_FIELDS.map((field) => record[field]).find(
+    (candidate): candidate is string => typeof candidate === 'string' && /^https?:\/\//.test(candidate),
+  );
+  if (url) {
+    const key = normalizeCitationUrl(url);
+    const texts = documents.get(key) ?? [];
+    for (const field of SOURCE_TEXT_FIELDS) collectText(record[field], texts, 0);
+    documents.set(key, texts);
+  }
+
+  for (const child of Object.values(record)) {
+    if (child && typeof child === 'object') collectDocuments(child, documents, depth + 1);
+  }
+}
+
+/**
+ * Every document with a URL found anywhere in a set of tool outputs, keyed by
+ * normalized URL, with the text fields that came with it.
+ */
+export function extractCitationSources(toolOutputs: unknown[]): Map<string, string> {
+  const documents = new Map<string, string[]>();
+  toolOutputs.forEach((output) => collectDocuments(output, documents, 0));
+  return new Map(
+    [...documents].map(([url, texts]) => [url, [...new Set(texts)].join('\n\n').slice(0, MAX_SOURCE_CHARS)]),
+  );
+}
+
+function scoreClaim(claim: string, sourceText: string): { score: number; evidence?: string } {
+  const claimTerms = [...new Set(terms(claim))];
+  const claimNumbers = numbers(claim);
+  const sentences = splitSentences(sourceText);
+
+  let best = { score: 0, evidence: undefined as string | undefined };
+  for (let start = 0; start < sentences.length; start++) {
+    const passage = sentences.slice(start, start + PASSAGE_SENTENCES).join(' ');
+    const passageTerms = new Set(terms(passage));
+    let score = claimTerms.filter((term) => passageTerms.has(term)).length / claimTerms.length;
+
+    // Figures are the easiest thing to get wrong; a passage missing all of them supports less
+    if (claimNumbers.length > 0) {
+      const passageNumbers = new Set(numbers(passage));
+      if (!claimNumbers.some((value) => passageNumbers.has(value))) score *= 0.5;
+    }
+
+    if (score > best.score) best = { score, evidence: passage };
+  }
+
+  return {
+    score: Math.round(best.score * 100) / 100,
+    evidence: best.evidence && best.evidence.slice(0, MAX_EVIDENCE_LENGTH),
+  };
+}
+
+/**
+ * Check every citation in an answer against the documents its tools returned.
+ */
+export function checkCitations(answer: string, sources: Map<string, string>): CitationCheckData {
+  const citations: CitationCheck[] = [];
+
+  for (const match of answer.matchAll(CITATION_LINK)) {
+    if (citations.length >= MAX_CITATIONS) break;
+    const [, title, url] = match;
+    const sentence = claimBefore(answer, match.index!);
+    const sourceText = sources.get(normalizeCitationUrl(url));
+
+    if (sourceText === undefined) {
+      citations.push({ url, title, sentence, status: 'not_retrieved', score: null });
+      continue;
+    }
+    if (!sourceText.trim() || terms(sentence).length < MIN_CLAIM_TERMS) {
+      citations.push({ url, title, sentence, status: 'unchecked', score: null });
+      continue;
+    }
+
+    const { score, evidence } = scoreClaim(sentence, sourceText);
+    const status: CitationStatus =
+      score >= SUPPORTED_SCORE ? 'supported' : score >= PARTIAL_SCORE ? 'partial' : 'unsupported';
+    citations.push({ url, title, sentence, status, score, evidence });
+  }
+
+  return { citations };
+}
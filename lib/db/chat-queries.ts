@@ -4,6 +4,7 @@ import { eq } from 'drizzle-orm';
 import { chat, type User, message, type Message, type Chat } from './schema';
 import { ChatSDKError } from '../errors';
 import { db, getReadReplica } from './index';
+import { getBranchMessages, getMessageTreeByChatId } from './queries';
 
 // Combined query to get chat and initial messages in one database call
 export async function getChatWithInitialMessages({
@@ -123,6 +124,42 @@ export async function getChatWithUserAndInitialMessages({
   }
 }
 
+// Chat with its owner and the messages of the branch the user last viewed, root first
+export async function getChatWithUserAndActiveBranch({ id }: { id: string }): Promise<{
+  chat: Chat | null;
+  user: User | null;
+  messages: Message[];
+}> {
+  try {
+    const record = await db.query.chat.findFirst({
+      where: eq(chat.id, id),
+      with: {
+        user: true,
+      },
+    });
+
+    if (!record) {
+      return {
+        chat: null,
+        user: null,
+        messages: [],
+      };
+    }
+
+    const tree = await getMessageTreeByChatId({ chatId: id });
+    const messages = await getBranchMessages({ tree, leafId: tree.activeLeaf(record.activeMessageId) });
+
+    return {
+      chat: record,
+      user: record.user ?? null,
+      messages,
+    };
+  } catch (error) {
+    console.error('Error in getChatWithUserAndActiveBranch:', error);
+    throw new ChatSDKError('bad_request:database', 'Failed to get chat with active branch');
+  }
+}
+
 // Batch query to get multiple chats with their initial messages
 export async function getChatsWithInitialMessages({
   chatIds,
@@ -1,13 +1,35 @@
 import 'server-only';
 
-import { and, asc, desc, eq, gt, gte, inArray, lt, type SQL } from 'drizzle-orm';
+import {
+  and,
+  asc,
+  cosineDistance,
+  desc,
+  eq,
+  gt,
+  gte,
+  ilike,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+  notInArray,
+  or,
+  sql,
+  type SQL,
+} from 'drizzle-orm';
 import {
   user,
+  session,
+  subscription,
   chat,
   type User,
   message,
   type Message,
   type Chat,
+  type ContextSource,
   stream,
   extremeSearchUsage,
   messageUsage,
@@ -15,13 +37,49 @@ import {
   userPreferences,
   dodosubscription,
   lookout,
+  lookoutRun,
+  lookoutDeliveryTarget,
+  lookoutDelivery,
+  type Lookout,
+  type LookoutDeliveryChannel,
+  type LookoutDeliveryFailure,
+  type LookoutNoChangeEmail,
+  type LookoutRunChange,
+  type LookoutRunDigest,
+  type LookoutRunStatus,
+  type LookoutSearchGroup,
+  type LookoutResearchDepth,
+  researchChunk,
+  type ResearchChunk,
+  savedSource,
+  type SavedSource,
+  type SavedSourceKind,
+  toolCall,
+  type ToolCall,
+  type ToolCallStatus,
+  organization,
+  organizationMember,
+  type OrganizationRole,
+  chatTitleSearchVector,
+  messageTextSearchVector,
 } from './schema';
+import { generateId } from 'ai';
+import { serverEnv } from '@/env/server';
 import { ChatSDKError } from '../errors';
+import { calculateNextRun } from '../lookout/schedule';
+import { MessageTree } from '../chat-tree';
 import { db, getReadReplica, maindb } from './index';
 import { getDodoSubscriptions, setDodoSubscriptions, getDodoProStatus, setDodoProStatus } from '../performance-cache';
 
 type VisibilityType = 'public' | 'private';
 
+// ILIKE pattern matching the term anywhere, with LIKE wildcards in the term taken literally
+const containsPattern = (term: string) => `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+
+// Chats listed in a workspace: the organization's chats, or the user's personal ones
+const chatWorkspaceCondition = (userId: string, organizationId: string | null | undefined) =>
+  organizationId ? eq(chat.organizationId, organizationId) : and(eq(chat.userId, userId), isNull(chat.organizationId));
+
 export async function getUser(email: string): Promise<Array<User>> {
   try {
     return await getReadReplica().select().from(user).where(eq(user.email, email)).limit(1);
@@ -42,11 +100,13 @@ export async function getUserById(id: string): Promise<User | null> {
 export async function saveChat({
   id,
   userId,
+  organizationId = null,
   title,
   visibility,
 }: {
   id: string;
   userId: string;
+  organizationId?: string | null;
   title: string;
   visibility: VisibilityType;
 }) {
@@ -55,6 +115,7 @@ export async function saveChat({
       id,
       createdAt: new Date(),
       userId,
+      organizationId,
       title,
       visibility,
     });
@@ -77,11 +138,14 @@ export async function deleteChatById({ id }: { id: string }) {
 
 export async function getChatsByUserId({
   id,
+  organizationId,
   limit,
   startingAfter,
   endingBefore,
 }: {
   id: string;
+  // Active workspace; personal chats when omitted
+  organizationId?: string | null;
   limit: number;
   startingAfter: string | null;
   endingBefore: string | null;
@@ -102,7 +166,7 @@ export async function getChatsByUserId({
           visibility: chat.visibility,
         })
         .from(chat)
-        .where(whereCondition ? and(whereCondition, eq(chat.userId, id)) : eq(chat.userId, id))
+        .where(and(whereCondition, chatWorkspaceCondition(id, organizationId)))
         .orderBy(desc(chat.createdAt))
         .limit(extendedLimit);
 
@@ -147,13 +211,148 @@ export async function getChatsByUserId({
   }
 }
 
-// Lightweight version that only fetches id and userId for ownership validation
-export async function getChatByIdForValidation({ id }: { id: string }): Promise<{ id: string; userId: string } | null> {
+export interface ChatSearchFilters {
+  model?: string;
+  searchGroup?: string;
+  from?: Date;
+  to?: Date;
+  visibility?: VisibilityType;
+}
+
+// ts_headline wraps matches in <mark>; the UI splits on the tags rather than rendering HTML
+const SEARCH_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MinWords=10, MaxWords=30, MaxFragments=2';
+
+/**
+ * Full-text search over a user's chat titles and message text, newest first when
+ * there is no query. Each result carries a highlighted title and, when message
+ * text matched, a snippet from the best matching message.
+ */
+export async function searchChats({
+  userId,
+  organizationId,
+  query,
+  filters = {},
+  limit = 25,
+  offset = 0,
+}: {
+  userId: string;
+  organizationId?: string | null;
+  query: string;
+  filters?: ChatSearchFilters;
+  limit?: number;
+  offset?: number;
+}) {
+  try {
+    const readDb = getReadReplica();
+    const trimmedQuery = query.trim();
+    const tsQuery = sql`websearch_to_tsquery('english', ${trimmedQuery})`;
+    const messageMatches = sql`${messageTextSearchVector(message.parts)} @@ ${tsQuery}`;
+    const messageFilter = and(
+      filters.model ? eq(message.model, filters.model) : undefined,
+      filters.searchGroup ? eq(message.searchGroup, filters.searchGroup) : undefined,
+    );
+    const messageCondition = (condition?: SQL) =>
+      sql`exists (select 1 from ${message} where ${and(eq(message.chatId, chat.id), messageFilter, condition)})`;
+
+    const rank = trimmedQuery
+      ? sql<number>`greatest(
+          ts_rank(${chatTitleSearchVector(chat.title)}, ${tsQuery}) * 2,
+          coalesce((select max(ts_rank(${messageTextSearchVector(message.parts)}, ${tsQuery})) from ${message} where ${and(eq(message.chatId, chat.id), messageMatches, messageFilter)}), 0)
+        )`
+      : sql<number>`0`;
+
+    const rows = await readDb
+      .select({
+        id: chat.id,
+        userId: chat.userId,
+        title: chat.title,
+        createdAt: chat.createdAt,
+        updatedAt: chat.updatedAt,
+        visibility: chat.visibility,
+        titleHighlight: trimmedQuery
+          ? sql<string>`ts_headline('english', ${chat.title}, ${tsQuery}, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')`
+          : sql<string>`${chat.title}`,
+      })
+      .from(chat)
+      .where(
+        and(
+          chatWorkspaceCondition(userId, organizationId),
+          filters.visibility ? eq(chat.visibility, filters.visibility) : undefined,
+          filters.from ? gte(chat.createdAt, filters.from) : undefined,
+          filters.to ? lte(chat.createdAt, filters.to) : undefined,
+          messageFilter ? messageCondition() : undefined,
+          trimmedQuery
+            ? or(
+                sql`${chatTitleSearchVector(chat.title)} @@ ${tsQuery}`,
+                ilike(chat.title, containsPattern(trimmedQuery)),
+                messageCondition(messageMatches),
+              )
+            : undefined,
+        ),
+      )
+      .orderBy(desc(rank), desc(chat.createdAt))
+      .limit(limit + 1)
+      .offset(offset);
+
+    const chats = rows.slice(0, limit);
+    const snippets = new Map<string, string>();
+
+    if (trimmedQuery && chats.length > 0) {
+      const messageText = sql`(select string_agg(value, ' ') from jsonb_array_elements_text(jsonb_path_query_array(${message.parts}::jsonb, '$[*] ? (@.type == "text").text')))`;
+      const bestMessages = await readDb
+        .selectDistinctOn([message.chatId], {
+          chatId: message.chatId,
+          snippet: sql<string>`ts_headline('english', ${messageText}, ${tsQuery}, ${SEARCH_HEADLINE_OPTIONS})`,
+        })
+        .from(message)
+        .where(
+          and(
+            inArray(
+              message.chatId,
+              chats.map((result) => result.id),
+            ),
+            messageMatches,
+            messageFilter,
+          ),
+        )
+        .orderBy(message.chatId, desc(sql`ts_rank(${messageTextSearchVector(message.parts)}, ${tsQuery})`));
+
+      for (const { chatId, snippet } of bestMessages) {
+        snippets.set(chatId, snippet);
+      }
+    }
+
+    return {
+      chats: chats.map((result) => ({ ...result, snippet: snippets.get(result.id) ?? null })),
+      hasMore: rows.length > limit,
+    };
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to search chats');
+  }
+}
+
+// Lightweight version for access validation: the chat's owner and workspace, and the
+// requesting user's role in that workspace (null when the chat is personal or they are not a member)
+export async function getChatByIdForValidation({ id, userId }: { id: string; userId: string }): Promise<{
+  id: string;
+  userId: string;
+  organizationId: string | null;
+  memberRole: OrganizationRole | null;
+} | null> {
   try {
     const readDb = getReadReplica();
     const [selectedChat] = await readDb
-      .select({ id: chat.id, userId: chat.userId })
+      .select({
+        id: chat.id,
+        userId: chat.userId,
+        organizationId: chat.organizationId,
+        memberRole: organizationMember.role,
+      })
       .from(chat)
+      .leftJoin(
+        organizationMember,
+        and(eq(organizationMember.organizationId, chat.organizationId), eq(organizationMember.userId, userId)),
+      )
       .where(eq(chat.id, id))
       .limit(1);
     return selectedChat || null;
@@ -186,6 +385,7 @@ export async function getChatWithUserById({ id }: { id: string }) {
         updatedAt: chat.updatedAt,
         visibility: chat.visibility,
         userId: chat.userId,
+        organizationId: chat.organizationId,
         userName: user.name,
         userEmail: user.email,
         userImage: user.image,
@@ -210,6 +410,65 @@ export async function saveMessages({ messages }: { messages: Array<Message> }) {
   }
 }
 
+const IMPORT_MESSAGE_BATCH_SIZE = 500;
+
+/**
+ * Create a private chat from imported history, keeping the original timestamps.
+ * Messages get new ids; ones that carry ids from the export keep their tree
+ * shape, the rest are chained in order. The chat and its messages are written
+ * in one transaction so a failed import never leaves a partial chat behind.
+ * Returns the new chat id.
+ */
+export async function saveImportedChat({
+  userId,
+  title,
+  createdAt,
+  updatedAt,
+  activeMessageId,
+  messages,
+}: {
+  userId: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  activeMessageId?: string | null;
+  messages: Array<Omit<Message, 'id' | 'chatId' | 'parentId'> & { id?: string; parentId?: string | null }>;
+}) {
+  try {
+    return await maindb.transaction(async (tx) => {
+      const ids = messages.map(() => generateId());
+      const newIdFor = new Map(messages.flatMap((item, index) => (item.id ? [[item.id, ids[index]] as const] : [])));
+
+      const [created] = await tx
+        .insert(chat)
+        .values({
+          userId,
+          title,
+          createdAt,
+          updatedAt,
+          visibility: 'private',
+          activeMessageId: activeMessageId ? (newIdFor.get(activeMessageId) ?? null) : null,
+        })
+        .returning({ id: chat.id });
+
+      const rows = messages.map(({ id: _, parentId, ...item }, index) => ({
+        ...item,
+        id: ids[index],
+        chatId: created.id,
+        parentId: parentId === undefined ? (ids[index - 1] ?? null) : parentId ? (newIdFor.get(parentId) ?? null) : null,
+      }));
+
+      for (let start = 0; start < rows.length; start += IMPORT_MESSAGE_BATCH_SIZE) {
+        await tx.insert(message).values(rows.slice(start, start + IMPORT_MESSAGE_BATCH_SIZE));
+      }
+
+      return created.id;
+    });
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to save imported chat');
+  }
+}
+
 export async function getMessagesByChatId({
   id,
   limit = 50,
@@ -232,38 +491,92 @@ export async function getMessagesByChatId({
   }
 }
 
-export async function getMessageById({ id }: { id: string }) {
+/**
+ * Id, parent and creation time of every message in a chat, oldest first. Reads
+ * the primary so a message saved a moment ago is part of the tree.
+ */
+export async function getMessageTreeByChatId({ chatId }: { chatId: string }) {
   try {
-    return await getReadReplica().select().from(message).where(eq(message.id, id)).limit(1);
+    const nodes = await maindb
+      .select({ id: message.id, parentId: message.parentId, createdAt: message.createdAt })
+      .from(message)
+      .where(eq(message.chatId, chatId))
+      .orderBy(asc(message.createdAt), asc(message.id));
+    return new MessageTree(nodes);
   } catch (error) {
-    throw new ChatSDKError('bad_request:database', 'Failed to get message by id');
+    throw new ChatSDKError('bad_request:database', 'Failed to get message tree by chat id');
   }
 }
 
-export async function deleteMessagesByChatIdAfterTimestamp({ chatId, timestamp }: { chatId: string; timestamp: Date }) {
+/**
+ * Messages on the path from the root of a chat down to the given leaf, in
+ * conversation order. Empty when the leaf is not part of the chat.
+ */
+export async function getBranchMessages({ tree, leafId }: { tree: MessageTree; leafId: string | null }) {
+  if (!tree.has(leafId)) return [];
+
+  const path = tree.pathTo(leafId);
   try {
-    const messagesToDelete = await db
-      .select({ id: message.id })
-      .from(message)
-      .where(and(eq(message.chatId, chatId), gte(message.createdAt, timestamp)));
+    const rows = await maindb.select().from(message).where(inArray(message.id, path));
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    return path.map((id) => byId.get(id)).filter((row): row is Message => !!row);
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get branch messages');
+  }
+}
 
-    const messageIds = messagesToDelete.map((message) => message.id);
+export async function updateChatActiveMessage({ chatId, messageId }: { chatId: string; messageId: string }) {
+  try {
+    return await db.update(chat).set({ activeMessageId: messageId }).where(eq(chat.id, chatId));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to update active message');
+  }
+}
 
-    if (messageIds.length > 0) {
-      return await db.delete(message).where(and(eq(message.chatId, chatId), inArray(message.id, messageIds)));
-    }
+export async function getChatContextSummary({ chatId }: { chatId: string }) {
+  try {
+    const [selectedChat] = await maindb
+      .select({
+        summary: chat.contextSummary,
+        messageId: chat.contextSummaryMessageId,
+        sources: chat.contextSources,
+      })
+      .from(chat)
+      .where(eq(chat.id, chatId))
+      .limit(1);
+    return selectedChat ?? null;
   } catch (error) {
-    throw new ChatSDKError('bad_request:database', 'Failed to delete messages by chat id after timestamp');
+    throw new ChatSDKError('bad_request:database', 'Failed to get chat context summary');
   }
 }
 
-export async function deleteTrailingMessages({ id }: { id: string }) {
-  const [message] = await getMessageById({ id });
+export async function updateChatContextSummary({
+  chatId,
+  summary,
+  messageId,
+  sources,
+}: {
+  chatId: string;
+  summary: string;
+  messageId: string;
+  sources: ContextSource[];
+}) {
+  try {
+    return await db
+      .update(chat)
+      .set({ contextSummary: summary, contextSummaryMessageId: messageId, contextSources: sources })
+      .where(eq(chat.id, chatId));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to update chat context summary');
+  }
+}
 
-  await deleteMessagesByChatIdAfterTimestamp({
-    chatId: message.chatId,
-    timestamp: message.createdAt,
-  });
+export async function getMessageById({ id }: { id: string }) {
+  try {
+    return await getReadReplica().select().from(message).where(eq(message.id, id)).limit(1);
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get message by id');
+  }
 }
 
 export async function updateChatVisibilityById({
@@ -876,6 +1189,7 @@ export async function getDodoSubscriptionExpirationInfo({ userId }: { userId: st
 // Lookout CRUD operations
 export async function createLookout({
   userId,
+  organizationId = null,
   title,
   prompt,
   frequency,
@@ -883,8 +1197,13 @@ export async function createLookout({
   timezone,
   nextRunAt,
   qstashScheduleId,
+  noChangeEmail,
+  model,
+  searchGroup,
+  researchDepth,
 }: {
   userId: string;
+  organizationId?: string | null;
   title: string;
   prompt: string;
   frequency: string;
@@ -892,12 +1211,17 @@ export async function createLookout({
   timezone: string;
   nextRunAt: Date;
   qstashScheduleId?: string;
+  noChangeEmail?: LookoutNoChangeEmail;
+  model?: string;
+  searchGroup?: LookoutSearchGroup;
+  researchDepth?: LookoutResearchDepth;
 }) {
   try {
     const [newLookout] = await db
       .insert(lookout)
       .values({
         userId,
+        organizationId,
         title,
         prompt,
         frequency,
@@ -905,6 +1229,10 @@ export async function createLookout({
         timezone,
         nextRunAt,
         qstashScheduleId,
+        noChangeEmail,
+        model,
+        searchGroup,
+        researchDepth,
       })
       .returning();
 
@@ -928,6 +1256,18 @@ export async function getLookoutsByUserId({ userId }: { userId: string }) {
   }
 }
 
+export async function getLookoutsByOrganizationId({ organizationId }: { organizationId: string }) {
+  try {
+    return await getReadReplica()
+      .select()
+      .from(lookout)
+      .where(eq(lookout.organizationId, organizationId))
+      .orderBy(desc(lookout.createdAt));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get lookouts by organization id');
+  }
+}
+
 export async function getLookoutById({ id }: { id: string }) {
   try {
     console.log('🔍 Looking up lookout with ID:', id);
@@ -955,6 +1295,10 @@ export async function updateLookout({
   timezone,
   nextRunAt,
   qstashScheduleId,
+  noChangeEmail,
+  model,
+  searchGroup,
+  researchDepth,
 }: {
   id: string;
   title?: string;
@@ -964,6 +1308,10 @@ export async function updateLookout({
   timezone?: string;
   nextRunAt?: Date;
   qstashScheduleId?: string;
+  noChangeEmail?: LookoutNoChangeEmail;
+  model?: string;
+  searchGroup?: LookoutSearchGroup;
+  researchDepth?: LookoutResearchDepth;
 }) {
   try {
     const updateData: any = { updatedAt: new Date() };
@@ -974,6 +1322,10 @@ export async function updateLookout({
     if (timezone !== undefined) updateData.timezone = timezone;
     if (nextRunAt !== undefined) updateData.nextRunAt = nextRunAt;
     if (qstashScheduleId !== undefined) updateData.qstashScheduleId = qstashScheduleId;
+    if (noChangeEmail !== undefined) updateData.noChangeEmail = noChangeEmail;
+    if (model !== undefined) updateData.model = model;
+    if (searchGroup !== undefined) updateData.searchGroup = searchGroup;
+    if (researchDepth !== undefined) updateData.researchDepth = researchDepth;
 
     const [updatedLookout] = await db.update(lookout).set(updateData).where(eq(lookout.id, id)).returning();
 
@@ -1003,6 +1355,70 @@ export async function updateLookoutStatus({
   }
 }
 
+/**
+ * Atomically claim lookouts that are due. Rows are locked with SKIP LOCKED so
+ * concurrent pollers on other replicas never pick up the same lookout; claimed
+ * rows are flipped to 'running' and their nextRunAt advanced before the lock is
+ * released.
+ */
+export async function claimDueLookouts({ limit, now = new Date() }: { limit: number; now?: Date }) {
+  try {
+    return await maindb.transaction(async (tx) => {
+      const dueLookouts = await tx
+        .select()
+        .from(lookout)
+        .where(and(eq(lookout.status, 'active'), lte(lookout.nextRunAt, now)))
+        .orderBy(asc(lookout.nextRunAt))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+
+      const claimed: Lookout[] = [];
+      for (const dueLookout of dueLookouts) {
+        let nextRunAt = dueLookout.nextRunAt;
+        if (dueLookout.frequency !== 'once' && dueLookout.cronSchedule) {
+          try {
+            nextRunAt = calculateNextRun(dueLookout.cronSchedule, dueLookout.timezone, now);
+          } catch (error) {
+            console.error('Error calculating next run for lookout:', dueLookout.id, error);
+          }
+        }
+
+        const [claimedLookout] = await tx
+          .update(lookout)
+          .set({ status: 'running', nextRunAt, updatedAt: now })
+          .where(eq(lookout.id, dueLookout.id))
+          .returning();
+        claimed.push(claimedLookout);
+      }
+
+      return claimed;
+    });
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to claim due lookouts');
+  }
+}
+
+/**
+ * Return lookouts stuck in 'running' (e.g. the replica running them died) to
+ * their schedule. One-time lookouts are paused rather than retried.
+ */
+export async function releaseStaleLookoutRuns({ staleBefore }: { staleBefore: Date }) {
+  try {
+    const released = await maindb
+      .update(lookout)
+      .set({
+        status: sql`case when ${lookout.frequency} = 'once' then 'paused' else 'active' end`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(lookout.status, 'running'), lt(lookout.updatedAt, staleBefore)))
+      .returning({ id: lookout.id });
+
+    return released.length;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to release stale lookout runs');
+  }
+}
+
 export async function updateLookoutLastRun({
   id,
   lastRunAt,
@@ -1013,78 +1429,273 @@ export async function updateLookoutLastRun({
   duration,
   tokensUsed,
   searchesPerformed,
+  model,
+  change,
+  digest,
+  whatsNew,
 }: {
   id: string;
   lastRunAt: Date;
   lastRunChatId: string;
   nextRunAt?: Date;
-  runStatus?: 'success' | 'error' | 'timeout';
+  runStatus?: LookoutRunStatus;
   error?: string;
   duration?: number;
   tokensUsed?: number;
   searchesPerformed?: number;
+  model?: string;
+  change?: LookoutRunChange;
+  digest?: LookoutRunDigest;
+  whatsNew?: string;
 }) {
   try {
-    // Get current lookout to append to run history
-    const currentLookout = await getLookoutById({ id });
-    if (!currentLookout) {
-      throw new Error('Lookout not found');
-    }
-
-    const currentHistory = (currentLookout.runHistory as any[]) || [];
-
-    // Add new run to history
-    const newRun = {
-      runAt: lastRunAt.toISOString(),
-      chatId: lastRunChatId,
-      status: runStatus,
-      ...(error && { error }),
-      ...(duration && { duration }),
-      ...(tokensUsed && { tokensUsed }),
-      ...(searchesPerformed && { searchesPerformed }),
-    };
-
-    // Keep only last 100 runs to prevent unbounded growth
-    const updatedHistory = [...currentHistory, newRun].slice(-100);
+    const [run] = await db
+      .insert(lookoutRun)
+      .values({
+        lookoutId: id,
+        runAt: lastRunAt,
+        chatId: lastRunChatId,
+        status: runStatus,
+        error,
+        duration,
+        tokensUsed,
+        searchesPerformed,
+        model,
+        change,
+        digest,
+        whatsNew,
+      })
+      .returning({ id: lookoutRun.id });
 
     const updateData: any = {
       lastRunAt,
       lastRunChatId,
-      runHistory: updatedHistory,
       updatedAt: new Date(),
     };
     if (nextRunAt) updateData.nextRunAt = nextRunAt;
 
     const [updatedLookout] = await db.update(lookout).set(updateData).where(eq(lookout.id, id)).returning();
 
-    return updatedLookout;
+    await pruneLookoutRuns({ lookoutId: id });
+
+    return { lookout: updatedLookout, runId: run.id };
   } catch (error) {
     throw new ChatSDKError('bad_request:database', 'Failed to update lookout last run');
   }
 }
 
-// New function to get run statistics
-export async function getLookoutRunStats({ id }: { id: string }) {
+/**
+ * Enforce run history retention for a lookout: at most LOOKOUT_RUN_RETENTION_COUNT
+ * runs, none older than LOOKOUT_RUN_RETENTION_DAYS (0 keeps runs indefinitely).
+ */
+export async function pruneLookoutRuns({ lookoutId }: { lookoutId: string }) {
   try {
-    const lookout = await getLookoutById({ id });
-    if (!lookout) return null;
+    const keptRuns = db
+      .select({ id: lookoutRun.id })
+      .from(lookoutRun)
+      .where(eq(lookoutRun.lookoutId, lookoutId))
+      .orderBy(desc(lookoutRun.runAt))
+      .limit(serverEnv.LOOKOUT_RUN_RETENTION_COUNT);
+
+    const expired: SQL[] = [notInArray(lookoutRun.id, keptRuns)];
+    if (serverEnv.LOOKOUT_RUN_RETENTION_DAYS > 0) {
+      expired.push(
+        lt(lookoutRun.runAt, new Date(Date.now() - serverEnv.LOOKOUT_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000)),
+      );
+    }
+
+    await db.delete(lookoutRun).where(and(eq(lookoutRun.lookoutId, lookoutId), or(...expired)));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to prune lookout runs');
+  }
+}
 
-    const runHistory = (lookout.runHistory as any[]) || [];
+export async function getLookoutRuns({
+  lookoutId,
+  limit = 10,
+  offset = 0,
+  status,
+}: {
+  lookoutId: string;
+  limit?: number;
+  offset?: number;
+  status?: LookoutRunStatus;
+}) {
+  try {
+    const runs = await db
+      .select()
+      .from(lookoutRun)
+      .where(and(eq(lookoutRun.lookoutId, lookoutId), status ? eq(lookoutRun.status, status) : undefined))
+      .orderBy(desc(lookoutRun.runAt), desc(lookoutRun.id))
+      .limit(limit + 1)
+      .offset(offset);
 
     return {
-      totalRuns: runHistory.length,
-      successfulRuns: runHistory.filter((run) => run.status === 'success').length,
-      failedRuns: runHistory.filter((run) => run.status === 'error').length,
-      averageDuration: runHistory.reduce((sum, run) => sum + (run.duration || 0), 0) / runHistory.length || 0,
-      lastWeekRuns: runHistory.filter((run) => new Date(run.runAt) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000))
-        .length,
+      runs: runs.slice(0, limit),
+      hasMore: runs.length > limit,
     };
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get lookout runs');
+  }
+}
+
+/**
+ * Digest of the most recent successful run, used to detect what changed.
+ */
+export async function getLatestLookoutRunDigest({ lookoutId }: { lookoutId: string }) {
+  try {
+    const [latestRun] = await db
+      .select({ digest: lookoutRun.digest })
+      .from(lookoutRun)
+      .where(
+        and(eq(lookoutRun.lookoutId, lookoutId), eq(lookoutRun.status, 'success'), isNotNull(lookoutRun.digest)),
+      )
+      .orderBy(desc(lookoutRun.runAt))
+      .limit(1);
+
+    return latestRun?.digest ?? undefined;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get latest lookout run digest');
+  }
+}
+
+export async function getLookoutRunStats({ id }: { id: string }) {
+  try {
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    const [stats] = await db
+      .select({
+        totalRuns: sql<number>`count(*)::int`,
+        successfulRuns: sql<number>`(count(*) filter (where ${eq(lookoutRun.status, 'success')}))::int`,
+        failedRuns: sql<number>`(count(*) filter (where ${eq(lookoutRun.status, 'error')}))::int`,
+        noChangeRuns: sql<number>`(count(*) filter (where ${eq(lookoutRun.change, 'no_change')}))::int`,
+        averageDuration: sql<number>`coalesce(avg(${lookoutRun.duration}), 0)::float`,
+        totalTokens: sql<number>`coalesce(sum(${lookoutRun.tokensUsed}), 0)::int`,
+        totalSearches: sql<number>`coalesce(sum(${lookoutRun.searchesPerformed}), 0)::int`,
+        lastWeekRuns: sql<number>`(count(*) filter (where ${gt(lookoutRun.runAt, weekAgo)}))::int`,
+      })
+      .from(lookoutRun)
+      .where(eq(lookoutRun.lookoutId, id));
+
+    return stats;
   } catch (error) {
     console.error('Error getting lookout run stats:', error);
     return null;
   }
 }
 
+export async function getLookoutDeliveryTargets({
+  lookoutId,
+  enabledOnly = false,
+}: {
+  lookoutId: string;
+  enabledOnly?: boolean;
+}) {
+  try {
+    return await db
+      .select()
+      .from(lookoutDeliveryTarget)
+      .where(
+        and(
+          eq(lookoutDeliveryTarget.lookoutId, lookoutId),
+          enabledOnly ? eq(lookoutDeliveryTarget.enabled, true) : undefined,
+        ),
+      )
+      .orderBy(asc(lookoutDeliveryTarget.createdAt));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get lookout delivery targets');
+  }
+}
+
+export async function getLookoutDeliveryTargetById({ id }: { id: string }) {
+  try {
+    const [target] = await db.select().from(lookoutDeliveryTarget).where(eq(lookoutDeliveryTarget.id, id)).limit(1);
+    return target || null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get lookout delivery target');
+  }
+}
+
+export async function createLookoutDeliveryTarget({
+  lookoutId,
+  channel,
+  url,
+  secret,
+}: {
+  lookoutId: string;
+  channel: LookoutDeliveryChannel;
+  url: string;
+  secret?: string;
+}) {
+  try {
+    const [target] = await db.insert(lookoutDeliveryTarget).values({ lookoutId, channel, url, secret }).returning();
+    return target;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to create lookout delivery target');
+  }
+}
+
+export async function updateLookoutDeliveryTarget({ id, enabled }: { id: string; enabled: boolean }) {
+  try {
+    const [target] = await db
+      .update(lookoutDeliveryTarget)
+      .set({ enabled })
+      .where(eq(lookoutDeliveryTarget.id, id))
+      .returning();
+    return target;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to update lookout delivery target');
+  }
+}
+
+export async function deleteLookoutDeliveryTarget({ id }: { id: string }) {
+  try {
+    const [target] = await db.delete(lookoutDeliveryTarget).where(eq(lookoutDeliveryTarget.id, id)).returning();
+    return target;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to delete lookout delivery target');
+  }
+}
+
+/**
+ * Log the deliveries of a run and keep the ones that failed on the run itself,
+ * so the run history can show them without joining the log.
+ */
+export async function recordLookoutDeliveries({
+  runId,
+  deliveries,
+}: {
+  runId: string;
+  deliveries: Array<{
+    targetId: string;
+    channel: LookoutDeliveryChannel;
+    attempts: number;
+    responseStatus?: number;
+    error?: string;
+  }>;
+}) {
+  if (deliveries.length === 0) return;
+
+  try {
+    await db.insert(lookoutDelivery).values(
+      deliveries.map((delivery) => ({
+        runId,
+        ...delivery,
+        status: delivery.error ? ('failed' as const) : ('success' as const),
+      })),
+    );
+
+    const failures: LookoutDeliveryFailure[] = deliveries
+      .filter((delivery) => delivery.error)
+      .map(({ targetId, channel, error }) => ({ targetId, channel, error: error! }));
+    if (failures.length > 0) {
+      await db.update(lookoutRun).set({ deliveryFailures: failures }).where(eq(lookoutRun.id, runId));
+    }
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to record lookout deliveries');
+  }
+}
+
 export async function deleteLookout({ id }: { id: string }) {
   try {
     const [deletedLookout] = await db.delete(lookout).where(eq(lookout.id, id)).returning();
@@ -1094,3 +1705,552 @@ export async function deleteLookout({ id }: { id: string }) {
     throw new ChatSDKError('bad_request:database', 'Failed to delete lookout');
   }
 }
+
+/**
+ * Replace the research chunks of the given messages, so re-indexing a message
+ * never leaves duplicates behind.
+ */
+export async function saveResearchChunks({
+  chunks,
+}: {
+  chunks: Array<Omit<ResearchChunk, 'id' | 'createdAt'>>;
+}) {
+  if (chunks.length === 0) return;
+
+  try {
+    const messageIds = [...new Set(chunks.map((chunk) => chunk.messageId))];
+    await maindb.transaction(async (tx) => {
+      await tx.delete(researchChunk).where(inArray(researchChunk.messageId, messageIds));
+      await tx.insert(researchChunk).values(chunks);
+    });
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to save research chunks');
+  }
+}
+
+/**
+ * Nearest research chunks of one user by cosine similarity, with the title of
+ * the chat each came from. Only chats the user can still open are searched:
+ * their personal chats and those of organizations they are a member of.
+ */
+export async function searchResearchChunks({
+  userId,
+  embedding,
+  limit = 8,
+  minSimilarity = 0.45,
+  excludeChatId,
+}: {
+  userId: string;
+  embedding: number[];
+  limit?: number;
+  minSimilarity?: number;
+  excludeChatId?: string;
+}) {
+  try {
+    const distance = cosineDistance(researchChunk.embedding, embedding);
+    const similarity = sql<number>`1 - (${distance})`;
+
+    return await getReadReplica()
+      .select({
+        id: researchChunk.id,
+        chatId: researchChunk.chatId,
+        chatTitle: chat.title,
+        messageId: researchChunk.messageId,
+        kind: researchChunk.kind,
+        content: researchChunk.content,
+        sourceUrl: researchChunk.sourceUrl,
+        sourceTitle: researchChunk.sourceTitle,
+        createdAt: researchChunk.createdAt,
+        similarity,
+      })
+      .from(researchChunk)
+      .innerJoin(chat, eq(researchChunk.chatId, chat.id))
+      .leftJoin(
+        organizationMember,
+        and(eq(organizationMember.organizationId, chat.organizationId), eq(organizationMember.userId, userId)),
+      )
+      .where(
+        and(
+          eq(researchChunk.userId, userId),
+          or(and(isNull(chat.organizationId), eq(chat.userId, userId)), isNotNull(organizationMember.userId)),
+          excludeChatId ? ne(researchChunk.chatId, excludeChatId) : undefined,
+          gt(similarity, minSimilarity),
+        ),
+      )
+      .orderBy(distance)
+      .limit(limit);
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to search research chunks');
+  }
+}
+
+/**
+ * Save a source to a user's library. Saving a URL that is already there
+ * updates its title, excerpt, tags and notes instead of adding a duplicate.
+ */
+export async function upsertSavedSource({
+  userId,
+  url,
+  title,
+  excerpt,
+  kind,
+  tags,
+  notes,
+}: {
+  userId: string;
+  url: string;
+  title: string;
+  excerpt: string | null;
+  kind: SavedSourceKind;
+  tags: string[];
+  notes: string | null;
+}) {
+  try {
+    const [saved] = await db
+      .insert(savedSource)
+      .values({ userId, url, title, excerpt, kind, tags, notes })
+      .onConflictDoUpdate({
+        target: [savedSource.userId, savedSource.url],
+        set: { title, excerpt, tags, notes, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to save source');
+  }
+}
+
+export async function updateSavedSource({
+  id,
+  userId,
+  tags,
+  notes,
+}: {
+  id: string;
+  userId: string;
+  tags: string[];
+  notes: string | null;
+}) {
+  try {
+    const [updated] = await db
+      .update(savedSource)
+      .set({ tags, notes, updatedAt: new Date() })
+      .where(and(eq(savedSource.id, id), eq(savedSource.userId, userId)))
+      .returning();
+    return updated ?? null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to update saved source');
+  }
+}
+
+export async function deleteSavedSource({ id, userId }: { id: string; userId: string }) {
+  try {
+    const [deleted] = await db
+      .delete(savedSource)
+      .where(and(eq(savedSource.id, id), eq(savedSource.userId, userId)))
+      .returning({ id: savedSource.id });
+    return deleted ?? null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to delete saved source');
+  }
+}
+
+/**
+ * A user's saved sources, newest first, optionally narrowed to a tag and to a
+ * text match on title, URL, excerpt or notes.
+ */
+export async function getSavedSourcesByUserId({
+  userId,
+  query,
+  tag,
+  kind,
+}: {
+  userId: string;
+  query?: string;
+  tag?: string;
+  kind?: SavedSourceKind;
+}): Promise<SavedSource[]> {
+  try {
+    const pattern = query ? containsPattern(query) : null;
+
+    return await maindb
+      .select()
+      .from(savedSource)
+      .where(
+        and(
+          eq(savedSource.userId, userId),
+          tag ? sql`${tag} = ANY(${savedSource.tags})` : undefined,
+          kind ? eq(savedSource.kind, kind) : undefined,
+          pattern
+            ? or(
+                ilike(savedSource.title, pattern),
+                ilike(savedSource.url, pattern),
+                ilike(savedSource.excerpt, pattern),
+                ilike(savedSource.notes, pattern),
+              )
+            : undefined,
+        ),
+      )
+      .orderBy(desc(savedSource.createdAt));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get saved sources');
+  }
+}
+
+export async function getSavedSourcesByIds({ userId, ids }: { userId: string; ids: string[] }): Promise<SavedSource[]> {
+  if (ids.length === 0) return [];
+
+  try {
+    return await maindb
+      .select()
+      .from(savedSource)
+      .where(and(eq(savedSource.userId, userId), inArray(savedSource.id, ids)));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get saved sources');
+  }
+}
+
+export async function saveToolCalls({ toolCalls }: { toolCalls: Array<Omit<ToolCall, 'id' | 'createdAt'>> }) {
+  if (toolCalls.length === 0) return;
+
+  try {
+    await maindb.insert(toolCall).values(toolCalls);
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to save tool calls');
+  }
+}
+
+/**
+ * Call counts, failures and latency per tool and backend since a point in
+ * time, slowest tools (by 95th percentile) first.
+ */
+export async function getToolCallStats({ since }: { since: Date }) {
+  try {
+    const p95 = sql<number>`coalesce(percentile_cont(0.95) within group (order by ${toolCall.duration}), 0)::float`;
+
+    return await getReadReplica()
+      .select({
+        toolName: toolCall.toolName,
+        provider: toolCall.provider,
+        calls: sql<number>`count(*)::int`,
+        errors: sql<number>`(count(*) filter (where ${eq(toolCall.status, 'error')}))::int`,
+        averageDuration: sql<number>`coalesce(avg(${toolCall.duration}), 0)::float`,
+        p95Duration: p95,
+        maxDuration: sql<number>`coalesce(max(${toolCall.duration}), 0)::int`,
+        lastErrorAt: sql<Date | null>`max(${toolCall.createdAt}) filter (where ${eq(toolCall.status, 'error')})`,
+      })
+      .from(toolCall)
+      .where(gte(toolCall.createdAt, since))
+      .groupBy(toolCall.toolName, toolCall.provider)
+      .orderBy(desc(p95));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get tool call stats');
+  }
+}
+
+export async function getToolCalls({
+  since,
+  status,
+  orderBy = 'recent',
+  limit = 50,
+}: {
+  since: Date;
+  status?: ToolCallStatus;
+  orderBy?: 'recent' | 'slowest';
+  limit?: number;
+}): Promise<ToolCall[]> {
+  try {
+    return await getReadReplica()
+      .select()
+      .from(toolCall)
+      .where(and(gte(toolCall.createdAt, since), status ? eq(toolCall.status, status) : undefined))
+      .orderBy(
+        ...(orderBy === 'slowest'
+          ? [sql`${toolCall.duration} desc nulls last`, desc(toolCall.createdAt)]
+          : [desc(toolCall.createdAt)]),
+      )
+      .limit(limit);
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get tool calls');
+  }
+}
+
+// Admin console
+
+export type UserAdminFields = Partial<Pick<User, 'role' | 'suspendedAt' | 'suspensionReason' | 'proGrantedUntil'>>;
+
+/**
+ * Users whose email, name or id matches the query (newest first), with
+ * whether they currently pay through Polar or Dodo.
+ */
+export async function searchUsersForAdmin({ query, limit = 50 }: { query?: string; limit?: number }) {
+  try {
+    const term = query?.trim();
+    const hasActiveSubscription = sql<boolean>`(
+      exists (select 1 from ${subscription} where ${subscription.userId} = ${user.id} and ${subscription.status} = 'active')
+      or exists (select 1 from ${dodosubscription} where ${dodosubscription.userId} = ${user.id} and ${dodosubscription.status} = 'active')
+    )`;
+
+    return await maindb
+      .select({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        image: user.image,
+        role: user.role,
+        createdAt: user.createdAt,
+        suspendedAt: user.suspendedAt,
+        proGrantedUntil: user.proGrantedUntil,
+        hasActiveSubscription,
+      })
+      .from(user)
+      .where(
+        term
+          ? or(eq(user.id, term), ilike(user.email, containsPattern(term)), ilike(user.name, containsPattern(term)))
+          : undefined,
+      )
+      .orderBy(desc(user.createdAt))
+      .limit(limit);
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to search users');
+  }
+}
+
+export async function updateUserAdminFields({ userId, values }: { userId: string; values: UserAdminFields }) {
+  try {
+    const [updatedUser] = await maindb.update(user).set(values).where(eq(user.id, userId)).returning();
+    return updatedUser ?? null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to update user');
+  }
+}
+
+export async function deleteSessionsByUserId({ userId }: { userId: string }) {
+  try {
+    await maindb.delete(session).where(eq(session.userId, userId));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to delete user sessions');
+  }
+}
+
+// Daily messages live in message_usage, monthly extreme searches in extreme_search_usage
+export async function resetUsageByUserId({ userId, kind }: { userId: string; kind: 'messages' | 'extreme' }) {
+  try {
+    if (kind === 'messages') {
+      await maindb.delete(messageUsage).where(eq(messageUsage.userId, userId));
+    } else {
+      await maindb.delete(extremeSearchUsage).where(eq(extremeSearchUsage.userId, userId));
+    }
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to reset usage');
+  }
+}
+
+export async function getPolarSubscriptionsByUserId({ userId }: { userId: string }) {
+  try {
+    return await maindb
+      .select()
+      .from(subscription)
+      .where(eq(subscription.userId, userId))
+      .orderBy(desc(subscription.createdAt));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get Polar subscriptions by user id');
+  }
+}
+
+const tokenTotals = {
+  messages: sql<number>`count(*)::int`,
+  inputTokens: sql<number>`coalesce(sum(${message.inputTokens}), 0)::bigint`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${message.outputTokens}), 0)::bigint`.mapWith(Number),
+  totalTokens: sql<number>`coalesce(sum(${message.totalTokens}), 0)::bigint`.mapWith(Number),
+};
+
+/**
+ * Model tokens used by a user's responses since a point in time.
+ */
+export async function getTokenUsageByUserId({ userId, since }: { userId: string; since: Date }) {
+  try {
+    const [totals] = await getReadReplica()
+      .select(tokenTotals)
+      .from(message)
+      .innerJoin(chat, eq(message.chatId, chat.id))
+      .where(and(eq(chat.userId, userId), eq(message.role, 'assistant'), gte(message.createdAt, since)));
+    return totals;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get token usage');
+  }
+}
+
+/**
+ * Users with the most model tokens used by their responses since a point in time.
+ */
+export async function getTopTokenConsumers({ since, limit = 25 }: { since: Date; limit?: number }) {
+  try {
+    return await getReadReplica()
+      .select({
+        userId: user.id,
+        name: user.name,
+        email: user.email,
+        suspendedAt: user.suspendedAt,
+        ...tokenTotals,
+      })
+      .from(message)
+      .innerJoin(chat, eq(message.chatId, chat.id))
+      .innerJoin(user, eq(chat.userId, user.id))
+      .where(and(eq(message.role, 'assistant'), gte(message.createdAt, since)))
+      .groupBy(user.id)
+      .orderBy(desc(tokenTotals.totalTokens))
+      .limit(limit);
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get top token consumers');
+  }
+}
+
+// Organizations
+
+export async function createOrganization({ name, ownerId }: { name: string; ownerId: string }) {
+  try {
+    return await maindb.transaction(async (tx) => {
+      const [createdOrganization] = await tx.insert(organization).values({ name }).returning();
+      await tx
+        .insert(organizationMember)
+        .values({ organizationId: createdOrganization.id, userId: ownerId, role: 'owner' });
+      return createdOrganization;
+    });
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to create organization');
+  }
+}
+
+export async function getOrganizationsByUserId({ userId }: { userId: string }) {
+  try {
+    return await maindb
+      .select({
+        id: organization.id,
+        name: organization.name,
+        role: organizationMember.role,
+        createdAt: organization.createdAt,
+      })
+      .from(organizationMember)
+      .innerJoin(organization, eq(organizationMember.organizationId, organization.id))
+      .where(eq(organizationMember.userId, userId))
+      .orderBy(asc(organization.name));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get organizations by user id');
+  }
+}
+
+export async function getOrganizationMemberRole({
+  organizationId,
+  userId,
+}: {
+  organizationId: string;
+  userId: string;
+}): Promise<OrganizationRole | null> {
+  try {
+    const [member] = await maindb
+      .select({ role: organizationMember.role })
+      .from(organizationMember)
+      .where(and(eq(organizationMember.organizationId, organizationId), eq(organizationMember.userId, userId)))
+      .limit(1);
+    return member?.role ?? null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get organization membership');
+  }
+}
+
+export async function getOrganizationMembers({ organizationId }: { organizationId: string }) {
+  try {
+    return await maindb
+      .select({
+        userId: organizationMember.userId,
+        role: organizationMember.role,
+        joinedAt: organizationMember.createdAt,
+        name: user.name,
+        email: user.email,
+        image: user.image,
+      })
+      .from(organizationMember)
+      .innerJoin(user, eq(organizationMember.userId, user.id))
+      .where(eq(organizationMember.organizationId, organizationId))
+      .orderBy(asc(organizationMember.createdAt));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get organization members');
+  }
+}
+
+export async function addOrganizationMember({
+  organizationId,
+  userId,
+  role,
+}: {
+  organizationId: string;
+  userId: string;
+  role: OrganizationRole;
+}) {
+  try {
+    const [member] = await maindb
+      .insert(organizationMember)
+      .values({ organizationId, userId, role })
+      .onConflictDoNothing()
+      .returning();
+    return member ?? null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to add organization member');
+  }
+}
+
+export async function updateOrganizationMemberRole({
+  organizationId,
+  userId,
+  role,
+}: {
+  organizationId: string;
+  userId: string;
+  role: OrganizationRole;
+}) {
+  try {
+    const [member] = await maindb
+      .update(organizationMember)
+      .set({ role })
+      .where(and(eq(organizationMember.organizationId, organizationId), eq(organizationMember.userId, userId)))
+      .returning();
+    return member ?? null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to update organization member role');
+  }
+}
+
+export async function removeOrganizationMember({ organizationId, userId }: { organizationId: string; userId: string }) {
+  try {
+    const [member] = await maindb
+      .delete(organizationMember)
+      .where(and(eq(organizationMember.organizationId, organizationId), eq(organizationMember.userId, userId)))
+      .returning();
+    return member ?? null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to remove organization member');
+  }
+}
+
+export async function countOrganizationOwners({ organizationId }: { organizationId: string }) {
+  try {
+    const [result] = await maindb
+      .select({ count: sql<number>`count(*)::int` })
+      .from(organizationMember)
+      .where(and(eq(organizationMember.organizationId, organizationId), eq(organizationMember.role, 'owner')));
+    return result?.count ?? 0;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to count organization owners');
+  }
+}
+
+// Deletes the organization together with its chats and lookouts
+export async function deleteOrganization({ id }: { id: string }) {
+  try {
+    const [deletedOrganization] = await maindb.delete(organization).where(eq(organization.id, id)).returning();
+    return deletedOrganization ?? null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to delete organization');
+  }
+}
@@ -1,5 +1,19 @@
-import { relations } from 'drizzle-orm';
-import { pgTable, text, timestamp, boolean, json, varchar, integer, uuid, real, index } from 'drizzle-orm/pg-core';
+import { relations, sql, type SQL } from 'drizzle-orm';
+import {
+  pgTable,
+  text,
+  timestamp,
+  boolean,
+  json,
+  varchar,
+  integer,
+  uuid,
+  real,
+  index,
+  uniqueIndex,
+  vector,
+  type AnyPgColumn,
+} from 'drizzle-orm/pg-core';
 import { generateId } from 'ai';
 import { InferSelectModel } from 'drizzle-orm';
 import { v7 as uuidv7 } from 'uuid';
@@ -15,6 +29,15 @@ export const user = pgTable('user', {
     .defaultNow()
     .$onUpdate(() => /* @__PURE__ */ new Date())
     .notNull(),
+  // Admins can open /admin; ADMIN_EMAILS also grants access to bootstrap the first one
+  role: varchar('role', { enum: ['user', 'admin'] })
+    .notNull()
+    .default('user'),
+  // Suspended users cannot sign in and are treated as signed out
+  suspendedAt: timestamp('suspended_at'),
+  suspensionReason: text('suspension_reason'),
+  // Pro access granted from the admin console, independent of Polar and Dodo
+  proGrantedUntil: timestamp('pro_granted_until'),
 });
 
 export const session = pgTable(
@@ -76,40 +99,116 @@ export const verification = pgTable(
   (table) => [index('verification_identifier_idx').on(table.identifier)],
 );
 
-export const chat = pgTable('chat', {
+// Organizations own shared workspaces: chats and lookouts created in one are visible to all members
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export const organization = pgTable('organization', {
   id: text('id')
     .primaryKey()
-    .notNull()
     .$defaultFn(() => uuidv7()),
-  userId: text('userId')
-    .notNull()
-    .references(() => user.id),
-  title: text('title').notNull().default('New Chat'),
+  name: text('name').notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-  visibility: varchar('visibility', { enum: ['public', 'private'] })
-    .notNull()
-    .default('private'),
 });
 
-export const message = pgTable('message', {
-  id: text('id')
-    .primaryKey()
-    .notNull()
-    .$defaultFn(() => generateId()),
-  chatId: text('chat_id')
-    .notNull()
-    .references(() => chat.id, { onDelete: 'cascade' }),
-  role: text('role').notNull(), // user, assistant, or tool
-  parts: json('parts').notNull(), // Store parts as JSON in the database
-  attachments: json('attachments').notNull(),
-  createdAt: timestamp('created_at').defaultNow().notNull(),
-  model: text('model'),
-  inputTokens: integer('input_tokens'),
-  outputTokens: integer('output_tokens'),
-  totalTokens: integer('total_tokens'),
-  completionTime: real('completion_time'),
-});
+export const organizationMember = pgTable(
+  'organization_member',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    organizationId: text('organization_id')
+      .notNull()
+      .references(() => organization.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    role: text('role').$type<OrganizationRole>().notNull().default('member'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('organization_member_org_user_idx').on(table.organizationId, table.userId),
+    index('organization_member_userId_idx').on(table.userId),
+  ],
+);
+
+// Full-text search documents. searchChats in queries.ts must build the same
+// expressions so Postgres can use the GIN indexes on chat and message.
+export function chatTitleSearchVector(title: AnyPgColumn): SQL {
+  return sql`to_tsvector('english', ${title})`;
+}
+
+export function messageTextSearchVector(parts: AnyPgColumn): SQL {
+  return sql`to_tsvector('english', jsonb_path_query_array(${parts}::jsonb, '$[*] ? (@.type == "text").text'))`;
+}
+
+export interface ContextSource {
+  url: string;
+  title: string;
+}
+
+export const chat = pgTable(
+  'chat',
+  {
+    id: text('id')
+      .primaryKey()
+      .notNull()
+      .$defaultFn(() => uuidv7()),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id),
+    // Workspace the chat belongs to; null for the creator's personal chats
+    organizationId: text('organization_id').references(() => organization.id, { onDelete: 'cascade' }),
+    title: text('title').notNull().default('New Chat'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    visibility: varchar('visibility', { enum: ['public', 'private'] })
+      .notNull()
+      .default('private'),
+    // Last message of the branch the user is viewing; null means the most recent message
+    activeMessageId: text('active_message_id'),
+    // Rolling summary of the turns up to and including contextSummaryMessageId, sent to the
+    // model in their place once a branch outgrows the context window
+    contextSummary: text('context_summary'),
+    contextSummaryMessageId: text('context_summary_message_id'),
+    // Sources cited or returned by tools in the summarized turns
+    contextSources: json('context_sources').$type<ContextSource[]>(),
+  },
+  (table) => [
+    index('chat_title_search_idx').using('gin', chatTitleSearchVector(table.title)),
+    index('chat_organizationId_createdAt_idx').on(table.organizationId, table.createdAt),
+  ],
+);
+
+export const message = pgTable(
+  'message',
+  {
+    id: text('id')
+      .primaryKey()
+      .notNull()
+      .$defaultFn(() => generateId()),
+    chatId: text('chat_id')
+      .notNull()
+      .references(() => chat.id, { onDelete: 'cascade' }),
+    // Previous message in the conversation tree; edits and regenerations create siblings
+    parentId: text('parent_id').references((): AnyPgColumn => message.id, { onDelete: 'cascade' }),
+    role: text('role').notNull(), // user, assistant, or tool
+    parts: json('parts').notNull(), // Store parts as JSON in the database
+    attachments: json('attachments').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    model: text('model'),
+    searchGroup: text('search_group'), // web, academic, extreme, ... (null for messages saved before it was recorded)
+    inputTokens: integer('input_tokens'),
+    outputTokens: integer('output_tokens'),
+    totalTokens: integer('total_tokens'),
+    completionTime: real('completion_time'),
+  },
+  (table) => [
+    index('message_chat_id_idx').on(table.chatId),
+    index('message_parent_id_idx').on(table.parentId),
+    index('message_text_search_idx').using('gin', messageTextSearchVector(table.parts)),
+  ],
+);
 
 export const stream = pgTable('stream', {
   id: text('id')
@@ -283,6 +382,17 @@ export const dodosubscription = pgTable('dodosubscription', {
 });
 
 // Lookout table for scheduled searches
+export type LookoutRunChange = 'changed' | 'no_change';
+export type LookoutNoChangeEmail = 'full' | 'condensed' | 'skip';
+export type LookoutSearchGroup = 'extreme' | 'web' | 'academic' | 'reddit' | 'x' | 'stocks' | 'crypto';
+export type LookoutResearchDepth = 'quick' | 'standard' | 'deep';
+
+// Key findings and cited sources of a run, compared against the previous run
+export interface LookoutRunDigest {
+  keyFindings: string[];
+  sources: Array<{ url: string; title: string }>;
+}
+
 export const lookout = pgTable('lookout', {
   id: text('id')
     .primaryKey()
@@ -290,6 +400,8 @@ export const lookout = pgTable('lookout', {
   userId: text('user_id')
     .notNull()
     .references(() => user.id, { onDelete: 'cascade' }),
+  // Workspace the lookout belongs to; null for the creator's personal lookouts
+  organizationId: text('organization_id').references(() => organization.id, { onDelete: 'cascade' }),
   title: text('title').notNull(),
   prompt: text('prompt').notNull(),
   frequency: text('frequency').notNull(), // 'once', 'daily', 'weekly', 'monthly', 'yearly'
@@ -300,24 +412,198 @@ export const lookout = pgTable('lookout', {
   status: text('status').notNull().default('active'), // 'active', 'paused', 'archived', 'running'
   lastRunAt: timestamp('last_run_at'),
   lastRunChatId: text('last_run_chat_id'),
-  // Store all run history as JSON
-  runHistory: json('run_history')
-    .$type<
-      Array<{
-        runAt: string; // ISO date string
-        chatId: string;
-        status: 'success' | 'error' | 'timeout';
-        error?: string;
-        duration?: number; // milliseconds
-        tokensUsed?: number;
-        searchesPerformed?: number;
-      }>
-    >()
-    .default([]),
+  // Email sent for runs with no material change: 'full', 'condensed' or 'skip'
+  noChangeEmail: text('no_change_email').$type<LookoutNoChangeEmail>().notNull().default('condensed'),
+  model: text('model').notNull().default('scira-grok-4-fast-think'),
+  // Search group whose tools the run may use, as in the chat group selector
+  searchGroup: text('search_group').$type<LookoutSearchGroup>().notNull().default('extreme'),
+  researchDepth: text('research_depth').$type<LookoutResearchDepth>().notNull().default('standard'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+export type LookoutRunStatus = 'success' | 'error' | 'timeout';
+
+// One row per lookout execution; pruned to the retention limits in env
+export const lookoutRun = pgTable(
+  'lookout_run',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    lookoutId: text('lookout_id')
+      .notNull()
+      .references(() => lookout.id, { onDelete: 'cascade' }),
+    runAt: timestamp('run_at').notNull().defaultNow(),
+    chatId: text('chat_id').notNull(),
+    status: text('status').$type<LookoutRunStatus>().notNull(),
+    error: text('error'),
+    duration: integer('duration'), // milliseconds
+    tokensUsed: integer('tokens_used'),
+    searchesPerformed: integer('searches_performed'),
+    model: text('model'),
+    change: text('change').$type<LookoutRunChange>(),
+    digest: json('digest').$type<LookoutRunDigest>(),
+    whatsNew: text('whats_new'),
+    // Delivery targets that still failed after retries, for the run history
+    deliveryFailures: json('delivery_failures').$type<LookoutDeliveryFailure[]>(),
+  },
+  (table) => [index('lookout_run_lookoutId_runAt_idx').on(table.lookoutId, table.runAt)],
+);
+
+export type LookoutDeliveryChannel = 'webhook' | 'slack' | 'discord';
+export type LookoutDeliveryStatus = 'success' | 'failed';
+
+export interface LookoutDeliveryFailure {
+  targetId: string;
+  channel: LookoutDeliveryChannel;
+  error: string;
+}
+
+// Where a lookout posts its results besides email
+export const lookoutDeliveryTarget = pgTable(
+  'lookout_delivery_target',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    lookoutId: text('lookout_id')
+      .notNull()
+      .references(() => lookout.id, { onDelete: 'cascade' }),
+    channel: text('channel').$type<LookoutDeliveryChannel>().notNull(),
+    url: text('url').notNull(),
+    // HMAC signing secret, generic webhooks only
+    secret: text('secret'),
+    enabled: boolean('enabled').notNull().default(true),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [index('lookout_delivery_target_lookoutId_idx').on(table.lookoutId)],
+);
+
+// One row per delivery of a run to a target, after all retries
+export const lookoutDelivery = pgTable(
+  'lookout_delivery',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    runId: text('run_id')
+      .notNull()
+      .references(() => lookoutRun.id, { onDelete: 'cascade' }),
+    targetId: text('target_id').references(() => lookoutDeliveryTarget.id, { onDelete: 'set null' }),
+    channel: text('channel').$type<LookoutDeliveryChannel>().notNull(),
+    status: text('status').$type<LookoutDeliveryStatus>().notNull(),
+    attempts: integer('attempts').notNull(),
+    responseStatus: integer('response_status'),
+    error: text('error'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [index('lookout_delivery_runId_idx').on(table.runId)],
+);
+
+// Past research for semantic recall: assistant answers and the sources their
+// search tools returned, chunked and embedded when a chat is saved.
+export const RESEARCH_EMBEDDING_DIMENSIONS = 1536;
+
+export type ResearchChunkKind = 'answer' | 'source';
+
+export const researchChunk = pgTable(
+  'research_chunk',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    chatId: text('chat_id')
+      .notNull()
+      .references(() => chat.id, { onDelete: 'cascade' }),
+    messageId: text('message_id')
+      .notNull()
+      .references(() => message.id, { onDelete: 'cascade' }),
+    kind: varchar('kind', { enum: ['answer', 'source'] })
+      .$type<ResearchChunkKind>()
+      .notNull(),
+    content: text('content').notNull(),
+    sourceUrl: text('source_url'),
+    sourceTitle: text('source_title'),
+    embedding: vector('embedding', { dimensions: RESEARCH_EMBEDDING_DIMENSIONS }).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('research_chunk_user_id_idx').on(table.userId),
+    index('research_chunk_message_id_idx').on(table.messageId),
+    index('research_chunk_embedding_idx').using('hnsw', table.embedding.op('vector_cosine_ops')),
+  ],
+);
+
+// Sources a user saved from search results to reuse in later chats.
+export type SavedSourceKind = 'web' | 'academic' | 'retrieve';
+
+export const savedSource = pgTable(
+  'saved_source',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    url: text('url').notNull(),
+    title: text('title').notNull(),
+    excerpt: text('excerpt'),
+    kind: varchar('kind', { enum: ['web', 'academic', 'retrieve'] })
+      .$type<SavedSourceKind>()
+      .notNull()
+      .default('web'),
+    tags: text('tags')
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    notes: text('notes'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('saved_source_user_url_idx').on(table.userId, table.url),
+    index('saved_source_tags_idx').using('gin', table.tags),
+  ],
+);
+
+export type ToolCallStatus = 'success' | 'error';
+
+// One row per tool invocation in a chat response, for the admin tool view.
+// Anonymous chats are not stored, so their rows have no chat or user.
+export const toolCall = pgTable(
+  'tool_call',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    chatId: text('chat_id').references(() => chat.id, { onDelete: 'cascade' }),
+    userId: text('user_id').references(() => user.id, { onDelete: 'cascade' }),
+    // Assistant message the call belongs to; written before the message itself is saved
+    messageId: text('message_id'),
+    toolCallId: text('tool_call_id').notNull(),
+    toolName: text('tool_name').notNull(),
+    input: json('input'),
+    status: text('status').$type<ToolCallStatus>().notNull(),
+    outputSize: integer('output_size'), // characters of serialized output
+    duration: integer('duration'), // milliseconds
+    // Backend that served or failed the call, e.g. the web search provider
+    provider: text('provider'),
+    model: text('model'),
+    error: text('error'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('tool_call_createdAt_idx').on(table.createdAt),
+    index('tool_call_toolName_createdAt_idx').on(table.toolName, table.createdAt),
+    index('tool_call_chatId_idx').on(table.chatId),
+  ],
+);
+
 export const userRelations = relations(user, ({ many }) => ({
   sessions: many(session),
   accounts: many(account),
@@ -345,11 +631,32 @@ export const accountRelations = relations(account, ({ one }) => ({
   }),
 }));
 
+export const organizationRelations = relations(organization, ({ many }) => ({
+  members: many(organizationMember),
+  chats: many(chat),
+  lookouts: many(lookout),
+}));
+
+export const organizationMemberRelations = relations(organizationMember, ({ one }) => ({
+  organization: one(organization, {
+    fields: [organizationMember.organizationId],
+    references: [organization.id],
+  }),
+  user: one(user, {
+    fields: [organizationMember.userId],
+    references: [user.id],
+  }),
+}));
+
 export const chatRelations = relations(chat, ({ one, many }) => ({
   user: one(user, {
     fields: [chat.userId],
     references: [user.id],
   }),
+  organization: one(organization, {
+    fields: [chat.organizationId],
+    references: [organization.id],
+  }),
   messages: many(message),
   streams: many(stream),
 }));
@@ -361,6 +668,17 @@ export const messageRelations = relations(message, ({ one }) => ({
   }),
 }));
 
+export const researchChunkRelations = relations(researchChunk, ({ one }) => ({
+  chat: one(chat, {
+    fields: [researchChunk.chatId],
+    references: [chat.id],
+  }),
+  message: one(message, {
+    fields: [researchChunk.messageId],
+    references: [message.id],
+  }),
+}));
+
 export const streamRelations = relations(stream, ({ one }) => ({
   chat: one(chat, {
     fields: [stream.chatId],
@@ -368,11 +686,43 @@ export const streamRelations = relations(stream, ({ one }) => ({
   }),
 }));
 
-export const lookoutRelations = relations(lookout, ({ one }) => ({
+export const lookoutRelations = relations(lookout, ({ one, many }) => ({
   user: one(user, {
     fields: [lookout.userId],
     references: [user.id],
   }),
+  organization: one(organization, {
+    fields: [lookout.organizationId],
+    references: [organization.id],
+  }),
+  runs: many(lookoutRun),
+  deliveryTargets: many(lookoutDeliveryTarget),
+}));
+
+export const lookoutRunRelations = relations(lookoutRun, ({ one, many }) => ({
+  lookout: one(lookout, {
+    fields: [lookoutRun.lookoutId],
+    references: [lookout.id],
+  }),
+  deliveries: many(lookoutDelivery),
+}));
+
+export const lookoutDeliveryTargetRelations = relations(lookoutDeliveryTarget, ({ one }) => ({
+  lookout: one(lookout, {
+    fields: [lookoutDeliveryTarget.lookoutId],
+    references: [lookout.id],
+  }),
+}));
+
+export const lookoutDeliveryRelations = relations(lookoutDelivery, ({ one }) => ({
+  run: one(lookoutRun, {
+    fields: [lookoutDelivery.runId],
+    references: [lookoutRun.id],
+  }),
+  target: one(lookoutDeliveryTarget, {
+    fields: [lookoutDelivery.targetId],
+    references: [lookoutDeliveryTarget.id],
+  }),
 }));
 
 export type User = InferSelectModel<typeof user>;
@@ -380,9 +730,12 @@ export type Session = InferSelectModel<typeof session>;
 export type Account = InferSelectModel<typeof account>;
 export type Verification = InferSelectModel<typeof verification>;
 export type Chat = InferSelectModel<typeof chat>;
+export type Organization = InferSelectModel<typeof organization>;
+export type OrganizationMember = InferSelectModel<typeof organizationMember>;
 export type Message = InferSelectModel<typeof message>;
 export type Stream = InferSelectModel<typeof stream>;
 export type Subscription = InferSelectModel<typeof subscription>;
+export type SavedSource = InferSelectModel<typeof savedSource>;
 export type Payment = InferSelectModel<typeof payment>;
 export type DodoSubscription = InferSelectModel<typeof dodosubscription>;
 export type ExtremeSearchUsage = InferSelectModel<typeof extremeSearchUsage>;
@@ -390,3 +743,8 @@ export type MessageUsage = InferSelectModel<typeof messageUsage>;
 export type CustomInstructions = InferSelectModel<typeof customInstructions>;
 export type UserPreferences = InferSelectModel<typeof userPreferences>;
 export type Lookout = InferSelectModel<typeof lookout>;
+export type LookoutRun = InferSelectModel<typeof lookoutRun>;
+export type LookoutDeliveryTarget = InferSelectModel<typeof lookoutDeliveryTarget>;
+export type LookoutDelivery = InferSelectModel<typeof lookoutDelivery>;
+export type ResearchChunk = InferSelectModel<typeof researchChunk>;
+export type ToolCall = InferSelectModel<typeof toolCall>;
@@ -9,6 +9,9 @@ interface SendLookoutCompletionEmailParams {
   chatTitle: string;
   assistantResponse: string;
   chatId: string;
+  whatsNew?: string;
+  // Short "nothing changed" notice instead of the full report
+  condensed?: boolean;
 }
 
 export async function sendLookoutCompletionEmail({
@@ -16,16 +19,20 @@ export async function sendLookoutCompletionEmail({
   chatTitle,
   assistantResponse,
   chatId,
+  whatsNew,
+  condensed = false,
 }: SendLookoutCompletionEmailParams) {
   try {
     const data = await resend.emails.send({
       from: 'Scira AI <noreply@scira.ai>',
       to: [to],
-      subject: `Lookout Complete: ${chatTitle}`,
+      subject: condensed ? `Lookout: No changes for ${chatTitle}` : `Lookout Complete: ${chatTitle}`,
       react: SearchCompletedEmail({
         chatTitle,
         assistantResponse,
         chatId,
+        whatsNew,
+        condensed,
       }),
     });
 
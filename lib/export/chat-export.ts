@@ -0,0 +1,108 @@
+import { MessageTree } from '@/lib/chat-tree';
+import type { Chat, Message } from '@/lib/db/schema';
+
+export const CHAT_EXPORT_FORMAT = 'scira.chat';
+export const CHAT_EXPORT_VERSION = 1;
+
+export const CHAT_EXPORT_FORMATS = ['markdown', 'json', 'docx'] as const;
+export type ChatExportFormat = (typeof CHAT_EXPORT_FORMATS)[number];
+
+export interface ExportedMessage {
+  id: string;
+  parentId: string | null;
+  role: string;
+  parts: unknown[];
+  attachments: unknown[];
+  createdAt: string;
+  model: string | null;
+  searchGroup: string | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  totalTokens: number | null;
+  completionTime: number | null;
+}
+
+/**
+ * Lossless JSON form of a chat. Message parts (including tool inputs and
+ * outputs) are kept exactly as stored, so the file can be imported back.
+ */
+export interface ChatExport {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  chat: {
+    id: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    visibility: 'public' | 'private';
+    activeMessageId: string | null;
+  };
+  // Every version of every message; parentId links them into the conversation tree
+  messages: ExportedMessage[];
+}
+
+export function isChatExportFormat(value: string): value is ChatExportFormat {
+  return (CHAT_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function buildChatExport(chat: Chat, messages: Message[]): ChatExport {
+  return {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    chat: {
+      id: chat.id,
+      title: chat.title,
+      createdAt: chat.createdAt.toISOString(),
+      updatedAt: chat.updatedAt.toISOString(),
+      visibility: chat.visibility,
+      activeMessageId: chat.activeMessageId,
+    },
+    messages: messages.map((message) => ({
+      id: message.id,
+      parentId: message.parentId,
+      role: message.role,
+      parts: Array.isArray(message.parts) ? message.parts : [],
+      attachments: Array.isArray(message.attachments) ? message.attachments : [],
+      createdAt: message.createdAt.toISOString(),
+      model: message.model,
+      searchGroup: message.searchGroup,
+      inputTokens: message.inputTokens,
+      outputTokens: message.outputTokens,
+      totalTokens: message.totalTokens,
+      completionTime: message.completionTime,
+    })),
+  };
+}
+
+/**
+ * Messages of the branch the user was viewing, for formats that show a single
+ * conversation rather than the whole tree.
+ */
+export function activeBranchMessages(data: ChatExport): ExportedMessage[] {
+  const tree = new MessageTree(
+    data.messages.map((message) => ({
+      id: message.id,
+      parentId: message.parentId,
+      createdAt: new Date(message.createdAt),
+    })),
+  );
+  const leafId = tree.activeLeaf(data.chat.activeMessageId);
+  if (!leafId) return [];
+
+  const byId = new Map(data.messages.map((message) => [message.id, message]));
+  return tree.pathTo(leafId).map((id) => byId.get(id)!);
+}
+
+/**
+ * File name for a download, derived from the chat title.
+ */
+export function exportFileName(title: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'scira-chat'}.${extension}`;
+}
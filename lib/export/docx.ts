@@ -0,0 +1,232 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { Lexer, type Token, type Tokens } from 'marked';
+
+const ORDERED_LIST = 'ordered-list';
+const CODE_FONT = 'Consolas';
+
+type InlineRun = TextRun | ExternalHyperlink;
+type Block = Paragraph | Table;
+
+interface InlineStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+}
+
+const HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+] as const;
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function inlineRuns(tokens: Token[] | undefined, style: InlineStyle = {}): InlineRun[] {
+  if (!tokens) return [];
+  const runs: InlineRun[] = [];
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'strong':
+        runs.push(...inlineRuns((token as Tokens.Strong).tokens, { ...style, bold: true }));
+        break;
+      case 'em':
+        runs.push(...inlineRuns((token as Tokens.Em).tokens, { ...style, italics: true }));
+        break;
+      case 'del':
+        runs.push(...inlineRuns((token as Tokens.Del).tokens, { ...style, strike: true }));
+        break;
+      case 'codespan':
+        runs.push(new TextRun({ ...style, text: decodeEntities((token as Tokens.Codespan).text), font: CODE_FONT }));
+        break;
+      case 'link': {
+        const link = token as Tokens.Link;
+        runs.push(
+          new ExternalHyperlink({
+            link: link.href,
+            children: [new TextRun({ ...style, text: decodeEntities(link.text), style: 'Hyperlink' })],
+          }),
+        );
+        break;
+      }
+      case 'br':
+        runs.push(new TextRun({ break: 1 }));
+        break;
+      case 'text': {
+        const text = token as Tokens.Text;
+        if (text.tokens?.length) {
+          runs.push(...inlineRuns(text.tokens, style));
+        } else {
+          runs.push(new TextRun({ ...style, text: decodeEntities(text.text) }));
+        }
+        break;
+      }
+      default:
+        if ('text' in token && typeof token.text === 'string') {
+          runs.push(new TextRun({ ...style, text: decodeEntities(token.text) }));
+        }
+    }
+  }
+
+  return runs;
+}
+
+function codeBlock(code: string): Paragraph[] {
+  return code.split('\n').map(
+    (line) =>
+      new Paragraph({
+        shading: { type: ShadingType.CLEAR, fill: 'F4F4F5', color: 'auto' },
+        spacing: { before: 0, after: 0 },
+        children: [new TextRun({ text: line || ' ', font: CODE_FONT, size: 18 })],
+      }),
+  );
+}
+
+function tableBlock(token: Tokens.Table): Table {
+  const border = { style: BorderStyle.SINGLE, size: 4, color: 'D4D4D8' };
+  const row = (cells: Tokens.TableCell[], header: boolean) =>
+    new TableRow({
+      tableHeader: header,
+      children: cells.map(
+        (cell) =>
+          new TableCell({
+            borders: { top: border, bottom: border, left: border, right: border },
+            children: [new Paragraph({ children: inlineRuns(cell.tokens, header ? { bold: true } : {}) })],
+          }),
+      ),
+    });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [row(token.header, true), ...token.rows.map((cells) => row(cells, false))],
+  });
+}
+
+class DocxBuilder {
+  private listInstance = 0;
+
+  blocks(tokens: Token[], quoteDepth = 0): Block[] {
+    return tokens.flatMap((token) => this.block(token, quoteDepth));
+  }
+
+  private block(token: Token, quoteDepth: number): Block[] {
+    const indent = quoteDepth > 0 ? { left: quoteDepth * 360 } : undefined;
+
+    switch (token.type) {
+      case 'heading': {
+        const heading = token as Tokens.Heading;
+        return [
+          new Paragraph({
+            heading: HEADINGS[Math.min(heading.depth, HEADINGS.length) - 1],
+            children: inlineRuns(heading.tokens),
+          }),
+        ];
+      }
+      case 'paragraph':
+        return [new Paragraph({ indent, children: inlineRuns((token as Tokens.Paragraph).tokens) })];
+      case 'text':
+        return [new Paragraph({ indent, children: inlineRuns([token]) })];
+      case 'code':
+        return codeBlock((token as Tokens.Code).text);
+      case 'blockquote':
+        return this.blocks((token as Tokens.Blockquote).tokens, quoteDepth + 1);
+      case 'list':
+        return this.list(token as Tokens.List, 0);
+      case 'table':
+        return [tableBlock(token as Tokens.Table), new Paragraph({})];
+      case 'hr':
+        return [
+          new Paragraph({
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D4D4D8', space: 1 } },
+            children: [],
+          }),
+        ];
+      default:
+        return [];
+    }
+  }
+
+  private list(list: Tokens.List, level: number): Block[] {
+    const instance = ++this.listInstance;
+    const blocks: Block[] = [];
+
+    for (const item of list.items) {
+      let first = true;
+      for (const child of item.tokens) {
+        if (child.type === 'list') {
+          blocks.push(...this.list(child as Tokens.List, level + 1));
+          continue;
+        }
+        const children = inlineRuns('tokens' in child ? child.tokens : [child]);
+        if (first) {
+          blocks.push(
+            new Paragraph({
+              children,
+              ...(list.ordered ? { numbering: { reference: ORDERED_LIST, level, instance } } : { bullet: { level } }),
+            }),
+          );
+          first = false;
+        } else {
+          blocks.push(new Paragraph({ children, indent: { left: 720 * (level + 1) } }));
+        }
+      }
+    }
+
+    return blocks;
+  }
+}
+
+/**
+ * Convert Markdown (as produced by renderChatMarkdown) to a Word document.
+ */
+export async function renderMarkdownDocx(markdown: string, title: string): Promise<Buffer> {
+  const tokens = new Lexer().lex(markdown);
+  const children = new DocxBuilder().blocks(tokens);
+
+  const document = new Document({
+    title,
+    creator: 'Scira',
+    numbering: {
+      config: [
+        {
+          reference: ORDERED_LIST,
+          levels: Array.from({ length: 4 }, (_, level) => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+          })),
+        },
+      ],
+    },
+    sections: [{ children }],
+  });
+
+  return Packer.toBuffer(document);
+}
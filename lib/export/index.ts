@@ -0,0 +1,36 @@
+import type { ChatExport, ChatExportFormat } from './chat-export';
+import { renderMarkdownDocx } from './docx';
+import { renderChatMarkdown } from './markdown';
+
+export * from './chat-export';
+export { renderChatMarkdown } from './markdown';
+export { renderMarkdownDocx } from './docx';
+
+export interface RenderedChatExport {
+  body: string | Buffer;
+  contentType: string;
+  extension: string;
+}
+
+/**
+ * Render an exported chat in one of the download formats. DOCX is built from
+ * the Markdown rendering so both carry the same content and reference list.
+ */
+export async function renderChatExport(data: ChatExport, format: ChatExportFormat): Promise<RenderedChatExport> {
+  switch (format) {
+    case 'json':
+      return {
+        body: JSON.stringify(data, null, 2),
+        contentType: 'application/json; charset=utf-8',
+        extension: 'json',
+      };
+    case 'markdown':
+      return { body: renderChatMarkdown(data), contentType: 'text/markdown; charset=utf-8', extension: 'md' };
+    case 'docx':
+      return {
+        body: await renderMarkdownDocx(renderChatMarkdown(data), data.chat.title),
+        contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        extension: 'docx',
+      };
+  }
+}
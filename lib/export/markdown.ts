@@ -0,0 +1,240 @@
+import { activeBranchMessages, type ChatExport, type ExportedMessage } from './chat-export';
+
+const MAX_STOCK_ROWS = 12;
+const MAX_SOURCE_DEPTH = 4;
+
+interface ExportPart {
+  type: string;
+  text?: string;
+  state?: string;
+  input?: Record<string, any>;
+  output?: unknown;
+}
+
+interface Reference {
+  url: string;
+  title: string;
+}
+
+interface StockElement {
+  label?: string;
+  ticker?: string;
+  points?: Array<[string, number]>;
+}
+
+const INLINE_LINK = /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g;
+
+class ReferenceList {
+  private readonly references = new Map<string, Reference>();
+
+  add(url: unknown, title?: unknown) {
+    if (typeof url !== 'string' || !/^https?:\/\//.test(url) || this.references.has(url)) return;
+    const label = typeof title === 'string' && title.trim() ? title.trim() : url;
+    this.references.set(url, { url, title: label });
+  }
+
+  addInlineLinks(text: string) {
+    for (const match of text.matchAll(INLINE_LINK)) {
+      this.add(match[2], match[1]);
+    }
+  }
+
+  toMarkdown(): string | null {
+    if (this.references.size === 0) return null;
+    const items = [...this.references.values()].map(
+      (reference, index) => `${index + 1}. [${escapeLinkText(reference.title)}](${reference.url})`,
+    );
+    return ['## References', '', ...items].join('\n');
+  }
+}
+
+function escapeLinkText(text: string): string {
+  return text.replace(/([\[\]])/g, '\\$1').replace(/\s+/g, ' ');
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }) + ' UTC';
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+function table(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.map(escapeTableCell).join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(escapeTableCell).join(' | ')} |`),
+  ].join('\n');
+}
+
+// Search-like tools that are not rendered explicitly still tend to return
+// { url, title } objects somewhere in their output; pick those up as references.
+function collectSources(value: unknown, references: ReferenceList, depth = 0) {
+  if (!value || typeof value !== 'object' || depth > MAX_SOURCE_DEPTH) return;
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectSources(item, references, depth + 1));
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  if (typeof record.url === 'string') {
+    references.add(record.url, record.title ?? record.name);
+  }
+  for (const child of Object.values(record)) {
+    if (child && typeof child === 'object') collectSources(child, references, depth + 1);
+  }
+}
+
+function sampleRows<T>(rows: T[], max: number): T[] {
+  if (rows.length <= max) return rows;
+  const step = (rows.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, index) => rows[Math.round(index * step)]);
+}
+
+function renderStockChart(part: ExportPart): string[] {
+  const output = part.output as Record<string, any>;
+  const chart = output?.chart;
+  const elements: StockElement[] = (chart?.elements ?? []).filter(
+    (element: StockElement) => Array.isArray(element.points) && element.points.length > 0,
+  );
+  if (elements.length === 0) return [];
+
+  const blocks: string[] = [];
+  if (chart.title) blocks.push(`**${chart.title}**`);
+
+  blocks.push(
+    table(
+      ['Company', 'Ticker', 'Start', 'End', 'Change'],
+      elements.map((element) => {
+        const points = element.points!;
+        const [startDate, startPrice] = points[0];
+        const [endDate, endPrice] = points[points.length - 1];
+        const change = startPrice ? ((endPrice - startPrice) / startPrice) * 100 : 0;
+        return [
+          element.label ?? element.ticker ?? '',
+          element.ticker ?? '',
+          `${formatNumber(startPrice)} (${startDate.slice(0, 10)})`,
+          `${formatNumber(endPrice)} (${endDate.slice(0, 10)})`,
+          `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`,
+        ];
+      }),
+    ),
+  );
+
+  // Price history on the first series' dates, thinned out to keep the table readable
+  const dates = sampleRows(
+    elements[0].points!.map(([date]) => date),
+    MAX_STOCK_ROWS,
+  );
+  const priceByDate = elements.map((element) => new Map(element.points!.map(([date, price]) => [date, price])));
+  blocks.push(
+    table(
+      ['Date', ...elements.map((element) => element.ticker ?? element.label ?? '')],
+      dates.map((date) => [
+        date.slice(0, 10),
+        ...priceByDate.map((prices) => {
+          const price = prices.get(date);
+          return price === undefined ? '' : formatNumber(price);
+        }),
+      ]),
+    ),
+  );
+
+  return blocks;
+}
+
+function renderCodeInterpreter(part: ExportPart): string[] {
+  const blocks: string[] = [];
+  const input = part.input ?? {};
+  if (input.title) blocks.push(`**${input.title}**`);
+  if (input.code) blocks.push(['```python', String(input.code).trimEnd(), '```'].join('\n'));
+
+  const output = part.output as { message?: string } | undefined;
+  if (output?.message) {
+    blocks.push(['Output:', '', '```text', output.message.trimEnd(), '```'].join('\n'));
+  }
+  return blocks;
+}
+
+function renderToolPart(part: ExportPart, references: ReferenceList): string[] {
+  if (part.state !== 'output-available' || !part.output || typeof part.output !== 'object') return [];
+  const output = part.output as Record<string, any>;
+
+  switch (part.type) {
+    case 'tool-web_search': {
+      const searches: Array<{ query?: string; results?: Reference[] }> = output.searches ?? [];
+      searches.forEach((search) => search.results?.forEach((result) => references.add(result.url, result.title)));
+      const queries = searches.map((search) => search.query).filter(Boolean);
+      return queries.length > 0 ? [`_Searched the web for: ${queries.join('; ')}_`] : [];
+    }
+    case 'tool-extreme_search': {
+      const sources: Reference[] = output.research?.sources ?? [];
+      sources.forEach((source) => references.add(source.url, source.title));
+      return sources.length > 0 ? [`_Deep research across ${sources.length} sources_`] : [];
+    }
+    case 'tool-retrieve': {
+      const results: Reference[] = output.results ?? [];
+      results.forEach((result) => references.add(result.url, result.title));
+      return results.length > 0 ? [`_Read ${results.map((result) => result.url).join(', ')}_`] : [];
+    }
+    case 'tool-stock_chart':
+      collectSources(output.news_results, references);
+      return renderStockChart(part);
+    case 'tool-code_interpreter':
+      return renderCodeInterpreter(part);
+    default:
+      collectSources(output, references);
+      return [];
+  }
+}
+
+function renderAttachments(message: ExportedMessage): string[] {
+  const attachments = message.attachments as Array<{ name?: string; url?: string }>;
+  const items = attachments
+    .filter((attachment) => attachment?.url)
+    .map((attachment) => `- [${escapeLinkText(attachment.name || attachment.url!)}](${attachment.url})`);
+  return items.length > 0 ? [['Attachments:', '', ...items].join('\n')] : [];
+}
+
+function renderMessage(message: ExportedMessage, references: ReferenceList): string | null {
+  const blocks: string[] = [];
+
+  for (const part of message.parts as ExportPart[]) {
+    if (!part || typeof part !== 'object') continue;
+    if (part.type === 'text' && part.text?.trim()) {
+      blocks.push(part.text.trim());
+      if (message.role === 'assistant') references.addInlineLinks(part.text);
+    } else if (part.type.startsWith('tool-')) {
+      blocks.push(...renderToolPart(part, references));
+    }
+  }
+  blocks.push(...renderAttachments(message));
+
+  if (blocks.length === 0) return null;
+  const heading = message.role === 'user' ? '## You' : '## Scira';
+  return [heading, ...blocks].join('\n\n');
+}
+
+/**
+ * Render the active branch of a chat as Markdown: one section per message with
+ * tool results inlined (search queries, stock tables, code and its output),
+ * followed by a numbered list of every source cited or returned by a tool.
+ */
+export function renderChatMarkdown(data: ChatExport): string {
+  const references = new ReferenceList();
+  const sections = [`# ${data.chat.title}`, `_Exported from Scira on ${formatDate(data.exportedAt)}_`];
+
+  for (const message of activeBranchMessages(data)) {
+    const section = renderMessage(message, references);
+    if (section) sections.push(section);
+  }
+
+  const referenceList = references.toMarkdown();
+  if (referenceList) sections.push(referenceList);
+
+  return `${sections.join('\n\n')}\n`;
+}
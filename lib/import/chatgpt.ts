@@ -0,0 +1,126 @@
+import {
+  type ImportedMessage,
+  normalizeMessages,
+  type ParsedImport,
+  parseTimestamp,
+  SkipReport,
+  textMessage,
+} from './common';
+
+interface ChatGPTMessage {
+  author?: { role?: string };
+  create_time?: number | null;
+  content?: { content_type?: string; parts?: unknown[]; text?: string };
+  metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+}
+
+interface ChatGPTNode {
+  message?: ChatGPTMessage | null;
+  parent?: string | null;
+}
+
+interface ChatGPTConversation {
+  title?: string | null;
+  create_time?: number;
+  update_time?: number;
+  mapping?: Record<string, ChatGPTNode>;
+  current_node?: string;
+}
+
+export function isChatGPTExport(data: unknown): boolean {
+  return Array.isArray(data) && data.length > 0 && !!data[0] && typeof data[0] === 'object' && 'mapping' in data[0];
+}
+
+// Conversations are trees (every edit or regeneration forks). The branch the
+// user last saw ends at current_node, so walk from there back to the root.
+function activeBranch(conversation: ChatGPTConversation): ChatGPTMessage[] {
+  const mapping = conversation.mapping ?? {};
+  const path: ChatGPTMessage[] = [];
+  const seen = new Set<string>();
+  let nodeId = conversation.current_node;
+
+  while (nodeId && mapping[nodeId] && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    const node = mapping[nodeId];
+    if (node.message) path.push(node.message);
+    nodeId = node.parent ?? undefined;
+  }
+
+  return path.reverse();
+}
+
+function messageText(message: ChatGPTMessage, skipped: SkipReport): string | null {
+  const content = message.content;
+  switch (content?.content_type) {
+    case 'text':
+    case 'multimodal_text': {
+      const parts = content.parts ?? [];
+      const nonText = parts.filter((part) => typeof part !== 'string').length;
+      if (nonText > 0) skipped.add('Images and files (not included in the export text)', nonText);
+      return parts
+        .filter((part): part is string => typeof part === 'string')
+        .join('\n\n')
+        .trim();
+    }
+    case 'code':
+      return content.text ? `\`\`\`\n${content.text.trim()}\n\`\`\`` : null;
+    default:
+      skipped.add(`Unsupported content (${content?.content_type ?? 'unknown'})`);
+      return null;
+  }
+}
+
+/**
+ * Parse conversations.json from a ChatGPT data export. Only the active branch
+ * of each conversation is imported, as user and assistant text.
+ */
+export function parseChatGPTExport(data: unknown[]): ParsedImport {
+  const result: ParsedImport = { source: 'chatgpt', chats: [], skipped: [] };
+
+  for (const conversation of data as ChatGPTConversation[]) {
+    const title = conversation?.title?.trim() || 'Imported chat';
+    if (!conversation?.mapping) {
+      result.skipped.push({ chat: title, reason: 'Not a ChatGPT conversation', count: 1 });
+      continue;
+    }
+
+    const skipped = new SkipReport(title);
+    const createdAt = parseTimestamp(conversation.create_time, new Date());
+    const messages: ImportedMessage[] = [];
+
+    for (const message of activeBranch(conversation)) {
+      const role = message.author?.role;
+      if (message.metadata?.is_visually_hidden_from_conversation) continue;
+      if (role !== 'user' && role !== 'assistant') {
+        if (role !== 'system') skipped.add('Tool messages');
+        continue;
+      }
+
+      const text = messageText(message, skipped);
+      if (!text) continue;
+      messages.push(
+        textMessage(
+          role,
+          text,
+          parseTimestamp(message.create_time, createdAt),
+          role === 'assistant' ? (message.metadata?.model_slug ?? null) : null,
+        ),
+      );
+    }
+
+    result.skipped.push(...skipped.items());
+    if (messages.length === 0) {
+      result.skipped.push({ chat: title, reason: 'No importable messages', count: 1 });
+      continue;
+    }
+
+    result.chats.push({
+      title,
+      createdAt,
+      updatedAt: parseTimestamp(conversation.update_time, createdAt),
+      messages: normalizeMessages(messages),
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,102 @@
+import {
+  type ImportedMessage,
+  normalizeMessages,
+  type ParsedImport,
+  parseTimestamp,
+  SkipReport,
+  textMessage,
+} from './common';
+
+interface ClaudeContentBlock {
+  type?: string;
+  text?: string;
+}
+
+interface ClaudeMessage {
+  sender?: string;
+  text?: string;
+  content?: ClaudeContentBlock[];
+  created_at?: string;
+  attachments?: unknown[];
+  files?: unknown[];
+}
+
+interface ClaudeConversation {
+  name?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  chat_messages?: ClaudeMessage[];
+}
+
+export function isClaudeExport(data: unknown): boolean {
+  return (
+    Array.isArray(data) && data.length > 0 && !!data[0] && typeof data[0] === 'object' && 'chat_messages' in data[0]
+  );
+}
+
+function messageText(message: ClaudeMessage, skipped: SkipReport): string {
+  if (!Array.isArray(message.content) || message.content.length === 0) {
+    return message.text?.trim() ?? '';
+  }
+
+  const texts: string[] = [];
+  for (const block of message.content) {
+    if (block.type === 'text' && block.text) {
+      texts.push(block.text);
+    } else if (block.type === 'tool_use' || block.type === 'tool_result') {
+      skipped.add('Tool calls and results');
+    } else if (block.type !== 'thinking') {
+      skipped.add(`Unsupported content (${block.type ?? 'unknown'})`);
+    }
+  }
+  return texts.join('\n\n').trim();
+}
+
+/**
+ * Parse conversations.json from a Claude data export into user and assistant
+ * text messages.
+ */
+export function parseClaudeExport(data: unknown[]): ParsedImport {
+  const result: ParsedImport = { source: 'claude', chats: [], skipped: [] };
+
+  for (const conversation of data as ClaudeConversation[]) {
+    const title = conversation?.name?.trim() || 'Imported chat';
+    if (!Array.isArray(conversation?.chat_messages)) {
+      result.skipped.push({ chat: title, reason: 'Not a Claude conversation', count: 1 });
+      continue;
+    }
+
+    const skipped = new SkipReport(title);
+    const createdAt = parseTimestamp(conversation.created_at, new Date());
+    const messages: ImportedMessage[] = [];
+
+    for (const message of conversation.chat_messages) {
+      const role = message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'assistant' : null;
+      if (!role) {
+        skipped.add(`Messages from ${message.sender ?? 'unknown'}`);
+        continue;
+      }
+
+      const files = (message.attachments?.length ?? 0) + (message.files?.length ?? 0);
+      if (files > 0) skipped.add('Attachments and files', files);
+
+      const text = messageText(message, skipped);
+      if (text) messages.push(textMessage(role, text, parseTimestamp(message.created_at, createdAt)));
+    }
+
+    result.skipped.push(...skipped.items());
+    if (messages.length === 0) {
+      result.skipped.push({ chat: title, reason: 'No importable messages', count: 1 });
+      continue;
+    }
+
+    result.chats.push({
+      title,
+      createdAt,
+      updatedAt: parseTimestamp(conversation.updated_at, createdAt),
+      messages: normalizeMessages(messages),
+    });
+  }
+
+  return result;
+}
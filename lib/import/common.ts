@@ -0,0 +1,112 @@
+export type ImportSource = 'scira' | 'chatgpt' | 'claude';
+
+export interface ImportedMessage {
+  // Ids from the export file, set only when it records the conversation tree;
+  // messages without them are imported as linear history
+  id?: string;
+  parentId?: string | null;
+  role: string;
+  parts: unknown[];
+  attachments: unknown[];
+  createdAt: Date;
+  model: string | null;
+  searchGroup: string | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  totalTokens: number | null;
+  completionTime: number | null;
+}
+
+export interface ImportedChat {
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  activeMessageId?: string | null;
+  messages: ImportedMessage[];
+}
+
+/**
+ * Something left out of an import: a whole conversation (no message set) or
+ * a number of its messages or content blocks that have no equivalent here.
+ */
+export interface SkippedImportItem {
+  chat: string | null;
+  reason: string;
+  count: number;
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  chats: ImportedChat[];
+  skipped: SkippedImportItem[];
+}
+
+/**
+ * Collects skip reasons per conversation so a 300-message chat with tool calls
+ * reports "42 tool messages" once rather than 42 entries.
+ */
+export class SkipReport {
+  private readonly counts = new Map<string, number>();
+
+  constructor(private readonly chat: string | null) {}
+
+  add(reason: string, count = 1) {
+    this.counts.set(reason, (this.counts.get(reason) ?? 0) + count);
+  }
+
+  items(): SkippedImportItem[] {
+    return [...this.counts].map(([reason, count]) => ({ chat: this.chat, reason, count }));
+  }
+}
+
+export function textMessage(role: 'user' | 'assistant', text: string, createdAt: Date, model: string | null = null) {
+  return {
+    role,
+    parts: [{ type: 'text', text }],
+    attachments: [],
+    createdAt,
+    model,
+    searchGroup: null,
+    inputTokens: null,
+    outputTokens: null,
+    totalTokens: null,
+    completionTime: null,
+  } satisfies ImportedMessage;
+}
+
+/**
+ * Merge consecutive text messages from the same role (other assistants split a
+ * single reply around tool calls) and make timestamps strictly increasing, since
+ * messages are read back ordered by created_at.
+ */
+export function normalizeMessages(messages: ImportedMessage[]): ImportedMessage[] {
+  const merged: ImportedMessage[] = [];
+
+  for (const message of messages) {
+    const previous = merged.at(-1);
+    if (previous && previous.role === message.role) {
+      previous.parts.push(...message.parts);
+      previous.attachments.push(...message.attachments);
+      previous.model ??= message.model;
+      continue;
+    }
+    if (previous && message.createdAt.getTime() <= previous.createdAt.getTime()) {
+      message.createdAt = new Date(previous.createdAt.getTime() + 1);
+    }
+    merged.push(message);
+  }
+
+  return merged;
+}
+
+export function parseTimestamp(value: unknown, fallback: Date): Date {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    // Unix seconds (ChatGPT) vs. milliseconds
+    return new Date(value < 1e12 ? value * 1000 : value);
+  }
+  if (typeof value === 'string') {
+    const date = new Date(value);
+    if (!Number.isNaN(date.getTime())) return date;
+  }
+  return fallback;
+}
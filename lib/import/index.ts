@@ -0,0 +1,111 @@
+import { strFromU8, Unzip, UnzipInflate, unzipSync } from 'fflate';
+import { isChatGPTExport, parseChatGPTExport } from './chatgpt';
+import { isClaudeExport, parseClaudeExport } from './claude';
+import type { ParsedImport } from './common';
+import { isSciraExport, parseSciraExport } from './scira';
+
+export * from './common';
+
+export const MAX_IMPORT_BYTES = 100 * 1024 * 1024;
+export const MAX_IMPORT_CHATS = 2000;
+// Upper bound on the inflated conversations.json; a small archive can expand to gigabytes
+export const MAX_IMPORT_JSON_BYTES = 512 * 1024 * 1024;
+
+// Both ChatGPT and Claude data exports are zip archives with a conversations.json at the root
+const CONVERSATIONS_FILE = 'conversations.json';
+
+function isZip(bytes: Uint8Array): boolean {
+  return bytes.length > 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+// Archive bytes fed to the inflater per step, which bounds how far one step can overshoot the limit
+const INFLATE_STEP_BYTES = 64 * 1024;
+
+function isConversationsFile(name: string): boolean {
+  return name === CONVERSATIONS_FILE || name.endsWith(`/${CONVERSATIONS_FILE}`);
+}
+
+// Inflate a single archive entry, giving up as soon as it grows past maxBytes
+function inflateEntry(bytes: Uint8Array, name: string, maxBytes: number): Uint8Array {
+  const tooLarge = () => new Error(`${CONVERSATIONS_FILE} is larger than ${maxBytes / (1024 * 1024)}MB`);
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  let failure: Error | null = null;
+  let finished = false;
+
+  const unzip = new Unzip((file) => {
+    if (file.name !== name || failure) return;
+    if (file.originalSize !== undefined && file.originalSize > maxBytes) {
+      failure = tooLarge();
+      return;
+    }
+    file.ondata = (error, chunk, final) => {
+      if (failure) return;
+      if (error) {
+        failure = error;
+        return;
+      }
+      total += chunk.length;
+      if (total > maxBytes) {
+        failure = tooLarge();
+        file.terminate();
+        return;
+      }
+      chunks.push(chunk);
+      if (final) finished = true;
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+
+  for (let offset = 0; offset < bytes.length && !failure && !finished; offset += INFLATE_STEP_BYTES) {
+    const end = Math.min(offset + INFLATE_STEP_BYTES, bytes.length);
+    unzip.push(bytes.subarray(offset, end), end === bytes.length);
+  }
+  if (failure) throw failure;
+  if (!finished) throw new Error(`Could not extract ${CONVERSATIONS_FILE}`);
+
+  const output = new Uint8Array(total);
+  let position = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, position);
+    position += chunk.length;
+  }
+  return output;
+}
+
+/**
+ * Read an uploaded export (a JSON file or a zip archive) into parsed JSON.
+ * Throws if the archive has no conversations.json, it inflates past maxBytes,
+ * or the JSON is invalid.
+ */
+export function readImportFile(bytes: Uint8Array, maxBytes = MAX_IMPORT_JSON_BYTES): unknown {
+  if (!isZip(bytes)) {
+    return JSON.parse(strFromU8(bytes));
+  }
+
+  // Only list the entries here; nothing is inflated until one has been picked
+  const names: string[] = [];
+  unzipSync(bytes, {
+    filter: (file) => {
+      if (isConversationsFile(file.name)) names.push(file.name);
+      return false;
+    },
+  });
+  const name = names.sort((a, b) => a.length - b.length)[0];
+  if (!name) {
+    throw new Error(`Archive does not contain ${CONVERSATIONS_FILE}`);
+  }
+  return JSON.parse(strFromU8(inflateEntry(bytes, name, maxBytes)));
+}
+
+/**
+ * Detect which assistant produced an export and map it to chats. Returns null
+ * when the format is not recognised.
+ */
+export function parseImport(data: unknown): ParsedImport | null {
+  if (isSciraExport(data)) return parseSciraExport(data);
+  if (isChatGPTExport(data)) return parseChatGPTExport(data as unknown[]);
+  if (isClaudeExport(data)) return parseClaudeExport(data as unknown[]);
+  return null;
+}
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { CHAT_EXPORT_FORMAT, CHAT_EXPORT_VERSION } from '@/lib/export/chat-export';
+import { type ImportedChat, type ParsedImport, SkipReport } from './common';
+
+const exportedMessageSchema = z.object({
+  id: z.string(),
+  parentId: z.string().nullable().optional(),
+  role: z.string(),
+  parts: z.array(z.unknown()),
+  attachments: z.array(z.unknown()).default([]),
+  createdAt: z.string(),
+  model: z.string().nullable().default(null),
+  searchGroup: z.string().nullable().default(null),
+  inputTokens: z.number().nullable().default(null),
+  outputTokens: z.number().nullable().default(null),
+  totalTokens: z.number().nullable().default(null),
+  completionTime: z.number().nullable().default(null),
+});
+
+const chatExportSchema = z.object({
+  format: z.literal(CHAT_EXPORT_FORMAT),
+  version: z.number(),
+  chat: z.object({
+    title: z.string(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    activeMessageId: z.string().nullable().optional(),
+  }),
+  messages: z.array(z.unknown()),
+});
+
+export function isSciraExport(data: unknown): boolean {
+  const first = Array.isArray(data) ? data[0] : data;
+  return !!first && typeof first === 'object' && (first as { format?: unknown }).format === CHAT_EXPORT_FORMAT;
+}
+
+/**
+ * Parse one or more files produced by the chat export (lib/export). Parts are
+ * imported as stored, so tool results render exactly as they did originally.
+ */
+export function parseSciraExport(data: unknown): ParsedImport {
+  const result: ParsedImport = { source: 'scira', chats: [], skipped: [] };
+
+  for (const item of Array.isArray(data) ? data : [data]) {
+    const parsed = chatExportSchema.safeParse(item);
+    if (!parsed.success) {
+      result.skipped.push({ chat: null, reason: 'Not a valid Scira chat export', count: 1 });
+      continue;
+    }
+
+    const { chat, version, messages } = parsed.data;
+    if (version > CHAT_EXPORT_VERSION) {
+      result.skipped.push({ chat: chat.title, reason: `Unsupported export version ${version}`, count: 1 });
+      continue;
+    }
+
+    const skipped = new SkipReport(chat.title);
+    const imported: ImportedChat = {
+      title: chat.title,
+      createdAt: new Date(chat.createdAt),
+      updatedAt: new Date(chat.updatedAt),
+      activeMessageId: chat.activeMessageId,
+      messages: [],
+    };
+
+    for (const message of messages) {
+      const parsedMessage = exportedMessageSchema.safeParse(message);
+      if (!parsedMessage.success) {
+        skipped.add('Malformed messages');
+        continue;
+      }
+      const { createdAt, ...fields } = parsedMessage.data;
+      imported.messages.push({ ...fields, createdAt: new Date(createdAt) });
+    }
+
+    result.skipped.push(...skipped.items());
+    if (imported.messages.length === 0) {
+      result.skipped.push({ chat: chat.title, reason: 'No importable messages', count: 1 });
+      continue;
+    }
+    result.chats.push(imported);
+  }
+
+  return result;
+}
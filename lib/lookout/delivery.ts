@@ -0,0 +1,277 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { v7 as uuidv7 } from 'uuid';
+import { serverEnv } from '@/env/server';
+import { isPrivateAddress, resolvesToPrivateAddress } from '@/lib/private-address';
+import { getLookoutDeliveryTargets, recordLookoutDeliveries } from '@/lib/db/queries';
+import type {
+  Lookout,
+  LookoutDeliveryChannel,
+  LookoutDeliveryTarget,
+  LookoutRunChange,
+  LookoutRunDigest,
+} from '@/lib/db/schema';
+
+export const LOOKOUT_SIGNATURE_HEADER = 'X-Scira-Signature';
+
+const MAX_CITATIONS = 5;
+const MAX_SUMMARY_LENGTH = 2000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export interface LookoutDeliveryPayload {
+  event: 'lookout.run.completed';
+  lookout: { id: string; title: string };
+  run: {
+    id: string;
+    runAt: string;
+    chatUrl: string;
+    change: LookoutRunChange;
+    summary: string;
+    whatsNew?: string;
+    citations: Array<{ url: string; title: string }>;
+  };
+}
+
+interface DeliveryResult {
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+}
+
+/**
+ * Secret generic webhooks are signed with. Shown to the owner so receivers can
+ * verify the signature header.
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature header value for a webhook body: `t=<unix seconds>,v1=<hex>`, where
+ * v1 is the HMAC-SHA256 of `<t>.<body>` keyed with the target's secret.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a delivery target URL before it is saved. Returns an error message or null.
+ * The host must resolve to public addresses only; deliveries check again before
+ * every attempt since DNS can change after the target is saved.
+ */
+export async function validateDeliveryUrl(channel: LookoutDeliveryChannel, url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Enter a valid URL';
+  }
+
+  if (parsed.protocol !== 'https:') return 'Delivery URLs must use https';
+  if (parsed.username || parsed.password) return 'Delivery URLs cannot contain credentials';
+  if (isPrivateAddress(parsed.hostname)) return 'Delivery URLs must point to a public host';
+
+  if (
+    channel === 'discord' &&
+    (!/^(?:\w+\.)?discord(?:app)?\.com$/.test(parsed.hostname) || !parsed.pathname.startsWith('/api/webhooks/'))
+  ) {
+    return 'Use a Discord webhook URL (https://discord.com/api/webhooks/...)';
+  }
+  if (await resolvesToPrivateAddress(parsed.hostname)) return 'Delivery URLs must point to a public host';
+
+  return null;
+}
+
+// Markdown links and emphasis in Slack's mrkdwn dialect
+function toSlackMrkdwn(markdown: string): string {
+  return markdown
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<$2|$1>')
+    .replace(/\*\*([^*]+)\*\*/g, '*$1*')
+    .replace(/^#{1,6}\s+(.*)$/gm, '*$1*');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+// Short notice for chat apps when nothing changed, the full summary otherwise
+function chatMessageBody(payload: LookoutDeliveryPayload): string {
+  if (payload.run.change === 'no_change') return 'No material changes since the last run.';
+  return payload.run.whatsNew ? `What's new:\n${payload.run.whatsNew}` : payload.run.summary;
+}
+
+function formatSlackMessage(payload: LookoutDeliveryPayload) {
+  const { lookout, run } = payload;
+  const blocks: unknown[] = [
+    { type: 'header', text: { type: 'plain_text', text: truncate(`Lookout: ${lookout.title}`, 150) } },
+    { type: 'section', text: { type: 'mrkdwn', text: truncate(toSlackMrkdwn(chatMessageBody(payload)), 3000) } },
+  ];
+
+  if (run.change === 'changed' && run.citations.length > 0) {
+    blocks.push({
+      type: 'context',
+      elements: run.citations.map((citation) => ({
+        type: 'mrkdwn',
+        text: truncate(`<${citation.url}|${toSlackMrkdwn(citation.title)}>`, 300),
+      })),
+    });
+  }
+  blocks.push({ type: 'section', text: { type: 'mrkdwn', text: `<${run.chatUrl}|Open the full report in Scira>` } });
+
+  return { text: `Lookout: ${lookout.title}`, blocks };
+}
+
+function formatDiscordMessage(payload: LookoutDeliveryPayload) {
+  const { lookout, run } = payload;
+  const sources = run.citations.map((citation) => `[${truncate(citation.title, 80)}](${citation.url})`).join('\n');
+
+  return {
+    username: 'Scira Lookout',
+    embeds: [
+      {
+        title: truncate(lookout.title, 256),
+        url: run.chatUrl,
+        description: truncate(chatMessageBody(payload), 4000),
+        color: run.change === 'changed' ? 0x3b82f6 : 0x6b7280,
+        fields: run.change === 'changed' && sources ? [{ name: 'Sources', value: truncate(sources, 1024) }] : [],
+        timestamp: run.runAt,
+      },
+    ],
+  };
+}
+
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds >= 0) {
+    return Math.min(retryAfterSeconds * 1000, MAX_RETRY_DELAY_MS);
+  }
+  return Math.min(1000 * 2 ** (attempt - 1) + Math.random() * 250, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * POST a JSON body, retrying network errors, timeouts, 429s and 5xx responses
+ * with exponential backoff. Redirects are not followed, and the host is
+ * resolved again before each attempt so a rebound DNS record cannot reach a
+ * private address.
+ */
+async function postWithRetry(
+  url: string,
+  body: string,
+  headers: () => Record<string, string>,
+): Promise<DeliveryResult> {
+  const maxAttempts = serverEnv.LOOKOUT_DELIVERY_MAX_ATTEMPTS;
+  let lastError = 'Delivery failed';
+  let responseStatus: number | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let retryAfter: string | null = null;
+
+    try {
+      if (await resolvesToPrivateAddress(new URL(url).hostname)) {
+        throw new Error('Delivery URL does not resolve to a public host');
+      }
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'Scira-Lookout/1.0', ...headers() },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(serverEnv.LOOKOUT_DELIVERY_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      await response.body?.cancel();
+
+      if (response.ok) return { attempts: attempt, responseStatus };
+
+      lastError = `HTTP ${response.status}`;
+      if (response.status !== 408 && response.status !== 429 && response.status < 500) {
+        return { attempts: attempt, responseStatus, error: lastError };
+      }
+      retryAfter = response.headers.get('retry-after');
+    } catch (error) {
+      responseStatus = undefined;
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (attempt < maxAttempts) {
+      await new Promise((resolve) => setTimeout(resolve, retryDelay(attempt, retryAfter)));
+    }
+  }
+
+  return { attempts: maxAttempts, responseStatus, error: lastError };
+}
+
+function deliverToTarget(target: LookoutDeliveryTarget, payload: LookoutDeliveryPayload): Promise<DeliveryResult> {
+  switch (target.channel) {
+    case 'slack':
+      return postWithRetry(target.url, JSON.stringify(formatSlackMessage(payload)), () => ({}));
+    case 'discord':
+      return postWithRetry(target.url, JSON.stringify(formatDiscordMessage(payload)), () => ({}));
+    case 'webhook': {
+      const body = JSON.stringify(payload);
+      const deliveryId = uuidv7();
+      // Re-signed on every attempt so the timestamp stays fresh for replay checks
+      return postWithRetry(target.url, body, () => ({
+        'X-Scira-Event': payload.event,
+        'X-Scira-Delivery': deliveryId,
+        ...(target.secret ? { [LOOKOUT_SIGNATURE_HEADER]: signWebhookPayload(target.secret, body) } : {}),
+      }));
+    }
+  }
+}
+
+/**
+ * Send a finished run to every enabled delivery target of its lookout and log
+ * the outcome on the run. Slack and Discord targets follow the lookout's
+ * no-change setting; generic webhooks receive every run.
+ */
+export async function deliverLookoutRun({
+  lookout,
+  runId,
+  chatId,
+  response,
+  change,
+  digest,
+  whatsNew,
+}: {
+  lookout: Pick<Lookout, 'id' | 'title' | 'noChangeEmail'>;
+  runId: string;
+  chatId: string;
+  response: string;
+  change: LookoutRunChange;
+  digest: LookoutRunDigest;
+  whatsNew?: string;
+}): Promise<void> {
+  const targets = (await getLookoutDeliveryTargets({ lookoutId: lookout.id, enabledOnly: true })).filter(
+    (target) => target.channel === 'webhook' || change === 'changed' || lookout.noChangeEmail !== 'skip',
+  );
+  if (targets.length === 0) return;
+
+  const payload: LookoutDeliveryPayload = {
+    event: 'lookout.run.completed',
+    lookout: { id: lookout.id, title: lookout.title },
+    run: {
+      id: runId,
+      runAt: new Date().toISOString(),
+      chatUrl: `https://scira.ai/search/${chatId}`,
+      change,
+      summary: truncate(response.trim() || 'No response available.', MAX_SUMMARY_LENGTH),
+      whatsNew,
+      citations: digest.sources.slice(0, MAX_CITATIONS),
+    },
+  };
+
+  const results = await Promise.all(
+    targets.map(async (target) => {
+      const result = await deliverToTarget(target, payload);
+      if (result.error) {
+        console.error(`[LookoutDelivery] ${target.channel} target ${target.id} failed:`, result.error);
+      }
+      return { targetId: target.id, channel: target.channel, ...result };
+    }),
+  );
+
+  await recordLookoutDeliveries({ runId, deliveries: results });
+}
@@ -0,0 +1,113 @@
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { scira } from '@/ai/providers';
+import type { LookoutRunChange, LookoutRunDigest } from '@/lib/db/schema';
+
+const MAX_FINDINGS = 20;
+const MAX_SOURCES = 50;
+
+export interface LookoutDigestComparison {
+  change: LookoutRunChange;
+  whatsNew?: string;
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (key.startsWith('utm_')) parsed.searchParams.delete(key);
+    }
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return url;
+  }
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Pulls the structured digest out of a lookout response: the bullets under the
+ * "## Key Points" heading the lookout prompt mandates, plus every cited URL.
+ */
+export function buildLookoutDigest(responseText: string): LookoutRunDigest {
+  const keyPointsMatch = responseText.match(/^##\s*Key Points\s*$([\s\S]*?)(?=^##\s|(?![\s\S]))/im);
+  const findings = (keyPointsMatch?.[1] ?? '')
+    .split('\n')
+    .map((line) => line.match(/^\s*(?:[-*+]|\d+\.)\s+(.*)$/)?.[1])
+    .filter((line): line is string => Boolean(line))
+    .map(stripMarkdown)
+    .filter(Boolean)
+    .slice(0, MAX_FINDINGS);
+
+  const sources = new Map<string, { url: string; title: string }>();
+  for (const match of responseText.matchAll(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g)) {
+    const url = normalizeUrl(match[2]);
+    if (!sources.has(url)) sources.set(url, { url, title: stripMarkdown(match[1]) });
+  }
+
+  return { keyFindings: findings, sources: [...sources.values()].slice(0, MAX_SOURCES) };
+}
+
+/**
+ * Decides whether a run materially changed since the previous one and, if so,
+ * writes a short "what's new" section. Identical digests short-circuit without
+ * a model call; the first run of a lookout always counts as changed.
+ */
+export async function compareLookoutDigests(
+  previous: LookoutRunDigest | undefined,
+  current: LookoutRunDigest,
+): Promise<LookoutDigestComparison> {
+  if (!previous) return { change: 'changed' };
+
+  const previousUrls = new Set(previous.sources.map((source) => source.url));
+  const newSources = current.sources.filter((source) => !previousUrls.has(source.url));
+  const previousFindings = new Set(previous.keyFindings.map((finding) => finding.toLowerCase()));
+  const newFindings = current.keyFindings.filter((finding) => !previousFindings.has(finding.toLowerCase()));
+
+  if (newSources.length === 0 && newFindings.length === 0) {
+    return { change: 'no_change' };
+  }
+
+  try {
+    const { object } = await generateObject({
+      model: scira.languageModel('scira-default'),
+      schema: z.object({
+        materiallyChanged: z
+          .boolean()
+          .describe('True only if the current findings contain new facts, developments or numbers.'),
+        whatsNew: z
+          .string()
+          .describe(
+            'Markdown bullet list of what is new since the previous run, with source links. Empty if unchanged.',
+          ),
+      }),
+      system: `You compare two runs of a recurring research report. Rewordings, reordering and new sources that repeat known facts are not material changes. Only report developments that are genuinely new in the current run.`,
+      prompt: `## Previous key findings
+${previous.keyFindings.map((finding) => `- ${finding}`).join('\n') || '(none)'}
+
+## Current key findings
+${current.keyFindings.map((finding) => `- ${finding}`).join('\n') || '(none)'}
+
+## Sources cited for the first time
+${newSources.map((source) => `- [${source.title}](${source.url})`).join('\n') || '(none)'}`,
+    });
+
+    return object.materiallyChanged && object.whatsNew.trim()
+      ? { change: 'changed', whatsNew: object.whatsNew.trim() }
+      : { change: 'no_change' };
+  } catch (error) {
+    console.error('[Lookout] Failed to compare run digests:', error);
+    // Err on the side of notifying rather than silently dropping a real update
+    return {
+      change: 'changed',
+      whatsNew: newFindings.length > 0 ? newFindings.map((finding) => `- ${finding}`).join('\n') : undefined,
+    };
+  }
+}
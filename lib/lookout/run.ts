@@ -0,0 +1,592 @@
+import { generateTitleFromUserMessage, getGroupConfig } from '@/app/actions';
+import {
+  convertToModelMessages,
+  streamText,
+  createUIMessageStream,
+  stepCountIs,
+  JsonToSseTransformStream,
+  type Tool,
+  type UIMessageStreamWriter,
+} from 'ai';
+import { canUseModel, getModelParameters, scira } from '@/ai/providers';
+import {
+  createStreamId,
+  saveChat,
+  saveMessages,
+  incrementExtremeSearchUsage,
+  updateChatTitleById,
+  getLookoutById,
+  updateLookoutLastRun,
+  updateLookout,
+  updateLookoutStatus,
+  getUserById,
+  getLatestLookoutRunDigest,
+} from '@/lib/db/queries';
+import { createResumableStreamContext, type ResumableStreamContext } from 'resumable-stream';
+import { after } from 'next/server';
+import { v7 as uuidv7 } from 'uuid';
+import { sendLookoutCompletionEmail } from '@/lib/email';
+import { buildLookoutDigest, compareLookoutDigests } from '@/lib/lookout/digest';
+import { deliverLookoutRun } from '@/lib/lookout/delivery';
+import { calculateNextRun } from '@/lib/lookout/schedule';
+import { indexResearchMessages } from '@/lib/research/memory';
+import { hasActiveProGrant } from '@/lib/user-data-server';
+import { db } from '@/lib/db';
+import { subscription, dodosubscription, type Lookout, type User } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+
+import { getLookoutSystemPrompt, LOOKOUT_RESEARCH_DEPTHS } from '@/lib/lookout/prompt';
+import {
+  academicSearchTool,
+  coinDataByContractTool,
+  coinDataTool,
+  coinOhlcTool,
+  currencyConverterTool,
+  datetimeTool,
+  extremeSearchTool,
+  redditSearchTool,
+  retrieveTool,
+  stockChartTool,
+  webSearchTool,
+  xSearchTool,
+} from '@/lib/tools';
+import { ChatMessage } from '@/lib/types';
+
+// Helper function to check if a user is pro: an admin grant or an active subscription
+async function checkUserIsPro(user: Pick<User, 'id' | 'proGrantedUntil'>): Promise<boolean> {
+  if (hasActiveProGrant(user.proGrantedUntil)) {
+    return true;
+  }
+
+  const userId = user.id;
+  try {
+    // Check for active Polar subscription
+    const polarSubscriptions = await db.select().from(subscription).where(eq(subscription.userId, userId));
+
+    // Check if any Polar subscription is active
+    const activePolarSubscription = polarSubscriptions.find((sub) => {
+      const now = new Date();
+      const isActive = sub.status === 'active' && new Date(sub.currentPeriodEnd) > now;
+      return isActive;
+    });
+
+    if (activePolarSubscription) {
+      return true;
+    }
+
+    // Check for Dodo subscriptions
+    const dodoSubscriptions = await db.select().from(dodosubscription).where(eq(dodosubscription.userId, userId));
+
+    // Check if any Dodo subscription is active
+    const activeDodoSubscription = dodoSubscriptions.find((sub) => {
+      const now = new Date();
+      const isActive = sub.status === 'active' && (!sub.currentPeriodEnd || new Date(sub.currentPeriodEnd) > now);
+      return isActive;
+    });
+
+    if (activeDodoSubscription) {
+      return true;
+    }
+
+    return false;
+  } catch (error) {
+    console.error('Error checking pro status:', error);
+    return false; // Fail closed - don't allow access if we can't verify
+  }
+}
+
+const DEFAULT_LOOKOUT_MODEL = 'scira-grok-4-fast-think';
+
+// Tools a lookout can run unattended; chat-only tools in a search group are left out
+const LOOKOUT_TOOL_NAMES = [
+  'extreme_search',
+  'web_search',
+  'retrieve',
+  'academic_search',
+  'reddit_search',
+  'x_search',
+  'stock_chart',
+  'currency_converter',
+  'coin_data',
+  'coin_ohlc',
+  'coin_data_by_contract',
+  'datetime',
+] as const;
+
+type LookoutToolName = (typeof LOOKOUT_TOOL_NAMES)[number];
+
+function createLookoutTools(dataStream: UIMessageStreamWriter<ChatMessage>): Record<LookoutToolName, Tool> {
+  return {
+    extreme_search: extremeSearchTool(dataStream),
+    web_search: webSearchTool(dataStream),
+    retrieve: retrieveTool,
+    academic_search: academicSearchTool(dataStream),
+    reddit_search: redditSearchTool(dataStream),
+    x_search: xSearchTool(dataStream),
+    stock_chart: stockChartTool,
+    currency_converter: currencyConverterTool,
+    coin_data: coinDataTool,
+    coin_ohlc: coinOhlcTool,
+    coin_data_by_contract: coinDataByContractTool,
+    datetime: datetimeTool,
+  };
+}
+
+let globalStreamContext: ResumableStreamContext | null = null;
+
+function getStreamContext() {
+  if (!globalStreamContext) {
+    try {
+      globalStreamContext = createResumableStreamContext({
+        waitUntil: after,
+      });
+    } catch (error: any) {
+      if (error.message.includes('REDIS_URL')) {
+        console.log(' > Resumable streams are disabled due to missing REDIS_URL');
+      } else {
+        console.error(error);
+      }
+    }
+  }
+
+  return globalStreamContext;
+}
+
+export interface LookoutRunRequest {
+  lookoutId: string;
+  prompt: string;
+  userId: string;
+}
+
+/**
+ * Run a lookout once: extreme search, save the chat, record the run and send the
+ * email. Shared by POST /api/lookout (QStash) and the Postgres scheduler, which
+ * runs outside a request and so disables resumable streams.
+ */
+export async function runLookout(
+  { lookoutId, prompt, userId }: LookoutRunRequest,
+  { resumable = true }: { resumable?: boolean } = {},
+): Promise<Response> {
+  const requestStartTime = Date.now();
+  let runDuration = 0;
+  let runError: string | undefined;
+  let runRecorded = false;
+
+  try {
+    console.log('--------------------------------');
+    console.log('Lookout ID:', lookoutId);
+    console.log('User ID:', userId);
+    console.log('Prompt:', prompt);
+    console.log('--------------------------------');
+
+    // Verify lookout exists and get details with retry logic
+    let lookout: Lookout | null = null;
+    let retryCount = 0;
+    const maxRetries = 3;
+
+    while (!lookout && retryCount < maxRetries) {
+      lookout = await getLookoutById({ id: lookoutId });
+      if (!lookout) {
+        retryCount++;
+        if (retryCount < maxRetries) {
+          console.log(`Lookout not found on attempt ${retryCount}, retrying in ${retryCount * 500}ms...`);
+          await new Promise((resolve) => setTimeout(resolve, retryCount * 500)); // Exponential backoff
+        }
+      }
+    }
+
+    if (!lookout) {
+      console.error('Lookout not found after', maxRetries, 'attempts:', lookoutId);
+      return new Response('Lookout not found', { status: 404 });
+    }
+
+    // Get user details
+    const userResult = await getUserById(userId);
+    if (!userResult) {
+      console.error('User not found:', userId);
+      return new Response('User not found', { status: 404 });
+    }
+    if (userResult.suspendedAt) {
+      console.error('User is suspended, cannot run lookout:', userId);
+      return new Response('Account suspended', { status: 403 });
+    }
+
+    // Check if user is pro (lookouts are a pro feature)
+    const isUserPro = await checkUserIsPro(userResult);
+    if (!isUserPro) {
+      console.error('User is not pro, cannot run lookout:', userId);
+      return new Response('Lookouts require a Pro subscription', { status: 403 });
+    }
+
+    // Resolve the lookout's model and tools; a model that was removed or is no longer allowed falls back to the default
+    const model = canUseModel(lookout.model, userResult, isUserPro).canUse ? lookout.model : DEFAULT_LOOKOUT_MODEL;
+    const { tools: groupTools } = await getGroupConfig(lookout.searchGroup);
+    const activeTools = groupTools.filter((tool): tool is LookoutToolName =>
+      (LOOKOUT_TOOL_NAMES as readonly string[]).includes(tool),
+    );
+
+    // Generate a new chat ID for this scheduled search
+    const chatId = uuidv7();
+    const streamId = 'stream-' + uuidv7();
+
+    // Create the chat
+    await saveChat({
+      id: chatId,
+      userId: userResult.id,
+      organizationId: lookout.organizationId,
+      title: `Scheduled: ${lookout.title}`,
+      visibility: 'private',
+    });
+
+    // Create user message
+    const userMessage = {
+      id: uuidv7(),
+      role: 'user' as const,
+      content: prompt,
+      parts: [{ type: 'text' as const, text: prompt }],
+      experimental_attachments: [],
+    };
+
+    // Save user message and create stream ID
+    await Promise.all([
+      saveMessages({
+        messages: [
+          {
+            chatId,
+            id: userMessage.id,
+            parentId: null,
+            role: 'user',
+            parts: userMessage.parts,
+            attachments: [],
+            createdAt: new Date(),
+            model,
+            searchGroup: lookout.searchGroup,
+            completionTime: null,
+            inputTokens: null,
+            outputTokens: null,
+            totalTokens: null,
+          },
+        ],
+      }),
+      createStreamId({ streamId, chatId }),
+    ]);
+
+    // Set lookout status to running
+    await updateLookoutStatus({
+      id: lookoutId,
+      status: 'running',
+    });
+
+    // Create data stream with execute function
+    const stream = createUIMessageStream<ChatMessage>({
+      execute: async ({ writer: dataStream }) => {
+        const streamStartTime = Date.now();
+
+        // Record a failed run (once) and take the lookout out of 'running'; one-time lookouts don't get another attempt
+        const recordFailedRun = async (error: string) => {
+          if (!runRecorded) {
+            runRecorded = true;
+            runDuration = Date.now() - requestStartTime;
+            runError = error;
+            try {
+              await updateLookoutLastRun({
+                id: lookoutId,
+                lastRunAt: new Date(),
+                lastRunChatId: chatId,
+                runStatus: 'error',
+                error: runError,
+                duration: runDuration,
+                model,
+              });
+            } catch (updateError) {
+              console.error('Failed to update lookout with error info:', updateError);
+            }
+          }
+
+          try {
+            await updateLookoutStatus({
+              id: lookoutId,
+              status: lookout.frequency === 'once' ? 'paused' : 'active',
+            });
+            console.log('Reset lookout status after error');
+          } catch (statusError) {
+            console.error('Failed to reset lookout status after error:', statusError);
+          }
+        };
+
+        // Start streaming
+        const result = streamText({
+          model: scira.languageModel(model),
+          messages: await convertToModelMessages([userMessage]),
+          ...getModelParameters(model),
+          // Extreme search is a single tool call followed by the report
+          stopWhen: stepCountIs(
+            lookout.searchGroup === 'extreme' ? 2 : LOOKOUT_RESEARCH_DEPTHS[lookout.researchDepth].maxSteps,
+          ),
+          maxRetries: 10,
+          activeTools,
+          system: getLookoutSystemPrompt({
+            searchGroup: lookout.searchGroup,
+            researchDepth: lookout.researchDepth,
+            tools: activeTools,
+          }),
+          toolChoice: 'auto',
+          tools: createLookoutTools(dataStream),
+          onChunk(event) {
+            if (event.chunk.type === 'tool-call') {
+              console.log('Called Tool: ', event.chunk.toolName);
+            }
+          },
+          onStepFinish(event) {
+            if (event.warnings) {
+              console.log('Warnings: ', event.warnings);
+            }
+          },
+          onFinish: async (event) => {
+            console.log('Finish reason: ', event.finishReason);
+            console.log('Steps: ', event.steps);
+            console.log('Usage: ', event.usage);
+
+            // Running out of steps or tokens still leaves a usable answer, so only an
+            // error finish counts as a failed run
+            if (event.finishReason === 'error') {
+              await recordFailedRun('The model stopped with an error');
+            } else {
+              try {
+                // Generate title for the chat
+                const title = await generateTitleFromUserMessage({
+                  message: userMessage,
+                });
+
+                console.log('Generated title: ', title);
+
+                // Update the chat with the generated title
+                await updateChatTitleById({
+                  chatId,
+                  title: `Scheduled: ${title}`,
+                });
+
+                // Track extreme search usage
+                const extremeSearchUsed = event.steps?.some((step) =>
+                  step.toolCalls?.some((toolCall) => toolCall.toolName === 'extreme_search'),
+                );
+
+                if (extremeSearchUsed) {
+                  console.log('Extreme search was used, incrementing count');
+                  await incrementExtremeSearchUsage({ userId: userResult.id });
+                }
+
+                // Calculate run duration
+                runDuration = Date.now() - requestStartTime;
+
+                // Count searches performed (look for extreme_search tool calls)
+                const searchesPerformed =
+                  event.steps?.reduce((total, step) => {
+                    return total + (step.toolCalls?.filter((call) => call.toolName === 'extreme_search').length || 0);
+                  }, 0) || 0;
+
+                // Extract assistant response - use event.text which contains the full response
+                let assistantResponseText = event.text || '';
+
+                // If event.text is empty, try extracting from messages
+                if (!assistantResponseText.trim()) {
+                  const assistantMessages = event.response.messages.filter((msg: any) => msg.role === 'assistant');
+
+                  for (const msg of assistantMessages) {
+                    if (typeof msg.content === 'string') {
+                      assistantResponseText += msg.content + '\n';
+                    } else if (Array.isArray(msg.content)) {
+                      const textContent = msg.content
+                        .filter((part: any) => part.type === 'text')
+                        .map((part: any) => part.text)
+                        .join('\n');
+                      assistantResponseText += textContent + '\n';
+                    }
+                  }
+                }
+
+                // Compare this run's digest with the last successful run's
+                const digest = buildLookoutDigest(assistantResponseText);
+                const previousDigest = await getLatestLookoutRunDigest({ lookoutId });
+                const { change, whatsNew } = await compareLookoutDigests(previousDigest, digest);
+                console.log('Lookout run change:', change);
+
+                // Update lookout with last run info including metrics
+                const { runId } = await updateLookoutLastRun({
+                  id: lookoutId,
+                  lastRunAt: new Date(),
+                  lastRunChatId: chatId,
+                  runStatus: 'success',
+                  duration: runDuration,
+                  tokensUsed: event.usage?.totalTokens,
+                  searchesPerformed,
+                  model,
+                  change,
+                  digest,
+                  whatsNew,
+                });
+                runRecorded = true;
+
+                // Calculate next run time for recurring lookouts
+                if (lookout.frequency !== 'once' && lookout.cronSchedule) {
+                  try {
+                    const nextRunAt = calculateNextRun(lookout.cronSchedule, lookout.timezone);
+
+                    await updateLookout({
+                      id: lookoutId,
+                      nextRunAt,
+                    });
+                  } catch (error) {
+                    console.error('Error calculating next run time:', error);
+                  }
+                }
+
+                // Send completion email to user, unless nothing changed and the lookout opts out
+                const noChangeEmail = change === 'no_change' ? lookout.noChangeEmail : 'full';
+                if (noChangeEmail === 'skip') {
+                  console.log('📧 No material change since last run, skipping email');
+                } else if (userResult.email) {
+                  try {
+                    console.log('📧 Assistant response length:', assistantResponseText.length);
+                    console.log('📧 First 200 chars:', assistantResponseText.substring(0, 200));
+
+                    const trimmedResponse = assistantResponseText.trim() || 'No response available.';
+                    const finalResponse =
+                      trimmedResponse.length > 2000 ? trimmedResponse.substring(0, 2000) + '...' : trimmedResponse;
+
+                    await sendLookoutCompletionEmail({
+                      to: userResult.email,
+                      chatTitle: title,
+                      assistantResponse: finalResponse,
+                      chatId,
+                      whatsNew,
+                      condensed: noChangeEmail === 'condensed',
+                    });
+                  } catch (emailError) {
+                    console.error('Failed to send completion email:', emailError);
+                  }
+                }
+
+                // Post to the lookout's webhook, Slack and Discord targets
+                try {
+                  await deliverLookoutRun({
+                    lookout,
+                    runId,
+                    chatId,
+                    response: assistantResponseText,
+                    change,
+                    digest,
+                    whatsNew,
+                  });
+                } catch (deliveryError) {
+                  console.error('Failed to deliver lookout run:', deliveryError);
+                }
+
+                // Set lookout status back to active after successful completion; one-time lookouts are done
+                await updateLookoutStatus({
+                  id: lookoutId,
+                  status: lookout.frequency === 'once' ? 'paused' : 'active',
+                });
+
+                console.log('Scheduled search completed successfully');
+              } catch (error) {
+                console.error('Error in onFinish:', error);
+                await recordFailedRun(error instanceof Error ? error.message : 'Failed to record the run');
+              }
+            }
+
+            // Calculate and log overall request processing time
+            const requestEndTime = Date.now();
+            const processingTime = (requestEndTime - requestStartTime) / 1000;
+            console.log('--------------------------------');
+            console.log(`Total request processing time: ${processingTime.toFixed(2)} seconds`);
+            console.log('--------------------------------');
+          },
+          onError: async (event) => {
+            console.log('Error: ', event.error);
+
+            await recordFailedRun((event.error as string) || 'Unknown error occurred');
+
+            const requestEndTime = Date.now();
+            const processingTime = (requestEndTime - requestStartTime) / 1000;
+            console.log('--------------------------------');
+            console.log(`Request processing time (with error): ${processingTime.toFixed(2)} seconds`);
+            console.log('--------------------------------');
+          },
+        });
+
+        result.consumeStream();
+
+        dataStream.merge(
+          result.toUIMessageStream({
+            sendReasoning: true,
+            messageMetadata: ({ part }) => {
+              if (part.type === 'finish') {
+                console.log('Finish part: ', part);
+                const processingTime = (Date.now() - streamStartTime) / 1000;
+                return {
+                  model,
+                  completionTime: processingTime,
+                  createdAt: new Date().toISOString(),
+                  totalTokens: part.totalUsage?.totalTokens ?? null,
+                  inputTokens: part.totalUsage?.inputTokens ?? null,
+                  outputTokens: part.totalUsage?.outputTokens ?? null,
+                };
+              }
+            },
+          }),
+        );
+      },
+      onError(error) {
+        console.log('Error: ', error);
+        return 'Oops, an error occurred in scheduled search!';
+      },
+      onFinish: async ({ messages }) => {
+        if (userId) {
+          // Validate user exists, is not suspended and is Pro user
+          const user = await getUserById(userId);
+          const isUserPro = user && !user.suspendedAt ? await checkUserIsPro(user) : false;
+
+          if (user && isUserPro) {
+            await saveMessages({
+              messages: messages.map((message, index) => ({
+                id: message.id,
+                parentId: index > 0 ? messages[index - 1].id : userMessage.id,
+                role: message.role,
+                parts: message.parts,
+                createdAt: new Date(),
+                attachments: [],
+                chatId: chatId,
+                model,
+                searchGroup: lookout.searchGroup,
+                completionTime: message.metadata?.completionTime ?? 0,
+                inputTokens: message.metadata?.inputTokens ?? 0,
+                outputTokens: message.metadata?.outputTokens ?? 0,
+                totalTokens: message.metadata?.totalTokens ?? 0,
+              })),
+            });
+            // Not after(): the Postgres scheduler runs lookouts outside any request scope
+            void indexResearchMessages({ userId, chatId, messages }).catch((error) =>
+              console.error('Failed to index lookout research:', error),
+            );
+          } else {
+            console.error('User validation failed in onFinish - user not found or not pro:', userId);
+          }
+        }
+      },
+    });
+
+    const streamContext = resumable ? getStreamContext() : null;
+
+    if (streamContext) {
+      return new Response(
+        await streamContext.resumableStream(streamId, () => stream.pipeThrough(new JsonToSseTransformStream())),
+      );
+    } else {
+      return new Response(stream.pipeThrough(new JsonToSseTransformStream()));
+    }
+  } catch (error) {
+    console.error('Error in lookout API:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
@@ -0,0 +1,146 @@
+import { CronExpressionParser } from 'cron-parser';
+
+// Shared by the lookout server actions, the lookout API route and the lookout form,
+// so next-run display and QStash scheduling always agree.
+
+export type LookoutFrequency = 'once' | 'hourly' | 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+export const HOURLY_INTERVALS = [1, 2, 3, 4, 6, 8, 12] as const;
+
+// Lookouts run a full extreme search, so anything tighter than hourly is rejected
+const MIN_RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface LookoutSchedule {
+  frequency: LookoutFrequency;
+  time: string; // "HH:MM"
+  timezone: string;
+  daysOfWeek?: string[]; // '0' (Sunday) - '6' (Saturday), for weekly
+  intervalHours?: number; // for hourly
+  dayOfMonth?: number; // for monthly
+  cronExpression?: string; // five-field expression, for custom
+}
+
+/**
+ * Strip the QStash "CRON_TZ=<zone>" prefix from a stored schedule.
+ */
+export function stripCronTimezone(cronSchedule: string): string {
+  return cronSchedule.startsWith('CRON_TZ=') ? cronSchedule.split(' ').slice(1).join(' ') : cronSchedule;
+}
+
+/**
+ * Check a user-supplied five-field cron expression. Returns an error message, or
+ * null when the expression is usable for a lookout.
+ */
+export function validateCronExpression(expression: string, timezone: string = 'UTC'): string | null {
+  const trimmed = expression.trim();
+  if (trimmed.split(/\s+/).length !== 5) {
+    return 'Use a five-field cron expression: minute hour day-of-month month day-of-week';
+  }
+
+  try {
+    const runs = CronExpressionParser.parse(trimmed, { currentDate: new Date(), tz: timezone }).take(5);
+    const dates = runs.map((run) => run.toDate().getTime());
+    for (let i = 1; i < dates.length; i++) {
+      if (dates[i] - dates[i - 1] < MIN_RUN_INTERVAL_MS) {
+        return 'Lookouts can run at most once per hour';
+      }
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+/**
+ * Build the stored/QStash cron schedule for a lookout. Returns an empty string for
+ * one-time lookouts, which are scheduled by date instead.
+ */
+export function buildCronSchedule(schedule: LookoutSchedule): string {
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+
+  let cronExpression: string;
+  switch (schedule.frequency) {
+    case 'once':
+      return '';
+    case 'hourly': {
+      const interval = schedule.intervalHours ?? 1;
+      cronExpression = `${minutes} ${interval === 1 ? '*' : `*/${interval}`} * * *`;
+      break;
+    }
+    case 'weekdays':
+      cronExpression = `${minutes} ${hours} * * 1-5`;
+      break;
+    case 'weekly': {
+      const days = [...new Set(schedule.daysOfWeek?.length ? schedule.daysOfWeek : ['0'])].sort();
+      cronExpression = `${minutes} ${hours} * * ${days.join(',')}`;
+      break;
+    }
+    case 'monthly':
+      cronExpression = `${minutes} ${hours} ${schedule.dayOfMonth ?? 1} * *`;
+      break;
+    case 'yearly':
+      cronExpression = `${minutes} ${hours} 1 1 *`;
+      break;
+    case 'custom':
+      cronExpression = (schedule.cronExpression ?? '').trim().replace(/\s+/g, ' ');
+      break;
+    default:
+      cronExpression = `${minutes} ${hours} * * *`;
+  }
+
+  // Prepend timezone to cron expression for QStash
+  return `CRON_TZ=${schedule.timezone} ${cronExpression}`;
+}
+
+/**
+ * Validate a schedule before it is saved. Returns an error message or null.
+ */
+export function validateLookoutSchedule(schedule: LookoutSchedule): string | null {
+  if (schedule.frequency === 'once') return null;
+  if (schedule.frequency === 'custom' && !schedule.cronExpression?.trim()) {
+    return 'Enter a cron expression';
+  }
+  if (schedule.frequency === 'weekly' && schedule.daysOfWeek?.length === 0) {
+    return 'Select at least one day';
+  }
+  return validateCronExpression(stripCronTimezone(buildCronSchedule(schedule)), schedule.timezone);
+}
+
+/**
+ * Next `count` run times of a stored cron schedule, in order.
+ */
+export function calculateNextRuns(
+  cronSchedule: string,
+  timezone: string,
+  count: number,
+  from: Date = new Date(),
+): Date[] {
+  const interval = CronExpressionParser.parse(stripCronTimezone(cronSchedule), { currentDate: from, tz: timezone });
+  return interval.take(count).map((run) => run.toDate());
+}
+
+/**
+ * Next run time of a stored cron schedule.
+ */
+export function calculateNextRun(cronSchedule: string, timezone: string, from: Date = new Date()): Date {
+  return calculateNextRuns(cronSchedule, timezone, 1, from)[0];
+}
+
+/**
+ * Recover the form fields for a stored lookout schedule.
+ */
+export function parseLookoutSchedule(frequency: string, cronSchedule: string, timezone: string): LookoutSchedule {
+  const fields = stripCronTimezone(cronSchedule).split(' ');
+  const [minute = '0', hour = '9', dayOfMonth = '*', , dayOfWeek = '*'] = fields;
+  const pad = (value: string) => (/^\d+$/.test(value) ? value.padStart(2, '0') : '00');
+
+  return {
+    frequency: frequency as LookoutFrequency,
+    time: `${pad(hour)}:${pad(minute)}`,
+    timezone,
+    daysOfWeek: frequency === 'weekly' && dayOfWeek !== '*' ? dayOfWeek.split(',') : undefined,
+    intervalHours: frequency === 'hourly' ? Number(hour.match(/^\*\/(\d+)$/)?.[1] ?? 1) : undefined,
+    dayOfMonth: frequency === 'monthly' && /^\d+$/.test(dayOfMonth) ? Number(dayOfMonth) : undefined,
+    cronExpression: frequency === 'custom' ? fields.join(' ') : undefined,
+  };
+}
@@ -0,0 +1,18 @@
+import { serverEnv } from '@/env/server';
+import { PostgresLookoutScheduler } from './postgres';
+import { QStashLookoutScheduler } from './qstash';
+import type { LookoutScheduler } from './types';
+
+export type { LookoutScheduler, LookoutSchedulerName, ScheduledLookout } from './types';
+export { startLookoutPoller } from './postgres';
+
+let scheduler: LookoutScheduler | null = null;
+
+/**
+ * Lookout scheduler selected by LOOKOUT_SCHEDULER.
+ */
+export function getLookoutScheduler(): LookoutScheduler {
+  scheduler ??=
+    serverEnv.LOOKOUT_SCHEDULER === 'postgres' ? new PostgresLookoutScheduler() : new QStashLookoutScheduler();
+  return scheduler;
+}
@@ -0,0 +1,110 @@
+import { serverEnv } from '@/env/server';
+import { claimDueLookouts, releaseStaleLookoutRuns, updateLookoutStatus } from '@/lib/db/queries';
+import type { LookoutScheduler, ScheduledLookout } from './types';
+
+// A run still marked 'running' after this long is assumed lost with its replica
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+/**
+ * Start a lookout run in this process. Resolves once the run has been accepted;
+ * the returned `finished` promise settles when the response stream has been consumed.
+ */
+async function startLookoutRun(lookout: ScheduledLookout): Promise<{ finished: Promise<void> }> {
+  // Imported lazily: the run module pulls in the server actions, which import the scheduler
+  const { runLookout } = await import('../run');
+  const response = await runLookout(
+    { lookoutId: lookout.id, prompt: lookout.prompt, userId: lookout.userId },
+    { resumable: false },
+  );
+
+  if (!response.ok) {
+    throw new Error(`Lookout run rejected: ${response.status} ${await response.text()}`);
+  }
+
+  // Nobody is reading the stream, so drain it ourselves to drive the run to completion
+  const finished = response.body ? response.body.pipeTo(new WritableStream()) : Promise.resolve();
+  return { finished };
+}
+
+/**
+ * Scheduling state lives entirely in the lookout row: a poller running on every
+ * app replica claims due rows with `FOR UPDATE SKIP LOCKED` and runs them in
+ * process, so schedule changes need no external bookkeeping.
+ */
+export class PostgresLookoutScheduler implements LookoutScheduler {
+  readonly name = 'postgres' as const;
+
+  async schedule(): Promise<string | undefined> {
+    return undefined;
+  }
+
+  async pause(): Promise<void> {}
+
+  async resume(): Promise<void> {}
+
+  async unschedule(): Promise<void> {}
+
+  async trigger(lookout: ScheduledLookout): Promise<void> {
+    const { finished } = await startLookoutRun(lookout);
+    finished.catch((error) => console.error(`[LookoutScheduler] Run of lookout ${lookout.id} failed:`, error));
+  }
+}
+
+const inFlight = new Set<string>();
+let pollerStarted = false;
+let polling = false;
+
+async function runClaimedLookout(lookout: ScheduledLookout) {
+  try {
+    const { finished } = await startLookoutRun(lookout);
+    await finished;
+  } catch (error) {
+    console.error(`[LookoutScheduler] Run of lookout ${lookout.id} failed:`, error);
+    // The run never got far enough to reset the status itself; hand the lookout back to its schedule
+    try {
+      await updateLookoutStatus({ id: lookout.id, status: lookout.frequency === 'once' ? 'paused' : 'active' });
+    } catch (statusError) {
+      console.error(`[LookoutScheduler] Failed to reset status of lookout ${lookout.id}:`, statusError);
+    }
+  }
+}
+
+async function pollDueLookouts() {
+  if (polling) return;
+  polling = true;
+
+  try {
+    const released = await releaseStaleLookoutRuns({ staleBefore: new Date(Date.now() - STALE_RUN_MS) });
+    if (released > 0) {
+      console.warn(`[LookoutScheduler] Released ${released} stale lookout run(s)`);
+    }
+
+    const capacity = serverEnv.LOOKOUT_MAX_CONCURRENT_RUNS - inFlight.size;
+    if (capacity <= 0) return;
+
+    const claimed = await claimDueLookouts({ limit: capacity });
+    for (const lookout of claimed) {
+      console.log(`[LookoutScheduler] Running lookout ${lookout.id}`);
+      inFlight.add(lookout.id);
+      void runClaimedLookout(lookout).finally(() => inFlight.delete(lookout.id));
+    }
+  } catch (error) {
+    console.error('[LookoutScheduler] Failed to poll for due lookouts:', error);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Start polling for due lookouts in this process. Safe to call on every replica.
+ */
+export function startLookoutPoller() {
+  if (pollerStarted) return;
+  pollerStarted = true;
+
+  const timer = setInterval(() => void pollDueLookouts(), serverEnv.LOOKOUT_POLL_INTERVAL_MS);
+  timer.unref?.();
+  void pollDueLookouts();
+
+  console.log(`[LookoutScheduler] Polling for due lookouts every ${serverEnv.LOOKOUT_POLL_INTERVAL_MS}ms`);
+}
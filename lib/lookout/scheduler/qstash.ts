@@ -0,0 +1,119 @@
+import { Client } from '@upstash/qstash';
+import { serverEnv } from '@/env/server';
+import type { LookoutScheduler, ScheduledLookout } from './types';
+
+/**
+ * URL QStash calls to run a lookout.
+ */
+export function getLookoutCallbackUrl(): string {
+  if (serverEnv.LOOKOUT_CALLBACK_URL) return serverEnv.LOOKOUT_CALLBACK_URL;
+  // if dev env use the ngrok tunnel, else use scira.ai/api/lookout
+  return process.env.NODE_ENV === 'development'
+    ? process.env.NGROK_URL + '/api/lookout'
+    : `https://scira.ai/api/lookout`;
+}
+
+function buildRunBody(lookout: ScheduledLookout): string {
+  return JSON.stringify({
+    lookoutId: lookout.id,
+    prompt: lookout.prompt,
+    userId: lookout.userId,
+  });
+}
+
+/**
+ * Upstash QStash schedules for recurring lookouts and delayed messages for
+ * one-time lookouts, both calling POST /api/lookout.
+ */
+export class QStashLookoutScheduler implements LookoutScheduler {
+  readonly name = 'qstash' as const;
+  private client: Client | null = null;
+
+  private getClient(): Client {
+    if (!serverEnv.QSTASH_TOKEN) {
+      throw new Error('QSTASH_TOKEN is required when LOOKOUT_SCHEDULER is qstash');
+    }
+    this.client ??= new Client({ token: serverEnv.QSTASH_TOKEN });
+    return this.client;
+  }
+
+  async schedule(lookout: ScheduledLookout): Promise<string | undefined> {
+    const client = this.getClient();
+
+    if (lookout.frequency === 'once') {
+      console.log('⏰ Creating QStash one-time execution for lookout:', lookout.id);
+      console.log('📅 Scheduled time:', lookout.nextRunAt.toISOString());
+
+      const delay = Math.floor((lookout.nextRunAt.getTime() - Date.now()) / 1000); // Delay in seconds
+      if (delay <= 0) {
+        throw new Error('Cannot schedule for a time in the past');
+      }
+      const minimumDelay = Math.max(delay, 5); // At least 5 seconds to ensure DB consistency
+
+      await client.publish({
+        url: getLookoutCallbackUrl(),
+        body: buildRunBody(lookout),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        delay: minimumDelay,
+      });
+
+      console.log(
+        '✅ QStash one-time execution scheduled for lookout:',
+        lookout.id,
+        'with delay:',
+        minimumDelay,
+        'seconds',
+      );
+      // One-time executions use the publish API rather than schedules, so there is no schedule id to keep
+      return undefined;
+    }
+
+    console.log('⏰ Creating QStash recurring schedule for lookout:', lookout.id);
+    console.log('📅 Cron schedule with timezone:', lookout.cronSchedule);
+
+    const scheduleResponse = await client.schedules.create({
+      destination: getLookoutCallbackUrl(),
+      method: 'POST',
+      cron: lookout.cronSchedule,
+      body: buildRunBody(lookout),
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    console.log('✅ QStash recurring schedule created:', scheduleResponse.scheduleId, 'for lookout:', lookout.id);
+    return scheduleResponse.scheduleId;
+  }
+
+  async pause(lookout: ScheduledLookout): Promise<void> {
+    if (!lookout.qstashScheduleId) return;
+    await this.getClient().schedules.pause({ schedule: lookout.qstashScheduleId });
+  }
+
+  async resume(lookout: ScheduledLookout): Promise<void> {
+    if (!lookout.qstashScheduleId) return;
+    await this.getClient().schedules.resume({ schedule: lookout.qstashScheduleId });
+  }
+
+  async unschedule(lookout: ScheduledLookout): Promise<void> {
+    if (!lookout.qstashScheduleId) return;
+    await this.getClient().schedules.delete(lookout.qstashScheduleId);
+  }
+
+  async trigger(lookout: ScheduledLookout): Promise<void> {
+    // Make a POST request to the lookout API endpoint to trigger the run
+    const response = await fetch(getLookoutCallbackUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: buildRunBody(lookout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to trigger lookout test: ${response.statusText}`);
+    }
+  }
+}
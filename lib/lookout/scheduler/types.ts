@@ -0,0 +1,25 @@
+import type { Lookout } from '@/lib/db/schema';
+
+export type LookoutSchedulerName = 'qstash' | 'postgres';
+
+export type ScheduledLookout = Pick<
+  Lookout,
+  'id' | 'userId' | 'prompt' | 'frequency' | 'cronSchedule' | 'nextRunAt' | 'qstashScheduleId'
+>;
+
+/**
+ * Backend that makes lookouts run on time. The lookout row (cronSchedule,
+ * nextRunAt, status) is always the source of truth; backends with their own
+ * state keep it in sync from these hooks.
+ */
+export interface LookoutScheduler {
+  readonly name: LookoutSchedulerName;
+  /** Start scheduling a saved lookout. Returns the backend's schedule id, if it keeps one. */
+  schedule(lookout: ScheduledLookout): Promise<string | undefined>;
+  pause(lookout: ScheduledLookout): Promise<void>;
+  resume(lookout: ScheduledLookout): Promise<void>;
+  /** Stop scheduling a lookout that is being archived, deleted or rescheduled */
+  unschedule(lookout: ScheduledLookout): Promise<void>;
+  /** Run a lookout right away, outside its schedule */
+  trigger(lookout: ScheduledLookout): Promise<void>;
+}
@@ -0,0 +1,164 @@
+import { metrics, type Attributes, type Counter, type Histogram } from '@opentelemetry/api';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { PrometheusExporter, PrometheusSerializer } from '@opentelemetry/exporter-prometheus';
+import { PeriodicExportingMetricReader, type MetricReader } from '@opentelemetry/sdk-metrics';
+import type { LanguageModelUsage } from 'ai';
+import { getModelConfig } from '@/ai/providers';
+import { searchGroups } from '@/lib/utils';
+
+/**
+ * Request metrics for the search endpoint, recorded through the OpenTelemetry
+ * metrics API. The readers are registered with the SDK in instrumentation.ts:
+ * a Prometheus reader that /api/metrics renders on each scrape, and an OTLP
+ * exporter when an endpoint is configured.
+ */
+
+// The reader is created in the instrumentation bundle and read from route bundles
+const PROMETHEUS_READER = Symbol.for('scira.metrics.prometheus-reader');
+type GlobalWithReader = typeof globalThis & { [PROMETHEUS_READER]?: PrometheusExporter };
+
+const OTLP_EXPORT_INTERVAL_MS = 60_000;
+
+// Seconds; covers fast tool-free answers up to multi-minute extreme searches
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120, 300];
+const STAGE_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+export function createMetricReaders(): MetricReader[] {
+  const prometheus = new PrometheusExporter({ preventServerStart: true });
+  (globalThis as GlobalWithReader)[PROMETHEUS_READER] = prometheus;
+
+  const readers: MetricReader[] = [prometheus];
+  if (process.env.OTEL_EXPORTER_OTLP_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_METRICS_ENDPOINT) {
+    readers.push(
+      new PeriodicExportingMetricReader({
+        exporter: new OTLPMetricExporter(),
+        exportIntervalMillis: OTLP_EXPORT_INTERVAL_MS,
+      }),
+    );
+  }
+  return readers;
+}
+
+/**
+ * Current metrics in the Prometheus text format, or null when the reader was
+ * never registered (outside the Node.js runtime).
+ */
+export async function renderPrometheusMetrics(): Promise<string | null> {
+  const reader = (globalThis as GlobalWithReader)[PROMETHEUS_READER];
+  if (!reader) return null;
+
+  const { resourceMetrics, errors } = await reader.collect();
+  if (errors.length > 0) {
+    console.error('[Metrics] Collection errors:', errors);
+  }
+  return new PrometheusSerializer().serialize(resourceMetrics);
+}
+
+interface SearchInstruments {
+  requests: Counter;
+  stageDuration: Histogram;
+  timeToFirstToken: Histogram;
+  completionDuration: Histogram;
+  tokens: Counter;
+}
+
+let instruments: SearchInstruments | null = null;
+
+// Created on first use: the metrics API hands out no-op meters until the SDK is registered
+function getInstruments(): SearchInstruments {
+  if (instruments) return instruments;
+  const meter = metrics.getMeter('scira');
+  instruments = {
+    requests: meter.createCounter('scira.search.requests', {
+      description: 'Search requests that reached the model, by outcome',
+    }),
+    stageDuration: meter.createHistogram('scira.search.stage.duration', {
+      description: 'Duration of each operation before the model is called',
+      unit: 's',
+      advice: { explicitBucketBoundaries: STAGE_BUCKETS },
+    }),
+    timeToFirstToken: meter.createHistogram('scira.search.time_to_first_token', {
+      description: 'Time from receiving the request to the first streamed text or reasoning token',
+      unit: 's',
+      advice: { explicitBucketBoundaries: DURATION_BUCKETS },
+    }),
+    completionDuration: meter.createHistogram('scira.search.completion.duration', {
+      description: 'Time from receiving the request to the end of the response',
+      unit: 's',
+      advice: { explicitBucketBoundaries: DURATION_BUCKETS },
+    }),
+    tokens: meter.createCounter('scira.search.tokens', {
+      description: 'Model tokens used by search responses',
+    }),
+  };
+  return instruments;
+}
+
+export interface SearchMetricLabels {
+  model: string;
+  group: string;
+}
+
+/**
+ * Labels for a search request. Unknown models and groups collapse into
+ * "unknown" so request bodies cannot create unbounded label values.
+ */
+export function searchMetricLabels(model: unknown, group: unknown): SearchMetricLabels {
+  return {
+    model: typeof model === 'string' && getModelConfig(model) ? model : 'unknown',
+    group:
+      typeof group === 'string' && searchGroups.some((searchGroup) => searchGroup.id === group) ? group : 'unknown',
+  };
+}
+
+const attributes = (labels: SearchMetricLabels, extra: Attributes = {}): Attributes => ({
+  model: labels.model,
+  group: labels.group,
+  ...extra,
+});
+
+export function recordPreStreamTimings(
+  labels: SearchMetricLabels,
+  timings: Array<{ label: string; durationMs: number }>,
+  totalMs: number,
+) {
+  const { stageDuration } = getInstruments();
+  for (const timing of timings) {
+    stageDuration.record(timing.durationMs / 1000, attributes(labels, { stage: timing.label }));
+  }
+  stageDuration.record(totalMs / 1000, attributes(labels, { stage: 'total' }));
+}
+
+export function recordTimeToFirstToken(labels: SearchMetricLabels, durationMs: number) {
+  getInstruments().timeToFirstToken.record(durationMs / 1000, attributes(labels));
+}
+
+export function recordSearchCompletion(
+  labels: SearchMetricLabels,
+  {
+    durationMs,
+    finishReason,
+    usage,
+  }: {
+    durationMs: number;
+    finishReason: string;
+    usage?: LanguageModelUsage;
+  },
+) {
+  const { requests, completionDuration, tokens } = getInstruments();
+  requests.add(1, attributes(labels, { outcome: finishReason }));
+  completionDuration.record(durationMs / 1000, attributes(labels, { finish_reason: finishReason }));
+
+  for (const [type, count] of [
+    ['input', usage?.inputTokens],
+    ['output', usage?.outputTokens],
+    ['reasoning', usage?.outputTokenDetails?.reasoningTokens],
+    ['cache_read', usage?.inputTokenDetails?.cacheReadTokens],
+  ] as const) {
+    if (count) tokens.add(count, attributes(labels, { type }));
+  }
+}
+
+export function recordSearchError(labels: SearchMetricLabels) {
+  getInstruments().requests.add(1, attributes(labels, { outcome: 'error' }));
+}
@@ -0,0 +1,46 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+/**
+ * Whether a hostname or IP literal points at this machine, a private network or a
+ * link-local range (which includes cloud metadata endpoints).
+ */
+export function isPrivateAddress(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true;
+  }
+
+  if (isIP(host) === 4) {
+    const [a, b] = host.split('.').map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+  if (isIP(host) === 6) {
+    return (
+      host === '::1' || host === '::' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('::ffff:')
+    );
+  }
+  return false;
+}
+
+// Whether any address the hostname resolves to is private; unresolvable hosts count as private
+export async function resolvesToPrivateAddress(hostname: string): Promise<boolean> {
+  if (isPrivateAddress(hostname)) return true;
+  if (isIP(hostname.replace(/^\[|\]$/g, ''))) return false;
+
+  try {
+    const addresses = await lookup(hostname, { all: true });
+    return addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address));
+  } catch {
+    return true;
+  }
+}
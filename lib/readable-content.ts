@@ -0,0 +1,336 @@
+import { Readability } from '@mozilla/readability';
+import { parseHTML } from 'linkedom';
+import TurndownService from 'turndown';
+import { toolFetch } from '@/lib/tool-http';
+
+/**
+ * Main-content extraction for pages fetched over plain HTTP. The article body
+ * is found with Readability (falling back to the page without navigation,
+ * banners and footers) and converted to Markdown so headings, lists, tables
+ * and links survive. Used by the retrieve tool, its crawl mode and the
+ * extreme search HTTP fallbacks.
+ */
+
+export interface ReadableContent {
+  title: string | null;
+  // Main content as Markdown
+  markdown: string;
+  excerpt: string | null;
+  author: string | null;
+  publishedDate: string | null;
+  canonicalUrl: string | null;
+  language: string | null;
+  siteName: string | null;
+  image: string | null;
+}
+
+export interface FetchReadableOptions {
+  userAgent: string;
+  timeoutMs?: number;
+  maxChars?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const MAX_HTML_BYTES = 3_000_000;
+// Only the head of the document is scanned for a <meta charset>
+const CHARSET_SNIFF_BYTES = 4096;
+
+const BOILERPLATE_SELECTORS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'canvas',
+  'iframe',
+  'form',
+  'nav',
+  'footer',
+  'aside',
+  '[role="navigation"]',
+  '[role="banner"]',
+  '[role="contentinfo"]',
+  '[role="dialog"]',
+  '[aria-hidden="true"]',
+  '[hidden]',
+].join(',');
+const BOILERPLATE_NAME =
+  /(?:^|[\s_-])(?:cookie|consent|gdpr|banner|popup|modal|newsletter|subscribe|share|social|related|sidebar|breadcrumbs?|skip-link|advert|advertisement|ad-slot|ad-container|promo)(?:$|[\s_-])/i;
+
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  codeBlockStyle: 'fenced',
+  bulletListMarker: '-',
+  emDelimiter: '_',
+  linkStyle: 'inlined',
+});
+
+turndown.remove(['script', 'style', 'noscript', 'iframe', 'button', 'input', 'select', 'textarea']);
+
+// Images cost tokens without adding text; keep the alt text when it says something
+turndown.addRule('image', {
+  filter: 'img',
+  replacement: (_content, node) => {
+    const alt = (node as HTMLElement).getAttribute('alt')?.trim();
+    return alt ? ` ${alt} ` : '';
+  },
+});
+
+const tableCell = (cell: Element) => (cell.textContent ?? '').replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+
+// GFM tables; cells are flattened to text since Markdown cells cannot hold blocks
+turndown.addRule('table', {
+  filter: 'table',
+  replacement: (_content, node) => {
+    const rows = Array.from((node as HTMLElement).querySelectorAll('tr'))
+      .map((row) => Array.from(row.querySelectorAll('th, td')).map(tableCell))
+      .filter((cells) => cells.some(Boolean));
+    if (rows.length === 0) return '';
+
+    const width = Math.max(...rows.map((cells) => cells.length));
+    const line = (cells: string[]) =>
+      `| ${Array.from({ length: width }, (_, index) => cells[index] ?? '').join(' | ')} |`;
+    return `\n\n${[line(rows[0]), `|${' --- |'.repeat(width)}`, ...rows.slice(1).map(line)].join('\n')}\n\n`;
+  },
+});
+
+function normalizeCharset(label: string | null | undefined): string | null {
+  const charset = label
+    ?.trim()
+    .replace(/^["']|["']$/g, '')
+    .toLowerCase();
+  if (!charset) return null;
+  try {
+    return new TextDecoder(charset).encoding;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode an HTML response body: a byte order mark wins, then the charset in
+ * the Content-Type header, then a `<meta charset>` or `http-equiv` tag near
+ * the top of the document, and UTF-8 otherwise.
+ */
+export function decodeHtml(bytes: ArrayBuffer | Uint8Array, contentType?: string | null): string {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+
+  let encoding: string | null = null;
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) encoding = 'utf-8';
+  else if (data[0] === 0xff && data[1] === 0xfe) encoding = 'utf-16le';
+  else if (data[0] === 0xfe && data[1] === 0xff) encoding = 'utf-16be';
+
+  encoding ??= normalizeCharset(contentType?.match(/charset=([^;]+)/i)?.[1]);
+
+  if (!encoding) {
+    const head = new TextDecoder('latin1').decode(data.subarray(0, CHARSET_SNIFF_BYTES));
+    encoding = normalizeCharset(
+      head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] ??
+        head.match(/<meta[^>]+http-equiv=["']?content-type["']?[^>]*content=["'][^"']*charset=([\w-]+)/i)?.[1],
+    );
+  }
+
+  return new TextDecoder(encoding ?? 'utf-8').decode(data);
+}
+
+function metaContent(document: Document, selectors: string[]): string | null {
+  for (const selector of selectors) {
+    const value = document.querySelector(selector)?.getAttribute('content')?.trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+interface JsonLdMetadata {
+  author: string | null;
+  publishedDate: string | null;
+}
+
+function jsonLdMetadata(document: Document): JsonLdMetadata {
+  const metadata: JsonLdMetadata = { author: null, publishedDate: null };
+  const authorName = (author: unknown): string | null => {
+    if (typeof author === 'string') return author;
+    if (Array.isArray(author)) return author.map(authorName).filter(Boolean).join(', ') || null;
+    if (author && typeof author === 'object' && 'name' in author && typeof author.name === 'string') {
+      return author.name;
+    }
+    return null;
+  };
+
+  for (const script of Array.from(document.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      const parsed = JSON.parse(script.textContent ?? '');
+      const items: unknown[] = Array.isArray(parsed) ? parsed : parsed?.['@graph'] ? parsed['@graph'] : [parsed];
+      for (const item of items) {
+        if (!item || typeof item !== 'object') continue;
+        const record = item as Record<string, unknown>;
+        metadata.author ??= authorName(record.author);
+        if (typeof record.datePublished === 'string') metadata.publishedDate ??= record.datePublished;
+      }
+    } catch {
+      // Malformed JSON-LD is common; the meta tags are still read
+    }
+  }
+  return metadata;
+}
+
+// Readability keeps relative links as they are unless the document knows its URL
+function absolutizeLinks(document: Document, baseUrl: string) {
+  for (const [selector, attribute] of [
+    ['a[href]', 'href'],
+    ['img[src]', 'src'],
+  ] as const) {
+    for (const element of Array.from(document.querySelectorAll(selector))) {
+      const value = element.getAttribute(attribute);
+      if (!value || value.startsWith('#') || /^(?:javascript|mailto|tel|data):/i.test(value)) continue;
+      try {
+        element.setAttribute(attribute, new URL(value, baseUrl).toString());
+      } catch {
+        // Leave unparseable URLs as they are
+      }
+    }
+  }
+}
+
+function removeBoilerplate(root: Element) {
+  for (const element of Array.from(root.querySelectorAll(BOILERPLATE_SELECTORS))) {
+    element.remove();
+  }
+  // Page headers are navigation; an article's own header holds its title
+  for (const element of Array.from(root.querySelectorAll('header'))) {
+    if (!element.closest('article, main')) element.remove();
+  }
+  for (const element of Array.from(root.querySelectorAll('[class], [id]'))) {
+    const name = `${element.getAttribute('id') ?? ''} ${element.getAttribute('class') ?? ''}`;
+    if (BOILERPLATE_NAME.test(name) && element.tagName !== 'MAIN' && element.tagName !== 'ARTICLE') {
+      element.remove();
+    }
+  }
+}
+
+function tidyMarkdown(markdown: string): string {
+  return markdown
+    .replace(/\[\s*\]\([^)]*\)/g, '')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Main content and metadata of an HTML document fetched from `url`.
+ */
+export function extractReadableContent(html: string, url: string): ReadableContent {
+  const { document } = parseHTML(html);
+  absolutizeLinks(document, url);
+
+  const jsonLd = jsonLdMetadata(document);
+  const canonicalHref = document.querySelector('link[rel="canonical"]')?.getAttribute('href');
+  let canonicalUrl: string | null = null;
+  try {
+    canonicalUrl = canonicalHref ? new URL(canonicalHref, url).toString() : null;
+  } catch {
+    canonicalUrl = null;
+  }
+
+  const metadata = {
+    title:
+      metaContent(document, ['meta[property="og:title"]', 'meta[name="twitter:title"]']) ??
+      document.querySelector('title')?.textContent?.trim() ??
+      null,
+    excerpt: metaContent(document, [
+      'meta[name="description"]',
+      'meta[property="og:description"]',
+      'meta[name="twitter:description"]',
+    ]),
+    author: metaContent(document, ['meta[name="author"]', 'meta[property="article:author"]']) ?? jsonLd.author,
+    publishedDate:
+      metaContent(document, [
+        'meta[property="article:published_time"]',
+        'meta[name="date"]',
+        'meta[name="dc.date"]',
+        'meta[itemprop="datePublished"]',
+      ]) ?? jsonLd.publishedDate,
+    language:
+      document.documentElement?.getAttribute('lang')?.trim() ||
+      metaContent(document, ['meta[http-equiv="content-language"]', 'meta[property="og:locale"]']),
+    siteName: metaContent(document, ['meta[property="og:site_name"]']),
+    image: metaContent(document, ['meta[property="og:image"]', 'meta[name="twitter:image"]']),
+  };
+
+  if (document.body) removeBoilerplate(document.body);
+
+  // Readability modifies the document it parses, so it gets its own copy
+  let article: ReturnType<Readability['parse']> = null;
+  try {
+    article = new Readability(parseHTML(document.toString()).document as unknown as Document, {
+      charThreshold: 300,
+    }).parse();
+  } catch (error) {
+    console.error(`[Readable] Readability failed for ${url}:`, error);
+  }
+
+  let markdown = article?.content ? tidyMarkdown(turndown.turndown(article.content)) : '';
+  if (!markdown) {
+    const root = document.querySelector('main') ?? document.querySelector('article') ?? document.body;
+    if (root) {
+      markdown = tidyMarkdown(turndown.turndown(root.innerHTML));
+    }
+  }
+
+  return {
+    title: metadata.title || article?.title?.trim() || null,
+    markdown,
+    excerpt: metadata.excerpt ?? article?.excerpt?.trim() ?? null,
+    author: metadata.author ?? article?.byline?.trim() ?? null,
+    publishedDate: metadata.publishedDate ?? article?.publishedTime ?? null,
+    canonicalUrl,
+    language: metadata.language || article?.lang || null,
+    siteName: metadata.siteName ?? article?.siteName ?? null,
+    image: metadata.image,
+  };
+}
+
+/**
+ * Fetch a page and extract its main content. Returns null when the request
+ * fails or the response is not an HTML or plain text document.
+ */
+export async function fetchReadableContent(
+  url: string,
+  { userAgent, timeoutMs = DEFAULT_TIMEOUT_MS, maxChars, signal }: FetchReadableOptions,
+): Promise<ReadableContent | null> {
+  try {
+    const response = await toolFetch(url, {
+      service: new URL(url).hostname,
+      headers: { 'User-Agent': userAgent, Accept: 'text/html,application/xhtml+xml,text/plain;q=0.8' },
+      timeoutMs,
+      retries: 1,
+      signal,
+    });
+    if (!response.ok) return null;
+
+    const contentType = response.headers.get('content-type');
+    const isHtml = !contentType || /html|xml/i.test(contentType);
+    if (!isHtml && !/^text\//i.test(contentType)) return null;
+
+    const body = decodeHtml((await response.arrayBuffer()).slice(0, MAX_HTML_BYTES), contentType);
+    const content = isHtml
+      ? extractReadableContent(body, response.url || url)
+      : {
+          title: null,
+          markdown: body.trim(),
+          excerpt: null,
+          author: null,
+          publishedDate: null,
+          canonicalUrl: null,
+          language: null,
+          siteName: null,
+          image: null,
+        };
+
+    return maxChars ? { ...content, markdown: content.markdown.slice(0, maxChars) } : content;
+  } catch (error) {
+    console.error(`[Readable] Failed to fetch ${url}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,117 @@
+import type { ResearchChunkKind } from '@/lib/db/schema';
+
+const MAX_CHUNK_LENGTH = 1500;
+const MIN_ANSWER_LENGTH = 200;
+const MAX_SOURCES_PER_MESSAGE = 20;
+const MAX_CHUNKS_PER_MESSAGE = 40;
+
+// Tools whose outputs carry page content worth remembering
+const SOURCE_TOOLS = ['tool-web_search', 'tool-extreme_search', 'tool-retrieve'] as const;
+
+export interface ResearchChunkInput {
+  kind: ResearchChunkKind;
+  content: string;
+  sourceUrl: string | null;
+  sourceTitle: string | null;
+}
+
+interface SourceDocument {
+  url: string;
+  title?: string;
+  content?: string;
+}
+
+interface MessagePart {
+  type: string;
+  text?: string;
+  state?: string;
+  output?: unknown;
+}
+
+/**
+ * Split text into chunks of at most MAX_CHUNK_LENGTH characters, breaking on
+ * paragraph boundaries where possible.
+ */
+export function chunkText(text: string, maxLength: number = MAX_CHUNK_LENGTH): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    if (current && current.length + trimmed.length + 2 > maxLength) {
+      chunks.push(current);
+      current = '';
+    }
+
+    if (trimmed.length > maxLength) {
+      for (let start = 0; start < trimmed.length; start += maxLength) {
+        chunks.push(trimmed.slice(start, start + maxLength));
+      }
+      continue;
+    }
+
+    current = current ? `${current}\n\n${trimmed}` : trimmed;
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Documents returned by a finished web search, extreme search or retrieve call.
+ */
+export function toolSources(part: MessagePart): SourceDocument[] {
+  if (part.state !== 'output-available' || !part.output || typeof part.output !== 'object') return [];
+  const output = part.output as Record<string, any>;
+
+  switch (part.type) {
+    case 'tool-web_search':
+      return (output.searches ?? []).flatMap((search: { results?: SourceDocument[] }) => search.results ?? []);
+    case 'tool-extreme_search':
+      return output.research?.sources ?? [];
+    case 'tool-retrieve':
+      return output.results ?? [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Chunks worth embedding from an assistant message: its answer text, plus the
+ * opening of every distinct source its search and retrieve tools returned.
+ */
+export function extractResearchChunks(parts: MessagePart[]): ResearchChunkInput[] {
+  const answer = parts
+    .filter((part) => part.type === 'text' && part.text)
+    .map((part) => part.text!.trim())
+    .join('\n\n');
+
+  const chunks: ResearchChunkInput[] =
+    answer.length >= MIN_ANSWER_LENGTH
+      ? chunkText(answer).map((content) => ({ kind: 'answer', content, sourceUrl: null, sourceTitle: null }))
+      : [];
+
+  const sources = new Map<string, SourceDocument>();
+  for (const part of parts) {
+    if (!(SOURCE_TOOLS as readonly string[]).includes(part.type)) continue;
+    for (const source of toolSources(part)) {
+      if (source?.url && source.content?.trim() && !sources.has(source.url)) {
+        sources.set(source.url, source);
+      }
+    }
+  }
+
+  for (const source of [...sources.values()].slice(0, MAX_SOURCES_PER_MESSAGE)) {
+    const title = source.title?.trim() || source.url;
+    chunks.push({
+      kind: 'source',
+      content: `${title}\n\n${source.content!.trim()}`.slice(0, MAX_CHUNK_LENGTH),
+      sourceUrl: source.url,
+      sourceTitle: title,
+    });
+  }
+
+  return chunks.slice(0, MAX_CHUNKS_PER_MESSAGE);
+}
@@ -0,0 +1,132 @@
+import { embed, embedMany } from 'ai';
+import { scira } from '@/ai/providers';
+import { saveResearchChunks, searchResearchChunks } from '@/lib/db/queries';
+import { RESEARCH_EMBEDDING_DIMENSIONS } from '@/lib/db/schema';
+import { extractResearchChunks } from './chunks';
+
+const MAX_EXCERPT_LENGTH = 600;
+const MAX_SOURCES_PER_RESULT = 5;
+
+const embeddingModel = scira.embeddingModel('scira-default-embedding');
+
+// The research_chunk column has a fixed width, so ask the model for exactly that many dimensions
+const embeddingProviderOptions = { openrouter: { dimensions: RESEARCH_EMBEDDING_DIMENSIONS } };
+
+export interface RelatedResearch {
+  chatId: string;
+  chatTitle: string;
+  similarity: number;
+  excerpt: string;
+  sources: Array<{ url: string; title: string }>;
+  createdAt: Date;
+}
+
+function assertDimensions(embedding: number[]) {
+  if (embedding.length !== RESEARCH_EMBEDDING_DIMENSIONS) {
+    throw new Error(
+      `Embedding model returned ${embedding.length} dimensions, expected ${RESEARCH_EMBEDDING_DIMENSIONS}`,
+    );
+  }
+}
+
+/**
+ * Chunk, embed and store the answers and cited sources of newly saved assistant
+ * messages. Runs after the response has been sent; failures are logged and never
+ * reach the user.
+ */
+export async function indexResearchMessages({
+  userId,
+  chatId,
+  messages,
+}: {
+  userId: string;
+  chatId: string;
+  messages: Array<{ id: string; role: string; parts: unknown[] }>;
+}): Promise<void> {
+  try {
+    const pending = messages
+      .filter((message) => message.role === 'assistant')
+      .flatMap((message) =>
+        extractResearchChunks(message.parts as Parameters<typeof extractResearchChunks>[0]).map((chunk) => ({
+          ...chunk,
+          messageId: message.id,
+        })),
+      );
+    if (pending.length === 0) return;
+
+    const { embeddings } = await embedMany({
+      model: embeddingModel,
+      values: pending.map((chunk) => chunk.content),
+      providerOptions: embeddingProviderOptions,
+    });
+    embeddings.forEach(assertDimensions);
+
+    await saveResearchChunks({
+      chunks: pending.map((chunk, index) => ({
+        ...chunk,
+        userId,
+        chatId,
+        embedding: embeddings[index],
+      })),
+    });
+  } catch (error) {
+    console.error(`[Research] Failed to index messages for chat ${chatId}:`, error);
+  }
+}
+
+/**
+ * A user's past chats most similar to a query, best first, each with an excerpt
+ * of the closest answer and the sources it cited.
+ */
+export async function findRelatedResearch({
+  userId,
+  query,
+  limit = 5,
+  excludeChatId,
+}: {
+  userId: string;
+  query: string;
+  limit?: number;
+  excludeChatId?: string;
+}): Promise<RelatedResearch[]> {
+  const { embedding } = await embed({
+    model: embeddingModel,
+    value: query,
+    providerOptions: embeddingProviderOptions,
+  });
+  assertDimensions(embedding);
+
+  const chunks = await searchResearchChunks({ userId, embedding, limit: limit * 6, excludeChatId });
+
+  // Chunks arrive nearest first, so the first chunk seen for a chat sets its score
+  const results = new Map<string, RelatedResearch & { hasAnswerExcerpt: boolean }>();
+  for (const chunk of chunks) {
+    let result = results.get(chunk.chatId);
+    if (!result) {
+      if (results.size >= limit) continue;
+      result = {
+        chatId: chunk.chatId,
+        chatTitle: chunk.chatTitle,
+        similarity: chunk.similarity,
+        excerpt: chunk.content.slice(0, MAX_EXCERPT_LENGTH),
+        sources: [],
+        createdAt: chunk.createdAt,
+        hasAnswerExcerpt: chunk.kind === 'answer',
+      };
+      results.set(chunk.chatId, result);
+    } else if (chunk.kind === 'answer' && !result.hasAnswerExcerpt) {
+      result.excerpt = chunk.content.slice(0, MAX_EXCERPT_LENGTH);
+      result.hasAnswerExcerpt = true;
+    }
+
+    if (
+      chunk.sourceUrl &&
+      result.sources.length < MAX_SOURCES_PER_RESULT &&
+      !result.sources.some((source) => source.url === chunk.sourceUrl)
+    ) {
+      result.sources.push({ url: chunk.sourceUrl, title: chunk.sourceTitle ?? chunk.sourceUrl });
+    }
+  }
+
+  return [...results.values()].map(({ hasAnswerExcerpt: _, ...result }) => result);
+}
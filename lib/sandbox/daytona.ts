@@ -0,0 +1,101 @@
+import { Daytona, type Sandbox } from '@daytonaio/sdk';
+import { serverEnv } from '@/env/server';
+import { SNAPSHOT_NAME } from '@/lib/constants';
+import { CHARTS_PREFIX, DAYTONA_BOOTSTRAP_SOURCE } from './python-sources';
+import type { CodeExecutionResult, CodeSandbox, CodeSandboxProvider, SandboxChart } from './types';
+
+type InterpreterContext = Awaited<ReturnType<Sandbox['codeInterpreter']['createContext']>>;
+
+/**
+ * Wraps a Daytona sandbox with a stateful interpreter context, so variables defined
+ * in one run are still there in the next.
+ */
+class DaytonaCodeSandbox implements CodeSandbox {
+  private context: Promise<InterpreterContext> | null = null;
+  private workDir: Promise<string> | null = null;
+
+  constructor(private sandbox: Sandbox) {}
+
+  get id() {
+    return this.sandbox.id;
+  }
+
+  async run(code: string): Promise<CodeExecutionResult> {
+    const context = await this.getContext();
+    const execution = await this.sandbox.codeInterpreter.runCode(code, { context });
+
+    const stdout = execution.stdout.trim();
+    const errorOutput = execution.error
+      ? [execution.stderr.trim(), execution.error.traceback || `${execution.error.name}: ${execution.error.value}`]
+          .filter(Boolean)
+          .join('\n')
+      : '';
+
+    return {
+      exitCode: execution.error ? 1 : 0,
+      result: [stdout, errorOutput].filter(Boolean).join('\n'),
+      stdout,
+      charts: await this.collectCharts(context),
+    };
+  }
+
+  async installPackages(packages: string[]): Promise<void> {
+    if (packages.length === 0) return;
+    await this.sandbox.process.executeCommand(`pip install ${packages.join(' ')}`);
+  }
+
+  async uploadFile(filename: string, content: Buffer): Promise<void> {
+    const workDir = await this.getWorkDir();
+    await this.sandbox.fs.uploadFile(content, `${workDir}/${filename.split('/').pop()}`);
+  }
+
+  async destroy(): Promise<void> {
+    await this.sandbox.delete();
+  }
+
+  private getWorkDir() {
+    this.workDir ??= this.sandbox.getWorkDir().then((dir) => dir || 'workspace');
+    return this.workDir;
+  }
+
+  private getContext() {
+    this.context ??= (async () => {
+      const context = await this.sandbox.codeInterpreter.createContext(await this.getWorkDir());
+      await this.sandbox.codeInterpreter.runCode(DAYTONA_BOOTSTRAP_SOURCE, { context });
+      return context;
+    })();
+    return this.context;
+  }
+
+  private async collectCharts(context: InterpreterContext): Promise<SandboxChart[]> {
+    try {
+      const { stdout } = await this.sandbox.codeInterpreter.runCode('__scira_emit_charts()', { context });
+      const line = stdout.split('\n').find((entry) => entry.startsWith(CHARTS_PREFIX));
+      return line ? JSON.parse(line.slice(CHARTS_PREFIX.length)) : [];
+    } catch (error) {
+      console.error(`[Daytona] Failed to collect charts for sandbox ${this.id}:`, error);
+      return [];
+    }
+  }
+}
+
+export class DaytonaSandboxProvider implements CodeSandboxProvider {
+  readonly name = 'daytona' as const;
+  private daytona: Daytona | null = null;
+
+  async create(): Promise<CodeSandbox> {
+    this.daytona ??= new Daytona({
+      apiKey: serverEnv.DAYTONA_API_KEY,
+      target: 'us',
+    });
+
+    const sandbox = await this.daytona.create({
+      snapshot: SNAPSHOT_NAME,
+      // Safety net for sessions this process never gets to tear down (crash, redeploy)
+      autoStopInterval: Math.max(1, Math.ceil(serverEnv.CODE_SANDBOX_IDLE_TIMEOUT_MS / 60_000) * 2),
+      autoDeleteInterval: 0,
+    });
+
+    return new DaytonaCodeSandbox(sandbox);
+  }
+}
@@ -0,0 +1,29 @@
+import { getCodeSandboxProvider } from './provider';
+import type { CodeExecutionResult } from './types';
+
+export type * from './types';
+export { getCodeSandboxProvider } from './provider';
+export {
+  getChatSandbox,
+  releaseChatSandbox,
+  getAttachmentFilename,
+  isUploadedAttachmentUrl,
+  type SandboxAttachment,
+} from './sessions';
+
+/**
+ * Run code in a fresh sandbox that is torn down once execution finishes.
+ */
+export async function runInSandbox(
+  code: string,
+  { installPackages = [] }: { installPackages?: string[] } = {},
+): Promise<CodeExecutionResult> {
+  const sandbox = await getCodeSandboxProvider().create();
+
+  try {
+    await sandbox.installPackages(installPackages);
+    return await sandbox.run(code);
+  } finally {
+    sandbox.destroy().catch((error) => console.error(`Failed to destroy sandbox ${sandbox.id}:`, error));
+  }
+}
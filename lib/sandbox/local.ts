@@ -0,0 +1,248 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+import { serverEnv } from '@/env/server';
+import { KERNEL_SOURCE, RESULT_PREFIX, RUNNER_FILENAME } from './python-sources';
+import type { CodeExecutionResult, CodeSandbox, CodeSandboxProvider, SandboxChart } from './types';
+
+const CONTAINER_WORKDIR = '/workspace';
+
+interface LocalSandboxLimits {
+  timeoutMs: number;
+  memoryMb: number;
+  cpus: number;
+}
+
+interface KernelResponse {
+  id: number;
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  charts: SandboxChart[];
+}
+
+interface PendingRequest {
+  resolve: (response: KernelResponse) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Runs Python on this machine, either inside a Docker container with no network
+ * (the default) or as a resource-limited subprocess. One interpreter stays alive per
+ * sandbox so state carries over between runs. The subprocess runtime only patches
+ * Python's socket module, which code can get around (e.g. through _socket, ctypes or
+ * a subprocess), so it is not isolation and has to be enabled explicitly.
+ */
+class LocalCodeSandbox implements CodeSandbox {
+  private kernel: ChildProcessWithoutNullStreams | null = null;
+  private containerName: string | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly id: string,
+    private workdir: string,
+    private limits: LocalSandboxLimits,
+  ) {}
+
+  run(code: string): Promise<CodeExecutionResult> {
+    // The kernel handles one cell at a time; serialize concurrent calls
+    const execution = this.queue.then(() => this.execute(code));
+    this.queue = execution.catch(() => undefined);
+    return execution;
+  }
+
+  async installPackages(packages: string[]): Promise<void> {
+    if (packages.length === 0) return;
+    // The local sandbox has no network access, so only preinstalled packages are available
+    console.warn(`[LocalSandbox] Skipping install of ${packages.join(', ')}: package installation is disabled`);
+  }
+
+  async uploadFile(filename: string, content: Buffer): Promise<void> {
+    await writeFile(path.join(this.workdir, path.basename(filename)), content);
+  }
+
+  async destroy(): Promise<void> {
+    this.stopKernel();
+    await rm(this.workdir, { recursive: true, force: true });
+  }
+
+  private async execute(code: string): Promise<CodeExecutionResult> {
+    const kernel = this.kernel ?? this.startKernel();
+    const id = this.nextRequestId++;
+
+    try {
+      const response = await new Promise<KernelResponse>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          this.pending.delete(id);
+          reject(new Error(`Execution timed out after ${Math.round(this.limits.timeoutMs / 1000)}s`));
+        }, this.limits.timeoutMs);
+
+        this.pending.set(id, { resolve, reject, timer });
+        kernel.stdin.write(JSON.stringify({ id, code }) + '\n');
+      });
+
+      const stdout = response.stdout.trim();
+      const errorOutput = response.exitCode !== 0 ? response.stderr.trim() : '';
+
+      return {
+        exitCode: response.exitCode,
+        result: [stdout, errorOutput].filter(Boolean).join('\n'),
+        stdout,
+        charts: response.charts ?? [],
+      };
+    } catch (error) {
+      // A hung or crashed kernel can't be trusted with the next cell, so restart it
+      this.stopKernel();
+      const message = error instanceof Error ? error.message : String(error);
+
+      return {
+        exitCode: 1,
+        result: `${message}\nThe Python session was restarted and previous variables are no longer defined.`,
+        stdout: '',
+        charts: [],
+      };
+    }
+  }
+
+  private startKernel(): ChildProcessWithoutNullStreams {
+    const kernel = serverEnv.LOCAL_SANDBOX_RUNTIME === 'docker' ? this.spawnContainer() : this.spawnProcess();
+
+    createInterface({ input: kernel.stdout }).on('line', (line) => {
+      if (!line.startsWith(RESULT_PREFIX)) return;
+
+      try {
+        const response = JSON.parse(line.slice(RESULT_PREFIX.length)) as KernelResponse;
+        const request = this.pending.get(response.id);
+        if (!request) return;
+        clearTimeout(request.timer);
+        this.pending.delete(response.id);
+        request.resolve(response);
+      } catch (error) {
+        console.error('[LocalSandbox] Failed to parse kernel response:', error);
+      }
+    });
+
+    let stderrTail = '';
+    kernel.stderr.on('data', (chunk: Buffer) => {
+      stderrTail = (stderrTail + chunk.toString('utf8')).slice(-4000);
+    });
+
+    const failPending = (reason: string) => {
+      for (const [id, request] of this.pending) {
+        clearTimeout(request.timer);
+        request.reject(new Error(reason));
+        this.pending.delete(id);
+      }
+      if (this.kernel === kernel) {
+        this.kernel = null;
+        this.containerName = null;
+      }
+    };
+
+    // Writes to a dead kernel surface through 'close'; don't let EPIPE crash the server
+    kernel.stdin.on('error', () => {});
+    kernel.on('error', (error) => failPending(`Failed to start Python: ${error.message}`));
+    kernel.on('close', (code, signal) => {
+      const detail = signal === 'SIGXCPU' ? 'CPU time limit exceeded' : stderrTail.trim();
+      failPending(`Python process exited (${signal ?? code})${detail ? `: ${detail}` : ''}`);
+    });
+
+    this.kernel = kernel;
+    return kernel;
+  }
+
+  private stopKernel() {
+    if (this.containerName) {
+      spawn('docker', ['kill', this.containerName], { stdio: 'ignore' }).on('error', () => {});
+    }
+    this.kernel?.kill('SIGKILL');
+    this.kernel = null;
+    this.containerName = null;
+  }
+
+  private spawnProcess() {
+    const env: Record<string, string | undefined> = {
+      PATH: process.env.PATH,
+      HOME: this.workdir,
+      LANG: 'C.UTF-8',
+      MPLBACKEND: 'Agg',
+      MPLCONFIGDIR: path.join(this.workdir, '.matplotlib'),
+      OPENBLAS_NUM_THREADS: String(this.limits.cpus),
+      OMP_NUM_THREADS: String(this.limits.cpus),
+      SCIRA_SANDBOX_MEMORY_BYTES: String(this.limits.memoryMb * 1024 * 1024),
+      SCIRA_SANDBOX_CPU_SECONDS: String(Math.ceil(this.limits.timeoutMs / 1000)),
+    };
+
+    return spawn(serverEnv.LOCAL_SANDBOX_PYTHON, ['-u', '-I', RUNNER_FILENAME], {
+      cwd: this.workdir,
+      env: env as NodeJS.ProcessEnv,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+  }
+
+  private spawnContainer() {
+    this.containerName = `scira-sandbox-${this.id}-${Date.now()}`;
+    const args = [
+      'run',
+      '-i',
+      '--rm',
+      '--name',
+      this.containerName,
+      '--network',
+      'none',
+      '--memory',
+      `${this.limits.memoryMb}m`,
+      '--cpus',
+      String(this.limits.cpus),
+      '--pids-limit',
+      '256',
+      '--security-opt',
+      'no-new-privileges',
+      // Run as the host user so the container can write into the mounted workdir
+      ...(process.getuid && process.getgid ? ['--user', `${process.getuid()}:${process.getgid()}`] : []),
+      '-e',
+      'MPLBACKEND=Agg',
+      '-e',
+      `MPLCONFIGDIR=${CONTAINER_WORKDIR}/.matplotlib`,
+      '-e',
+      `SCIRA_SANDBOX_CPU_SECONDS=${Math.ceil(this.limits.timeoutMs / 1000)}`,
+      '-v',
+      `${this.workdir}:${CONTAINER_WORKDIR}`,
+      '-w',
+      CONTAINER_WORKDIR,
+      serverEnv.LOCAL_SANDBOX_DOCKER_IMAGE,
+      'python',
+      '-u',
+      '-I',
+      RUNNER_FILENAME,
+    ];
+
+    return spawn('docker', args, { cwd: this.workdir, stdio: ['pipe', 'pipe', 'pipe'] });
+  }
+}
+
+export class LocalSandboxProvider implements CodeSandboxProvider {
+  readonly name = 'local' as const;
+
+  async create(): Promise<CodeSandbox> {
+    if (serverEnv.LOCAL_SANDBOX_RUNTIME === 'process' && serverEnv.LOCAL_SANDBOX_ALLOW_UNISOLATED !== 'true') {
+      throw new Error(
+        'The process sandbox runtime does not isolate network or filesystem access. Use LOCAL_SANDBOX_RUNTIME=docker, or set LOCAL_SANDBOX_ALLOW_UNISOLATED=true to run code unisolated.',
+      );
+    }
+
+    const workdir = await mkdtemp(path.join(tmpdir(), 'scira-sandbox-'));
+    await writeFile(path.join(workdir, RUNNER_FILENAME), KERNEL_SOURCE, 'utf8');
+
+    return new LocalCodeSandbox(path.basename(workdir), workdir, {
+      timeoutMs: serverEnv.LOCAL_SANDBOX_TIMEOUT_MS,
+      memoryMb: serverEnv.LOCAL_SANDBOX_MEMORY_MB,
+      cpus: serverEnv.LOCAL_SANDBOX_CPUS,
+    });
+  }
+}
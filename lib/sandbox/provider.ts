@@ -0,0 +1,15 @@
+import { serverEnv } from '@/env/server';
+import { DaytonaSandboxProvider } from './daytona';
+import { LocalSandboxProvider } from './local';
+import type { CodeSandboxProvider } from './types';
+
+let provider: CodeSandboxProvider | null = null;
+
+/**
+ * Sandbox backend selected by CODE_SANDBOX_PROVIDER. Shared by the code interpreter
+ * and the extreme search code runner.
+ */
+export function getCodeSandboxProvider(): CodeSandboxProvider {
+  provider ??= serverEnv.CODE_SANDBOX_PROVIDER === 'local' ? new LocalSandboxProvider() : new DaytonaSandboxProvider();
+  return provider;
+}
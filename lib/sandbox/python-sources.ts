@@ -0,0 +1,300 @@
+// Python sources shared by the sandbox backends. The chart helpers turn matplotlib
+// figures into the chart metadata Daytona's codeRun returns; the kernel keeps one
+// interpreter alive per sandbox so variables survive between tool calls.
+export const RUNNER_FILENAME = '__scira_kernel__.py';
+export const RESULT_PREFIX = '__SCIRA_RESULT__ ';
+export const CHARTS_PREFIX = '__SCIRA_CHARTS__ ';
+
+const CHART_HELPERS_SOURCE = String.raw`
+import json
+import math
+import sys
+
+
+def _clean(value):
+    if isinstance(value, float):
+        return None if math.isnan(value) or math.isinf(value) else value
+    if hasattr(value, 'item'):
+        try:
+            return _clean(value.item())
+        except Exception:
+            pass
+    if hasattr(value, 'isoformat'):
+        return value.isoformat()
+    if isinstance(value, (int, str)) or value is None:
+        return value
+    return str(value)
+
+
+def _axis_is_datetime(axis):
+    try:
+        import matplotlib.dates as mdates
+        locator = axis.get_major_locator()
+        formatter = axis.get_major_formatter()
+        return isinstance(locator, mdates.DateLocator) or isinstance(
+            formatter, (mdates.DateFormatter, mdates.AutoDateFormatter, mdates.ConciseDateFormatter)
+        )
+    except Exception:
+        return False
+
+
+def _x_value(value, is_datetime):
+    if is_datetime and isinstance(value, (int, float)):
+        import matplotlib.dates as mdates
+        return mdates.num2date(value).isoformat()
+    return _clean(value)
+
+
+def _tick_label_at(ax, position):
+    ticks = list(ax.get_xticks())
+    labels = [label.get_text() for label in ax.get_xticklabels()]
+    if ticks and len(ticks) == len(labels):
+        nearest = min(range(len(ticks)), key=lambda i: abs(ticks[i] - position))
+        if labels[nearest]:
+            return labels[nearest]
+    return str(_clean(position))
+
+
+def _visible_label(artist, fallback):
+    label = artist.get_label() or ''
+    return fallback if not label or label.startswith('_') else label
+
+
+def _chart_from_axes(ax):
+    from matplotlib.collections import PathCollection
+    from matplotlib.container import BarContainer
+    from matplotlib.patches import Wedge
+
+    title = ax.get_title()
+    if not title and ax.figure._suptitle is not None:
+        title = ax.figure._suptitle.get_text()
+
+    wedges = [patch for patch in ax.patches if isinstance(patch, Wedge)]
+    if wedges:
+        return {
+            'type': 'pie',
+            'title': title,
+            'elements': [
+                {
+                    'label': _visible_label(wedge, 'Slice %d' % (index + 1)),
+                    'angle': _clean(wedge.theta2 - wedge.theta1),
+                    'radius': _clean(wedge.r),
+                }
+                for index, wedge in enumerate(wedges)
+            ],
+        }
+
+    base = {'title': title, 'x_label': ax.get_xlabel(), 'y_label': ax.get_ylabel()}
+
+    bar_containers = [container for container in ax.containers if isinstance(container, BarContainer)]
+    if bar_containers:
+        elements = []
+        for index, container in enumerate(bar_containers):
+            group = _visible_label(container, 'Series %d' % (index + 1))
+            horizontal = getattr(container, 'orientation', 'vertical') == 'horizontal'
+            for rect in container.patches:
+                if horizontal:
+                    position = rect.get_y() + rect.get_height() / 2
+                    value = rect.get_width()
+                    ticks = list(ax.get_yticks())
+                    labels = [label.get_text() for label in ax.get_yticklabels()]
+                    label = str(_clean(position))
+                    if ticks and len(ticks) == len(labels):
+                        nearest = min(range(len(ticks)), key=lambda i: abs(ticks[i] - position))
+                        label = labels[nearest] or label
+                else:
+                    position = rect.get_x() + rect.get_width() / 2
+                    value = rect.get_height()
+                    label = _tick_label_at(ax, position)
+                elements.append({'label': label, 'value': _clean(value), 'group': group})
+        return dict(base, type='bar', elements=elements)
+
+    is_datetime = _axis_is_datetime(ax.xaxis)
+    x_scale = 'datetime' if is_datetime else ax.get_xscale()
+
+    lines = [line for line in ax.get_lines() if len(line.get_xdata()) > 0]
+    if lines:
+        return dict(
+            base,
+            type='line',
+            x_scale=x_scale,
+            elements=[
+                {
+                    'label': _visible_label(line, 'Line %d' % (index + 1)),
+                    'points': [
+                        [_x_value(x, is_datetime), _clean(y)]
+                        for x, y in zip(line.get_xdata(), line.get_ydata())
+                    ],
+                }
+                for index, line in enumerate(lines)
+            ],
+        )
+
+    scatters = [collection for collection in ax.collections if isinstance(collection, PathCollection)]
+    if scatters:
+        return dict(
+            base,
+            type='scatter',
+            x_scale=x_scale,
+            elements=[
+                {
+                    'label': _visible_label(collection, 'Series %d' % (index + 1)),
+                    'points': [[_x_value(x, is_datetime), _clean(y)] for x, y in collection.get_offsets()],
+                }
+                for index, collection in enumerate(scatters)
+            ],
+        )
+
+    return None
+
+
+def _collect_charts():
+    if 'matplotlib.pyplot' not in sys.modules:
+        return []
+    import matplotlib.pyplot as plt
+
+    charts = []
+    for number in plt.get_fignums():
+        figure = plt.figure(number)
+        for ax in figure.get_axes():
+            try:
+                chart = _chart_from_axes(ax)
+            except Exception:
+                chart = None
+            if chart:
+                charts.append(chart)
+    plt.close('all')
+    return charts
+`;
+
+// Defined once inside a Daytona interpreter context, then called after every cell
+export const DAYTONA_BOOTSTRAP_SOURCE =
+  CHART_HELPERS_SOURCE +
+  String.raw`
+
+def __scira_emit_charts():
+    print('${CHARTS_PREFIX}' + json.dumps(_collect_charts(), default=str))
+`;
+
+// Long-lived local interpreter. Reads one JSON request per line on stdin and answers
+// with a single prefixed JSON line, keeping the cell namespace between requests.
+export const KERNEL_SOURCE =
+  CHART_HELPERS_SOURCE +
+  String.raw`
+
+import ast
+import io
+import os
+import traceback
+
+MAX_OUTPUT_CHARS = 100000
+
+
+class _CappedBuffer(io.StringIO):
+    def write(self, text):
+        remaining = MAX_OUTPUT_CHARS - self.tell()
+        if remaining > 0:
+            super().write(text[:remaining])
+        return len(text)
+
+
+def _apply_memory_limit():
+    try:
+        import resource
+    except ImportError:
+        return
+    memory = int(os.environ.get('SCIRA_SANDBOX_MEMORY_BYTES', '0') or 0)
+    if memory > 0:
+        resource.setrlimit(resource.RLIMIT_AS, (memory, memory))
+
+
+def _set_cpu_budget(seconds):
+    # Give each cell its own CPU allowance on top of what the kernel has already used
+    if seconds <= 0:
+        return
+    try:
+        import resource
+    except ImportError:
+        return
+    usage = resource.getrusage(resource.RUSAGE_SELF)
+    soft = int(usage.ru_utime + usage.ru_stime) + 1 + seconds
+    _, hard = resource.getrlimit(resource.RLIMIT_CPU)
+    if hard != resource.RLIM_INFINITY:
+        soft = min(soft, hard)
+    resource.setrlimit(resource.RLIMIT_CPU, (soft, hard))
+
+
+def _disable_network():
+    # Guards against accidental network use only; the Docker runtime's --network none
+    # is what actually isolates untrusted code
+    import socket
+
+    def _blocked(*args, **kwargs):
+        raise OSError('Network access is disabled in this sandbox')
+
+    socket.socket.connect = _blocked
+    socket.socket.connect_ex = _blocked
+    socket.socket.sendto = _blocked
+    socket.getaddrinfo = _blocked
+    socket.create_connection = _blocked
+
+
+def _run_cell(source, namespace):
+    try:
+        tree = ast.parse(source, filename='<cell>', mode='exec')
+        last_expression = None
+        if tree.body and isinstance(tree.body[-1], ast.Expr):
+            last_expression = ast.Expression(tree.body.pop().value)
+        exec(compile(tree, '<cell>', 'exec'), namespace)
+        if last_expression is not None:
+            value = eval(compile(last_expression, '<cell>', 'eval'), namespace)
+            if value is not None:
+                print(repr(value))
+        return 0
+    except SystemExit as error:
+        return error.code if isinstance(error.code, int) else 0
+    except BaseException:
+        traceback.print_exc()
+        return 1
+
+
+def main():
+    _apply_memory_limit()
+    _disable_network()
+    os.environ.setdefault('MPLBACKEND', 'Agg')
+    cpu_seconds = int(os.environ.get('SCIRA_SANDBOX_CPU_SECONDS', '0') or 0)
+
+    protocol = sys.stdout
+    namespace = {'__name__': '__main__'}
+
+    for line in sys.stdin:
+        if not line.strip():
+            continue
+        request = json.loads(line)
+        _set_cpu_budget(cpu_seconds)
+
+        stdout, stderr = _CappedBuffer(), _CappedBuffer()
+        sys.stdout, sys.stderr = stdout, stderr
+        try:
+            exit_code = _run_cell(request.get('code', ''), namespace)
+        finally:
+            sys.stdout, sys.stderr = protocol, sys.__stderr__
+
+        try:
+            charts = _collect_charts()
+        except Exception:
+            charts = []
+
+        response = {
+            'id': request.get('id'),
+            'exitCode': exit_code,
+            'stdout': stdout.getvalue(),
+            'stderr': stderr.getvalue(),
+            'charts': charts,
+        }
+        protocol.write('${RESULT_PREFIX}' + json.dumps(response, default=str) + '\n')
+        protocol.flush()
+
+
+main()
+`;
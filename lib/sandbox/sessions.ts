@@ -0,0 +1,149 @@
+import { serverEnv } from '@/env/server';
+import { resolvesToPrivateAddress } from '@/lib/private-address';
+import { getCodeSandboxProvider } from './provider';
+import type { CodeSandbox } from './types';
+
+export interface SandboxAttachment {
+  url: string;
+  name?: string;
+}
+
+interface ChatSandboxSession {
+  ownerId: string | null;
+  sandbox: Promise<CodeSandbox>;
+  idleTimer: NodeJS.Timeout | null;
+  mounted: Set<string>;
+}
+
+// Keyed by chat id. Lives for the life of the server process; the idle timer and
+// the backend's own auto-stop settings clean up anything we lose track of.
+const sessions = new Map<string, ChatSandboxSession>();
+
+function scheduleIdleTeardown(chatId: string, session: ChatSandboxSession) {
+  if (session.idleTimer) clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    console.log(`[Sandbox] Chat ${chatId} idle, tearing down its sandbox`);
+    void releaseChatSandbox(chatId);
+  }, serverEnv.CODE_SANDBOX_IDLE_TIMEOUT_MS);
+  session.idleTimer.unref?.();
+}
+
+/**
+ * File name an attachment gets inside the sandbox working directory.
+ */
+export function getAttachmentFilename(attachment: SandboxAttachment): string {
+  const fromUrl = decodeURIComponent(new URL(attachment.url).pathname.split('/').pop() || 'attachment');
+  return (attachment.name || fromUrl).replace(/[\\/]/g, '_');
+}
+
+// Public host of the Blob store the upload route writes to: <store id>.public.blob.vercel-storage.com
+function uploadBlobHost(): string | null {
+  const [, , , storeId] = serverEnv.BLOB_READ_WRITE_TOKEN.split('_');
+  return storeId ? `${storeId.toLowerCase()}.public.blob.vercel-storage.com` : null;
+}
+
+/**
+ * Whether a file part's URL points at a file uploaded through this app. Message parts
+ * come from the client, so anything else is refused rather than fetched by the server.
+ */
+export function isUploadedAttachmentUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  const host = uploadBlobHost();
+  return (
+    !!host &&
+    parsed.protocol === 'https:' &&
+    parsed.hostname === host &&
+    !parsed.port &&
+    !parsed.username &&
+    !parsed.password
+  );
+}
+
+async function mountAttachments(chatId: string, session: ChatSandboxSession, attachments: SandboxAttachment[]) {
+  const pending = attachments.filter(
+    (attachment) => !session.mounted.has(attachment.url) && isUploadedAttachmentUrl(attachment.url),
+  );
+  if (pending.length === 0) return;
+
+  const sandbox = await session.sandbox;
+  await Promise.all(
+    pending.map(async (attachment) => {
+      try {
+        if (await resolvesToPrivateAddress(new URL(attachment.url).hostname)) {
+          throw new Error('Attachment host resolves to a private address');
+        }
+        // Redirects could lead anywhere, so only the validated URL itself is fetched
+        const response = await fetch(attachment.url, { redirect: 'error' });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const content = Buffer.from(await response.arrayBuffer());
+        await sandbox.uploadFile(getAttachmentFilename(attachment), content);
+        session.mounted.add(attachment.url);
+      } catch (error) {
+        console.error(`[Sandbox] Failed to mount ${attachment.url} for chat ${chatId}:`, error);
+      }
+    }),
+  );
+}
+
+/**
+ * Sandbox bound to a chat. Created on first use, reused by later tool calls in the
+ * same chat so Python variables persist, and torn down after an idle period or
+ * when the chat is deleted. Attachments not yet in the sandbox are mounted into
+ * its working directory.
+ */
+export async function getChatSandbox(
+  chatId: string,
+  ownerId: string | null,
+  attachments: SandboxAttachment[] = [],
+): Promise<CodeSandbox> {
+  let session = sessions.get(chatId);
+
+  if (session && session.ownerId !== ownerId) {
+    throw new Error('Sandbox session belongs to another user');
+  }
+
+  if (!session) {
+    const created: ChatSandboxSession = {
+      ownerId,
+      sandbox: getCodeSandboxProvider().create(),
+      idleTimer: null,
+      mounted: new Set(),
+    };
+    // Drop failed creations so the next call can retry
+    created.sandbox.catch(() => {
+      if (sessions.get(chatId) === created) sessions.delete(chatId);
+    });
+    sessions.set(chatId, created);
+    session = created;
+    console.log(`[Sandbox] Creating sandbox for chat ${chatId}`);
+  }
+
+  scheduleIdleTeardown(chatId, session);
+  await mountAttachments(chatId, session, attachments);
+  return session.sandbox;
+}
+
+/**
+ * Destroy the sandbox bound to a chat, if any.
+ */
+export async function releaseChatSandbox(chatId: string): Promise<void> {
+  const session = sessions.get(chatId);
+  if (!session) return;
+
+  sessions.delete(chatId);
+  if (session.idleTimer) clearTimeout(session.idleTimer);
+
+  try {
+    const sandbox = await session.sandbox;
+    await sandbox.destroy();
+    console.log(`[Sandbox] Destroyed sandbox ${sandbox.id} for chat ${chatId}`);
+  } catch (error) {
+    console.error(`[Sandbox] Failed to tear down sandbox for chat ${chatId}:`, error);
+  }
+}
@@ -0,0 +1,40 @@
+export type CodeSandboxProviderName = 'daytona' | 'local';
+
+/**
+ * Chart metadata extracted from matplotlib figures. Mirrors the shape Daytona
+ * returns so `components/interactive-charts.tsx` can render either backend.
+ */
+export interface SandboxChart {
+  type: string;
+  title: string;
+  elements: any[];
+  x_label?: string;
+  y_label?: string;
+  x_scale?: string;
+  png?: string;
+}
+
+export interface CodeExecutionResult {
+  exitCode: number;
+  /** Combined output shown to the model (stdout, plus the traceback on failure) */
+  result: string;
+  stdout: string;
+  charts: SandboxChart[];
+}
+
+/**
+ * A running sandbox. Interpreter state persists across `run` calls until `destroy`.
+ */
+export interface CodeSandbox {
+  readonly id: string;
+  run(code: string): Promise<CodeExecutionResult>;
+  installPackages(packages: string[]): Promise<void>;
+  /** Write a file into the sandbox working directory so code can open it by name */
+  uploadFile(filename: string, content: Buffer): Promise<void>;
+  destroy(): Promise<void>;
+}
+
+export interface CodeSandboxProvider {
+  readonly name: CodeSandboxProviderName;
+  create(): Promise<CodeSandbox>;
+}
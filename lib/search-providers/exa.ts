@@ -0,0 +1,38 @@
+import Exa from 'exa-js';
+import { serverEnv } from '@/env/server';
+import type { SearchOptions, SearchPayload, SearchProvider } from './types';
+import { cleanTitle, deduplicateByDomainAndUrl } from './utils';
+
+export class ExaSearchProvider implements SearchProvider {
+  readonly id = 'exa' as const;
+
+  isConfigured(): boolean {
+    return !!serverEnv.EXA_API_KEY;
+  }
+
+  async search(query: string, { maxResults, topic }: SearchOptions): Promise<SearchPayload> {
+    const exa = new Exa(serverEnv.EXA_API_KEY);
+    const response = await exa.searchAndContents(query, {
+      type: 'auto',
+      numResults: Math.max(1, Math.min(maxResults, 15)),
+      text: {
+        maxCharacters: 1000,
+      },
+      category: topic === 'news' ? 'news' : undefined,
+      livecrawl: 'auto',
+    });
+
+    const results = (response?.results || []).map((result: any) => ({
+      url: result.url,
+      title: cleanTitle(result.title || ''),
+      content: (result.text || '').slice(0, 1000),
+      published_date: result.publishedDate || undefined,
+      author: result.author || undefined,
+    }));
+
+    return {
+      results: deduplicateByDomainAndUrl(results),
+      images: [],
+    };
+  }
+}
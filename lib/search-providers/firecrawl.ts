@@ -0,0 +1,53 @@
+import Firecrawl, {
+  type SearchResultImages,
+  type SearchResultNews,
+  type SearchResultWeb,
+} from '@mendable/firecrawl-js';
+import { serverEnv } from '@/env/server';
+import type { SearchOptions, SearchPayload, SearchProvider } from './types';
+import { cleanTitle, deduplicateByDomainAndUrl } from './utils';
+
+export class FirecrawlSearchProvider implements SearchProvider {
+  readonly id = 'firecrawl' as const;
+
+  isConfigured(): boolean {
+    return !!serverEnv.FIRECRAWL_API_KEY;
+  }
+
+  async search(query: string, { maxResults, topic }: SearchOptions): Promise<SearchPayload> {
+    const firecrawl = new Firecrawl({ apiKey: serverEnv.FIRECRAWL_API_KEY });
+    const response = await firecrawl.search(query, {
+      sources: [topic === 'news' ? 'news' : 'web', 'images'],
+      limit: Math.max(1, Math.min(maxResults, 20)),
+    });
+
+    const entries = (topic === 'news' ? response.news : response.web) || [];
+    const results = entries
+      .map((entry) => {
+        const item = entry as SearchResultWeb & SearchResultNews;
+        return {
+          url: item.url || '',
+          title: cleanTitle(item.title || ''),
+          content: (item.description || item.snippet || '').slice(0, 1000),
+          published_date: item.date || undefined,
+        };
+      })
+      .filter((item) => item.url);
+
+    const images = (response.images || [])
+      .slice(0, 3)
+      .map((entry) => {
+        const image = entry as SearchResultImages;
+        return {
+          url: image.imageUrl || '',
+          description: cleanTitle(image.title || 'Related image'),
+        };
+      })
+      .filter((image) => image.url);
+
+    return {
+      results: deduplicateByDomainAndUrl(results),
+      images: deduplicateByDomainAndUrl(images),
+    };
+  }
+}
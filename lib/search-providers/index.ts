@@ -0,0 +1,121 @@
+import { serverEnv } from '@/env/server';
+import { ExaSearchProvider } from './exa';
+import { FirecrawlSearchProvider } from './firecrawl';
+import { ParallelSearchProvider } from './parallel';
+import { SearxngSearchProvider } from './searxng';
+import { TavilySearchProvider } from './tavily';
+import {
+  USER_SEARCH_PROVIDERS,
+  type SearchOptions,
+  type SearchPayload,
+  type SearchProvider,
+  type SearchProviderId,
+  type UserSearchProvider,
+} from './types';
+
+export * from './types';
+export { defaultSearx } from './searxng';
+
+const providers: Record<SearchProviderId, SearchProvider> = {
+  exa: new ExaSearchProvider(),
+  searxng: new SearxngSearchProvider(),
+  tavily: new TavilySearchProvider(),
+  parallel: new ParallelSearchProvider(),
+  firecrawl: new FirecrawlSearchProvider(),
+};
+
+const providerIds = Object.keys(providers) as SearchProviderId[];
+
+// Chains used when WEB_SEARCH_FALLBACKS does not override them
+const defaultFallbacks: Record<SearchProviderId, SearchProviderId[]> = {
+  exa: ['searxng'],
+  searxng: ['exa'],
+  tavily: ['exa', 'searxng'],
+  parallel: ['exa', 'searxng'],
+  firecrawl: ['exa', 'searxng'],
+};
+
+const isProviderId = (value: string): value is SearchProviderId => providerIds.includes(value as SearchProviderId);
+
+/**
+ * Parse WEB_SEARCH_FALLBACKS, e.g. "tavily=searxng,exa;exa=searxng".
+ * Unknown provider ids are ignored; an empty list disables fallback for that provider.
+ */
+function parseFallbackOverrides(value: string): Partial<Record<SearchProviderId, SearchProviderId[]>> {
+  const overrides: Partial<Record<SearchProviderId, SearchProviderId[]>> = {};
+
+  for (const entry of value.split(';')) {
+    const [rawKey, rawChain = ''] = entry.split('=');
+    const key = rawKey?.trim().toLowerCase();
+    if (!key || !isProviderId(key)) continue;
+
+    overrides[key] = rawChain
+      .split(',')
+      .map((id) => id.trim().toLowerCase())
+      .filter(isProviderId);
+  }
+
+  return overrides;
+}
+
+const fallbackOverrides = parseFallbackOverrides(serverEnv.WEB_SEARCH_FALLBACKS);
+
+export const isUserSearchProvider = (value: unknown): value is UserSearchProvider =>
+  typeof value === 'string' && (USER_SEARCH_PROVIDERS as readonly string[]).includes(value);
+
+export function getSearchProvider(id: SearchProviderId): SearchProvider {
+  return providers[id];
+}
+
+/**
+ * Ordered list of providers to try for a preferred provider: the preferred one first,
+ * then its fallback chain, skipping duplicates and providers that aren't configured.
+ */
+export function resolveProviderChain(preferred: UserSearchProvider | SearchProviderId): SearchProvider[] {
+  const primary: SearchProviderId = isProviderId(preferred) ? preferred : 'exa';
+  const fallbacks = fallbackOverrides[primary] ?? defaultFallbacks[primary];
+
+  return Array.from(new Set<SearchProviderId>([primary, ...fallbacks]))
+    .map((id) => providers[id])
+    .filter((provider) => provider.isConfigured());
+}
+
+/**
+ * Run a query through the provider chain until one returns results.
+ * Returns the payload together with the id of the provider that answered.
+ */
+export async function searchWithFallback(
+  query: string,
+  preferred: UserSearchProvider | SearchProviderId,
+  options: SearchOptions,
+): Promise<SearchPayload & { provider: SearchProviderId }> {
+  const chain = resolveProviderChain(preferred);
+
+  if (chain.length === 0) {
+    throw new Error(`No configured search provider available for "${preferred}"`);
+  }
+
+  let lastError: unknown = null;
+  let answeredBy: SearchProviderId | null = null;
+
+  for (const provider of chain) {
+    try {
+      const payload = await provider.search(query, options);
+      if (payload.results.length > 0) {
+        return { ...payload, provider: provider.id };
+      }
+      answeredBy ??= provider.id;
+      console.log(`[WebSearch] ${provider.id} returned no results for "${query}", trying next provider`);
+    } catch (error) {
+      lastError = error;
+      console.error(`[WebSearch] ${provider.id} failed for "${query}":`, error);
+    }
+  }
+
+  // Only surface an error when no provider managed to respond at all
+  if (!answeredBy) {
+    throw lastError ?? new Error(`All search providers failed for "${query}"`);
+  }
+
+  return { results: [], images: [], provider: answeredBy };
+}
@@ -0,0 +1,37 @@
+import Parallel from 'parallel-web';
+import { serverEnv } from '@/env/server';
+import type { SearchOptions, SearchPayload, SearchProvider } from './types';
+import { cleanTitle, deduplicateByDomainAndUrl } from './utils';
+
+export class ParallelSearchProvider implements SearchProvider {
+  readonly id = 'parallel' as const;
+
+  isConfigured(): boolean {
+    return !!serverEnv.PARALLEL_API_KEY;
+  }
+
+  async search(query: string, { maxResults, topic }: SearchOptions): Promise<SearchPayload> {
+    const parallel = new Parallel({ apiKey: serverEnv.PARALLEL_API_KEY });
+    const response = await parallel.beta.search({
+      objective: topic === 'news' ? `Latest news: ${query}` : query,
+      search_queries: [query],
+      mode: 'one-shot',
+      max_results: Math.max(1, Math.min(maxResults, 20)),
+      excerpts: {
+        max_chars_per_result: 1000,
+      },
+    });
+
+    const results = (response.results || []).map((result) => ({
+      url: result.url,
+      title: cleanTitle(result.title || ''),
+      content: (Array.isArray(result.excerpts) ? result.excerpts.join(' ') : '').slice(0, 1000),
+      published_date: result.publish_date || undefined,
+    }));
+
+    return {
+      results: deduplicateByDomainAndUrl(results),
+      images: [],
+    };
+  }
+}
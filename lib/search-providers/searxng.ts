@@ -0,0 +1,64 @@
+import { serverEnv } from '@/env/server';
+import { toolFetchJson } from '@/lib/tool-http';
+import type { SearchOptions, SearchPayload, SearchProvider } from './types';
+import { cleanTitle, deduplicateByDomainAndUrl } from './utils';
+
+export const defaultSearx = 'http://192.168.50.158:30053';
+
+const sanitizeSearxHost = (value: string): string => {
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+  if (/^https?:\/\//i.test(trimmed)) return trimmed.replace(/\/$/, '');
+  return `http://${trimmed.replace(/\/$/, '')}`;
+};
+
+export class SearxngSearchProvider implements SearchProvider {
+  readonly id = 'searxng' as const;
+
+  isConfigured(): boolean {
+    return !!sanitizeSearxHost(serverEnv.SEARXNG_URL || defaultSearx);
+  }
+
+  async search(query: string, { maxResults, topic }: SearchOptions): Promise<SearchPayload> {
+    const host = sanitizeSearxHost(serverEnv.SEARXNG_URL || defaultSearx);
+    const url = new URL('/search', host);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+    url.searchParams.set('language', 'en-US');
+    url.searchParams.set('safesearch', '1');
+    url.searchParams.set('categories', topic === 'news' ? 'news' : 'general');
+
+    const data = await toolFetchJson(url.toString(), {
+      service: 'SearXNG',
+      headers: {
+        Accept: 'application/json',
+        'User-Agent': 'scira-search/1.0',
+      },
+    });
+    const results = Array.isArray(data?.results)
+      ? data.results.slice(0, maxResults).map((result: any) => ({
+          url: result.url,
+          title: cleanTitle(result.title || ''),
+          content: (result.content || result.snippet || '').toString().slice(0, 1000),
+          published_date: result.publishedDate || result.published_date || undefined,
+          author: result.author || result.engine || undefined,
+        }))
+      : [];
+
+    const images = Array.isArray(data?.infoboxes)
+      ? data.infoboxes
+          .flatMap((box: any) => (Array.isArray(box?.images) ? box.images : []))
+          .slice(0, 3)
+          .map((img: any) => ({
+            url: typeof img?.url === 'string' ? img.url : '',
+            description: cleanTitle(typeof img?.title === 'string' ? img.title : 'Related image'),
+          }))
+          .filter((item: any) => item.url)
+      : [];
+
+    return {
+      results: deduplicateByDomainAndUrl(results),
+      images: deduplicateByDomainAndUrl(images),
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { tavily } from '@tavily/core';
+import { serverEnv } from '@/env/server';
+import type { SearchOptions, SearchPayload, SearchProvider } from './types';
+import { cleanTitle, deduplicateByDomainAndUrl } from './utils';
+
+export class TavilySearchProvider implements SearchProvider {
+  readonly id = 'tavily' as const;
+
+  isConfigured(): boolean {
+    return !!serverEnv.TAVILY_API_KEY;
+  }
+
+  async search(query: string, { maxResults, topic }: SearchOptions): Promise<SearchPayload> {
+    const tvly = tavily({ apiKey: serverEnv.TAVILY_API_KEY });
+    const response = await tvly.search(query, {
+      topic,
+      maxResults: Math.max(1, Math.min(maxResults, 20)),
+      searchDepth: 'basic',
+      includeImages: true,
+      includeImageDescriptions: true,
+    });
+
+    const results = (response?.results || []).map((result) => ({
+      url: result.url,
+      title: cleanTitle(result.title || ''),
+      content: (result.content || '').slice(0, 1000),
+      published_date: result.publishedDate || undefined,
+    }));
+
+    const images = (response?.images || [])
+      .map((image) => ({
+        url: image.url,
+        description: cleanTitle(image.description || 'Related image'),
+      }))
+      .filter((image) => image.url);
+
+    return {
+      results: deduplicateByDomainAndUrl(results),
+      images: deduplicateByDomainAndUrl(images),
+    };
+  }
+}
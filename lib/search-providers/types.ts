@@ -0,0 +1,38 @@
+export type SearchTopic = 'general' | 'news';
+
+export type SearchProviderId = 'exa' | 'searxng' | 'tavily' | 'parallel' | 'firecrawl';
+
+// Providers a user can pick in settings; SearXNG is only used as a fallback
+export const USER_SEARCH_PROVIDERS = ['exa', 'parallel', 'tavily', 'firecrawl'] as const;
+
+export type UserSearchProvider = (typeof USER_SEARCH_PROVIDERS)[number];
+
+export interface SearchOptions {
+  maxResults: number;
+  topic: SearchTopic;
+}
+
+export interface SearchResultItem {
+  url: string;
+  title: string;
+  content: string;
+  published_date?: string;
+  author?: string;
+}
+
+export interface SearchImage {
+  url: string;
+  description: string;
+}
+
+export interface SearchPayload {
+  results: SearchResultItem[];
+  images: SearchImage[];
+}
+
+export interface SearchProvider {
+  id: SearchProviderId;
+  /** Whether the provider has the credentials/endpoint it needs to run */
+  isConfigured(): boolean;
+  search(query: string, options: SearchOptions): Promise<SearchPayload>;
+}
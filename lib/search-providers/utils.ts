@@ -0,0 +1,32 @@
+export const extractDomain = (url: string | null | undefined): string => {
+  if (!url || typeof url !== 'string') return '';
+  const urlPattern = /^https?:\/\/([^/?#]+)(?:[/?#]|$)/i;
+  return url.match(urlPattern)?.[1] || url;
+};
+
+export const cleanTitle = (title: string): string => {
+  return title
+    .replace(/\[.*?\]/g, '')
+    .replace(/\(.*?\)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+export const deduplicateByDomainAndUrl = <T extends { url: string }>(items: T[]): T[] => {
+  const seenDomains = new Set<string>();
+  const seenUrls = new Set<string>();
+
+  return items.filter((item) => {
+    const domain = extractDomain(item.url);
+    const isNewUrl = !seenUrls.has(item.url);
+    const isNewDomain = !seenDomains.has(domain);
+
+    if (isNewUrl && isNewDomain) {
+      seenUrls.add(item.url);
+      seenDomains.add(domain);
+      return true;
+    }
+
+    return false;
+  });
+};
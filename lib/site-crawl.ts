@@ -0,0 +1,405 @@
+import { decodeHtml, extractReadableContent, type ReadableContent } from '@/lib/readable-content';
+import { toolFetch } from '@/lib/tool-http';
+
+/**
+ * Breadth-first crawl of a site from a start URL for the retrieve tool's crawl
+ * mode. Follows same-site links within a depth and page budget, obeys
+ * robots.txt (RFC 9309), deduplicates pages by canonical URL and returns the
+ * text of each page together with the outline of how they were reached.
+ */
+
+export type CrawlScope = 'path' | 'site';
+
+export interface CrawlOptions {
+  maxDepth?: number;
+  maxPages?: number;
+  // 'path' stays under the start URL's directory, 'site' anywhere on the host
+  scope?: CrawlScope;
+}
+
+export interface CrawledPage {
+  url: string;
+  title: string;
+  description?: string;
+  content: string;
+  image?: string;
+  depth: number;
+  // Page the link was first found on; null for the start page
+  parentUrl: string | null;
+}
+
+export interface CrawlOutlineEntry {
+  url: string;
+  title: string;
+  depth: number;
+  parentUrl: string | null;
+}
+
+export interface CrawlResult {
+  startUrl: string;
+  pages: CrawledPage[];
+  outline: CrawlOutlineEntry[];
+  skipped: {
+    robots: number;
+    duplicate: number;
+    failed: number;
+    // Links found but not visited because the page or time budget ran out
+    budget: number;
+  };
+  // robots.txt of the start URL's origin
+  robotsTxt: 'found' | 'none' | 'unreachable';
+}
+
+const USER_AGENT = 'scira-retrieve/1.0';
+const ROBOTS_AGENT = 'scira-retrieve';
+
+export const DEFAULT_CRAWL_DEPTH = 2;
+export const MAX_CRAWL_DEPTH = 3;
+export const DEFAULT_CRAWL_PAGES = 15;
+export const MAX_CRAWL_PAGES = 30;
+
+const PAGE_TIMEOUT_MS = 10_000;
+const CRAWL_TIMEOUT_MS = 45_000;
+const CONCURRENCY = 4;
+const MAX_CRAWL_DELAY_MS = 2000;
+const MAX_PAGE_CHARS = 4000;
+const MAX_HTML_BYTES = 2_000_000;
+const MAX_LINKS_PER_PAGE = 200;
+
+const SKIPPED_EXTENSIONS =
+  /\.(?:pdf|zip|gz|tgz|tar|rar|7z|png|jpe?g|gif|svg|webp|ico|bmp|mp[34]|mov|avi|webm|wav|ogg|woff2?|ttf|eot|css|js|mjs|json|xml|rss|atom|exe|dmg|pkg|deb|rpm|apk|csv|xlsx?|docx?|pptx?)$/i;
+const TRACKING_PARAMS = /^(?:utm_|fbclid$|gclid$|mc_cid$|mc_eid$|ref$|ref_src$)/;
+
+/**
+ * URL used to recognize the same page reached by different links: no
+ * fragment, tracking parameters, default port, `index.html` or trailing slash.
+ */
+export function canonicalCrawlUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    parsed.hash = '';
+    parsed.username = '';
+    parsed.password = '';
+    parsed.hostname = parsed.hostname.toLowerCase();
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+    }
+    parsed.searchParams.sort();
+    parsed.pathname = parsed.pathname.replace(/\/index\.html?$/i, '/').replace(/(.)\/+$/, '$1');
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+const siteHost = (hostname: string) => hostname.toLowerCase().replace(/^www\./, '');
+
+function scopePrefix(startUrl: URL): string {
+  const path = startUrl.pathname;
+  // A page like /docs/intro is scoped to /docs/, a directory like /docs/ to itself
+  return path.endsWith('/') ? path : path.slice(0, path.lastIndexOf('/') + 1);
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsPolicy {
+  isAllowed: (url: string) => boolean;
+  crawlDelayMs: number;
+}
+
+const ALLOW_ALL: RobotsPolicy = { isAllowed: () => true, crawlDelayMs: 0 };
+const DISALLOW_ALL: RobotsPolicy = { isAllowed: () => false, crawlDelayMs: 0 };
+
+function robotsPatternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split('*')
+    .map((segment) => segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Rules for our user agent from a robots.txt body: the group naming
+ * `scira-retrieve` if there is one, otherwise the `*` group. The longest
+ * matching rule wins and Allow wins ties.
+ */
+export function parseRobotsTxt(body: string): RobotsPolicy {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelay?: number }> = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds > 0) current.crawlDelay = seconds;
+    }
+  }
+
+  const group =
+    groups.find((candidate) => candidate.agents.some((agent) => agent !== '*' && ROBOTS_AGENT.startsWith(agent))) ??
+    groups.find((candidate) => candidate.agents.includes('*'));
+  if (!group) return ALLOW_ALL;
+
+  return {
+    crawlDelayMs: Math.min((group.crawlDelay ?? 0) * 1000, MAX_CRAWL_DELAY_MS),
+    isAllowed: (url: string) => {
+      let path: string;
+      try {
+        const parsed = new URL(url);
+        path = `${parsed.pathname}${parsed.search}`;
+      } catch {
+        return false;
+      }
+      if (path === '/robots.txt') return true;
+
+      let best: RobotsRule | null = null;
+      for (const rule of group.rules) {
+        if (!robotsPatternMatches(rule.pattern, path)) continue;
+        if (
+          !best ||
+          rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow)
+        ) {
+          best = rule;
+        }
+      }
+      return best ? best.allow : true;
+    },
+  };
+}
+
+async function fetchRobotsPolicy(origin: string): Promise<{ policy: RobotsPolicy; status: CrawlResult['robotsTxt'] }> {
+  try {
+    const response = await toolFetch(`${origin}/robots.txt`, {
+      service: new URL(origin).hostname,
+      headers: { 'User-Agent': USER_AGENT },
+      timeoutMs: PAGE_TIMEOUT_MS,
+      retries: 1,
+    });
+    // RFC 9309: a missing robots.txt allows everything, an unreachable one nothing
+    if (response.status >= 400 && response.status < 500) return { policy: ALLOW_ALL, status: 'none' };
+    if (!response.ok) return { policy: DISALLOW_ALL, status: 'unreachable' };
+    return { policy: parseRobotsTxt(await response.text()), status: 'found' };
+  } catch {
+    return { policy: DISALLOW_ALL, status: 'unreachable' };
+  }
+}
+
+function pageLinks(html: string, baseUrl: string): string[] {
+  const base = html.match(/<base[^>]*href=["']([^"']+)["']/i)?.[1];
+  const links: string[] = [];
+  for (const match of html.matchAll(/<a\s[^>]*href=["']([^"'#][^"']*)["'][^>]*>/gi)) {
+    if (/\brel=["'][^"']*nofollow/i.test(match[0])) continue;
+    try {
+      links.push(new URL(match[1].replace(/&amp;/g, '&'), new URL(base ?? baseUrl, baseUrl)).toString());
+    } catch {
+      // Unparseable href
+    }
+    if (links.length >= MAX_LINKS_PER_PAGE) break;
+  }
+  return links;
+}
+
+interface FetchedPage {
+  finalUrl: string;
+  html: string;
+  readable: ReadableContent;
+}
+
+async function fetchPage(url: string, signal: AbortSignal): Promise<FetchedPage | null> {
+  try {
+    const response = await toolFetch(url, {
+      service: new URL(url).hostname,
+      headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+      timeoutMs: PAGE_TIMEOUT_MS,
+      retries: 1,
+      signal,
+    });
+    const contentType = response.headers.get('content-type') ?? '';
+    if (!response.ok || !/html/i.test(contentType)) return null;
+    const finalUrl = response.url || url;
+    const html = decodeHtml((await response.arrayBuffer()).slice(0, MAX_HTML_BYTES), contentType);
+    return { finalUrl, html, readable: extractReadableContent(html, finalUrl) };
+  } catch {
+    return null;
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Crawl a site from `startUrl`. Pages are visited level by level so the
+ * outline favours breadth: every page linked from the start page is read
+ * before anything two clicks away.
+ */
+export async function crawlSite(startUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  const maxDepth = Math.min(Math.max(options.maxDepth ?? DEFAULT_CRAWL_DEPTH, 0), MAX_CRAWL_DEPTH);
+  const maxPages = Math.min(Math.max(options.maxPages ?? DEFAULT_CRAWL_PAGES, 1), MAX_CRAWL_PAGES);
+  const scope = options.scope ?? 'path';
+
+  const startCanonical = canonicalCrawlUrl(startUrl);
+  if (!startCanonical) {
+    throw new Error('Invalid URL. URL must start with http:// or https://');
+  }
+  const start = new URL(startCanonical);
+  const host = siteHost(start.hostname);
+  // The trailing slash is gone from the canonical form but decides the scope
+  const prefix = scopePrefix(new URL(startUrl));
+
+  const inScope = (url: URL) =>
+    siteHost(url.hostname) === host &&
+    (scope === 'site' || url.pathname.startsWith(prefix) || `${url.pathname}/` === prefix);
+
+  // robots.txt is per origin, and www and the bare host (or http and https) are separate origins of one site
+  const robots = new Map<string, ReturnType<typeof fetchRobotsPolicy>>();
+  const robotsFor = (url: string) => {
+    const origin = new URL(url).origin;
+    let entry = robots.get(origin);
+    if (!entry) {
+      entry = fetchRobotsPolicy(origin);
+      robots.set(origin, entry);
+    }
+    return entry;
+  };
+
+  const { policy: startPolicy, status: robotsTxt } = await robotsFor(startCanonical);
+  const result: CrawlResult = {
+    startUrl: startCanonical,
+    pages: [],
+    outline: [],
+    skipped: { robots: 0, duplicate: 0, failed: 0, budget: 0 },
+    robotsTxt,
+  };
+
+  const seen = new Set<string>([startCanonical]);
+  const signal = AbortSignal.timeout(CRAWL_TIMEOUT_MS);
+  // The longest crawl delay of any origin met so far; with one, pages are fetched one at a time
+  let crawlDelayMs = startPolicy.crawlDelayMs;
+  let level: Array<{ url: string; parentUrl: string | null }> = [{ url: startCanonical, parentUrl: null }];
+
+  for (let depth = 0; depth <= maxDepth && level.length > 0; depth++) {
+    const next: typeof level = [];
+
+    let index = 0;
+    while (index < level.length) {
+      const remaining = maxPages - result.pages.length;
+      if (remaining <= 0 || signal.aborted) {
+        result.skipped.budget += level.length - index;
+        break;
+      }
+
+      const concurrency = crawlDelayMs > 0 ? 1 : CONCURRENCY;
+      const batch = level.slice(index, index + Math.min(concurrency, remaining));
+      index += batch.length;
+      const fetched = await Promise.all(
+        batch.map(async (entry) => {
+          const { policy } = await robotsFor(entry.url);
+          crawlDelayMs = Math.max(crawlDelayMs, policy.crawlDelayMs);
+          if (!policy.isAllowed(entry.url)) {
+            result.skipped.robots++;
+            return null;
+          }
+          const page = await fetchPage(entry.url, signal);
+          if (!page) result.skipped.failed++;
+          return page ? { entry, page } : null;
+        }),
+      );
+
+      for (const item of fetched) {
+        if (!item || result.pages.length >= maxPages) continue;
+        const { entry, page } = item;
+
+        // Redirects and rel=canonical can reveal a page that was already read
+        const finalCanonical = canonicalCrawlUrl(page.finalUrl) ?? entry.url;
+        const declaredCanonical = page.readable.canonicalUrl ? canonicalCrawlUrl(page.readable.canonicalUrl) : null;
+        const pageUrl =
+          declaredCanonical && siteHost(new URL(declaredCanonical).hostname) === host
+            ? declaredCanonical
+            : finalCanonical;
+        if (pageUrl !== entry.url && seen.has(pageUrl)) {
+          result.skipped.duplicate++;
+          continue;
+        }
+        seen.add(pageUrl);
+        seen.add(finalCanonical);
+
+        const title = page.readable.title || pageUrl;
+
+        result.pages.push({
+          url: pageUrl,
+          title,
+          description: page.readable.excerpt ?? undefined,
+          content: page.readable.markdown.slice(0, MAX_PAGE_CHARS),
+          image: page.readable.image ?? undefined,
+          depth,
+          parentUrl: entry.parentUrl,
+        });
+        result.outline.push({ url: pageUrl, title, depth, parentUrl: entry.parentUrl });
+
+        if (depth === maxDepth) continue;
+        for (const link of pageLinks(page.html, page.finalUrl)) {
+          const canonical = canonicalCrawlUrl(link);
+          if (!canonical || seen.has(canonical)) continue;
+          const parsed = new URL(canonical);
+          if (!inScope(parsed) || SKIPPED_EXTENSIONS.test(parsed.pathname)) continue;
+          seen.add(canonical);
+          next.push({ url: canonical, parentUrl: pageUrl });
+        }
+      }
+
+      if (crawlDelayMs > 0) await sleep(crawlDelayMs);
+    }
+
+    level = next;
+  }
+
+  return result;
+}
+
+/**
+ * Indented list of the crawled pages, each under the page it was found on.
+ */
+export function formatCrawlOutline(outline: CrawlOutlineEntry[]): string {
+  const children = new Map<string | null, CrawlOutlineEntry[]>();
+  for (const entry of outline) {
+    const siblings = children.get(entry.parentUrl) ?? [];
+    siblings.push(entry);
+    children.set(entry.parentUrl, siblings);
+  }
+
+  const lines: string[] = [];
+  const visit = (parentUrl: string | null, indent: number) => {
+    for (const entry of children.get(parentUrl) ?? []) {
+      lines.push(`${'  '.repeat(indent)}- [${entry.title}](${entry.url})`);
+      visit(entry.url, indent + 1);
+    }
+  };
+  visit(null, 0);
+  return lines.join('\n');
+}
@@ -0,0 +1,60 @@
+import type { SavedSource, SavedSourceKind } from '@/lib/db/schema';
+
+export const SAVED_SOURCE_KINDS: SavedSourceKind[] = ['web', 'academic', 'retrieve'];
+export const MAX_ATTACHED_SOURCES = 10;
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+const MAX_EXCERPT_LENGTH = 1000;
+const MAX_NOTES_LENGTH = 2000;
+
+export const savedSourcesKey = (userId: string | undefined) => ['saved-sources', userId] as const;
+
+export function isSavedSourceKind(value: unknown): value is SavedSourceKind {
+  return typeof value === 'string' && (SAVED_SOURCE_KINDS as string[]).includes(value);
+}
+
+/**
+ * Tags as typed by the user, comma separated or already split: trimmed,
+ * lowercased and deduplicated.
+ */
+export function parseTags(input: string | string[]): string[] {
+  const raw = Array.isArray(input) ? input : input.split(',');
+  const tags = raw.map((tag) => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH)).filter(Boolean);
+  return [...new Set(tags)].slice(0, MAX_TAGS);
+}
+
+export function clampExcerpt(excerpt: string | null | undefined): string | null {
+  const trimmed = excerpt?.trim();
+  return trimmed ? trimmed.slice(0, MAX_EXCERPT_LENGTH) : null;
+}
+
+export function clampNotes(notes: string | null | undefined): string | null {
+  const trimmed = notes?.trim();
+  return trimmed ? trimmed.slice(0, MAX_NOTES_LENGTH) : null;
+}
+
+/**
+ * System prompt section for sources the user attached from their library.
+ * The search route forces a retrieve call on the first step, so the answer is
+ * grounded in the current page content rather than the saved excerpt.
+ */
+export function attachedSourcesPrompt(sources: Array<Pick<SavedSource, 'url' | 'title' | 'notes' | 'tags'>>): string {
+  if (sources.length === 0) return '';
+
+  const list = sources
+    .map((source) => {
+      const details = [
+        source.tags.length > 0 ? `tags: ${source.tags.join(', ')}` : null,
+        source.notes ? `user's notes: ${source.notes.replace(/\s+/g, ' ')}` : null,
+      ].filter(Boolean);
+      return `- [${source.title}](${source.url})${details.length > 0 ? ` (${details.join('; ')})` : ''}`;
+    })
+    .join('\n');
+
+  return `\n\n## Sources attached by the user
+The user attached these sources from their library to this question:
+${list}
+
+Call the retrieve tool once with all of these URLs before answering. Answer from what they contain and cite them; only say so when they do not cover the question.`;
+}
@@ -0,0 +1,150 @@
+import { saveToolCalls } from '@/lib/db/queries';
+import type { ToolCall } from '@/lib/db/schema';
+import { parseToolError } from '@/lib/tool-errors';
+
+/**
+ * Collects one record per tool invocation from the `streamText` callbacks:
+ * the start time from the `tool-call` chunk, the result from the
+ * `tool-result` chunk and failures from the step's `tool-error` parts. The
+ * records are written once the response message id is known.
+ */
+
+type ToolCallRecord = Omit<ToolCall, 'id' | 'createdAt'>;
+
+interface StreamChunk {
+  type: string;
+  toolCallId?: string;
+  toolName?: string;
+  input?: unknown;
+  output?: unknown;
+  preliminary?: boolean;
+}
+
+interface StepContent {
+  type: string;
+  toolCallId?: string;
+  toolName?: string;
+  error?: unknown;
+}
+
+interface PendingCall {
+  toolName: string;
+  input: unknown;
+  startedAt: number;
+}
+
+// Large inputs (code, long extracts) are cut down to a preview
+const MAX_INPUT_CHARS = 4000;
+
+function safeSize(value: unknown): number | null {
+  try {
+    return JSON.stringify(value)?.length ?? 0;
+  } catch {
+    return null;
+  }
+}
+
+function storedInput(input: unknown): unknown {
+  const size = safeSize(input);
+  if (size === null) return null;
+  if (size <= MAX_INPUT_CHARS) return input ?? null;
+  return { truncated: true, preview: JSON.stringify(input).slice(0, MAX_INPUT_CHARS) };
+}
+
+// Tools report their backend in different shapes; these cover the search and retrieve tools
+function providerFromOutput(output: unknown): string | null {
+  if (!output || typeof output !== 'object') return null;
+  const record = output as Record<string, any>;
+  for (const value of [record.provider, record.source, record.results?.[0]?.source]) {
+    if (typeof value === 'string' && value && value !== 'error') return value;
+  }
+  return null;
+}
+
+export function createToolCallRecorder({
+  chatId,
+  userId,
+  model,
+  providers = {},
+}: {
+  chatId: string | null;
+  userId: string | null;
+  model: string;
+  // Backend per tool name when the output does not say, e.g. the user's web search provider
+  providers?: Record<string, string>;
+}) {
+  const pending = new Map<string, PendingCall>();
+  const records: ToolCallRecord[] = [];
+
+  const finish = (toolCallId: string, toolName: string, result: { output: unknown } | { error: unknown }) => {
+    const call = pending.get(toolCallId);
+    pending.delete(toolCallId);
+    const base = {
+      chatId,
+      userId,
+      messageId: null,
+      toolCallId,
+      toolName: call?.toolName ?? toolName,
+      input: storedInput(call?.input),
+      duration: call ? Date.now() - call.startedAt : null,
+      model,
+    };
+
+    if ('output' in result) {
+      records.push({
+        ...base,
+        status: 'success',
+        outputSize: safeSize(result.output),
+        provider: providerFromOutput(result.output) ?? providers[base.toolName] ?? null,
+        error: null,
+      });
+      return;
+    }
+
+    const message = result.error instanceof Error ? result.error.message : String(result.error);
+    const toolError = parseToolError(message);
+    records.push({
+      ...base,
+      status: 'error',
+      outputSize: null,
+      provider: toolError?.service ?? providers[base.toolName] ?? null,
+      error: toolError
+        ? `${toolError.code}${toolError.status ? ` (HTTP ${toolError.status})` : ''}: ${toolError.message}`
+        : message,
+    });
+  };
+
+  return {
+    onChunk(chunk: StreamChunk) {
+      if (!chunk.toolCallId || !chunk.toolName) return;
+      if (chunk.type === 'tool-call') {
+        pending.set(chunk.toolCallId, { toolName: chunk.toolName, input: chunk.input, startedAt: Date.now() });
+      } else if (chunk.type === 'tool-result' && !chunk.preliminary) {
+        finish(chunk.toolCallId, chunk.toolName, { output: chunk.output });
+      }
+    },
+
+    // Failed executions never produce a chunk; they only appear in the finished step
+    onStepFinish(step: { content: StepContent[] }) {
+      for (const part of step.content) {
+        if (part.type === 'tool-error' && part.toolCallId && part.toolName) {
+          finish(part.toolCallId, part.toolName, { error: part.error });
+        }
+      }
+    },
+
+    async flush(messageId: string | null) {
+      // Calls still open here were cut off by an abort or a stream error
+      for (const [toolCallId, call] of [...pending]) {
+        finish(toolCallId, call.toolName, { error: 'Response ended before the tool finished' });
+      }
+      const batch = records.splice(0).map((record) => ({ ...record, messageId }));
+      if (batch.length === 0) return;
+      try {
+        await saveToolCalls({ toolCalls: batch });
+      } catch (error) {
+        console.error('Failed to save tool calls:', error);
+      }
+    },
+  };
+}
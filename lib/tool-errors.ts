@@ -0,0 +1,59 @@
+/**
+ * Structured errors from the shared tool HTTP client. A failed tool call
+ * reaches the client as an `output-error` part whose `errorText` is the
+ * thrown error's message, so the details travel as JSON in that message and
+ * are parsed back here for display. This module is safe to import in client
+ * components.
+ */
+
+export type ToolErrorCode =
+  | 'timeout'
+  | 'rate_limited'
+  | 'unavailable'
+  | 'http_error'
+  | 'network_error'
+  | 'invalid_response';
+
+export interface ToolErrorInfo {
+  // Upstream service the tool was calling, e.g. "Nominatim"
+  service: string;
+  code: ToolErrorCode;
+  message: string;
+  status?: number;
+  // Whether trying again later is likely to work
+  retryable: boolean;
+  retryAfterSeconds?: number;
+}
+
+const TOOL_ERROR_TYPE = 'tool_http_error';
+
+export function serializeToolError(info: ToolErrorInfo): string {
+  return JSON.stringify({ type: TOOL_ERROR_TYPE, ...info });
+}
+
+export function parseToolError(errorText: string | undefined): ToolErrorInfo | null {
+  if (!errorText?.startsWith('{')) return null;
+  try {
+    const { type, ...info } = JSON.parse(errorText);
+    return type === TOOL_ERROR_TYPE && typeof info.message === 'string' ? (info as ToolErrorInfo) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function toolErrorMessage(code: ToolErrorCode, service: string, status?: number): string {
+  switch (code) {
+    case 'timeout':
+      return `${service} did not respond in time.`;
+    case 'rate_limited':
+      return `${service} is limiting requests right now.`;
+    case 'unavailable':
+      return `${service} is temporarily unavailable${status ? ` (HTTP ${status})` : ''}.`;
+    case 'http_error':
+      return `${service} rejected the request${status ? ` (HTTP ${status})` : ''}.`;
+    case 'network_error':
+      return `Could not connect to ${service}.`;
+    case 'invalid_response':
+      return `${service} returned a response that could not be read.`;
+  }
+}
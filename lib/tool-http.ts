@@ -0,0 +1,378 @@
+import { createHash } from 'node:crypto';
+import Redis from 'ioredis';
+import { serverEnv } from '@/env/server';
+import { serializeToolError, toolErrorMessage, type ToolErrorCode, type ToolErrorInfo } from '@/lib/tool-errors';
+
+/**
+ * Shared HTTP layer for tools. Every upstream call gets a timeout, retries
+ * with backoff on 429, 5xx and network failures, per-host concurrency and
+ * request spacing (Nominatim allows one request per second), and an optional
+ * Redis response cache. Failures are thrown as `ToolHttpError`, whose message
+ * is the serialized `ToolErrorInfo` the chat UI renders.
+ */
+
+export interface ToolFetchOptions {
+  // Upstream name shown in errors, e.g. "Open-Meteo"
+  service: string;
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string | URLSearchParams;
+  timeoutMs?: number;
+  // Attempts after the first; only failures worth retrying are retried
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+export interface ToolFetchCachedOptions extends ToolFetchOptions {
+  // Cache successful responses in Redis for this long; omit to skip the cache
+  cacheTtlSeconds?: number;
+}
+
+interface HostPolicy {
+  maxConcurrent: number;
+  // Minimum gap between requests to the host, shared across instances through Redis
+  minIntervalMs: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+// A Retry-After longer than this fails the call instead of holding the stream open
+const MAX_RETRY_WAIT_MS = 10_000;
+const CACHE_PREFIX = 'scira:tool-http:';
+const REDIS_TIMEOUT_MS = 500;
+// After a failed or slow call Redis is skipped for this long instead of costing every request the timeout
+const REDIS_BACKOFF_MS = 30_000;
+const MAX_CACHED_BYTES = 1_000_000;
+// Hosts come from user-supplied URLs, so idle limiters are dropped once there are this many
+const MAX_LIMITERS = 200;
+
+const DEFAULT_POLICY: HostPolicy = { maxConcurrent: 6, minIntervalMs: 0 };
+
+const HOST_POLICIES: Record<string, HostPolicy> = {
+  'nominatim.openstreetmap.org': { maxConcurrent: 1, minIntervalMs: 1000 },
+  'overpass-api.de': { maxConcurrent: 2, minIntervalMs: 0 },
+  'api.coingecko.com': { maxConcurrent: 2, minIntervalMs: 2000 },
+  'opensky-network.org': { maxConcurrent: 1, minIntervalMs: 0 },
+  'api.tvmaze.com': { maxConcurrent: 2, minIntervalMs: 500 },
+};
+
+export class ToolHttpError extends Error {
+  public info: ToolErrorInfo;
+
+  constructor(info: ToolErrorInfo) {
+    super(serializeToolError(info));
+    this.name = 'ToolHttpError';
+    this.info = info;
+  }
+}
+
+function toolError(
+  code: ToolErrorCode,
+  service: string,
+  { status, retryAfterSeconds }: { status?: number; retryAfterSeconds?: number } = {},
+): ToolHttpError {
+  return new ToolHttpError({
+    service,
+    code,
+    message: toolErrorMessage(code, service, status),
+    status,
+    retryable: code !== 'http_error' && code !== 'invalid_response',
+    retryAfterSeconds,
+  });
+}
+
+let redisClient: Redis | null | undefined;
+let redisUnavailableUntil = 0;
+
+function getRedis(): Redis | null {
+  if (redisClient !== undefined) return redisClient;
+  try {
+    redisClient = new Redis(serverEnv.REDIS_URL, {
+      lazyConnect: true,
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: true,
+    });
+    redisClient.on('error', (error) => console.error('[ToolHttp] Redis error:', error.message));
+  } catch (error) {
+    console.error('[ToolHttp] Redis unavailable, continuing without cache:', error);
+    redisClient = null;
+  }
+  return redisClient;
+}
+
+// Redis is an optimisation here; a slow or failing call never fails the tool.
+// Resolves with null when Redis could not answer.
+async function withRedis<T>(operation: (redis: Redis) => Promise<T>): Promise<T | null> {
+  if (Date.now() < redisUnavailableUntil) return null;
+  const redis = getRedis();
+  if (!redis) return null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const result = await Promise.race([
+      operation(redis).then((value) => ({ value })),
+      new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), REDIS_TIMEOUT_MS);
+      }),
+    ]);
+    if (result) return result.value;
+    console.error(`[ToolHttp] Redis call timed out after ${REDIS_TIMEOUT_MS}ms`);
+  } catch (error) {
+    console.error('[ToolHttp] Redis call failed:', error);
+  } finally {
+    clearTimeout(timer);
+  }
+  redisUnavailableUntil = Date.now() + REDIS_BACKOFF_MS;
+  return null;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true },
+    );
+  });
+
+class HostLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private nextSlotAt = 0;
+
+  constructor(
+    private host: string,
+    private policy: HostPolicy,
+  ) {}
+
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    if (this.active < this.policy.maxConcurrent) {
+      this.active++;
+    } else {
+      // release() hands its slot over, so active already counts this request
+      await this.enqueue(signal);
+    }
+    try {
+      await this.waitForSlot(signal);
+    } catch (error) {
+      this.release();
+      throw error;
+    }
+    return () => this.release();
+  }
+
+  // Nothing running, queued or spaced out, so the limiter can be recreated without losing state
+  isIdle(): boolean {
+    return this.active === 0 && this.queue.length === 0 && this.nextSlotAt <= Date.now();
+  }
+
+  private enqueue(signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      const onAbort = () => {
+        this.queue = this.queue.filter((waiter) => waiter !== grant);
+        reject(signal!.reason);
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.queue.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private release() {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  // Reserves the next request slot locally, then in Redis so other instances keep the spacing too
+  private async waitForSlot(signal?: AbortSignal) {
+    const interval = this.policy.minIntervalMs;
+    if (interval <= 0) return;
+
+    const localWait = this.nextSlotAt - Date.now();
+    this.nextSlotAt = Math.max(Date.now(), this.nextSlotAt) + interval;
+    if (localWait > 0) await sleep(localWait, signal);
+
+    const key = `${CACHE_PREFIX}slot:${this.host}`;
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const reserved = await withRedis(async (redis) => (await redis.set(key, '1', 'PX', interval, 'NX')) === 'OK');
+      // null means Redis could not answer, and the local spacing above is all there is
+      if (reserved !== false || attempt === 4) return;
+      const ttl = await withRedis((redis) => redis.pttl(key));
+      if (ttl === null) return;
+      await sleep(Math.max(ttl, 50), signal);
+    }
+  }
+}
+
+const limiters = new Map<string, HostLimiter>();
+
+function limiterFor(url: string): HostLimiter {
+  const host = new URL(url).hostname;
+  let limiter = limiters.get(host);
+  if (!limiter) {
+    if (limiters.size >= MAX_LIMITERS) {
+      for (const [key, candidate] of limiters) {
+        if (candidate.isIdle()) limiters.delete(key);
+      }
+    }
+    limiter = new HostLimiter(host, HOST_POLICIES[host] ?? DEFAULT_POLICY);
+    limiters.set(host, limiter);
+  }
+  return limiter;
+}
+
+function retryAfterMs(response: Response): number | undefined {
+  const header = response.headers.get('retry-after');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+const backoffMs = (attempt: number) => BASE_BACKOFF_MS * 2 ** attempt + Math.random() * BASE_BACKOFF_MS;
+
+function errorForStatus(response: Response, service: string): ToolHttpError {
+  const status = response.status;
+  if (status === 429) {
+    const wait = retryAfterMs(response);
+    return toolError('rate_limited', service, {
+      status,
+      retryAfterSeconds: wait !== undefined ? Math.ceil(wait / 1000) : undefined,
+    });
+  }
+  return toolError(status >= 500 ? 'unavailable' : 'http_error', service, { status });
+}
+
+/**
+ * Request through the per-host limiter with a timeout and retries, and hand
+ * the final response to `read` while still holding the host's slot.
+ */
+async function limitedFetch<T>(
+  url: string,
+  options: ToolFetchOptions,
+  read: (response: Response) => Promise<T>,
+): Promise<T> {
+  const {
+    service,
+    method = 'GET',
+    headers,
+    body,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    signal,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < retries;
+    // Looked up per attempt: the limiter may have been dropped while idle between retries
+    const release = await limiterFor(url).acquire(signal);
+    let response: Response;
+    try {
+      const timeout = AbortSignal.timeout(timeoutMs);
+      response = await fetch(url, {
+        method,
+        headers,
+        body,
+        redirect: 'follow',
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+    } catch (error) {
+      release();
+      if (signal?.aborted) throw error;
+      const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+      console.warn(`[ToolHttp] ${service} ${timedOut ? 'timed out' : 'request failed'} (attempt ${attempt + 1})`);
+      if (!canRetry) throw toolError(timedOut ? 'timeout' : 'network_error', service);
+      await sleep(backoffMs(attempt), signal);
+      continue;
+    }
+
+    if (canRetry && (response.status === 429 || response.status >= 500)) {
+      const wait = response.status === 429 ? (retryAfterMs(response) ?? backoffMs(attempt)) : backoffMs(attempt);
+      if (wait <= MAX_RETRY_WAIT_MS) {
+        console.warn(`[ToolHttp] ${service} returned ${response.status}, retrying in ${Math.round(wait)}ms`);
+        await response.body?.cancel();
+        release();
+        await sleep(wait, signal);
+        continue;
+      }
+    }
+
+    try {
+      return await read(response);
+    } finally {
+      release();
+    }
+  }
+}
+
+/**
+ * Fetch through the per-host limiter with a timeout and retries. Resolves
+ * with the final response whatever its status, so callers that treat some
+ * error statuses as answers (robots.txt, optional lookups) can read them;
+ * throws `ToolHttpError` on timeouts and network failures. The host's slot
+ * is held only until the headers arrive; `toolFetchJson` and `toolFetchText`
+ * also hold it while the body downloads.
+ */
+export async function toolFetch(url: string, options: ToolFetchOptions): Promise<Response> {
+  return limitedFetch(url, options, async (response) => response);
+}
+
+function cacheKey(url: string, { method = 'GET', body }: ToolFetchOptions): string {
+  const hash = createHash('sha1')
+    .update(`${method} ${url} ${body?.toString() ?? ''}`)
+    .digest('hex');
+  return `${CACHE_PREFIX}${hash}`;
+}
+
+async function fetchTextCached(url: string, options: ToolFetchCachedOptions): Promise<string> {
+  const { cacheTtlSeconds } = options;
+  const key = cacheTtlSeconds ? cacheKey(url, options) : null;
+  if (key) {
+    const cached = await withRedis((redis) => redis.get(key));
+    if (cached !== null) return cached;
+  }
+
+  const text = await limitedFetch(url, options, async (response) => {
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw errorForStatus(response, options.service);
+    }
+    return response.text();
+  });
+
+  if (key && text.length <= MAX_CACHED_BYTES) {
+    void withRedis((redis) => redis.set(key, text, 'EX', cacheTtlSeconds!));
+  }
+  return text;
+}
+
+/**
+ * GET or POST a JSON API. Non-2xx responses and unparseable bodies throw
+ * `ToolHttpError`; successful bodies are cached when `cacheTtlSeconds` is set.
+ */
+export async function toolFetchJson<T = any>(url: string, options: ToolFetchCachedOptions): Promise<T> {
+  const text = await fetchTextCached(url, options);
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw toolError('invalid_response', options.service);
+  }
+}
+
+export async function toolFetchText(url: string, options: ToolFetchCachedOptions): Promise<string> {
+  return fetchTextCached(url, options);
+}
@@ -1,6 +1,7 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import { serverEnv } from '@/env/server';
+import { toolFetchJson } from '@/lib/tool-http';
 
 export const codeContextTool = tool({
   description: 'Get the context about coding, programming, and development libraries, frameworks, and tools',
@@ -14,7 +15,8 @@ export const codeContextTool = tool({
     outputTokens: z.number().min(0),
   }),
   execute: async ({ query }) => {
-    const response = await fetch('https://api.exa.ai/context', {
+    const data = await toolFetchJson('https://api.exa.ai/context', {
+      service: 'Exa',
       method: 'POST',
       headers: {
         'x-api-key': serverEnv.EXA_API_KEY,
@@ -24,8 +26,9 @@ export const codeContextTool = tool({
         query,
         tokensNum: 'dynamic',
       }),
+      timeoutMs: 30_000,
+      cacheTtlSeconds: 3600,
     });
-    const data = await response.json();
     return data;
   },
 });
@@ -1,75 +1,64 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import { Daytona } from '@daytonaio/sdk';
-import { serverEnv } from '@/env/server';
-import { SNAPSHOT_NAME } from '@/lib/constants';
+import { getAttachmentFilename, getChatSandbox, type SandboxAttachment } from '@/lib/sandbox';
 
-export const codeInterpreterTool = tool({
-  description: 'Write and execute Python code.',
-  inputSchema: z.object({
-    title: z.string().describe('The title of the code snippet.'),
-    code: z
-      .string()
-      .describe(
-        'The Python code to execute. put the variables in the end of the code to print them. do use the print function in the code to print the variables.',
-      ),
-    icon: z.enum(['stock', 'date', 'calculation', 'default']).describe('The icon to display for the code snippet.'),
-  }),
-  execute: async ({ code, title, icon }: { code: string; title: string; icon: string }) => {
-    console.log('Code:', code);
-    console.log('Title:', title);
-    console.log('Icon:', icon);
+export const codeInterpreterTool = (chatId: string, ownerId: string | null, attachments: SandboxAttachment[] = []) =>
+  tool({
+    description: `Write and execute Python code. State persists across calls in this chat, so variables, imports and dataframes from earlier runs can be reused.${
+      attachments.length > 0
+        ? ` Files attached to this chat are available in the working directory: ${attachments.map((attachment) => `./${getAttachmentFilename(attachment)}`).join(', ')}.`
+        : ''
+    }`,
+    inputSchema: z.object({
+      title: z.string().describe('The title of the code snippet.'),
+      code: z
+        .string()
+        .describe(
+          'The Python code to execute. put the variables in the end of the code to print them. do use the print function in the code to print the variables.',
+        ),
+      icon: z.enum(['stock', 'date', 'calculation', 'default']).describe('The icon to display for the code snippet.'),
+    }),
+    execute: async ({ code, title, icon }: { code: string; title: string; icon: string }) => {
+      console.log('Code:', code);
+      console.log('Title:', title);
+      console.log('Icon:', icon);
 
-    const daytona = new Daytona({
-      apiKey: serverEnv.DAYTONA_API_KEY,
-      target: 'us',
-    });
+      const sandbox = await getChatSandbox(chatId, ownerId, attachments);
+      const execution = await sandbox.run(code);
 
-    const sandbox = await daytona.create({
-      snapshot: SNAPSHOT_NAME,
-    });
+      console.log('Execution:', execution.result);
+      console.log('Execution:', execution.stdout);
 
-    const execution = await sandbox.process.codeRun(code);
+      let message = '';
 
-    console.log('Execution:', execution.result);
-    console.log('Execution:', execution.artifacts?.stdout);
-
-    let message = '';
-
-    if (execution.artifacts?.stdout === execution.result) {
-      message += execution.result;
-    } else if (execution.result && execution.result !== execution.artifacts?.stdout) {
-      message += execution.result;
-    } else if (execution.artifacts?.stdout && execution.artifacts?.stdout !== execution.result) {
-      message += execution.artifacts.stdout;
-    } else {
-      message += execution.result;
-    }
-
-    if (execution.artifacts?.charts) {
-      console.log('Chart:', execution.artifacts.charts[0]);
-    }
-
-    let chart;
-
-    if (execution.artifacts?.charts) {
-      chart = execution.artifacts.charts[0];
-    }
+      if (execution.stdout === execution.result) {
+        message += execution.result;
+      } else if (execution.result && execution.result !== execution.stdout) {
+        message += execution.result;
+      } else if (execution.stdout && execution.stdout !== execution.result) {
+        message += execution.stdout;
+      } else {
+        message += execution.result;
+      }
 
-    const chartData = chart
-      ? {
-        type: chart.type,
-        title: chart.title,
-        elements: chart.elements,
-        png: undefined,
+      if (execution.charts.length > 0) {
+        console.log('Chart:', execution.charts[0]);
       }
-      : undefined;
 
-    await sandbox.delete();
+      const chart = execution.charts[0];
+
+      const chartData = chart
+        ? {
+            type: chart.type,
+            title: chart.title,
+            elements: chart.elements,
+            png: undefined,
+          }
+        : undefined;
 
-    return {
-      message: message.trim(),
-      chart: chartData,
-    };
-  },
-});
+      return {
+        message: message.trim(),
+        chart: chartData,
+      };
+    },
+  });
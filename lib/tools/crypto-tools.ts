@@ -1,6 +1,20 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import { serverEnv } from '@/env/server';
+import { ToolHttpError, toolFetchJson } from '@/lib/tool-http';
+
+// Prices move constantly, but CoinGecko's demo tier only refreshes about once a minute
+const COINGECKO_CACHE_TTL_SECONDS = 60;
+
+const fetchCoinGecko = (url: string) =>
+  toolFetchJson(url, {
+    service: 'CoinGecko',
+    headers: {
+      Accept: 'application/json',
+      'x-cg-demo-api-key': serverEnv.COINGECKO_API_KEY,
+    },
+    cacheTtlSeconds: COINGECKO_CACHE_TTL_SECONDS,
+  });
 
 export const coinDataTool = tool({
   description: 'Get comprehensive coin data including metadata and market data by coin ID.',
@@ -41,18 +55,7 @@ export const coinDataTool = tool({
 
       const url = `https://api.coingecko.com/api/v3/coins/${coinId}?${params.toString()}`;
 
-      const response = await fetch(url, {
-        headers: {
-          Accept: 'application/json',
-          'x-cg-demo-api-key': serverEnv.COINGECKO_API_KEY,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      const data = await fetchCoinGecko(url);
 
       return {
         success: true,
@@ -63,6 +66,7 @@ export const coinDataTool = tool({
       };
     } catch (error) {
       console.error('Coin data error:', error);
+      if (error instanceof ToolHttpError) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
@@ -114,18 +118,7 @@ export const coinDataByContractTool = tool({
 
       const url = `https://api.coingecko.com/api/v3/coins/${platformId}/contract/${contractAddress}?${params.toString()}`;
 
-      const response = await fetch(url, {
-        headers: {
-          Accept: 'application/json',
-          'x-cg-demo-api-key': serverEnv.COINGECKO_API_KEY,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      const data = await fetchCoinGecko(url);
 
       return {
         success: true,
@@ -137,6 +130,7 @@ export const coinDataByContractTool = tool({
       };
     } catch (error) {
       console.error('Contract coin data error:', error);
+      if (error instanceof ToolHttpError) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
@@ -168,34 +162,13 @@ export const coinOhlcTool = tool({
     console.log('Days:', days);
 
     try {
-      const [ohlcResponse, coinDataResponse] = await Promise.all([
-        fetch(`https://api.coingecko.com/api/v3/coins/${coinId}/ohlc?vs_currency=${vsCurrency}&days=${days}`, {
-          headers: {
-            Accept: 'application/json',
-            'x-cg-demo-api-key': serverEnv.COINGECKO_API_KEY,
-          },
-        }),
-        fetch(
+      const [ohlcData, coinData] = await Promise.all([
+        fetchCoinGecko(`https://api.coingecko.com/api/v3/coins/${coinId}/ohlc?vs_currency=${vsCurrency}&days=${days}`),
+        fetchCoinGecko(
           `https://api.coingecko.com/api/v3/coins/${coinId}?localization=false&tickers=true&market_data=true&community_data=true&developer_data=true&sparkline=false`,
-          {
-            headers: {
-              Accept: 'application/json',
-              'x-cg-demo-api-key': serverEnv.COINGECKO_API_KEY,
-            },
-          },
         ),
       ]);
 
-      if (!ohlcResponse.ok) {
-        throw new Error(`CoinGecko OHLC API error: ${ohlcResponse.status} ${ohlcResponse.statusText}`);
-      }
-
-      if (!coinDataResponse.ok) {
-        throw new Error(`CoinGecko Coin Data API error: ${coinDataResponse.status} ${coinDataResponse.statusText}`);
-      }
-
-      const [ohlcData, coinData] = await Promise.all([ohlcResponse.json(), coinDataResponse.json()]);
-
       const formattedOhlcData = ohlcData.map(
         ([timestamp, open, high, low, close]: [number, number, number, number, number]) => ({
           timestamp,
@@ -226,6 +199,7 @@ export const coinOhlcTool = tool({
       };
     } catch (error) {
       console.error('Coin OHLC with Data error:', error);
+      if (error instanceof ToolHttpError) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
@@ -6,13 +6,13 @@
 // ----> Return all collected sources and research data to the user
 
 import Exa from 'exa-js';
-import { Daytona } from '@daytonaio/sdk';
 import { generateObject, generateText, stepCountIs, tool } from 'ai';
 import type { UIMessageStreamWriter } from 'ai';
 import { z } from 'zod';
 import { serverEnv } from '@/env/server';
 import { scira } from '@/ai/providers';
-import { SNAPSHOT_NAME } from '@/lib/constants';
+import { runInSandbox } from '@/lib/sandbox';
+import { fetchReadableContent } from '@/lib/readable-content';
 import { ChatMessage } from '../types';
 import { getTweet } from 'react-tweet/api';
 import { XaiProviderOptions, xai } from '@ai-sdk/xai';
@@ -29,24 +29,19 @@ const pythonLibsAvailable = [
   'scikit-learn',
 ];
 
-const daytona = new Daytona({
-  apiKey: serverEnv.DAYTONA_API_KEY,
-  target: 'us',
-});
+// Plain HTTP fallback for URLs the extraction providers could not read
+async function fetchViaHttp(url: string): Promise<SearchResult | null> {
+  const page = await fetchReadableContent(url, { userAgent: 'scira-extreme/1.0', maxChars: 3000 });
+  if (!page?.markdown) return null;
 
-const runCode = async (code: string, installLibs: string[] = []) => {
-  const sandbox = await daytona.create({
-    snapshot: SNAPSHOT_NAME,
-  });
-
-  if (installLibs.length > 0) {
-    await sandbox.process.executeCommand(`pip install ${installLibs.join(' ')}`);
-  }
-
-  const result = await sandbox.process.codeRun(code);
-  sandbox.delete();
-  return result;
-};
+  return {
+    title: page.title || url.split('/').pop() || 'Retrieved Content',
+    url,
+    content: page.markdown,
+    publishedDate: page.publishedDate || '',
+    favicon: `https://www.google.com/s2/favicons?domain=${new URL(url).hostname}&sz=128`,
+  };
+}
 
 // Content extraction provider strategies
 interface ContentExtractionStrategy {
@@ -104,31 +99,8 @@ class ExaContentStrategy implements ContentExtractionStrategy {
       console.log(`[Exa] Using HTTP fallback for ${failedUrls.length} URLs:`, failedUrls);
 
       for (const url of failedUrls) {
-        try {
-          const response = await fetch(url, { headers: { 'User-Agent': 'scira-extreme/1.0' } });
-          if (!response.ok) {
-            continue;
-          }
-          const html = await response.text();
-          const text = html
-            .replace(/<script[\s\S]*?<\/script>/gi, ' ')
-            .replace(/<style[\s\S]*?<\/style>/gi, ' ')
-            .replace(/<[^>]+>/g, ' ')
-            .replace(/\s+/g, ' ')
-            .trim()
-            .slice(0, 3000);
-          if (!text) continue;
-
-          results.push({
-            title: url.split('/').pop() || 'Retrieved Content',
-            url,
-            content: text,
-            publishedDate: '',
-            favicon: `https://www.google.com/s2/favicons?domain=${new URL(url).hostname}&sz=128`,
-          });
-        } catch (httpError) {
-          console.error(`[Exa] HTTP fallback error for ${url}:`, httpError);
-        }
+        const result = await fetchViaHttp(url);
+        if (result) results.push(result);
       }
     }
 
@@ -195,31 +167,8 @@ class ParallelContentStrategy implements ContentExtractionStrategy {
       console.log(`[Parallel] Using HTTP fallback for ${failedUrls.length} URLs:`, failedUrls);
 
       for (const url of failedUrls) {
-        try {
-          const response = await fetch(url, { headers: { 'User-Agent': 'scira-extreme/1.0' } });
-          if (!response.ok) {
-            continue;
-          }
-          const html = await response.text();
-          const text = html
-            .replace(/<script[\s\S]*?<\/script>/gi, ' ')
-            .replace(/<style[\s\S]*?<\/style>/gi, ' ')
-            .replace(/<[^>]+>/g, ' ')
-            .replace(/\s+/g, ' ')
-            .trim()
-            .slice(0, 3000);
-          if (!text) continue;
-
-          results.push({
-            title: url.split('/').pop() || 'Retrieved Content',
-            url,
-            content: text,
-            publishedDate: '',
-            favicon: `https://www.google.com/s2/favicons?domain=${new URL(url).hostname}&sz=128`,
-          });
-        } catch (httpError) {
-          console.error(`[Parallel] HTTP fallback error for ${url}:`, httpError);
-        }
+        const result = await fetchViaHttp(url);
+        if (result) results.push(result);
       }
     }
 
@@ -543,19 +492,18 @@ ${JSON.stringify(plan)}
               },
             });
           }
-          const response = await runCode(code, missingLibs);
+          const response = await runInSandbox(code, { installPackages: missingLibs });
 
           // Extract chart data if present, and if so then map and remove the png with chart.png
-          const charts =
-            response.artifacts?.charts?.map((chart) => {
-              if (chart.png) {
-                const { png, ...chartWithoutPng } = chart;
-                return chartWithoutPng;
-              }
-              return chart;
-            }) || [];
+          const charts = response.charts.map((chart) => {
+            if (chart.png) {
+              const { png, ...chartWithoutPng } = chart;
+              return chartWithoutPng;
+            }
+            return chart;
+          });
 
-          console.log('Charts:', response.artifacts?.charts);
+          console.log('Charts:', response.charts);
 
           if (dataStream) {
             dataStream.write({
@@ -1,5 +1,10 @@
 import { tool } from 'ai';
 import { z } from 'zod';
+import { ToolHttpError, toolFetchJson } from '@/lib/tool-http';
+
+// Live positions go stale quickly; flight history for a past day does not
+const STATE_CACHE_TTL_SECONDS = 15;
+const HISTORY_CACHE_TTL_SECONDS = 300;
 
 const iataToIcaoAirline: Record<string, string> = {
   AA: 'AAL',
@@ -45,11 +50,11 @@ function pickFlightStatus(onGround: boolean | null | undefined, positionTs?: num
 }
 
 async function fetchOpenSkyState(callsign: string) {
-  const response = await fetch('https://opensky-network.org/api/states/all');
-  if (!response.ok) {
-    throw new Error(`OpenSky states API failed: ${response.status}`);
-  }
-  const data = await response.json();
+  const data = await toolFetchJson('https://opensky-network.org/api/states/all', {
+    service: 'OpenSky',
+    timeoutMs: 20_000,
+    cacheTtlSeconds: STATE_CACHE_TTL_SECONDS,
+  });
   const states: any[] = Array.isArray(data?.states) ? data.states : [];
 
   const normalizedCallsign = callsign.trim().toUpperCase();
@@ -67,11 +72,14 @@ async function fetchOpenSkyHistory(callsign: string, scheduledDepartureDate: str
   const begin = toUnix(scheduledDepartureDate);
   const end = toUnix(scheduledDepartureDate, true);
   const url = `https://opensky-network.org/api/flights/callsign?callsign=${encodeURIComponent(callsign)}&begin=${begin}&end=${end}`;
-  const response = await fetch(url);
-  if (!response.ok) {
-    return null;
+  let data: any;
+  try {
+    data = await toolFetchJson(url, { service: 'OpenSky', cacheTtlSeconds: HISTORY_CACHE_TTL_SECONDS });
+  } catch (error) {
+    // OpenSky answers 404 when no flight matched the callsign in the window
+    if (error instanceof ToolHttpError && error.info.status === 404) return null;
+    throw error;
   }
-  const data = await response.json();
   if (!Array.isArray(data) || data.length === 0) {
     return null;
   }
@@ -100,12 +108,16 @@ export const flightTrackerTool = tool({
     const callsign = `${icaoPrefix}${normalizedFlight}`;
 
     try {
-      const [state, history] = await Promise.all([
-        fetchOpenSkyState(callsign).catch(() => null),
-        fetchOpenSkyHistory(callsign, scheduledDepartureDate).catch(() => null),
+      const lookups = await Promise.allSettled([
+        fetchOpenSkyState(callsign),
+        fetchOpenSkyHistory(callsign, scheduledDepartureDate),
       ]);
+      const [state, history] = lookups.map((lookup) => (lookup.status === 'fulfilled' ? lookup.value : null));
 
       if (!state && !history) {
+        // An OpenSky outage is reported as such rather than as an unknown flight
+        const failure = lookups.find((lookup) => lookup.status === 'rejected');
+        if (failure) throw failure.reason;
         return {
           data: [],
           error: `No flight data found for ${carrierCode}${flightNumber} on ${scheduledDepartureDate}`,
@@ -191,6 +203,7 @@ export const flightTrackerTool = tool({
         ],
       };
     } catch (error) {
+      if (error instanceof ToolHttpError) throw error;
       return {
         data: [],
         error: error instanceof Error ? error.message : 'Failed to fetch flight data',
@@ -1,5 +1,6 @@
 import { tool } from 'ai';
 import { z } from 'zod';
+import { ToolHttpError, toolFetchJson } from '@/lib/tool-http';
 
 const NOMINATIM_BASE = 'https://nominatim.openstreetmap.org';
 const OVERPASS_API = 'https://overpass-api.de/api/interpreter';
@@ -9,15 +10,18 @@ const headers = {
   Accept: 'application/json',
 };
 
+const GEOCODE_CACHE_TTL_SECONDS = 86_400;
+const NEARBY_CACHE_TTL_SECONDS = 3600;
+
 const parseLat = (value: string | number | undefined): number => Number(typeof value === 'string' ? parseFloat(value) : value);
 
 const geocodeLocation = async (location: string) => {
   const url = `${NOMINATIM_BASE}/search?format=jsonv2&q=${encodeURIComponent(location)}&limit=1&addressdetails=1`;
-  const response = await fetch(url, { headers });
-  if (!response.ok) {
-    throw new Error(`Geocoding failed with status ${response.status}`);
-  }
-  const data = await response.json();
+  const data = await toolFetchJson(url, {
+    service: 'Nominatim',
+    headers,
+    cacheTtlSeconds: GEOCODE_CACHE_TTL_SECONDS,
+  });
   if (!Array.isArray(data) || data.length === 0) {
     throw new Error(`Could not geocode location: ${location}`);
   }
@@ -65,14 +69,20 @@ export const findPlaceOnMapTool = tool({
       if (query && query.trim().length > 0) {
         searchType = 'forward';
         const url = `${NOMINATIM_BASE}/search?format=jsonv2&q=${encodeURIComponent(query)}&limit=10&addressdetails=1`;
-        const response = await fetch(url, { headers });
-        const data = await response.json();
+        const data = await toolFetchJson(url, {
+          service: 'Nominatim',
+          headers,
+          cacheTtlSeconds: GEOCODE_CACHE_TTL_SECONDS,
+        });
         places = Array.isArray(data) ? data.map(toPlace) : [];
       } else if (latitude !== undefined && longitude !== undefined) {
         searchType = 'reverse';
         const url = `${NOMINATIM_BASE}/reverse?format=jsonv2&lat=${latitude}&lon=${longitude}&addressdetails=1`;
-        const response = await fetch(url, { headers });
-        const data = await response.json();
+        const data = await toolFetchJson(url, {
+          service: 'Nominatim',
+          headers,
+          cacheTtlSeconds: GEOCODE_CACHE_TTL_SECONDS,
+        });
         places = data ? [toPlace(data)] : [];
       } else {
         throw new Error('Either query or coordinates (latitude/longitude) must be provided');
@@ -86,6 +96,7 @@ export const findPlaceOnMapTool = tool({
         count: places.length,
       };
     } catch (error) {
+      if (error instanceof ToolHttpError) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown geocoding error',
@@ -151,20 +162,17 @@ export const nearbyPlacesSearchTool = tool({
 out center tags 20;
       `.trim();
 
-      const response = await fetch(OVERPASS_API, {
+      const data = await toolFetchJson(OVERPASS_API, {
+        service: 'Overpass',
         method: 'POST',
         headers: {
           ...headers,
           'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8',
         },
         body: new URLSearchParams({ data: query }).toString(),
+        timeoutMs: 25_000,
+        cacheTtlSeconds: NEARBY_CACHE_TTL_SECONDS,
       });
-
-      if (!response.ok) {
-        throw new Error(`Overpass API failed: ${response.status}`);
-      }
-
-      const data = await response.json();
       const elements: any[] = Array.isArray(data?.elements) ? data.elements : [];
 
       const places = elements.slice(0, 20).map((element) => {
@@ -219,6 +227,7 @@ out center tags 20;
         count: places.length,
       };
     } catch (error) {
+      if (error instanceof ToolHttpError) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown nearby search error',
@@ -1,6 +1,14 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import { serverEnv } from '@/env/server';
+import { ToolHttpError, toolFetchJson } from '@/lib/tool-http';
+
+const REGISTRY_CACHE_TTL_SECONDS = 3600;
+
+const registryHeaders = () => ({
+  Authorization: `Bearer ${serverEnv.SMITHERY_API_KEY}`,
+  'Content-Type': 'application/json',
+});
 
 export const mcpSearchTool = tool({
   description: `Search for mcp servers and get the information about them. VERY IMPORTANT: DO NOT USE THIS TOOL FOR GENERAL WEB SEARCHES, ONLY USE IT FOR MCP SERVER SEARCHES.`,
@@ -9,37 +17,24 @@ export const mcpSearchTool = tool({
   }),
   execute: async ({ query }: { query: string }) => {
     try {
-      const response = await fetch(`https://registry.smithery.ai/servers?q=${encodeURIComponent(query)}`, {
-        headers: {
-          Authorization: `Bearer ${serverEnv.SMITHERY_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
+      const data = await toolFetchJson(`https://registry.smithery.ai/servers?q=${encodeURIComponent(query)}`, {
+        service: 'Smithery',
+        headers: registryHeaders(),
+        cacheTtlSeconds: REGISTRY_CACHE_TTL_SECONDS,
       });
 
-      if (!response.ok) {
-        throw new Error(`Smithery API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-
       const detailedServers = await Promise.all(
         data.servers.map(async (server: any) => {
-          const detailResponse = await fetch(
-            `https://registry.smithery.ai/servers/${encodeURIComponent(server.qualifiedName)}`,
-            {
-              headers: {
-                Authorization: `Bearer ${serverEnv.SMITHERY_API_KEY}`,
-                'Content-Type': 'application/json',
-              },
-            },
-          );
-
-          if (!detailResponse.ok) {
+          let details: any;
+          try {
+            details = await toolFetchJson(
+              `https://registry.smithery.ai/servers/${encodeURIComponent(server.qualifiedName)}`,
+              { service: 'Smithery', headers: registryHeaders(), cacheTtlSeconds: REGISTRY_CACHE_TTL_SECONDS },
+            );
+          } catch {
             console.warn(`Failed to fetch details for ${server.qualifiedName}`);
             return server;
           }
-
-          const details = await detailResponse.json();
           return {
             ...server,
             deploymentUrl: details.deploymentUrl,
@@ -55,6 +50,7 @@ export const mcpSearchTool = tool({
       };
     } catch (error) {
       console.error('Smithery search error:', error);
+      if (error instanceof ToolHttpError) throw error;
       return {
         error: error instanceof Error ? error.message : 'Unknown error',
         query: query,
@@ -1,5 +1,8 @@
 import { tool } from 'ai';
 import { z } from 'zod';
+import { ToolHttpError, toolFetchJson } from '@/lib/tool-http';
+
+const SEARCH_CACHE_TTL_SECONDS = 3600;
 
 type MediaKind = 'movie' | 'tv';
 
@@ -46,20 +49,22 @@ const mapGenreId = (name: string): number => {
 
 async function searchItunes(query: string, media: 'movie' | 'tvShow') {
   const url = `https://itunes.apple.com/search?term=${encodeURIComponent(query)}&media=${media}&limit=10&entity=${media}`;
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`iTunes search failed: ${response.status}`);
-  }
-  const data = await response.json();
+  const data = await toolFetchJson(url, { service: 'iTunes', cacheTtlSeconds: SEARCH_CACHE_TTL_SECONDS });
   return Array.isArray(data?.results) ? data.results : [];
 }
 
 async function searchTvMaze(query: string) {
-  const response = await fetch(`https://api.tvmaze.com/search/shows?q=${encodeURIComponent(query)}`);
-  if (!response.ok) {
-    return [];
+  let data: any;
+  try {
+    data = await toolFetchJson(`https://api.tvmaze.com/search/shows?q=${encodeURIComponent(query)}`, {
+      service: 'TVmaze',
+      cacheTtlSeconds: SEARCH_CACHE_TTL_SECONDS,
+    });
+  } catch (error) {
+    // TVmaze only adds to the iTunes results, so a rejected query is not fatal
+    if (error instanceof ToolHttpError && error.info.code === 'http_error') return [];
+    throw error;
   }
-  const data = await response.json();
   return Array.isArray(data) ? data : [];
 }
 
@@ -92,16 +97,17 @@ async function normalizeTv(tvHit: any): Promise<UnifiedResult> {
   let cast: Array<{ id: number; name: string; character: string; profile_path: string | null }> = [];
 
   try {
-    const castResponse = await fetch(`https://api.tvmaze.com/shows/${show.id}/cast`);
-    if (castResponse.ok) {
-      const castData = await castResponse.json();
-      cast = (Array.isArray(castData) ? castData : []).slice(0, 8).map((entry: any) => ({
-        id: Number(entry.person?.id || 0),
-        name: entry.person?.name || 'Unknown',
-        character: entry.character?.name || 'Unknown',
-        profile_path: entry.person?.image?.medium || null,
-      }));
-    }
+    const castData = await toolFetchJson(`https://api.tvmaze.com/shows/${show.id}/cast`, {
+      service: 'TVmaze',
+      retries: 0,
+      cacheTtlSeconds: SEARCH_CACHE_TTL_SECONDS,
+    });
+    cast = (Array.isArray(castData) ? castData : []).slice(0, 8).map((entry: any) => ({
+      id: Number(entry.person?.id || 0),
+      name: entry.person?.name || 'Unknown',
+      character: entry.character?.name || 'Unknown',
+      profile_path: entry.person?.image?.medium || null,
+    }));
   } catch {
     cast = [];
   }
@@ -188,6 +194,7 @@ export const movieTvSearchTool = tool({
       return { result: tmdbLike };
     } catch (error) {
       console.error('Movie/TV search error:', error);
+      if (error instanceof ToolHttpError) throw error;
       return { result: null };
     }
   },
@@ -0,0 +1,37 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { findRelatedResearch } from '@/lib/research/memory';
+
+export function createPastResearchTool(userId: string, chatId: string) {
+  return tool({
+    description:
+      "Search the user's own past research in Scira: earlier answers and the sources they cited. Use it before searching the web when the question may have been researched before, and reuse those findings (citing the original sources) if they answer it and are recent enough.",
+    inputSchema: z.object({
+      query: z.string().describe('What to look for in past research, phrased as a question or topic.'),
+      limit: z.number().min(1).max(10).optional().describe('Maximum number of past chats to return. Defaults to 5.'),
+    }),
+    execute: async ({ query, limit }: { query: string; limit?: number }) => {
+      try {
+        const results = await findRelatedResearch({ userId, query, limit: limit ?? 5, excludeChatId: chatId });
+        return {
+          success: true,
+          query,
+          results: results.map((result) => ({
+            ...result,
+            similarity: Number(result.similarity.toFixed(3)),
+            chatUrl: `/search/${result.chatId}`,
+            researchedAt: result.createdAt.toISOString(),
+          })),
+        };
+      } catch (error) {
+        console.error('[Research] Past research search failed:', error);
+        return {
+          success: false,
+          query,
+          results: [],
+          error: error instanceof Error ? error.message : 'Failed to search past research',
+        };
+      }
+    },
+  });
+}
@@ -2,6 +2,17 @@ import { tool } from 'ai';
 import { z } from 'zod';
 import Exa from 'exa-js';
 import { serverEnv } from '@/env/server';
+import { extractReadableContent, fetchReadableContent, type ReadableContent } from '@/lib/readable-content';
+import { toolFetch } from '@/lib/tool-http';
+import {
+  crawlSite,
+  formatCrawlOutline,
+  DEFAULT_CRAWL_DEPTH,
+  DEFAULT_CRAWL_PAGES,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES,
+  type CrawlScope,
+} from '@/lib/site-crawl';
 
 const ContentType = z.enum(['general', 'twitter', 'youtube', 'tiktok', 'instagram']);
 
@@ -10,14 +21,6 @@ type LiveCrawlValue = 'never' | 'auto' | 'preferred';
 
 const exa = new Exa(serverEnv.EXA_API_KEY);
 
-const stripHtml = (html: string): string =>
-  html
-    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
-    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
-    .replace(/<[^>]+>/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
-
 const summarize = (text: string, maxLength = 240): string => {
   if (!text) return 'No summary available';
   const normalized = text.replace(/\s+/g, ' ').trim();
@@ -40,7 +43,8 @@ const getPlaywrightServiceUrl = (): string => {
 async function fetchViaPlaywright(url: string): Promise<{ title?: string; text?: string; description?: string; image?: string } | null> {
   try {
     const endpoint = getPlaywrightServiceUrl();
-    const response = await fetch(endpoint, {
+    const response = await toolFetch(endpoint, {
+      service: 'Playwright service',
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -50,6 +54,9 @@ async function fetchViaPlaywright(url: string): Promise<{ title?: string; text?:
         waitUntil: 'networkidle',
         timeoutMs: 20000,
       }),
+      // The service applies its own 20s navigation timeout
+      timeoutMs: 30_000,
+      retries: 0,
     });
 
     if (!response.ok) {
@@ -68,32 +75,8 @@ async function fetchViaPlaywright(url: string): Promise<{ title?: string; text?:
   }
 }
 
-async function fetchViaHttp(url: string): Promise<{ title?: string; text?: string; description?: string; image?: string } | null> {
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'scira-retrieve/1.0',
-      },
-    });
-
-    if (!response.ok) return null;
-
-    const html = await response.text();
-    const text = stripHtml(html).slice(0, 8000);
-
-    const titleMatch = html.match(/<title[^>]*>(.*?)<\/title>/i);
-    const descriptionMatch = html.match(/<meta[^>]*name=["']description["'][^>]*content=["'](.*?)["'][^>]*>/i);
-    const ogImageMatch = html.match(/<meta[^>]*property=["']og:image["'][^>]*content=["'](.*?)["'][^>]*>/i);
-
-    return {
-      title: titleMatch?.[1]?.trim(),
-      description: descriptionMatch?.[1]?.trim(),
-      image: ogImageMatch?.[1]?.trim(),
-      text,
-    };
-  } catch {
-    return null;
-  }
+async function fetchViaHttp(url: string): Promise<ReadableContent | null> {
+  return fetchReadableContent(url, { userAgent: 'scira-retrieve/1.0', maxChars: 8000 });
 }
 
 async function retrieveSingleUrl(
@@ -151,7 +134,9 @@ async function retrieveSingleUrl(
 
     const playwrightPayload = await fetchViaPlaywright(url);
     if (playwrightPayload?.text?.trim()) {
-      const textContent = playwrightPayload.text.startsWith('<') ? stripHtml(playwrightPayload.text) : playwrightPayload.text;
+      const textContent = playwrightPayload.text.startsWith('<')
+        ? extractReadableContent(playwrightPayload.text, url).markdown
+        : playwrightPayload.text;
       return {
         url,
         source: 'playwright',
@@ -171,7 +156,7 @@ async function retrieveSingleUrl(
     }
 
     const httpPayload = await fetchViaHttp(url);
-    if (httpPayload?.text?.trim()) {
+    if (httpPayload?.markdown.trim()) {
       return {
         url,
         source: 'http',
@@ -179,13 +164,13 @@ async function retrieveSingleUrl(
         result: {
           url,
           title: httpPayload.title || url,
-          description: httpPayload.description || summarize(httpPayload.text),
-          content: httpPayload.text,
-          author: undefined,
-          publishedDate: undefined,
+          description: httpPayload.excerpt || summarize(httpPayload.markdown),
+          content: httpPayload.markdown,
+          author: httpPayload.author || undefined,
+          publishedDate: httpPayload.publishedDate || undefined,
           image: httpPayload.image || undefined,
           favicon: toFavicon(url),
-          language: 'en',
+          language: httpPayload.language || 'en',
         },
       };
     }
@@ -208,9 +193,73 @@ async function retrieveSingleUrl(
   }
 }
 
+async function crawlFromUrl(
+  startUrl: string,
+  options: { maxDepth?: number; maxPages?: number; scope?: CrawlScope },
+  startTime: number,
+) {
+  if (!/^https?:\/\//i.test(startUrl)) {
+    return {
+      urls: [startUrl],
+      results: [],
+      sources: [],
+      response_time: (Date.now() - startTime) / 1000,
+      error: 'Invalid URL. URL must start with http:// or https://',
+    };
+  }
+
+  const crawl = await crawlSite(startUrl, options);
+  const responseTime = (Date.now() - startTime) / 1000;
+  const crawlSummary = {
+    start_url: crawl.startUrl,
+    pages_crawled: crawl.pages.length,
+    outline: crawl.outline.map((entry) => ({
+      url: entry.url,
+      title: entry.title,
+      depth: entry.depth,
+      parent_url: entry.parentUrl,
+    })),
+    site_outline: formatCrawlOutline(crawl.outline),
+    skipped: crawl.skipped,
+    robots_txt: crawl.robotsTxt,
+  };
+
+  if (crawl.pages.length === 0) {
+    return {
+      urls: [startUrl],
+      results: [],
+      sources: [],
+      response_time: responseTime,
+      crawl: crawlSummary,
+      error:
+        crawl.skipped.robots > 0
+          ? 'robots.txt does not allow crawling this site'
+          : 'Could not read any pages from this site',
+    };
+  }
+
+  return {
+    urls: [startUrl],
+    results: crawl.pages.map((page) => ({
+      url: page.url,
+      title: page.title,
+      description: page.description || summarize(page.content),
+      content: page.content,
+      author: undefined,
+      publishedDate: undefined,
+      image: page.image || undefined,
+      favicon: toFavicon(page.url),
+      language: 'en',
+    })),
+    sources: crawl.pages.map(() => 'crawl'),
+    response_time: responseTime,
+    crawl: crawlSummary,
+  };
+}
+
 export const retrieveTool = tool({
   description:
-    'Extract detailed content from one or multiple explicit URLs provided by the user. Uses EXA first and falls back to self-hosted Playwright extraction.',
+    'Extract detailed content from one or multiple explicit URLs provided by the user. Uses EXA first and falls back to self-hosted Playwright extraction. In crawl mode, reads a whole site section from the first URL by following its same-site links, and returns every page with a site outline.',
   inputSchema: z.object({
     url: z.array(z.string()).describe('Array of URLs to retrieve information from.'),
     content_type: z
@@ -225,21 +274,59 @@ export const retrieveTool = tool({
       .array(z.enum(['never', 'auto', 'preferred']))
       .optional()
       .describe('Array of crawl preferences, one per URL. Default is preferred.'),
+    mode: z
+      .enum(['fetch', 'crawl'])
+      .optional()
+      .describe(
+        'fetch (default) reads exactly the given URLs. crawl starts at the first URL and follows links on the same site, for questions about a whole documentation site or multi-page section.',
+      ),
+    max_depth: z
+      .number()
+      .int()
+      .min(0)
+      .max(MAX_CRAWL_DEPTH)
+      .optional()
+      .describe(`Crawl mode only: how many links away from the start page to follow. Default ${DEFAULT_CRAWL_DEPTH}.`),
+    max_pages: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_CRAWL_PAGES)
+      .optional()
+      .describe(`Crawl mode only: maximum number of pages to read. Default ${DEFAULT_CRAWL_PAGES}.`),
+    scope: z
+      .enum(['path', 'site'])
+      .optional()
+      .describe(
+        "Crawl mode only: path (default) stays under the start URL's directory, site allows any page on the same host.",
+      ),
   }),
   execute: async ({
     url,
     content_type,
     include_summary,
     live_crawl,
+    mode,
+    max_depth,
+    max_pages,
+    scope,
   }: {
     url: string[];
     content_type?: ContentTypeValue[];
     include_summary?: boolean[];
     live_crawl?: LiveCrawlValue[];
+    mode?: 'fetch' | 'crawl';
+    max_depth?: number;
+    max_pages?: number;
+    scope?: CrawlScope;
   }) => {
     const startTime = Date.now();
 
     try {
+      if (mode === 'crawl' && url.length > 0) {
+        return await crawlFromUrl(url[0], { maxDepth: max_depth, maxPages: max_pages, scope }, startTime);
+      }
+
       const urlCount = url.length;
       const contentTypes = content_type
         ? content_type.length === 1
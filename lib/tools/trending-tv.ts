@@ -1,5 +1,8 @@
 import { tool } from 'ai';
 import { z } from 'zod';
+import { ToolHttpError, toolFetchJson } from '@/lib/tool-http';
+
+const TRENDING_CACHE_TTL_SECONDS = 3600;
 
 const genreMap: Record<string, number> = {
   Action: 10759,
@@ -26,12 +29,10 @@ export const trendingTvTool = tool({
   inputSchema: z.object({}),
   execute: async () => {
     try {
-      const response = await fetch('https://itunes.apple.com/us/rss/toptvepisodes/limit=25/json');
-      if (!response.ok) {
-        throw new Error(`iTunes RSS failed: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const data = await toolFetchJson('https://itunes.apple.com/us/rss/toptvepisodes/limit=25/json', {
+        service: 'iTunes',
+        cacheTtlSeconds: TRENDING_CACHE_TTL_SECONDS,
+      });
       const entries = data?.feed?.entry || [];
 
       const results = entries.map((entry: any, index: number) => {
@@ -56,6 +57,7 @@ export const trendingTvTool = tool({
       return { results };
     } catch (error) {
       console.error('Trending TV shows error:', error);
+      if (error instanceof ToolHttpError) throw error;
       return { results: [] };
     }
   },
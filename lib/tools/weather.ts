@@ -1,5 +1,9 @@
 import { tool } from 'ai';
 import { z } from 'zod';
+import { toolFetchJson } from '@/lib/tool-http';
+
+const GEOCODE_CACHE_TTL_SECONDS = 86_400;
+const FORECAST_CACHE_TTL_SECONDS = 600;
 
 type WeatherCodeInfo = {
   description: string;
@@ -55,14 +59,10 @@ const getWeatherInfo = (code: number | null | undefined): WeatherCodeInfo => {
 };
 
 async function geocodeLocation(location: string) {
-  const response = await fetch(
+  const data = await toolFetchJson(
     `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1&language=en&format=json`,
+    { service: 'Open-Meteo', cacheTtlSeconds: GEOCODE_CACHE_TTL_SECONDS },
   );
-  if (!response.ok) {
-    throw new Error(`Geocoding failed: ${response.status}`);
-  }
-
-  const data = await response.json();
   if (!data.results || data.results.length === 0) {
     throw new Error(`Location '${location}' not found`);
   }
@@ -79,20 +79,17 @@ async function geocodeLocation(location: string) {
 
 async function reverseGeocode(latitude: number, longitude: number) {
   try {
-    const response = await fetch(
+    const data = await toolFetchJson(
       `https://nominatim.openstreetmap.org/reverse?format=jsonv2&lat=${latitude}&lon=${longitude}`,
       {
+        service: 'Nominatim',
         headers: {
           'User-Agent': 'scira-weather/1.0',
         },
+        retries: 0,
+        cacheTtlSeconds: GEOCODE_CACHE_TTL_SECONDS,
       },
     );
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const data = await response.json();
     return {
       name:
         data.address?.city ||
@@ -176,16 +173,13 @@ export const weatherTool = tool({
     airUrl.searchParams.set('timezone', 'auto');
     airUrl.searchParams.set('hourly', 'pm10,pm2_5,carbon_monoxide,nitrogen_dioxide,sulphur_dioxide,ozone,us_aqi');
 
-    const [forecastRes, airRes] = await Promise.all([fetch(forecastUrl.toString()), fetch(airUrl.toString())]);
-    if (!forecastRes.ok) {
-      throw new Error(`Forecast API failed: ${forecastRes.status}`);
-    }
-    if (!airRes.ok) {
-      throw new Error(`Air quality API failed: ${airRes.status}`);
-    }
-
-    const forecast = await forecastRes.json();
-    const air = await airRes.json();
+    const [forecast, air] = await Promise.all([
+      toolFetchJson(forecastUrl.toString(), { service: 'Open-Meteo', cacheTtlSeconds: FORECAST_CACHE_TTL_SECONDS }),
+      toolFetchJson(airUrl.toString(), {
+        service: 'Open-Meteo Air Quality',
+        cacheTtlSeconds: FORECAST_CACHE_TTL_SECONDS,
+      }),
+    ]);
 
     const times: string[] = forecast.hourly?.time || [];
     const hourlyList = times
@@ -32,6 +32,7 @@ import type {
 } from '@/lib/tools';
 
 import type { InferUITool, UIMessage } from 'ai';
+import type { CitationCheckData } from '@/lib/citation-check';
 
 export type DataPart = { type: 'append-message'; message: string };
 export type DataQueryCompletionPart = {
@@ -41,6 +42,7 @@ export type DataQueryCompletionPart = {
     index: number;
     total: number;
     status: 'started' | 'completed' | 'error';
+    provider?: string;
     resultsCount: number;
     imagesCount: number;
   };
@@ -110,7 +112,7 @@ export type MessageMetadata = z.infer<typeof messageMetadataSchema>;
 
 type weatherTool = InferUITool<typeof weatherTool>;
 type academicSearchTool = InferUITool<ReturnType<typeof academicSearchTool>>;
-type codeInterpreterTool = InferUITool<typeof codeInterpreterTool>;
+type codeInterpreterTool = InferUITool<ReturnType<typeof codeInterpreterTool>>;
 type coinDataTool = InferUITool<typeof coinDataTool>;
 type coinOhlcTool = InferUITool<typeof coinOhlcTool>;
 type currencyConverterTool = InferUITool<typeof currencyConverterTool>;
@@ -188,11 +190,13 @@ export type CustomUIDataTypes = {
     index: number;
     total: number;
     status: 'started' | 'completed' | 'error';
+    provider?: string;
     resultsCount: number;
     imagesCount: number;
   };
   extreme_search: DataExtremeSearchPart['data'];
   chat_title: { title: string };
+  citation_check: CitationCheckData;
 };
 
 export type ChatMessage = UIMessage<MessageMetadata, CustomUIDataTypes, ChatTools>;
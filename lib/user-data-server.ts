@@ -19,8 +19,12 @@ export type ComprehensiveUserData = {
   image: string | null;
   createdAt: Date;
   updatedAt: Date;
+  role: 'user' | 'admin';
+  suspendedAt: Date | null;
+  suspensionReason: string | null;
+  proGrantedUntil: Date | null;
   isProUser: boolean;
-  proSource: 'polar' | 'dodo' | 'none';
+  proSource: 'polar' | 'dodo' | 'manual' | 'none';
   subscriptionStatus: 'active' | 'canceled' | 'expired' | 'none';
   polarSubscription?: {
     id: string;
@@ -80,6 +84,9 @@ const userPreferencesCache = new Map<
 >();
 const USER_PREFERENCES_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
+// Pro access granted from the admin console counts until it expires
+export const hasActiveProGrant = (proGrantedUntil: Date | null) => !!proGrantedUntil && proGrantedUntil > new Date();
+
 function getCachedUserData(userId: string): ComprehensiveUserData | null {
   const cached = userDataCache.get(userId);
   if (cached && cached.expiresAt > Date.now()) {
@@ -200,7 +207,7 @@ export function clearUserPreferencesCache(userId?: string): void {
  * This is much faster than getComprehensiveUserData() and should be used
  * for early auth checks before fetching full user details.
  *
- * @returns Lightweight user auth data or null if not authenticated
+ * @returns Lightweight user auth data or null if not authenticated or suspended
  */
 export async function getLightweightUserAuth(): Promise<LightweightUserAuth | null> {
   try {
@@ -239,6 +246,8 @@ export async function getLightweightUserAuth(): Promise<LightweightUserAuth | nu
       .select({
         userId: user.id,
         email: user.email,
+        suspendedAt: user.suspendedAt,
+        proGrantedUntil: user.proGrantedUntil,
         subscriptionStatus: subscription.status,
         subscriptionEnd: subscription.currentPeriodEnd,
       })
@@ -250,13 +259,19 @@ export async function getLightweightUserAuth(): Promise<LightweightUserAuth | nu
       return null;
     }
 
+    // Suspended accounts keep their session cookie until it expires, so refuse them here
+    if (result[0].suspendedAt) {
+      return null;
+    }
+
     // Check for active Polar subscription (quick check)
     const hasActivePolarSub = result.some((row) => row.subscriptionStatus === 'active');
+    const hasProGrant = hasActiveProGrant(result[0].proGrantedUntil);
 
     // For Dodo Subscriptions, check cache first, then DB only if needed
     let isDodoActive = false;
 
-    if (!hasActivePolarSub) {
+    if (!hasActivePolarSub && !hasProGrant) {
       // Check cache first (fast path)
       const cachedDodoStatus = getDodoProStatus(userId);
       if (cachedDodoStatus !== null) {
@@ -299,7 +314,7 @@ export async function getLightweightUserAuth(): Promise<LightweightUserAuth | nu
     const lightweightData: LightweightUserAuth = {
       userId: result[0].userId,
       email: result[0].email,
-      isProUser: hasActivePolarSub || isDodoActive,
+      isProUser: hasActivePolarSub || isDodoActive || hasProGrant,
     };
 
     // Cache the result
@@ -345,6 +360,10 @@ export async function getComprehensiveUserData(): Promise<ComprehensiveUserData
         image: user.image,
         userCreatedAt: user.createdAt,
         userUpdatedAt: user.updatedAt,
+        role: user.role,
+        suspendedAt: user.suspendedAt,
+        suspensionReason: user.suspensionReason,
+        proGrantedUntil: user.proGrantedUntil,
         // Subscription fields (will be null if no subscription)
         subscriptionId: subscription.id,
         subscriptionCreatedAt: subscription.createdAt,
@@ -368,6 +387,10 @@ export async function getComprehensiveUserData(): Promise<ComprehensiveUserData
 
     const userData = userWithSubscriptions[0];
 
+    if (userData.suspendedAt) {
+      return null;
+    }
+
     // Fetch Dodo subscription data separately with optimized query
     // IMPORTANT: Use maindb for critical subscription queries to avoid replication lag
     const dodoSubscriptions = await maindb
@@ -456,7 +479,7 @@ export async function getComprehensiveUserData(): Promise<ComprehensiveUserData
 
     // Determine overall Pro status and source
     let isProUser = false;
-    let proSource: 'polar' | 'dodo' | 'none' = 'none';
+    let proSource: ComprehensiveUserData['proSource'] = 'none';
     let subscriptionStatus: 'active' | 'canceled' | 'expired' | 'none' = 'none';
 
     if (activePolarSubscription) {
@@ -467,6 +490,10 @@ export async function getComprehensiveUserData(): Promise<ComprehensiveUserData
       isProUser = true;
       proSource = 'dodo';
       subscriptionStatus = 'active';
+    } else if (hasActiveProGrant(userData.proGrantedUntil)) {
+      isProUser = true;
+      proSource = 'manual';
+      subscriptionStatus = 'active';
     } else {
       // Check for expired/canceled Polar subscriptions
       const latestPolarSubscription = polarSubscriptions.sort(
@@ -495,6 +522,10 @@ export async function getComprehensiveUserData(): Promise<ComprehensiveUserData
       image: userData.image,
       createdAt: userData.userCreatedAt,
       updatedAt: userData.userUpdatedAt,
+      role: userData.role,
+      suspendedAt: userData.suspendedAt,
+      suspensionReason: userData.suspensionReason,
+      proGrantedUntil: userData.proGrantedUntil,
       isProUser,
       proSource,
       subscriptionStatus,
@@ -550,7 +581,7 @@ export async function getUserSubscriptionStatus(): Promise<'active' | 'canceled'
   return userData?.subscriptionStatus || 'none';
 }
 
-export async function getProSource(): Promise<'polar' | 'dodo' | 'none'> {
+export async function getProSource(): Promise<ComprehensiveUserData['proSource']> {
   const userData = await getComprehensiveUserData();
   return userData?.proSource || 'none';
 }
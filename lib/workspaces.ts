@@ -0,0 +1,63 @@
+import 'server-only';
+
+import { cookies } from 'next/headers';
+import { getOrganizationMemberRole } from '@/lib/db/queries';
+import type { OrganizationRole } from '@/lib/db/schema';
+
+// Holds the id of the organization the user is working in; absent for the personal workspace
+export const WORKSPACE_COOKIE = 'scira-workspace';
+
+/**
+ * The organization selected in the workspace switcher, or null for the
+ * personal workspace. A stale cookie for an organization the user has left
+ * falls back to personal.
+ */
+export async function getActiveOrganizationId(userId: string): Promise<string | null> {
+  const organizationId = (await cookies()).get(WORKSPACE_COOKIE)?.value;
+  if (!organizationId) return null;
+
+  const role = await getOrganizationMemberRole({ organizationId, userId });
+  return role ? organizationId : null;
+}
+
+export async function setActiveOrganizationId(organizationId: string | null) {
+  const cookieStore = await cookies();
+  if (!organizationId) {
+    cookieStore.delete(WORKSPACE_COOKIE);
+    return;
+  }
+  cookieStore.set(WORKSPACE_COOKIE, organizationId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 60 * 60 * 24 * 365,
+  });
+}
+
+export const canManageOrganization = (role: OrganizationRole | null) => role === 'owner' || role === 'admin';
+
+interface WorkspaceResource {
+  userId: string;
+  organizationId: string | null;
+}
+
+/**
+ * Workspace chats and lookouts are open to every member of the organization;
+ * personal ones only to their creator.
+ */
+export function canAccessResource(resource: WorkspaceResource, userId: string, memberRole: OrganizationRole | null) {
+  return resource.organizationId ? memberRole !== null : resource.userId === userId;
+}
+
+// Deleting and reconfiguring is left to the creator and the organization's owners and admins
+export function canManageResource(resource: WorkspaceResource, userId: string, memberRole: OrganizationRole | null) {
+  if (!canAccessResource(resource, userId, memberRole)) return false;
+  return resource.userId === userId || canManageOrganization(memberRole);
+}
+
+// The user's role in the resource's organization; null for personal resources
+export async function getResourceMemberRole(resource: WorkspaceResource, userId: string) {
+  if (!resource.organizationId) return null;
+  return getOrganizationMemberRole({ organizationId: resource.organizationId, userId });
+}
@@ -44,7 +44,7 @@ const nextConfig: NextConfig = {
     },
   },
   // Ensure MathJax packages are treated as externals for server bundling
-  serverExternalPackages: ['@aws-sdk/client-s3', 'prettier'],
+  serverExternalPackages: ['@aws-sdk/client-s3', 'prettier', 'linkedom'],
   transpilePackages: [
     'geist',
     '@daytonaio/sdk',
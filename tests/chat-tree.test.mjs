@@ -0,0 +1,68 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { loadTs } from './helpers/load-ts.mjs';
+
+const { MessageTree } = await loadTs('@/lib/chat-tree');
+
+let clock = 0;
+const node = (id, parentId) => ({ id, parentId, createdAt: new Date(Date.UTC(2024, 0, 1, 0, 0, clock++)) });
+
+// u1 ─ a1 ─ u2 ─ a2
+//    └ a1b        └ a2b
+//         └ u2b ─ a3
+const tree = new MessageTree([
+  node('u1', null),
+  node('a1', 'u1'),
+  node('u2', 'a1'),
+  node('a2', 'u2'),
+  node('a1b', 'u1'),
+  node('u2b', 'a1b'),
+  node('a3', 'u2b'),
+  node('a2b', 'u2'),
+]);
+
+test('pathTo returns the ids from the root down to the message', () => {
+  assert.deepEqual(tree.pathTo('a2'), ['u1', 'a1', 'u2', 'a2']);
+  assert.deepEqual(tree.pathTo('a3'), ['u1', 'a1b', 'u2b', 'a3']);
+  assert.deepEqual(tree.pathTo('u1'), ['u1']);
+  assert.deepEqual(tree.pathTo('missing'), []);
+});
+
+test('latestLeaf follows the newest reply at every fork', () => {
+  assert.equal(tree.latestLeaf('u1'), 'a3');
+  assert.equal(tree.latestLeaf('a1'), 'a2b');
+  assert.equal(tree.latestLeaf('a2'), 'a2');
+});
+
+test('activeLeaf keeps a stored leaf and otherwise falls back to the newest message', () => {
+  assert.equal(tree.activeLeaf('a2'), 'a2');
+  assert.equal(tree.activeLeaf('deleted'), 'a2b');
+  assert.equal(tree.activeLeaf(null), 'a2b');
+  assert.equal(new MessageTree([]).activeLeaf(null), null);
+});
+
+test('siblingGroups lists every version at a position, oldest first', () => {
+  assert.deepEqual(tree.siblingGroups(), {
+    a1: ['a1', 'a1b'],
+    a1b: ['a1', 'a1b'],
+    a2: ['a2', 'a2b'],
+    a2b: ['a2', 'a2b'],
+  });
+});
+
+test('cycles do not loop forever', () => {
+  const cyclic = new MessageTree([node('x', 'z'), node('y', 'x'), node('z', 'y')]);
+
+  assert.deepEqual(cyclic.pathTo('y'), ['z', 'x', 'y']);
+  assert.equal(cyclic.latestLeaf('x'), 'x');
+  assert.deepEqual(cyclic.siblingGroups(), {});
+});
+
+test('messages whose parent is outside the chat are treated as roots', () => {
+  const orphaned = new MessageTree([node('r', null), node('a', 'r'), node('o', 'other-chat')]);
+
+  assert.deepEqual(orphaned.siblingGroups(), { r: ['r', 'o'], o: ['r', 'o'] });
+  assert.equal(orphaned.latestLeaf('o'), 'o');
+  assert.deepEqual(orphaned.pathTo('o'), ['o']);
+  assert.equal(orphaned.has('other-chat'), false);
+});
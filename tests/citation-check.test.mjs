@@ -0,0 +1,121 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { loadTs } from './helpers/load-ts.mjs';
+
+const { checkCitations, extractCitationSources, normalizeCitationUrl } = await loadTs('@/lib/citation-check');
+
+test('normalizeCitationUrl ignores scheme, www, fragments, tracking parameters and trailing slashes', () => {
+  assert.equal(
+    normalizeCitationUrl('https://www.Example.com/News/Fusion/?utm_source=x&id=2#top'),
+    'example.com/news/fusion?id=2',
+  );
+  assert.equal(normalizeCitationUrl('http://example.com/news/fusion?id=2'), 'example.com/news/fusion?id=2');
+  assert.equal(normalizeCitationUrl('https://example.com/'), 'example.com');
+  assert.equal(normalizeCitationUrl('  Not A URL '), 'not a url');
+});
+
+test('extractCitationSources collects documents from nested tool outputs by normalized URL', () => {
+  const sources = extractCitationSources([
+    {
+      searches: [
+        {
+          results: [
+            { url: 'https://www.example.com/fusion/', title: 'Fusion record', content: 'The reactor ran for an hour.' },
+            { url: 'ftp://example.com/file', content: 'Not a web document.' },
+          ],
+        },
+      ],
+    },
+    {
+      link: 'https://example.com/fusion#details',
+      snippet: 'The reactor ran for an hour.',
+      highlights: ['Output rose.'],
+    },
+    { sourceUrl: 'https://news.example.org/a', body: 'Second source.' },
+  ]);
+
+  assert.deepEqual(
+    [...sources],
+    [
+      ['example.com/fusion', 'Fusion record\n\nThe reactor ran for an hour.\n\nOutput rose.'],
+      ['news.example.org/a', 'Second source.'],
+    ],
+  );
+});
+
+const sources = new Map([
+  [
+    'example.com/fusion',
+    'The reactor produced 3.5 megawatts of fusion power in 2024. Engineers plan a larger device next year.',
+  ],
+  ['example.com/empty', '   '],
+]);
+
+const statuses = (answer) => checkCitations(answer, sources).citations.map((citation) => citation.status);
+
+test('claims whose key terms appear in the source are supported', () => {
+  const [citation] = checkCitations(
+    'The **reactor** produced 3.5 megawatts of fusion power [Fusion](https://www.example.com/fusion/?utm_medium=x).',
+    sources,
+  ).citations;
+
+  assert.equal(citation.status, 'supported');
+  assert.equal(citation.score, 1);
+  assert.equal(citation.title, 'Fusion');
+  assert.equal(citation.sentence, 'The reactor produced 3.5 megawatts of fusion power');
+  assert.match(citation.evidence, /^The reactor produced 3\.5 megawatts/);
+});
+
+test('claims that only partly overlap the source, or get its figures wrong, are partial', () => {
+  assert.deepEqual(
+    statuses(
+      'The reactor produced record power using novel magnets and superconducting cables [Fusion](https://example.com/fusion).',
+    ),
+    ['partial'],
+  );
+
+  const [wrongFigure] = checkCitations(
+    'The reactor produced 9 megawatts of fusion power [Fusion](https://example.com/fusion).',
+    sources,
+  ).citations;
+  assert.equal(wrongFigure.status, 'partial');
+  assert.equal(wrongFigure.score, 0.5);
+});
+
+test('claims the source does not back are unsupported', () => {
+  assert.deepEqual(
+    statuses('Solar panels dominate European electricity markets [Fusion](https://example.com/fusion).'),
+    ['unsupported'],
+  );
+});
+
+test('links that no tool returned are not_retrieved', () => {
+  const [citation] = checkCitations(
+    'The reactor produced 3.5 megawatts of fusion power [Blog](https://other.example.net/post).',
+    sources,
+  ).citations;
+  assert.equal(citation.status, 'not_retrieved');
+  assert.equal(citation.score, null);
+});
+
+test('short claims and sources without text are unchecked', () => {
+  assert.deepEqual(statuses('See this [report](https://example.com/fusion).'), ['unchecked']);
+  assert.deepEqual(statuses('The reactor produced 3.5 megawatts of fusion power [Empty](https://example.com/empty).'), [
+    'unchecked',
+  ]);
+});
+
+test('citations grouped after a sentence all check that sentence', () => {
+  const { citations } = checkCitations(
+    'Engineers plan a larger device next year. [Fusion](https://example.com/fusion) [Blog](https://other.example.net/post)',
+    sources,
+  );
+
+  assert.deepEqual(
+    citations.map((citation) => [citation.sentence, citation.status]),
+    [
+      ['Engineers plan a larger device next year.', 'supported'],
+      ['Engineers plan a larger device next year.', 'not_retrieved'],
+    ],
+  );
+});
@@ -0,0 +1,30 @@
+import { fileURLToPath } from 'node:url';
+import { createJiti } from 'jiti';
+
+const root = fileURLToPath(new URL('../..', import.meta.url));
+
+// env/server validates on import; tests never reach the services behind these
+const REQUIRED_SERVER_ENV = [
+  'DATABASE_URL',
+  'BETTER_AUTH_SECRET',
+  'REDIS_URL',
+  'UPSTASH_REDIS_REST_URL',
+  'UPSTASH_REDIS_REST_TOKEN',
+  'EXA_API_KEY',
+  'CRON_SECRET',
+  'BLOB_READ_WRITE_TOKEN',
+];
+for (const name of REQUIRED_SERVER_ENV) process.env[name] ??= 'test';
+
+const jiti = createJiti(import.meta.url, {
+  alias: { '@': root },
+  moduleCache: false,
+});
+
+/**
+ * Import a TypeScript module from the app by its `@/` path, so tests exercise
+ * the real source rather than a copy.
+ */
+export function loadTs(path) {
+  return jiti.import(path.replace(/^@\//, `${root}/`));
+}
@@ -0,0 +1,116 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { strToU8, zipSync } from 'fflate';
+import { loadTs } from './helpers/load-ts.mjs';
+
+const { parseImport, readImportFile } = await loadTs('@/lib/import');
+
+const fixture = (name) => readFileSync(new URL(`./fixtures/import/${name}`, import.meta.url));
+const texts = (message) => message.parts.map((part) => part.text);
+
+test('ChatGPT exports import the active branch as text', () => {
+  const parsed = parseImport(readImportFile(fixture('chatgpt-conversations.json')));
+
+  assert.equal(parsed.source, 'chatgpt');
+  assert.equal(parsed.chats.length, 1);
+  const [chat] = parsed.chats;
+  assert.equal(chat.title, 'Trip planning');
+  assert.equal(chat.createdAt.toISOString(), new Date(1700000000 * 1000).toISOString());
+  assert.equal(chat.updatedAt.toISOString(), new Date(1700000600 * 1000).toISOString());
+  assert.deepEqual(
+    chat.messages.map((message) => [message.role, texts(message), message.model]),
+    [
+      ['user', ['Where should I go in May?'], null],
+      ['assistant', ['Try Lisbon.'], 'gpt-4o'],
+      ['user', ['What about this place?'], null],
+      ['assistant', ["```\nprint('Porto')\n```"], 'gpt-4o'],
+    ],
+  );
+  assert.deepEqual(parsed.skipped, [
+    { chat: 'Trip planning', reason: 'Images and files (not included in the export text)', count: 1 },
+    { chat: 'Trip planning', reason: 'Tool messages', count: 1 },
+    { chat: 'Empty', reason: 'No importable messages', count: 1 },
+  ]);
+});
+
+test('Claude exports merge split replies and report tool calls and files', () => {
+  const parsed = parseImport(readImportFile(fixture('claude-conversations.json')));
+
+  assert.equal(parsed.source, 'claude');
+  assert.equal(parsed.chats.length, 1);
+  const [chat] = parsed.chats;
+  assert.equal(chat.title, 'Recipe ideas');
+  assert.deepEqual(
+    chat.messages.map((message) => [message.role, texts(message)]),
+    [
+      ['user', ['Something with leeks?']],
+      ['assistant', ['Leek and potato soup.', 'Or a leek tart.']],
+    ],
+  );
+  // Same timestamp in the export; stored order relies on strictly increasing created_at
+  assert.ok(chat.messages[1].createdAt > chat.messages[0].createdAt);
+  assert.deepEqual(parsed.skipped, [
+    { chat: 'Recipe ideas', reason: 'Attachments and files', count: 1 },
+    { chat: 'Recipe ideas', reason: 'Tool calls and results', count: 2 },
+    { chat: 'Imported chat', reason: 'No importable messages', count: 1 },
+  ]);
+});
+
+test('Scira exports keep the message tree and stored parts', () => {
+  const parsed = parseImport(readImportFile(fixture('scira-export.json')));
+
+  assert.equal(parsed.source, 'scira');
+  assert.equal(parsed.chats.length, 1);
+  const [chat] = parsed.chats;
+  assert.equal(chat.title, 'Exported chat');
+  assert.equal(chat.activeMessageId, 'm3');
+  assert.deepEqual(
+    chat.messages.map((message) => [message.id, message.parentId]),
+    [
+      ['m1', null],
+      ['m2', 'm1'],
+      ['m3', 'm1'],
+    ],
+  );
+  assert.equal(chat.messages[1].parts[0].type, 'tool-web_search');
+  assert.equal(chat.messages[1].totalTokens, 160);
+  assert.equal(chat.messages[2].totalTokens, null);
+  assert.deepEqual(chat.messages[2].attachments, []);
+  assert.deepEqual(parsed.skipped, [{ chat: 'Exported chat', reason: 'Malformed messages', count: 1 }]);
+});
+
+test('unrecognised JSON is not parsed as an export', () => {
+  assert.equal(parseImport([{ messages: [] }]), null);
+  assert.equal(parseImport({ format: 'other' }), null);
+});
+
+test('zip archives are read from the top-most conversations.json', () => {
+  const archive = zipSync({
+    'chat.html': strToU8('<html></html>'),
+    'backup/conversations.json': strToU8('[]'),
+    'conversations.json': new Uint8Array(fixture('claude-conversations.json')),
+  });
+
+  const parsed = parseImport(readImportFile(archive));
+  assert.equal(parsed.source, 'claude');
+  assert.equal(parsed.chats[0].title, 'Recipe ideas');
+});
+
+test('zip archives without conversations.json are rejected', () => {
+  const archive = zipSync({ 'chat.html': strToU8('<html></html>') });
+  assert.throws(() => readImportFile(archive), /does not contain conversations\.json/);
+});
+
+test('conversations.json that inflates past the limit is rejected', () => {
+  const json = `[${'{"chat_messages":[]},'.repeat(50_000)}{}]`;
+  const archive = zipSync({ 'conversations.json': strToU8(json) }, { level: 9 });
+  assert.ok(archive.length < json.length / 50);
+
+  assert.throws(() => readImportFile(archive, 64 * 1024), /larger than/);
+  assert.equal(readImportFile(archive, json.length).length, 50_001);
+
+  // An archive that understates the size in its local header is still cut off while inflating
+  new DataView(archive.buffer, archive.byteOffset).setUint32(22, 16, true);
+  assert.throws(() => readImportFile(archive, 64 * 1024), /larger than/);
+});
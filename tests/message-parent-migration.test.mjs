@@ -0,0 +1,51 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { PGlite } from '@electric-sql/pglite';
+
+// The migration that introduced message trees links existing messages into chains
+const migration = readFileSync(new URL('../drizzle/migrations/0016_sour_preak.sql', import.meta.url), 'utf8');
+
+test('existing messages are linked to the previous message of the same chat', async () => {
+  const db = new PGlite();
+  try {
+    await db.exec(`
+      CREATE TABLE "chat" ("id" text PRIMARY KEY);
+      CREATE TABLE "message" (
+        "id" text PRIMARY KEY,
+        "chat_id" text NOT NULL REFERENCES "chat"("id") ON DELETE cascade,
+        "created_at" timestamp NOT NULL
+      );
+      INSERT INTO "chat" VALUES ('c1'), ('c2'), ('c3');
+      INSERT INTO "message" VALUES
+        ('m3', 'c1', '2024-01-01 00:00:03'),
+        ('m1', 'c1', '2024-01-01 00:00:01'),
+        ('m2', 'c1', '2024-01-01 00:00:02'),
+        -- Same timestamp: the id breaks the tie
+        ('b', 'c2', '2024-01-01 00:00:00'),
+        ('a', 'c2', '2024-01-01 00:00:00'),
+        ('c', 'c2', '2024-01-01 00:00:05'),
+        ('only', 'c3', '2024-01-01 00:00:00');
+    `);
+
+    for (const statement of migration.split('--> statement-breakpoint')) {
+      await db.exec(statement);
+    }
+
+    const { rows } = await db.query(`SELECT "id", "parent_id" FROM "message" ORDER BY "chat_id", "created_at", "id"`);
+    assert.deepEqual(rows, [
+      { id: 'm1', parent_id: null },
+      { id: 'm2', parent_id: 'm1' },
+      { id: 'm3', parent_id: 'm2' },
+      { id: 'a', parent_id: null },
+      { id: 'b', parent_id: 'a' },
+      { id: 'c', parent_id: 'b' },
+      { id: 'only', parent_id: null },
+    ]);
+
+    const chats = await db.query(`SELECT "active_message_id" FROM "chat"`);
+    assert.ok(chats.rows.every((chat) => chat.active_message_id === null));
+  } finally {
+    await db.close();
+  }
+});
@@ -0,0 +1,102 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { loadTs } from './helpers/load-ts.mjs';
+
+const { toolFetch, toolFetchJson } = await loadTs('@/lib/tool-http');
+
+// fetch that holds every request open until released, tracking how many run at once
+function holdingFetch(t) {
+  const pending = [];
+  const state = { inFlight: 0, maxInFlight: 0, pending };
+  t.mock.method(globalThis, 'fetch', (url, { signal }) => {
+    state.inFlight++;
+    state.maxInFlight = Math.max(state.maxInFlight, state.inFlight);
+    return new Promise((resolve, reject) => {
+      const done = () => {
+        state.inFlight--;
+        resolve(new Response('ok'));
+      };
+      pending.push(done);
+      signal.addEventListener('abort', () => {
+        state.inFlight--;
+        reject(signal.reason);
+      });
+    });
+  });
+  return state;
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+test('requests to one host never exceed its concurrency limit', async (t) => {
+  const state = holdingFetch(t);
+  const requests = Array.from({ length: 10 }, () =>
+    toolFetch('https://limit.example.com/', { service: 'Example', retries: 0 }),
+  );
+
+  await tick();
+  assert.equal(state.inFlight, 6);
+
+  while (state.pending.length > 0) {
+    state.pending.shift()();
+    await tick();
+    assert.ok(state.inFlight <= 6);
+  }
+  await Promise.all(requests);
+  assert.equal(state.maxInFlight, 6);
+});
+
+test('an aborted request leaves the queue without taking a slot', async (t) => {
+  const state = holdingFetch(t);
+  const running = Array.from({ length: 6 }, () =>
+    toolFetch('https://abort.example.com/', { service: 'Example', retries: 0 }),
+  );
+  const controller = new AbortController();
+  const queued = toolFetch('https://abort.example.com/', {
+    service: 'Example',
+    retries: 0,
+    signal: controller.signal,
+  });
+  const next = toolFetch('https://abort.example.com/', { service: 'Example', retries: 0 });
+
+  await tick();
+  controller.abort(new Error('cancelled'));
+  await assert.rejects(queued, /cancelled/);
+
+  state.pending.shift()();
+  await tick();
+  // The freed slot went to the request queued after the aborted one
+  assert.equal(state.inFlight, 6);
+  while (state.pending.length > 0) state.pending.shift()();
+  await Promise.all([...running, next]);
+});
+
+test('JSON requests hold the host slot until the body has downloaded', async (t) => {
+  const bodies = [];
+  let calls = 0;
+  t.mock.method(globalThis, 'fetch', async () => {
+    calls++;
+    const body = new ReadableStream({ start: (controller) => bodies.push(controller) });
+    return new Response(body, { headers: { 'content-type': 'application/json' } });
+  });
+
+  // OpenSky allows one request at a time
+  const first = toolFetchJson('https://opensky-network.org/api/states/all', { service: 'OpenSky', retries: 0 });
+  const second = toolFetchJson('https://opensky-network.org/api/states/all', { service: 'OpenSky', retries: 0 });
+
+  await tick();
+  assert.equal(calls, 1);
+  bodies[0].enqueue(new TextEncoder().encode('{"states":'));
+  await tick();
+  assert.equal(calls, 1);
+
+  bodies[0].enqueue(new TextEncoder().encode('[]}'));
+  bodies[0].close();
+  assert.deepEqual(await first, { states: [] });
+  await tick();
+  assert.equal(calls, 2);
+
+  bodies[1].enqueue(new TextEncoder().encode('{}'));
+  bodies[1].close();
+  assert.deepEqual(await second, {});
+});